@@ -0,0 +1,168 @@
+/**
+ * Bridge Bot
+ * Plays a BridgeGame seat in-process through the same engine methods humans use,
+ * dummy's cards included when it declares. Bids a plain natural system from
+ * high card points and suit length: opens on 12, looks for an eight-card fit,
+ * jumps to game or slam when the partnership's points are there, and doubles
+ * opponents who bid too high. Plays every trick to win it for its side as
+ * cheaply as it can.
+ */
+
+import { RANK_VALUES, SUITS, getCardsOfSuit, determineTrickWinnerWithTrump } from '../shared/cards.js';
+import { BRIDGE_PASS, BRIDGE_DOUBLE, BRIDGE_STRAINS, isBid, getBidRank } from '../games/BridgeGame.js';
+
+const HIGH_CARD_POINTS = { A: 4, K: 3, Q: 2, J: 1 };
+
+// Points a partner's bids promise: an opening bid, or anything after ours
+const OPENING_POINTS = 12;
+const RESPONSE_POINTS = 7;
+
+// Partnership points needed to bid each level (index = level); game and slams below
+const LEVEL_POINTS = [0, 12, 20, 23];
+const GAME_LEVEL = { clubs: 5, diamonds: 5, hearts: 4, spades: 4, notrump: 3 };
+const GAME_POINTS = { clubs: 29, diamonds: 29, hearts: 25, spades: 25, notrump: 25 };
+const SMALL_SLAM_POINTS = 33;
+const GRAND_SLAM_POINTS = 37;
+
+const DOUBLE_MIN_LEVEL = 4;
+const DOUBLE_MIN_POINTS = 16;
+
+/**
+ * High card points plus one for every card past four in a suit
+ */
+export function countPoints(hand) {
+  let points = hand.reduce((total, card) => total + (HIGH_CARD_POINTS[card.rank] || 0), 0);
+  for (const suit of SUITS) {
+    points += Math.max(0, getCardsOfSuit(hand, suit).length - 4);
+  }
+  return points;
+}
+
+// No singleton or void, at most one doubleton
+function isBalanced(hand) {
+  const lengths = SUITS.map(suit => getCardsOfSuit(hand, suit).length);
+  return lengths.every(length => length >= 2) && lengths.filter(length => length === 2).length <= 1;
+}
+
+// Highest level worth bidding in `strain` with `points` between the partners
+function getMaxLevel(strain, points) {
+  if (points >= GRAND_SLAM_POINTS) return 7;
+  if (points >= SMALL_SLAM_POINTS) return 6;
+  if (points >= GAME_POINTS[strain]) return GAME_LEVEL[strain];
+  const level = LEVEL_POINTS.findLastIndex(needed => points >= needed);
+  return Math.min(level, GAME_LEVEL[strain] - 1);
+}
+
+// Cheapest level at which `strain` outbids `highest` (a call), 1 with no bid yet
+function getCheapestLevel(strain, highest) {
+  if (!highest) return 1;
+  const sameLevel = { level: highest.level, strain };
+  return getBidRank(sameLevel) > getBidRank(highest) ? highest.level : highest.level + 1;
+}
+
+// Trumps rank above every side card when choosing what to keep
+function cardValue(card, trumpSuit) {
+  return RANK_VALUES[card.rank] + (card.suit === trumpSuit ? 13 : 0);
+}
+
+function lowest(cards, trumpSuit) {
+  return [...cards].sort((a, b) => cardValue(a, trumpSuit) - cardValue(b, trumpSuit))[0];
+}
+
+function highest(cards, trumpSuit) {
+  return [...cards].sort((a, b) => cardValue(b, trumpSuit) - cardValue(a, trumpSuit))[0];
+}
+
+// Would this card, added to the trick, take it over?
+function beats(trick, card, trumpSuit) {
+  if (trick.length === 0) return true;
+  return determineTrickWinnerWithTrump([...trick, { seat: -1, card }], trumpSuit) === -1;
+}
+
+export class BridgeBot {
+  chooseBid(game, seat) {
+    const hand = game.hands[seat];
+    const points = countPoints(hand);
+    const partner = game.getPartnerSeat(seat);
+    const highestBid = game.getHighestBid();
+    const highest = highestBid ? highestBid.call : null;
+
+    // Opponents who outbid what they hold between them get doubled
+    if (highest && highest.level >= DOUBLE_MIN_LEVEL && points >= DOUBLE_MIN_POINTS && game.canDouble(seat)) {
+      return BRIDGE_DOUBLE;
+    }
+
+    const bids = game.calls.filter(c => isBid(c.call));
+    const partnerBids = bids.filter(c => c.seat === partner);
+    const partnerPoints = partnerBids.length === 0 ? 0 : bids[0].seat === partner ? OPENING_POINTS : RESPONSE_POINTS;
+
+    const strain = this.chooseStrain(hand, partnerBids.map(c => c.call.strain), partnerPoints > 0);
+    const maxLevel = getMaxLevel(strain, points + partnerPoints);
+    const cheapest = getCheapestLevel(strain, highest);
+    if (cheapest > maxLevel) return BRIDGE_PASS;
+
+    // Bid game or slam straight away once the points are there
+    const level = maxLevel >= GAME_LEVEL[strain] && partnerPoints > 0 ? maxLevel : cheapest;
+    return { level, strain };
+  }
+
+  /**
+   * A suit with eight known cards between us (majors first), otherwise
+   * notrump with a balanced hand, otherwise our longest suit
+   */
+  chooseStrain(hand, partnerStrains, partnerHasBid) {
+    const length = suit => getCardsOfSuit(hand, suit).length;
+    const bySuitPreference = [...BRIDGE_STRAINS.slice(0, 4)].reverse();
+
+    const fits = bySuitPreference.filter(suit => length(suit) + (partnerStrains.includes(suit) ? 4 : 0) >= 8);
+    if (fits.length > 0) return fits[0];
+
+    if (isBalanced(hand) && (partnerHasBid || countPoints(hand) >= 15)) return 'notrump';
+
+    return bySuitPreference.reduce((best, suit) => (length(suit) > length(best) ? suit : best));
+  }
+
+  /**
+   * Lead an ace, otherwise low from the longest side suit.
+   * Following: leave a trick partner has won, otherwise win as cheaply as
+   * possible, or throw the lowest card.
+   */
+  chooseCard(game, seat) {
+    const legalCards = game.getLegalCards(seat);
+    if (legalCards.length <= 1) return legalCards[0] ?? null;
+
+    const trumpSuit = game.trumpSuit;
+    const trick = game.currentTrick;
+
+    if (trick.length === 0) {
+      const aces = legalCards.filter(c => c.rank === 'A' && c.suit !== trumpSuit);
+      if (aces.length > 0) return aces[0];
+      const sideCards = legalCards.filter(c => c.suit !== trumpSuit);
+      const pool = sideCards.length > 0 ? sideCards : legalCards;
+      const longest = SUITS.reduce((best, suit) =>
+        (getCardsOfSuit(pool, suit).length > getCardsOfSuit(pool, best).length ? suit : best));
+      return lowest(getCardsOfSuit(pool, longest), trumpSuit);
+    }
+
+    const playingLast = trick.length === game.numPlayers - 1;
+    const winner = determineTrickWinnerWithTrump(trick, trumpSuit);
+    const winningCard = trick.find(p => p.seat === winner).card;
+    if (winner === game.getPartnerSeat(seat) && (playingLast || RANK_VALUES[winningCard.rank] >= 13)) {
+      return this.discard(legalCards, trumpSuit);
+    }
+
+    const winners = legalCards.filter(c => beats(trick, c, trumpSuit));
+    if (winners.length === 0) return this.discard(legalCards, trumpSuit);
+
+    // Ruff as cheaply as possible; following suit, play high unless we are last
+    const sameSuit = winners.filter(c => c.suit === trick[0].card.suit);
+    if (sameSuit.length === 0) return lowest(winners, trumpSuit);
+    return playingLast ? lowest(sameSuit, trumpSuit) : highest(sameSuit, trumpSuit);
+  }
+
+  // Throw the least useful card: lowest side card, trumps last
+  discard(legalCards, trumpSuit) {
+    const sideCards = legalCards.filter(c => c.suit !== trumpSuit);
+    return lowest(sideCards.length > 0 ? sideCards : legalCards, trumpSuit);
+  }
+}
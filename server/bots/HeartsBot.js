@@ -0,0 +1,58 @@
+/**
+ * Hearts Bot
+ * Plays a HeartsGame seat in-process through the same engine methods humans use
+ */
+
+import { RANK_VALUES } from '../shared/cards.js';
+
+function isQueenOfSpades(card) {
+  return card.suit === 'spades' && card.rank === 'Q';
+}
+
+function lowestFirst(cards) {
+  return [...cards].sort((a, b) => RANK_VALUES[a.rank] - RANK_VALUES[b.rank]);
+}
+
+// How badly we want to get rid of a card (Q♠ and high spades first, then high hearts)
+function danger(card) {
+  if (isQueenOfSpades(card)) return 100;
+  if (card.suit === 'spades' && (card.rank === 'K' || card.rank === 'A')) return 90;
+  if (card.suit === 'hearts') return 40 + RANK_VALUES[card.rank];
+  return RANK_VALUES[card.rank];
+}
+
+export function mostDangerousFirst(cards) {
+  return [...cards].sort((a, b) => danger(b) - danger(a));
+}
+
+export class HeartsBot {
+  /**
+   * Pick 3 cards to pass: Q♠ and high spades first, then high hearts, then high cards
+   */
+  choosePass(game, seat) {
+    return mostDangerousFirst(game.hands[seat]).slice(0, 3);
+  }
+
+  /**
+   * Play the lowest legal card, avoiding Q♠ and hearts where possible.
+   * When void in the led suit, dump the most dangerous card instead.
+   */
+  chooseCard(game, seat) {
+    const legalCards = game.getLegalCards(seat);
+    if (legalCards.length === 0) return null;
+
+    const ledSuit = game.currentTrick[0]?.card.suit;
+    const isDiscarding = ledSuit && !legalCards.some(c => c.suit === ledSuit);
+    if (isDiscarding && game.tricksPlayed > 0) {
+      return mostDangerousFirst(legalCards)[0];
+    }
+
+    const withoutQueen = legalCards.filter(c => !isQueenOfSpades(c));
+    const candidates = withoutQueen.length > 0 ? withoutQueen : legalCards;
+
+    const withoutHearts = candidates.filter(c => c.suit !== 'hearts');
+    const finalCandidates = withoutHearts.length > 0 ? withoutHearts : candidates;
+
+    return lowestFirst(finalCandidates)[0];
+  }
+}
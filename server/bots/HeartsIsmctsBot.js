@@ -0,0 +1,306 @@
+/**
+ * Hearts ISMCTS Bot
+ * Information-set Monte Carlo tree search. Every iteration deals the cards this
+ * seat cannot see to the other seats, consistent with what it has observed
+ * (cards already played, suits others have shown out of, the cards it passed),
+ * then searches one shared tree over all of those sampled worlds using
+ * HeartsGame's own getLegalCards/playCard. The simulation budget is the difficulty.
+ *
+ * The searches are generators that yield every SLICE_ITERATIONS simulations:
+ * choosePass/chooseCard run them in one go (simulations), the *Async versions
+ * give the event loop a turn between slices so the server's other tables keep running.
+ */
+
+import { createDeck, cardEquals } from '../shared/cards.js';
+import { SeededRandom } from '../shared/random.js';
+import { getReceiverIndex } from '../games/HeartsGame.js';
+import { HeartsBot, mostDangerousFirst } from './HeartsBot.js';
+
+// Simulations per decision
+export const HEARTS_DIFFICULTY_BUDGETS = {
+  easy: 50,
+  medium: 300,
+  hard: 1200,
+};
+
+const EXPLORATION = 0.7;          // UCB exploration constant
+const ROLLOUT_RANDOMNESS = 0.25;  // Share of rollout plays made at random instead of by the heuristic
+const PASS_POOL_SIZE = 6;         // Pass candidates are 3-card subsets of the most dangerous cards
+const DEAL_ATTEMPTS = 50;
+const SLICE_ITERATIONS = 20;      // Simulations between yields, around 10 ms of CPU
+
+// Run a search to the end without yielding
+function runToEnd(search) {
+  let step = search.next();
+  while (!step.done) step = search.next();
+  return step.value;
+}
+
+// Run a search a slice at a time, letting pending I/O and timers in between slices
+async function runInSlices(search) {
+  let step = search.next();
+  while (!step.done) {
+    await new Promise(resolve => setImmediate(resolve));
+    step = search.next();
+  }
+  return step.value;
+}
+
+function cardKey(card) {
+  return `${card.rank}${card.suit}`;
+}
+
+// Score in [0, 1] for a finished simulated round, higher is better
+function roundReward(sim, seat) {
+  const points = Math.max(0, Math.min(26, sim.roundScores[seat]));
+  return 1 - points / 26;
+}
+
+function combinations(cards, size) {
+  if (size === 0) return [[]];
+  if (cards.length < size) return [];
+  const [first, ...rest] = cards;
+  return [
+    ...combinations(rest, size - 1).map(combo => [first, ...combo]),
+    ...combinations(rest, size),
+  ];
+}
+
+class SearchNode {
+  constructor(parent, move, seat) {
+    this.parent = parent;
+    this.move = move;    // Card played to reach this node
+    this.seat = seat;    // Seat that played it
+    this.children = new Map();
+    this.visits = 0;
+    this.reward = 0;
+    this.avails = 1;     // Times this move was legal when its parent was visited
+  }
+
+  ucb() {
+    return this.reward / this.visits + EXPLORATION * Math.sqrt(Math.log(this.avails) / this.visits);
+  }
+}
+
+export class HeartsIsmctsBot {
+  constructor({ iterations = HEARTS_DIFFICULTY_BUDGETS.medium, rng = new SeededRandom() } = {}) {
+    this.iterations = iterations;
+    this.rng = rng;
+    this.policy = new HeartsBot();  // Rollouts and other seats' simulated passes
+  }
+
+  choosePass(game, seat) {
+    return runToEnd(this.searchPass(game, seat));
+  }
+
+  choosePassAsync(game, seat) {
+    return runInSlices(this.searchPass(game, seat));
+  }
+
+  chooseCard(game, seat) {
+    return runToEnd(this.searchCard(game, seat));
+  }
+
+  chooseCardAsync(game, seat) {
+    return runInSlices(this.searchCard(game, seat));
+  }
+
+  /**
+   * Evaluate 3-card subsets of our most dangerous cards by playing each one out
+   * in the same sampled worlds, so candidates are compared on equal footing.
+   * Searches a copy, as the table's game can move on while a sliced search waits.
+   */
+  *searchPass(liveGame, seat) {
+    const game = liveGame.clone();
+    const heuristic = this.policy.choosePass(game, seat);
+    const pool = mostDangerousFirst(game.hands[seat]).slice(0, PASS_POOL_SIZE);
+    const candidates = [
+      heuristic,
+      ...combinations(pool, 3).filter(combo => !combo.every(c => heuristic.some(h => cardEquals(c, h)))),
+    ];
+
+    const samples = Math.max(1, Math.floor(this.iterations / candidates.length));
+    const totals = candidates.map(() => 0);
+    let rollouts = 0;
+
+    for (let i = 0; i < samples; i++) {
+      const world = this.determinize(game, seat);
+      world.passes = {};
+      const rolloutSeed = this.rng.nextSeed();
+
+      candidates.forEach((candidate, index) => {
+        const sim = world.clone();
+        for (let other = 0; other < 4; other++) {
+          if (other !== seat) {
+            sim.submitPass(other, this.policy.choosePass(sim, other));
+          }
+        }
+        sim.submitPass(seat, candidate);
+
+        this.rollout(sim, new SeededRandom(rolloutSeed));
+        totals[index] += roundReward(sim, seat);
+      });
+
+      // Every sample plays out all the candidates
+      rollouts += candidates.length;
+      if (rollouts >= SLICE_ITERATIONS) {
+        rollouts = 0;
+        yield;
+      }
+    }
+
+    let best = 0;
+    for (let i = 1; i < candidates.length; i++) {
+      if (totals[i] > totals[best]) best = i;
+    }
+    return candidates[best];
+  }
+
+  *searchCard(liveGame, seat) {
+    const game = liveGame.clone();
+    const legalCards = game.getLegalCards(seat);
+    if (legalCards.length <= 1) return legalCards[0] ?? null;
+
+    const root = new SearchNode(null, null, null);
+
+    for (let i = 0; i < this.iterations; i++) {
+      const sim = this.determinize(game, seat);
+      let node = root;
+
+      // Selection and expansion
+      while (sim.phase === 'playing') {
+        const player = sim.currentPlayer;
+        const legal = sim.getLegalCards(player);
+        const untried = legal.filter(c => !node.children.has(cardKey(c)));
+
+        let next = null;
+        for (const card of legal) {
+          const child = node.children.get(cardKey(card));
+          if (!child) continue;
+          child.avails++;
+          if (untried.length === 0 && (!next || child.ucb() > next.ucb())) {
+            next = child;
+          }
+        }
+
+        if (untried.length > 0) {
+          const move = untried[this.rng.nextInt(untried.length)];
+          next = new SearchNode(node, move, player);
+          node.children.set(cardKey(move), next);
+          sim.playCard(player, move);
+          node = next;
+          break;
+        }
+
+        sim.playCard(player, next.move);
+        node = next;
+      }
+
+      this.rollout(sim, this.rng);
+
+      // Each node is scored from the point of view of the seat that moved into it
+      for (let n = node; n.parent; n = n.parent) {
+        n.visits++;
+        n.reward += roundReward(sim, n.seat);
+      }
+
+      if ((i + 1) % SLICE_ITERATIONS === 0) yield;
+    }
+
+    let best = null;
+    for (const child of root.children.values()) {
+      if (!best || child.visits > best.visits) best = child;
+    }
+    return best ? legalCards.find(c => cardEquals(c, best.move)) : legalCards[0];
+  }
+
+  rollout(sim, rng) {
+    while (sim.phase === 'playing') {
+      const player = sim.currentPlayer;
+      const legal = sim.getLegalCards(player);
+      const card = rng.next() < ROLLOUT_RANDOMNESS
+        ? legal[rng.nextInt(legal.length)]
+        : this.policy.chooseCard(sim, player);
+      sim.playCard(player, card);
+    }
+  }
+
+  /**
+   * Copy of the game where every card this seat cannot see has been dealt at
+   * random to the other seats, respecting their hand sizes, the suits they are
+   * known to be out of and where our passed cards went
+   */
+  determinize(game, seat) {
+    const sim = game.clone();
+
+    const seen = new Set(game.hands[seat].map(cardKey));
+    const voids = [new Set(), new Set(), new Set(), new Set()];
+    const tricks = [...game.tricksTaken.flat(), game.currentTrick];
+
+    for (const trick of tricks) {
+      if (trick.length === 0) continue;
+      const ledSuit = trick[0].card.suit;
+      for (const { seat: player, card } of trick) {
+        seen.add(cardKey(card));
+        if (card.suit !== ledSuit) voids[player].add(ledSuit);
+      }
+    }
+
+    const others = [0, 1, 2, 3].filter(s => s !== seat);
+    const fixed = { [others[0]]: [], [others[1]]: [], [others[2]]: [] };
+
+    // Cards we passed are in the receiver's hand until they show up on the table
+    if (game.passedCards && game.passDirection !== 'hold') {
+      const receiver = getReceiverIndex(seat, game.passDirection);
+      for (const card of game.passedCards[seat]) {
+        if (!seen.has(cardKey(card))) {
+          fixed[receiver].push(card);
+          seen.add(cardKey(card));
+        }
+      }
+    }
+
+    const unknown = createDeck().filter(c => !seen.has(cardKey(c)));
+
+    for (let attempt = 0; attempt < DEAL_ATTEMPTS; attempt++) {
+      // Give up on void constraints in the last attempt rather than fail
+      const respectVoids = attempt < DEAL_ATTEMPTS - 1;
+      const hands = this.dealUnknown(unknown, game, others, fixed, respectVoids ? voids : null);
+      if (hands) {
+        for (const other of others) sim.hands[other] = hands[other];
+        return sim;
+      }
+    }
+
+    return sim;
+  }
+
+  dealUnknown(unknown, game, others, fixed, voids) {
+    const hands = {};
+    const room = {};
+    for (const other of others) {
+      hands[other] = [...fixed[other]];
+      room[other] = game.hands[other].length - fixed[other].length;
+    }
+
+    const shuffled = [...unknown];
+    for (let i = shuffled.length - 1; i > 0; i--) {
+      const j = this.rng.nextInt(i + 1);
+      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+    }
+
+    // Most constrained cards first
+    const eligible = card => others.filter(s => room[s] > 0 && !(voids && voids[s].has(card.suit)));
+    shuffled.sort((a, b) => eligible(a).length - eligible(b).length);
+
+    for (const card of shuffled) {
+      const seats = eligible(card);
+      if (seats.length === 0) return null;
+      const target = seats[this.rng.nextInt(seats.length)];
+      hands[target].push(card);
+      room[target]--;
+    }
+
+    return hands;
+  }
+}
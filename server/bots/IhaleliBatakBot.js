@@ -0,0 +1,115 @@
+/**
+ * İhaleli Batak Bot
+ * Plays an IhaleliBatakGame seat in-process through the same engine methods humans use.
+ * Bids up to its trick estimate for its best trump suit, names that suit when it
+ * wins the auction, and plays every trick to win it as cheaply as it can, since
+ * every seat scores the tricks it takes.
+ */
+
+import { RANK_VALUES, SUITS, getCardsOfSuit, hasCard, determineTrickWinnerWithTrump } from '../shared/cards.js';
+import { BATAK_PASS } from '../games/IhaleliBatakGame.js';
+
+function lowest(cards, trumpSuit) {
+  return [...cards].sort((a, b) => cardValue(a, trumpSuit) - cardValue(b, trumpSuit))[0];
+}
+
+function highest(cards, trumpSuit) {
+  return [...cards].sort((a, b) => cardValue(b, trumpSuit) - cardValue(a, trumpSuit))[0];
+}
+
+// Trumps rank above every side card when choosing what to keep
+function cardValue(card, trumpSuit) {
+  return RANK_VALUES[card.rank] + (card.suit === trumpSuit ? 13 : 0);
+}
+
+// Would this card, added to the trick, take it over?
+function beats(trick, card, trumpSuit) {
+  if (trick.length === 0) return true;
+  return determineTrickWinnerWithTrump([...trick, { seat: -1, card }], trumpSuit) === -1;
+}
+
+/**
+ * Expected tricks from a hand with `trumpSuit` as trump: the trump honours,
+ * trump length past four, side suit aces and protected kings, and ruffs in
+ * short side suits with trumps to spare
+ */
+export function estimateTricks(hand, trumpSuit) {
+  const trumps = getCardsOfSuit(hand, trumpSuit);
+  let tricks = 0;
+
+  if (hasCard(hand, trumpSuit, 'A')) tricks += 1;
+  if (hasCard(hand, trumpSuit, 'K')) tricks += trumps.length >= 2 ? 1 : 0.5;
+  if (hasCard(hand, trumpSuit, 'Q')) tricks += trumps.length >= 3 ? 0.75 : 0.25;
+  tricks += Math.max(0, trumps.length - 4);
+
+  let spareTrumps = Math.max(0, Math.min(4, trumps.length) - 2);
+  for (const suit of SUITS.filter(s => s !== trumpSuit)) {
+    const length = getCardsOfSuit(hand, suit).length;
+
+    if (hasCard(hand, suit, 'A')) tricks += length >= 6 ? 0.75 : 1;
+    if (hasCard(hand, suit, 'K') && length >= 2 && length <= 5) {
+      tricks += hasCard(hand, suit, 'A') ? 0.8 : 0.5;
+    }
+
+    if (length <= 1 && spareTrumps > 0) {
+      const ruffs = Math.min(spareTrumps, 2 - length);
+      tricks += ruffs * 0.75;
+      spareTrumps -= ruffs;
+    }
+  }
+
+  return Math.min(hand.length, tricks);
+}
+
+/**
+ * The trump suit a hand expects the most tricks from
+ */
+export function chooseBestTrump(hand) {
+  let best = { suit: SUITS[0], tricks: -1 };
+  for (const suit of SUITS) {
+    const tricks = estimateTricks(hand, suit);
+    if (tricks > best.tricks) best = { suit, tricks };
+  }
+  return best;
+}
+
+export class IhaleliBatakBot {
+  /**
+   * Raise by the smallest step while the estimate still covers it; a seat
+   * that may not pass takes the minimum contract
+   */
+  chooseBid(game, seat) {
+    const minimum = game.getMinimumBid();
+    const { tricks } = chooseBestTrump(game.hands[seat]);
+
+    if (Math.floor(tricks) >= minimum) return minimum;
+    return game.canPass(seat) ? BATAK_PASS : minimum;
+  }
+
+  chooseTrump(game, seat) {
+    return chooseBestTrump(game.hands[seat]).suit;
+  }
+
+  /**
+   * Lead an ace when holding one, otherwise a low card.
+   * Following: win as cheaply as possible, or throw the lowest card.
+   */
+  chooseCard(game, seat) {
+    const legalCards = game.getLegalCards(seat);
+    if (legalCards.length === 0) return null;
+
+    const trumpSuit = game.trumpSuit;
+    const trick = game.currentTrick;
+
+    if (trick.length === 0) {
+      const aces = legalCards.filter(c => c.rank === 'A');
+      if (aces.length > 0) return highest(aces, trumpSuit);
+      return lowest(legalCards, trumpSuit);
+    }
+
+    const winners = legalCards.filter(c => beats(trick, c, trumpSuit));
+    if (winners.length > 0) return lowest(winners, trumpSuit);
+
+    return lowest(legalCards, trumpSuit);
+  }
+}
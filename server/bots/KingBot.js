@@ -0,0 +1,64 @@
+/**
+ * King Bot
+ * Plays a KingGame seat in-process through the same engine methods humans use
+ */
+
+import { RANK_VALUES } from '../shared/cards.js';
+import { CONTRACT_TYPES } from '../games/KingGame.js';
+import { chooseBestContract } from './KingContractEvaluator.js';
+
+function lowest(cards) {
+  return [...cards].sort((a, b) => RANK_VALUES[a.rank] - RANK_VALUES[b.rank])[0];
+}
+
+function highest(cards) {
+  return [...cards].sort((a, b) => RANK_VALUES[b.rank] - RANK_VALUES[a.rank])[0];
+}
+
+// Cards that cost points under the given penalty contract
+function isPenaltyCard(card, contractName) {
+  switch (contractName) {
+    case 'kupa': return card.suit === 'hearts';
+    case 'erkek': return card.rank === 'K' || card.rank === 'J';
+    case 'kiz': return card.rank === 'Q';
+    case 'rifki': return card.suit === 'hearts' && card.rank === 'K';
+    default: return false;
+  }
+}
+
+export class KingBot {
+  /**
+   * Pick the contract the evaluator scores best for this hand
+   */
+  chooseContract(game, seat) {
+    const best = chooseBestContract(game, seat);
+    if (!best) return null;
+
+    const { contractType, contractName, trumpSuit } = best;
+    return { contractType, contractName, trumpSuit };
+  }
+
+  /**
+   * Trump games: play high to win tricks. Penalty games: duck with low cards
+   * and throw penalty cards away when void.
+   */
+  chooseCard(game, seat) {
+    const legalCards = game.getLegalCards(seat);
+    if (legalCards.length === 0) return null;
+
+    if (game.contract.type === CONTRACT_TYPES.TRUMP) {
+      return highest(legalCards);
+    }
+
+    const ledSuit = game.currentTrick[0]?.card.suit;
+    const isDiscarding = ledSuit && !legalCards.some(c => c.suit === ledSuit);
+    const penaltyCards = legalCards.filter(c => isPenaltyCard(c, game.contract.name));
+
+    if (isDiscarding) {
+      return penaltyCards.length > 0 ? highest(penaltyCards) : highest(legalCards);
+    }
+
+    const safeCards = legalCards.filter(c => !isPenaltyCard(c, game.contract.name));
+    return lowest(safeCards.length > 0 ? safeCards : legalCards);
+  }
+}
@@ -0,0 +1,207 @@
+/**
+ * King Contract Evaluator
+ * Scores the selector's hand against every contract it may still choose
+ * (KingGame.getAvailableContracts, which already accounts for per-player and
+ * global usage) and picks the best one. Used by bots and by the selection
+ * timer fallback.
+ *
+ * Each contract gets an expected score for this hand. Penalty contracts always
+ * cost points and trumps always earn them, so contracts are ranked by how much
+ * better this hand does than an average hand would (expected minus baseline).
+ */
+
+import { RANK_VALUES, SUITS, getCardsOfSuit, hasCard } from '../shared/cards.js';
+import { CONTRACT_TYPES, PENALTY_VALUES, TRUMP_VALUES, CONTRACT_LABELS, TRUMP_LABELS } from '../games/KingGame.js';
+
+// Rough chance that a card of this rank ends up winning a trick in a no-trump game
+const WIN_CHANCE = { A: 0.85, K: 0.6, Q: 0.4, J: 0.25, 10: 0.15 };
+const LOW_CARD_WIN_CHANCE = 0.08;
+
+// An average hand takes an equal share of everything: a quarter, or a third with three players
+function averageShare(game) {
+  return 1 / game.numPlayers;
+}
+
+function suitLengths(hand) {
+  const lengths = {};
+  for (const suit of SUITS) {
+    lengths[suit] = getCardsOfSuit(hand, suit).length;
+  }
+  return lengths;
+}
+
+/**
+ * Expected tricks won in a game without trumps. Long suits make their
+ * high and middle cards more likely to win once the others are exhausted.
+ */
+function expectedNoTrumpTricks(hand) {
+  const lengths = suitLengths(hand);
+  let tricks = 0;
+
+  for (const card of hand) {
+    const base = WIN_CHANCE[card.rank] ?? LOW_CARD_WIN_CHANCE;
+    const lengthBonus = RANK_VALUES[card.rank] >= 9 ? Math.max(0, lengths[card.suit] - 4) * 0.1 : 0;
+    tricks += Math.min(1, base + lengthBonus);
+  }
+
+  return tricks;
+}
+
+// Chance of being caught with one of our own cards of this rank
+function ownCardRisk(hand, card) {
+  const length = getCardsOfSuit(hand, card.suit).length;
+  const higherHeld = hand.some(c => c.suit === card.suit && RANK_VALUES[c.rank] > RANK_VALUES[card.rank]);
+  if (length <= 2) return higherHeld ? 0.6 : 0.5;
+  return length >= 5 ? 0.2 : 0.3;
+}
+
+function expectedTrumpTricks(hand, trumpSuit) {
+  const lengths = suitLengths(hand);
+  const trumpLength = lengths[trumpSuit];
+  let tricks = 0;
+
+  // Trump honours (protected by length) and extra trump length
+  if (hasCard(hand, trumpSuit, 'A')) tricks += 1;
+  if (hasCard(hand, trumpSuit, 'K') && trumpLength >= 2) tricks += 1;
+  if (hasCard(hand, trumpSuit, 'Q') && trumpLength >= 3) tricks += 1;
+  if (hasCard(hand, trumpSuit, 'J') && trumpLength >= 4) tricks += 0.5;
+  tricks += Math.max(0, trumpLength - 3);
+
+  // Side suit winners and ruffs
+  let spareTrumps = Math.max(0, trumpLength - 3);
+  for (const suit of SUITS) {
+    if (suit === trumpSuit) continue;
+
+    if (hasCard(hand, suit, 'A')) tricks += 1;
+    if (hasCard(hand, suit, 'K') && lengths[suit] >= 2) {
+      tricks += hasCard(hand, suit, 'A') ? 1 : 0.5;
+    }
+    if (hasCard(hand, suit, 'Q') && lengths[suit] >= 3) tricks += 0.25;
+
+    if (lengths[suit] <= 1 && spareTrumps > 0) {
+      const ruffs = Math.min(spareTrumps, 2 - lengths[suit]);
+      tricks += ruffs * 0.5;
+      spareTrumps -= ruffs;
+    }
+  }
+
+  return Math.min(hand.length, tricks);
+}
+
+/**
+ * Expected score (negative for penalties) of this hand under a contract,
+ * together with what an average hand would score
+ */
+function expectedScore(game, hand, contract) {
+  const share = averageShare(game);
+  const averageTricks = game.tricksPerGame * share;
+
+  if (contract.contractType === CONTRACT_TYPES.TRUMP) {
+    return {
+      expected: expectedTrumpTricks(hand, contract.trumpSuit) * TRUMP_VALUES.perTrick,
+      baseline: averageTricks * TRUMP_VALUES.perTrick,
+    };
+  }
+
+  const tricks = expectedNoTrumpTricks(hand);
+  const trickShare = tricks / averageTricks;
+  const lengths = suitLengths(hand);
+
+  switch (contract.contractName) {
+    case 'el':
+      return {
+        expected: -tricks * PENALTY_VALUES.el.perTrick,
+        baseline: -averageTricks * PENALTY_VALUES.el.perTrick,
+      };
+
+    case 'kupa': {
+      // About one heart per trick, plus our own high hearts when they are short
+      const highHearts = getCardsOfSuit(hand, 'hearts').filter(c => RANK_VALUES[c.rank] >= 12).length;
+      const hearts = tricks + (lengths.hearts <= 2 ? highHearts * 0.5 : 0);
+      return {
+        expected: -hearts * PENALTY_VALUES.kupa.perHeart,
+        baseline: -averageTricks * PENALTY_VALUES.kupa.perHeart,
+      };
+    }
+
+    case 'erkek': {
+      const own = hand.filter(c => c.rank === 'K' || c.rank === 'J')
+        .reduce((sum, card) => sum + ownCardRisk(hand, card), 0);
+      const count = own + tricks * 0.5;
+      return {
+        expected: -count * PENALTY_VALUES.erkek.perCard,
+        baseline: -8 * share * PENALTY_VALUES.erkek.perCard,
+      };
+    }
+
+    case 'kiz': {
+      const own = hand.filter(c => c.rank === 'Q')
+        .reduce((sum, card) => sum + ownCardRisk(hand, card), 0);
+      const count = own + tricks * 0.2;
+      return {
+        expected: -count * PENALTY_VALUES.kiz.perCard,
+        baseline: -4 * share * PENALTY_VALUES.kiz.perCard,
+      };
+    }
+
+    case 'rifki': {
+      let chance;
+      if (hasCard(hand, 'hearts', 'K')) {
+        chance = lengths.hearts <= 2 ? 0.6 : 0.35;
+        if (hasCard(hand, 'hearts', 'A')) chance += 0.15;
+      } else {
+        // Someone has to be void to discard it on us, or lead into our high hearts
+        const highHearts = hasCard(hand, 'hearts', 'A') ? 0.2 : 0;
+        chance = 0.2 * trickShare + highHearts;
+      }
+      return {
+        expected: -Math.min(1, chance) * PENALTY_VALUES.rifki.fixed,
+        baseline: -share * PENALTY_VALUES.rifki.fixed,
+      };
+    }
+
+    case 'sonIki': {
+      // The last tricks go to whoever still holds length and high cards in a long suit
+      let lastTricks = 0.15 * trickShare;
+      for (const suit of SUITS) {
+        if (lengths[suit] >= 4) {
+          const highCards = getCardsOfSuit(hand, suit).filter(c => RANK_VALUES[c.rank] >= 13).length;
+          lastTricks += highCards * 0.15 + (lengths[suit] - 3) * 0.1;
+        }
+      }
+      return {
+        expected: -Math.min(2, lastTricks) * PENALTY_VALUES.sonIki.perTrick,
+        baseline: -2 * share * PENALTY_VALUES.sonIki.perTrick,
+      };
+    }
+
+    default:
+      return { expected: 0, baseline: 0 };
+  }
+}
+
+/**
+ * Every contract the seat may select, best first:
+ * [{ contractType, contractName?, trumpSuit?, label, expected, score }]
+ */
+export function evaluateContracts(game, seat) {
+  const hand = game.hands[seat];
+
+  return game.getAvailableContracts(seat)
+    .filter(c => !c.disabled)
+    .map(c => {
+      const contract = c.type === 'trump'
+        ? { contractType: CONTRACT_TYPES.TRUMP, trumpSuit: c.trumpSuit, label: TRUMP_LABELS[c.trumpSuit] }
+        : { contractType: CONTRACT_TYPES.PENALTY, contractName: c.type, label: CONTRACT_LABELS[c.type] };
+      const { expected, baseline } = expectedScore(game, hand, contract);
+      return { ...contract, expected, score: expected - baseline };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * The best contract for the seat, or null if nothing can be selected
+ */
+export function chooseBestContract(game, seat) {
+  return evaluateContracts(game, seat)[0] ?? null;
+}
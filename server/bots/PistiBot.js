@@ -0,0 +1,67 @@
+/**
+ * Pişti Bot
+ * Plays a PistiGame seat in-process through the same engine methods humans use.
+ * Takes the pile with a matching rank whenever it can, saves jacks for piles
+ * worth taking, and otherwise throws the card the next seat is least likely
+ * to match, judging by the cards already seen.
+ */
+
+import { getCardPoints } from '../games/PistiGame.js';
+
+// A jack is spent on a pile of at least this many cards, or any pile with points in it
+const JACK_PILE_SIZE = 4;
+
+function pileValue(pile) {
+  return pile.reduce((total, card) => total + getCardPoints(card), 0);
+}
+
+export class PistiBot {
+  chooseCard(game, seat) {
+    const hand = game.getLegalCards(seat);
+    if (hand.length === 0) return null;
+
+    const top = game.getTopCard();
+    const visiblePile = game.getVisiblePile().filter(Boolean);
+
+    if (top) {
+      // Matching the top card: a pişti when the pile is a lone card
+      const matches = hand.filter(c => c.rank === top.rank && c.rank !== 'J');
+      if (matches.length > 0) return this.mostPoints(matches);
+
+      const jacks = hand.filter(c => c.rank === 'J');
+      const worthAJack = game.pile.length >= JACK_PILE_SIZE || pileValue(visiblePile) > 0 || top.rank === 'J';
+      if (jacks.length > 0 && (worthAJack || jacks.length === hand.length)) {
+        return jacks[0];
+      }
+    }
+
+    return this.chooseDiscard(game, hand);
+  }
+
+  /**
+   * The card least likely to be matched next: its rank mostly seen already,
+   * no points, and never a jack while anything else is left
+   */
+  chooseDiscard(game, hand) {
+    const seen = {};
+    const publicCards = [...game.capturedBySide.flat(), ...game.getVisiblePile().filter(Boolean)];
+    for (const card of publicCards) {
+      seen[card.rank] = (seen[card.rank] || 0) + 1;
+    }
+    for (const card of hand) {
+      seen[card.rank] = (seen[card.rank] || 0) + 1;
+    }
+
+    const nonJacks = hand.filter(c => c.rank !== 'J');
+    const candidates = nonJacks.length > 0 ? nonJacks : hand;
+
+    return [...candidates].sort((a, b) =>
+      (seen[b.rank] - seen[a.rank]) || (getCardPoints(a) - getCardPoints(b))
+    )[0];
+  }
+
+  // A capturing card is banked with the pile, so take with the point card
+  mostPoints(cards) {
+    return [...cards].sort((a, b) => getCardPoints(b) - getCardPoints(a))[0];
+  }
+}
@@ -0,0 +1,278 @@
+/**
+ * Spades Bot
+ * Plays a SpadesGame seat in-process through the same engine methods humans use.
+ * Bids from an estimate of sure tricks, judges nil and blind nil, and plays to
+ * make its team's contract, cover a nil-bidding partner, set the opponents or
+ * duck to avoid bags. Swaps cards in the blind nil exchange. Works for
+ * Cutthroat (no partner, three sides) and ranks jokers and a high deuce
+ * through the game's highTrumps.
+ */
+
+import { RANK_VALUES, SUITS, getCardsOfSuit, hasCard, determineTrickWinnerWithTrump, trumpRankValue } from '../shared/cards.js';
+import { BLIND_NIL_EXCHANGE_SIZE } from '../games/SpadesGame.js';
+
+const SIDE_SUITS = SUITS.filter(s => s !== 'spades');
+
+const NIL_MAX_RISK = 1.0;        // Highest nil risk we will still bid nil on
+const BLIND_NIL_DEFICIT = 200;   // Only gamble on blind nil when this far behind
+const BAG_CAUTION = 3;           // Bid up and duck harder this close to a bag penalty
+
+// Trick credit for the three highest trumps: [with enough spades to protect it, bare]
+const TOP_TRUMP_CREDIT = [[1, 1], [1, 0.5], [0.75, 0.25]];
+
+function cardValue(card, highTrumps) {
+  return card.suit === 'spades' ? trumpRankValue(card.rank, highTrumps) : RANK_VALUES[card.rank];
+}
+
+function lowest(cards, highTrumps = []) {
+  return [...cards].sort((a, b) => cardValue(a, highTrumps) - cardValue(b, highTrumps))[0];
+}
+
+function highest(cards, highTrumps = []) {
+  return [...cards].sort((a, b) => cardValue(b, highTrumps) - cardValue(a, highTrumps))[0];
+}
+
+// Would this card, added to the trick, take it over?
+function beats(trick, card, highTrumps) {
+  if (trick.length === 0) return true;
+  return determineTrickWinnerWithTrump([...trick, { seat: -1, card }], 'spades', highTrumps) === -1;
+}
+
+/**
+ * Expected tricks from a hand with spades as trump: top spades (including any
+ * jokers or high deuce), every spade past the first longFrom, side suit aces
+ * and protected kings, and ruffs in short side suits with spades to spare
+ */
+export function estimateTricks(hand, { highTrumps = [], maxTricks = 13, longFrom = 3 } = {}) {
+  const spades = getCardsOfSuit(hand, 'spades');
+  let tricks = 0;
+  let honours = 0;
+
+  // Only the three highest trumps are honours; jokers and a high deuce push the ace down
+  const topTrumps = [...highTrumps, 'A', 'K', 'Q'].slice(0, TOP_TRUMP_CREDIT.length);
+  topTrumps.forEach((rank, position) => {
+    if (!hasCard(hand, 'spades', rank)) return;
+    const [protectedCredit, bareCredit] = TOP_TRUMP_CREDIT[position];
+    tricks += spades.length > position ? protectedCredit : bareCredit;
+    honours++;
+  });
+  tricks += Math.max(0, spades.length - longFrom);
+
+  let spareSpades = Math.max(0, Math.min(longFrom, spades.length) - honours);
+  for (const suit of SIDE_SUITS) {
+    const length = getCardsOfSuit(hand, suit).length;
+
+    // Long side suits get ruffed before their top cards cash
+    if (hasCard(hand, suit, 'A')) tricks += length >= 6 ? 0.75 : 1;
+    if (hasCard(hand, suit, 'K') && length >= 2 && length <= 5) {
+      tricks += hasCard(hand, suit, 'A') ? 0.8 : 0.5;
+    }
+    if (hasCard(hand, suit, 'Q') && length >= 3 && length <= 4) tricks += 0.25;
+
+    if (length <= 2 && spareSpades > 0) {
+      const ruffs = Math.min(spareSpades, length === 2 ? 1 : 2 - length);
+      tricks += length === 2 ? ruffs * 0.5 : ruffs;
+      spareSpades -= ruffs;
+    }
+  }
+
+  return Math.min(maxTricks, tricks);
+}
+
+/**
+ * How likely a hand is to be forced into a trick: high spades, long spades,
+ * and side suit honours without low cards to hide behind
+ */
+export function nilRisk(hand, { highTrumps = [] } = {}) {
+  const spades = getCardsOfSuit(hand, 'spades');
+  let risk = Math.max(0, spades.length - 3) * 0.5;
+
+  for (const card of spades) {
+    const value = trumpRankValue(card.rank, highTrumps);
+    if (value >= 12) risk += 1;
+    else if (value >= 10) risk += 0.4;
+  }
+
+  for (const suit of SIDE_SUITS) {
+    const cards = getCardsOfSuit(hand, suit);
+    const low = cards.filter(c => RANK_VALUES[c.rank] <= 7).length;
+    for (const card of cards) {
+      const value = RANK_VALUES[card.rank];
+      if (value === 14) risk += 1;
+      else if (value >= 12) risk += low >= 2 ? 0.2 : 0.5;
+    }
+  }
+
+  return risk;
+}
+
+export class SpadesBot {
+  /**
+   * The timer fallback bids on behalf of a human and turns both nils off
+   */
+  chooseBid(game, seat, { allowNil = true, allowBlindNil = true } = {}) {
+    const hand = game.hands[seat];
+    const team = game.getTeamForSeat(seat);
+    const partner = game.getPartnerSeat(seat);
+    const partnerBid = partner === null ? null : game.bids[partner];
+    const partnerNil = partnerBid === 'nil' || partnerBid === 'blind_nil';
+    const behindBy = game.getDeficit(team);
+
+    // Blind nil is decided on the score alone, before looking at the cards
+    if (allowBlindNil && !partnerNil && behindBy >= BLIND_NIL_DEFICIT && game.canDeclareBlindNil(seat)) {
+      return 'blind_nil';
+    }
+
+    // Extra high trumps mean everyone holds more spades, so length is worth less
+    const estimate = estimateTricks(hand, {
+      highTrumps: game.highTrumps,
+      maxTricks: game.tricksPerRound,
+      longFrom: 3 + game.highTrumps.length * 0.5,
+    });
+
+    // Nil needs a partner who can carry the contract, or one still to bid (Cutthroat has no contract to carry)
+    if (allowNil && !partnerNil && nilRisk(hand, { highTrumps: game.highTrumps }) <= NIL_MAX_RISK && estimate < 2 &&
+        (partner === null || partnerBid === null || partnerBid >= 3)) {
+      return 'nil';
+    }
+
+    // Round up when close to a bag penalty (overtricks cost more) or when covering a nil
+    let bid = Math.round(estimate);
+    if (game.bags[team] >= game.rules.bagLimit - BAG_CAUTION) bid = Math.ceil(estimate);
+    if (partnerNil) bid++;
+
+    return Math.max(1, Math.min(game.tricksPerRound, bid));
+  }
+
+  /**
+   * Blind nil exchange: the bidder sheds its two most dangerous cards (top
+   * spades first) and the partner hands over its two lowest side cards
+   */
+  chooseExchange(game, seat) {
+    const danger = card => (card.suit === 'spades' ? 100 : 0) + cardValue(card, game.highTrumps);
+    const byDanger = [...game.hands[seat]].sort((a, b) => danger(a) - danger(b));
+    const count = BLIND_NIL_EXCHANGE_SIZE;
+
+    return game.bids[seat] === 'blind_nil' ? byDanger.slice(-count) : byDanger.slice(0, count);
+  }
+
+  chooseCard(game, seat) {
+    const legalCards = game.getLegalCards(seat);
+    if (legalCards.length <= 1) return legalCards[0] ?? null;
+
+    const myBid = game.bids[seat];
+    const partner = game.getPartnerSeat(seat);
+    const partnerBid = partner === null ? null : game.bids[partner];
+
+    if (myBid === 'nil' || myBid === 'blind_nil') {
+      return this.duck(game, legalCards);
+    }
+
+    if ((partnerBid === 'nil' || partnerBid === 'blind_nil') && game.tricksTakenBySeat[partner] === 0) {
+      return this.coverNil(game, seat, legalCards);
+    }
+
+    return this.wantsTricks(game, seat) ? this.win(game, seat, legalCards) : this.duck(game, legalCards);
+  }
+
+  /**
+   * Take tricks while the contract is short, or to set opponents who still
+   * need most of what is left; otherwise duck, harder when bags are close
+   */
+  wantsTricks(game, seat) {
+    const team = game.getTeamForSeat(seat);
+    const tricksLeft = game.tricksPerRound - game.tricksPlayed;
+
+    if (game.teamTricks[team] < game.getTeamBid(team)) return true;
+
+    const bagsClose = game.bags[team] >= game.rules.bagLimit - BAG_CAUTION;
+    return game.sides.some((_, other) => {
+      if (other === team) return false;
+      const opponentsNeed = game.getTeamBid(other) - game.teamTricks[other];
+      if (opponentsNeed <= 0) return false;
+      const setWithin = tricksLeft - opponentsNeed + 1;  // Tricks we still need to take to set them
+      return setWithin <= (bagsClose ? 1 : 3);
+    });
+  }
+
+  /**
+   * Lead winners or the lowest card; follow with the cheapest card that wins
+   * unless partner already has the trick
+   */
+  win(game, seat, legalCards) {
+    const trick = game.currentTrick;
+    const highTrumps = game.highTrumps;
+    const playingLast = trick.length === game.numPlayers - 1;
+
+    if (trick.length === 0) {
+      const aces = legalCards.filter(c => c.rank === 'A' && c.suit !== 'spades');
+      if (aces.length > 0) return aces[0];
+      const spades = legalCards.filter(c => c.suit === 'spades');
+      if (spades.length > 0 && cardValue(highest(spades, highTrumps), highTrumps) >= 13) return highest(spades, highTrumps);
+      return lowest(legalCards, highTrumps);
+    }
+
+    const winner = determineTrickWinnerWithTrump(trick, 'spades', highTrumps);
+    const partnerWinning = winner === game.getPartnerSeat(seat);
+    if (partnerWinning && (playingLast || cardValue(trick.find(p => p.seat === winner).card, highTrumps) >= 13)) {
+      return this.discard(legalCards, game.highTrumps);
+    }
+
+    const winners = legalCards.filter(c => beats(trick, c, highTrumps));
+    if (winners.length === 0) return this.discard(legalCards, game.highTrumps);
+
+    // Ruff as cheaply as possible; following suit, play high unless we are last
+    const sameSuit = winners.filter(c => c.suit === trick[0].card.suit);
+    if (sameSuit.length === 0) return lowest(winners, highTrumps);
+    return playingLast ? lowest(sameSuit, highTrumps) : highest(sameSuit, highTrumps);
+  }
+
+  /**
+   * Partner bid nil: overtake partner's card and lead high so partner can duck
+   */
+  coverNil(game, seat, legalCards) {
+    const trick = game.currentTrick;
+    const partner = game.getPartnerSeat(seat);
+
+    if (trick.length === 0) {
+      const nonSpades = legalCards.filter(c => c.suit !== 'spades');
+      return highest(nonSpades.length > 0 ? nonSpades : legalCards, game.highTrumps);
+    }
+
+    const winner = determineTrickWinnerWithTrump(trick, 'spades', game.highTrumps);
+    const partnerPlayed = trick.some(p => p.seat === partner);
+    if (partnerPlayed && winner !== partner) {
+      return this.wantsTricks(game, seat) ? this.win(game, seat, legalCards) : this.discard(legalCards, game.highTrumps);
+    }
+
+    // Partner is winning or still to play: take the trick as high as we can
+    const winners = legalCards.filter(c => beats(trick, c, game.highTrumps));
+    return winners.length > 0 ? highest(winners, game.highTrumps) : this.discard(legalCards, game.highTrumps);
+  }
+
+  /**
+   * Lose the trick with the highest card that still loses; if every card
+   * wins, get rid of the highest
+   */
+  duck(game, legalCards) {
+    const trick = game.currentTrick;
+
+    if (trick.length === 0) {
+      const nonSpades = legalCards.filter(c => c.suit !== 'spades');
+      return lowest(nonSpades.length > 0 ? nonSpades : legalCards, game.highTrumps);
+    }
+
+    const losers = legalCards.filter(c => !beats(trick, c, game.highTrumps));
+    if (losers.length === 0) return highest(legalCards, game.highTrumps);
+
+    // Off-suit: dump the most dangerous side card, keeping spades back
+    const sideLosers = losers.filter(c => c.suit !== 'spades');
+    return highest(sideLosers.length > 0 ? sideLosers : losers, game.highTrumps);
+  }
+
+  // Throw the least useful card: lowest side card, spades last
+  discard(legalCards, highTrumps = []) {
+    const nonSpades = legalCards.filter(c => c.suit !== 'spades');
+    return lowest(nonSpades.length > 0 ? nonSpades : legalCards, highTrumps);
+  }
+}
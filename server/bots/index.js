@@ -0,0 +1,31 @@
+/**
+ * In-process bot players
+ */
+
+import { HeartsBot } from './HeartsBot.js';
+import { HeartsIsmctsBot, HEARTS_DIFFICULTY_BUDGETS } from './HeartsIsmctsBot.js';
+import { KingBot } from './KingBot.js';
+import { SpadesBot } from './SpadesBot.js';
+import { IhaleliBatakBot } from './IhaleliBatakBot.js';
+import { PistiBot } from './PistiBot.js';
+import { BridgeBot } from './BridgeBot.js';
+
+export const BOT_NAMES = ['Bot-Ahmet', 'Bot-Mehmet', 'Bot-Ayşe', 'Bot-Fatma'];
+
+export const BOT_DIFFICULTIES = ['easy', 'medium', 'hard'];
+export const DEFAULT_BOT_DIFFICULTY = 'medium';
+
+export function createBot(gameType, { difficulty = DEFAULT_BOT_DIFFICULTY } = {}) {
+  switch (gameType) {
+    case 'king': return new KingBot();
+    case 'spades': return new SpadesBot();
+    case 'batak': return new IhaleliBatakBot();
+    case 'pisti': return new PistiBot();
+    case 'bridge': return new BridgeBot();
+    default: return new HeartsIsmctsBot({ iterations: HEARTS_DIFFICULTY_BUDGETS[difficulty] });
+  }
+}
+
+export { HeartsBot, HeartsIsmctsBot, KingBot, SpadesBot, IhaleliBatakBot, PistiBot, BridgeBot };
+export { evaluateContracts, chooseBestContract } from './KingContractEvaluator.js';
+export { chooseBestTrump } from './IhaleliBatakBot.js';
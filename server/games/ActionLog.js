@@ -0,0 +1,126 @@
+/**
+ * Action Log
+ * Ordered, append-only record of everything that changed a table's game:
+ * the start (game type, options, seed), every deal, and every accepted action.
+ * Replaying the log through a fresh engine rebuilds identical state.
+ */
+
+import { createGame, advanceGame } from './index.js';
+import { commitToDeck } from '../shared/commitment.js';
+
+export const ACTION_TYPES = {
+  START: 'start',
+  DEAL: 'deal',
+  PASS: 'pass',
+  SELECT_CONTRACT: 'selectContract',
+  BID: 'bid',
+  DECLARE_TRUMP: 'declareTrump',
+  EXCHANGE: 'exchange',
+  PLAY: 'play',
+  END: 'end',
+};
+
+// Who caused an action
+export const ACTION_SOURCES = {
+  PLAYER: 'player',
+  TIMER: 'timer',
+  BOT: 'bot',
+};
+
+export class ActionLog {
+  constructor(entries = []) {
+    this.entries = entries;
+  }
+
+  append(type, data = {}) {
+    const entry = {
+      seq: this.entries.length,
+      type,
+      at: Date.now(),
+      ...structuredClone(data),
+    };
+    this.entries.push(entry);
+    return entry;
+  }
+
+  // Record the current deal, hands included, so the log stands on its own.
+  // The commitment salt is random, so it is kept too for replays to publish the same hash.
+  appendDeal(game) {
+    return this.append(ACTION_TYPES.DEAL, {
+      round: game.gameNumber ?? game.roundNumber,
+      dealSeed: game.dealSeed,
+      ...(game.dealCommitment ? { dealSalt: game.dealCommitment.salt } : {}),
+      hands: game.hands,
+    });
+  }
+
+  isComplete() {
+    return this.entries.some(e => e.type === ACTION_TYPES.END);
+  }
+
+  toJSON() {
+    return this.entries;
+  }
+}
+
+function applyEntry(game, entry) {
+  switch (entry.type) {
+    case ACTION_TYPES.PASS:
+      return game.submitPass(entry.seat, entry.cards);
+    case ACTION_TYPES.SELECT_CONTRACT:
+      return game.selectContract(entry.seat, entry.contractType, entry.contractName, entry.trumpSuit);
+    case ACTION_TYPES.BID:
+      return game.submitBid(entry.seat, entry.bid);
+    case ACTION_TYPES.DECLARE_TRUMP:
+      return game.declareTrump(entry.seat, entry.trumpSuit);
+    case ACTION_TYPES.EXCHANGE:
+      return game.submitBlindNilExchange(entry.seat, entry.cards);
+    case ACTION_TYPES.PLAY:
+      return game.playCard(entry.seat, entry.card);
+    default:
+      return { success: true };
+  }
+}
+
+/**
+ * Rebuild an engine from log entries.
+ * Stops after entry `upTo` (a seq number) when given, to step through a game.
+ * Throws if the log does not replay cleanly.
+ */
+export function replayActionLog(entries, { upTo = Infinity } = {}) {
+  const start = entries[0];
+  if (!start || start.type !== ACTION_TYPES.START) {
+    throw new Error('Action log must begin with a start entry');
+  }
+  
+  const game = createGame(start.gameType, start.options);
+  let dealt = false;
+  
+  for (const entry of entries.slice(1)) {
+    if (entry.seq > upTo) break;
+    
+    if (entry.type === ACTION_TYPES.DEAL) {
+      if (dealt) {
+        advanceGame(game);
+      } else {
+        game.deal();
+        dealt = true;
+      }
+      
+      if (game.dealSeed !== entry.dealSeed) {
+        throw new Error(`Replay diverged at #${entry.seq}: dealt seed ${game.dealSeed}, log has ${entry.dealSeed}`);
+      }
+      if (entry.dealSalt && game.dealCommitment) {
+        game.dealCommitment = commitToDeck(game.dealCommitment.deck, entry.dealSalt);
+      }
+      continue;
+    }
+    
+    const result = applyEntry(game, entry);
+    if (!result.success) {
+      throw new Error(`Replay diverged at #${entry.seq} (${entry.type}): ${result.error}`);
+    }
+  }
+  
+  return game;
+}
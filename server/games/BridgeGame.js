@@ -0,0 +1,648 @@
+/**
+ * Contract Bridge Game Logic
+ * 4 players in two partnerships (seats 0+2 North-South, 1+3 East-West).
+ * After the deal the seats bid for a contract - a number of tricks over six
+ * in a suit or notrump - and may double or redouble along the way; four
+ * passes throw the deal in. The first seat of the winning side to name the
+ * final strain declares, the seat on their left leads, and the declarer's
+ * partner lays their hand down as dummy for the declarer to play. Deals are
+ * scored as a rubber, or in IMPs over a set of boards (BRIDGE_VARIANT_DEFAULTS).
+ */
+
+import {
+  cardEquals,
+  sortHand,
+  shuffleDeck,
+  createDeck,
+  determineTrickWinnerWithTrump,
+  getCardsOfSuit
+} from '../shared/cards.js';
+import { HmacRandom, createSecret, deriveSeed } from '../shared/random.js';
+import { GAME_ERRORS, getIllegalCards } from '../shared/gameErrors.js';
+
+export const BRIDGE_NUM_PLAYERS = 4;
+export const BRIDGE_TRICKS_PER_ROUND = 13;
+
+// Tricks the declaring side takes before the contract starts counting
+export const BRIDGE_BOOK = 6;
+export const BRIDGE_MAX_LEVEL = 7;
+
+// Strains from lowest to highest; bids compare by level, then strain
+export const BRIDGE_STRAINS = ['clubs', 'diamonds', 'hearts', 'spades', 'notrump'];
+
+// Calls other than a bid ({ level, strain })
+export const BRIDGE_PASS = 'pass';
+export const BRIDGE_DOUBLE = 'double';
+export const BRIDGE_REDOUBLE = 'redouble';
+
+// Boards in an IMP match
+export const BRIDGE_IMP_BOARDS = 8;
+
+// Rule variants (rubber bridge by default)
+export const BRIDGE_VARIANT_DEFAULTS = {
+  scoring: 'rubber',  // 'rubber' (first side to two games) or 'imp' (BRIDGE_IMP_BOARDS boards, duplicate scores in IMPs)
+};
+
+export const BRIDGE_SCORING_MODES = ['rubber', 'imp'];
+
+// Vulnerability of [North-South, East-West] on boards 1-16, repeating
+const BOARD_VULNERABILITY = [
+  [false, false], [true, false], [false, true], [true, true],
+  [true, false], [false, true], [true, true], [false, false],
+  [false, true], [true, true], [false, false], [true, false],
+  [true, true], [false, false], [true, false], [false, true],
+];
+
+// Smallest score difference worth each IMP from 1 to 24
+const IMP_THRESHOLDS = [
+  20, 50, 90, 130, 170, 220, 270, 320, 370, 430, 500, 600,
+  750, 900, 1100, 1300, 1500, 1750, 2000, 2250, 2500, 3000, 3500, 4000,
+];
+
+// Bonuses, [not vulnerable, vulnerable] where they differ
+const GAME_POINTS = 100;          // Contract points below the line that make a game
+const PART_SCORE_BONUS = 50;
+const GAME_BONUS = [300, 500];
+const SMALL_SLAM_BONUS = [500, 750];
+const GRAND_SLAM_BONUS = [1000, 1500];
+const INSULT_BONUS = 50;          // Making a doubled contract; twice that redoubled
+const RUBBER_BONUS = [700, 500];  // Rubber won two games to nil, two games to one
+
+/**
+ * Fill in missing variant values and drop unknown ones
+ */
+export function normalizeBridgeVariants(variants = {}) {
+  const v = variants || {};
+  return {
+    scoring: BRIDGE_SCORING_MODES.includes(v.scoring) ? v.scoring : BRIDGE_VARIANT_DEFAULTS.scoring,
+  };
+}
+
+/**
+ * Is `call` a bid ({ level, strain }) rather than pass, double or redouble?
+ */
+export function isBid(call) {
+  return typeof call === 'object' && call !== null;
+}
+
+/**
+ * Order of a bid in the auction: 1♣ is 0, 7NT is 34
+ */
+export function getBidRank(bid) {
+  return (bid.level - 1) * BRIDGE_STRAINS.length + BRIDGE_STRAINS.indexOf(bid.strain);
+}
+
+/**
+ * IMPs for a score difference, signed like the difference
+ */
+export function getImps(difference) {
+  const imps = IMP_THRESHOLDS.filter(threshold => Math.abs(difference) >= threshold).length;
+  return difference < 0 && imps > 0 ? -imps : imps;
+}
+
+// Points for each trick bid and made: minors 20, majors 30, notrump 40 for the first and 30 after
+function getTrickPoints(strain, trick) {
+  if (strain === 'clubs' || strain === 'diamonds') return 20;
+  if (strain === 'notrump' && trick === 1) return 40;
+  return 30;
+}
+
+// Defenders' points for setting a contract `down` tricks
+function getUndertrickPenalty(down, doubled, vulnerable) {
+  if (doubled === 0) return down * (vulnerable ? 100 : 50);
+  
+  let penalty = 0;
+  for (let trick = 1; trick <= down; trick++) {
+    if (vulnerable) {
+      penalty += trick === 1 ? 200 : 300;
+    } else {
+      penalty += trick === 1 ? 100 : trick <= 3 ? 200 : 300;
+    }
+  }
+  return penalty * doubled;
+}
+
+/**
+ * Score a played contract. contractPoints go below the line (and decide
+ * games), bonusPoints above it for the declaring side: overtricks, the
+ * doubled bonus and slams. A set contract gives penaltyPoints to the defenders.
+ * contract: { level, strain, doubled } with doubled 0, 1 (doubled) or 2 (redoubled)
+ */
+export function scoreContract(contract, tricksTaken, vulnerable) {
+  const { level, strain, doubled } = contract;
+  const needed = BRIDGE_BOOK + level;
+  const vul = vulnerable ? 1 : 0;
+  
+  if (tricksTaken < needed) {
+    const down = needed - tricksTaken;
+    return {
+      made: false,
+      result: -down,
+      contractPoints: 0,
+      bonusPoints: 0,
+      penaltyPoints: getUndertrickPenalty(down, doubled, vulnerable),
+    };
+  }
+
+  let contractPoints = 0;
+  for (let trick = 1; trick <= level; trick++) {
+    contractPoints += getTrickPoints(strain, trick);
+  }
+  contractPoints *= 2 ** doubled;
+  
+  const overtricks = tricksTaken - needed;
+  let bonusPoints = doubled === 0
+    ? overtricks * getTrickPoints(strain, 2)
+    : overtricks * (vulnerable ? 200 : 100) * doubled;
+  bonusPoints += INSULT_BONUS * doubled;
+  if (level === 6) bonusPoints += SMALL_SLAM_BONUS[vul];
+  if (level === 7) bonusPoints += GRAND_SLAM_BONUS[vul];
+  
+  return { made: true, result: overtricks, contractPoints, bonusPoints, penaltyPoints: 0 };
+}
+
+/**
+ * Duplicate score of a deal for the declaring side (negative when set):
+ * a made contract adds the game or part-score bonus
+ */
+export function getDuplicateScore(score, vulnerable) {
+  if (!score.made) return -score.penaltyPoints;
+  const bonus = score.contractPoints >= GAME_POINTS ? GAME_BONUS[vulnerable ? 1 : 0] : PART_SCORE_BONUS;
+  return score.contractPoints + score.bonusPoints + bonus;
+}
+
+export class BridgeGame {
+  constructor(options = {}) {
+    this.variants = normalizeBridgeVariants(options.variants);
+    this.numPlayers = BRIDGE_NUM_PLAYERS;
+    this.tricksPerRound = BRIDGE_TRICKS_PER_ROUND;
+    this.totalBoards = this.variants.scoring === 'imp' ? BRIDGE_IMP_BOARDS : null;
+    
+    // North-South (seats 0+2) and East-West (seats 1+3)
+    this.sides = [[0, 2], [1, 3]];
+    
+    // Seeded dealing (seed is recorded so any deal can be re-dealt)
+    this.seed = options.seed ?? createSecret();
+    this.dealSeed = null;
+    this.dealSeeds = [];  // One per deal, in order
+    
+    this.initialDealerSeat = options.initialDealerSeat ?? 0;
+    
+    this.reset();
+  }
+
+  reset() {
+    this.hands = this.perSeat([]);
+    this.roundNumber = 1;
+    this.dealerSeat = this.initialDealerSeat;
+    this.phase = 'dealing';
+    this.calls = [];  // { seat, call } in auction order
+    this.contract = null;  // { level, strain, doubled }
+    this.declarer = null;
+    this.dummySeat = null;
+    this.trumpSuit = null;
+    this.currentTrick = [];
+    this.currentPlayer = 0;
+    this.tricksTakenBySeat = this.perSeat(0);
+    this.sideTricks = this.perSide(0);
+    this.lastTrick = null;
+    this.tricksPlayed = 0;
+    this.roundScores = this.perSide(0);
+    this.cumulativeScores = this.perSide(0);
+    
+    // Rubber: games won, and part scores towards the current game
+    this.gamesWon = this.perSide(0);
+    this.belowLine = this.perSide(0);
+  }
+
+  perSeat(value) {
+    return Array.from({ length: this.numPlayers }, () => (Array.isArray(value) ? [] : value));
+  }
+
+  perSide(value) {
+    return this.sides.map(() => value);
+  }
+
+  deal() {
+    // Each deal gets its own seed so it can be reproduced on its own
+    this.dealSeed = deriveSeed(this.seed, this.dealSeeds.length);
+    this.dealSeeds.push(this.dealSeed);
+    const deck = shuffleDeck(createDeck(), new HmacRandom(this.dealSeed));
+    this.hands = this.perSeat([]);
+    
+    for (let i = 0; i < deck.length; i++) {
+      this.hands[i % this.numPlayers].push(deck[i]);
+    }
+    
+    // Sort hands
+    for (let i = 0; i < this.numPlayers; i++) {
+      this.hands[i] = sortHand(this.hands[i]);
+    }
+    
+    // Reset deal state
+    this.calls = [];
+    this.contract = null;
+    this.declarer = null;
+    this.dummySeat = null;
+    this.trumpSuit = null;
+    this.currentTrick = [];
+    this.tricksTakenBySeat = this.perSeat(0);
+    this.sideTricks = this.perSide(0);
+    this.roundScores = this.perSide(0);
+    this.lastTrick = null;
+    this.tricksPlayed = 0;
+    
+    // The dealer makes the first call
+    this.phase = 'bidding';
+    this.currentPlayer = this.dealerSeat;
+    
+    return this.phase;
+  }
+
+  /**
+   * Get the side index for a seat (0 North-South, 1 East-West)
+   */
+  getTeamForSeat(seat) {
+    return seat % 2;
+  }
+
+  getPartnerSeat(seat) {
+    return (seat + 2) % this.numPlayers;
+  }
+
+  /**
+   * [North-South, East-West] vulnerability: rubber sides with a game in,
+   * IMP boards by the standard board cycle
+   */
+  getVulnerability() {
+    if (this.variants.scoring === 'imp') {
+      return [...BOARD_VULNERABILITY[(this.roundNumber - 1) % BOARD_VULNERABILITY.length]];
+    }
+    return this.gamesWon.map(games => games > 0);
+  }
+
+  /**
+   * Highest bid so far as { seat, call }, or null before anyone bids
+   */
+  getHighestBid() {
+    for (let i = this.calls.length - 1; i >= 0; i--) {
+      if (isBid(this.calls[i].call)) return this.calls[i];
+    }
+    return null;
+  }
+
+  // Last call other than a pass, or null
+  getLastAction() {
+    for (let i = this.calls.length - 1; i >= 0; i--) {
+      if (this.calls[i].call !== BRIDGE_PASS) return this.calls[i];
+    }
+    return null;
+  }
+
+  /**
+   * A seat may double an opponent's bid that has not been doubled yet
+   */
+  canDouble(seat) {
+    if (this.phase !== 'bidding') return false;
+    const last = this.getLastAction();
+    return !!last && isBid(last.call) && this.getTeamForSeat(last.seat) !== this.getTeamForSeat(seat);
+  }
+
+  /**
+   * A seat may redouble when an opponent doubled its side's bid
+   */
+  canRedouble(seat) {
+    if (this.phase !== 'bidding') return false;
+    const last = this.getLastAction();
+    return !!last && last.call === BRIDGE_DOUBLE && this.getTeamForSeat(last.seat) !== this.getTeamForSeat(seat);
+  }
+
+  /**
+   * Make a call: a bid ({ level, strain }), 'pass', 'double' or 'redouble'
+   */
+  submitBid(playerIndex, call) {
+    if (this.phase !== 'bidding') {
+      return { success: false, error: 'Not in bidding phase', code: GAME_ERRORS.WRONG_PHASE };
+    }
+    
+    if (playerIndex !== this.currentPlayer) {
+      return { success: false, error: 'Not your turn', code: GAME_ERRORS.NOT_YOUR_TURN };
+    }
+    
+    if (call === BRIDGE_DOUBLE && !this.canDouble(playerIndex)) {
+      return { success: false, error: 'Cannot double - no undoubled opponent bid', code: GAME_ERRORS.CANNOT_DOUBLE };
+    }
+    
+    if (call === BRIDGE_REDOUBLE && !this.canRedouble(playerIndex)) {
+      return { success: false, error: 'Cannot redouble - no opponent double', code: GAME_ERRORS.CANNOT_REDOUBLE };
+    }
+    
+    if (isBid(call)) {
+      if (!Number.isInteger(call.level) || call.level < 1 || call.level > BRIDGE_MAX_LEVEL ||
+          !BRIDGE_STRAINS.includes(call.strain)) {
+        return { success: false, error: `Invalid bid - level 1-${BRIDGE_MAX_LEVEL} in ${BRIDGE_STRAINS.join(', ')}`, code: GAME_ERRORS.INVALID_BID };
+      }
+      const highest = this.getHighestBid();
+      if (highest && getBidRank(call) <= getBidRank(highest.call)) {
+        return { success: false, error: 'Invalid bid - must be higher than the last bid', code: GAME_ERRORS.BID_TOO_LOW };
+      }
+      call = { level: call.level, strain: call.strain };
+    } else if (![BRIDGE_PASS, BRIDGE_DOUBLE, BRIDGE_REDOUBLE].includes(call)) {
+      return { success: false, error: 'Invalid call', code: GAME_ERRORS.INVALID_BID };
+    }
+    
+    this.calls.push({ seat: playerIndex, call });
+    
+    const highest = this.getHighestBid();
+    const trailingPasses = this.calls.length - 1 - this.calls.findLastIndex(c => c.call !== BRIDGE_PASS);
+    
+    // Four passes throw the deal in
+    if (!highest && trailingPasses === this.numPlayers) {
+      return { success: true, auctionComplete: true, passedOut: true, ...this.completeRound(null) };
+    }
+    
+    // Three passes after a bid settle the contract
+    if (highest && trailingPasses === this.numPlayers - 1) {
+      this.setContract(highest);
+      return {
+        success: true,
+        auctionComplete: true,
+        passedOut: false,
+        contract: { ...this.contract },
+        declarer: this.declarer,
+      };
+    }
+    
+    this.currentPlayer = (playerIndex + 1) % this.numPlayers;
+    
+    return { success: true, auctionComplete: false };
+  }
+
+  /**
+   * Fix the contract from the final bid: the first seat of that side to name
+   * the strain declares, its partner is dummy, the declarer's left leads
+   */
+  setContract(finalBid) {
+    const last = this.getLastAction();
+    const doubled = last.call === BRIDGE_REDOUBLE ? 2 : last.call === BRIDGE_DOUBLE ? 1 : 0;
+    const { level, strain } = finalBid.call;
+    const team = this.getTeamForSeat(finalBid.seat);
+    
+    this.contract = { level, strain, doubled };
+    this.declarer = this.calls.find(c =>
+      isBid(c.call) && c.call.strain === strain && this.getTeamForSeat(c.seat) === team
+    ).seat;
+    this.dummySeat = this.getPartnerSeat(this.declarer);
+    this.trumpSuit = strain === 'notrump' ? null : strain;
+    
+    this.phase = 'playing';
+    this.currentPlayer = (this.declarer + 1) % this.numPlayers;
+  }
+
+  /**
+   * The seat that decides a seat's play: the declarer for dummy
+   */
+  getControllingSeat(seat) {
+    return this.phase === 'playing' && seat === this.dummySeat ? this.declarer : seat;
+  }
+
+  /**
+   * The seat whose card `seat` plays now: dummy's when the declarer is on play from dummy
+   */
+  getSeatPlayedBy(seat) {
+    return this.getControllingSeat(this.currentPlayer) === seat ? this.currentPlayer : seat;
+  }
+
+  /**
+   * Dummy's cards, face up for everyone once the opening lead is made
+   */
+  getDummyHand() {
+    if (this.dummySeat === null || (this.tricksPlayed === 0 && this.currentTrick.length === 0)) return null;
+    return this.hands[this.dummySeat];
+  }
+
+  getLegalCards(playerIndex) {
+    const hand = this.hands[playerIndex];
+    if (this.currentTrick.length === 0) return [...hand];
+    
+    // Must follow suit when possible
+    const sameSuit = getCardsOfSuit(hand, this.currentTrick[0].card.suit);
+    return sameSuit.length > 0 ? sameSuit : [...hand];
+  }
+
+  /**
+   * Which rule keeps a card from being played now (a GAME_ERRORS code),
+   * for cards getLegalCards leaves out
+   */
+  getIllegalPlayReason(playerIndex, card) {
+    if (!this.hands[playerIndex].some(c => cardEquals(c, card))) return GAME_ERRORS.CARD_NOT_IN_HAND;
+    return GAME_ERRORS.MUST_FOLLOW_SUIT;
+  }
+
+  playCard(playerIndex, card) {
+    if (this.phase !== 'playing') {
+      return { success: false, error: 'Not in playing phase', code: GAME_ERRORS.WRONG_PHASE };
+    }
+    
+    if (playerIndex !== this.currentPlayer) {
+      return { success: false, error: 'Not your turn', code: GAME_ERRORS.NOT_YOUR_TURN };
+    }
+    
+    const legalCards = this.getLegalCards(playerIndex);
+    if (!legalCards.some(c => cardEquals(c, card))) {
+      return { success: false, error: 'Illegal card play', code: this.getIllegalPlayReason(playerIndex, card) };
+    }
+    
+    // Remove card from hand
+    this.hands[playerIndex] = this.hands[playerIndex].filter(c => !cardEquals(c, card));
+    
+    // Add to current trick
+    this.currentTrick.push({ seat: playerIndex, card });
+    
+    // Check if trick is complete
+    if (this.currentTrick.length === this.numPlayers) {
+      return this.completeTrick();
+    }
+    
+    // Move to next player
+    this.currentPlayer = (this.currentPlayer + 1) % this.numPlayers;
+    
+    return { success: true, trickComplete: false };
+  }
+
+  completeTrick() {
+    const winner = determineTrickWinnerWithTrump(this.currentTrick, this.trumpSuit);
+    
+    this.tricksTakenBySeat[winner]++;
+    this.sideTricks[this.getTeamForSeat(winner)]++;
+    this.lastTrick = [...this.currentTrick];
+    this.tricksPlayed++;
+    
+    // Check if deal is complete
+    if (this.tricksPlayed === this.tricksPerRound) {
+      return { success: true, trickComplete: true, winner, ...this.completeRound(winner) };
+    }
+    
+    this.currentTrick = [];
+    this.currentPlayer = winner;
+    
+    return {
+      success: true,
+      trickComplete: true,
+      winner,
+      roundComplete: false
+    };
+  }
+
+  /**
+   * Points each side scores for the deal. Rubber: contract points go below
+   * the line and a side reaching 100 wins a game (both part scores are then
+   * wiped); two games win the rubber and its bonus. IMP: the duplicate score
+   * converted to IMPs for the side it favours.
+   */
+  scoreRound() {
+    const roundScores = this.perSide(0);
+    const vulnerable = this.getVulnerability();
+    let score = null;
+    let dealScore = 0;
+    let rubberBonus = 0;
+    
+    if (this.contract) {
+      const team = this.getTeamForSeat(this.declarer);
+      const defenders = 1 - team;
+      score = scoreContract(this.contract, this.sideTricks[team], vulnerable[team]);
+      dealScore = getDuplicateScore(score, vulnerable[team]);
+      
+      if (this.variants.scoring === 'imp') {
+        const imps = getImps(dealScore);
+        roundScores[imps >= 0 ? team : defenders] = Math.abs(imps);
+      } else {
+        roundScores[team] = score.contractPoints + score.bonusPoints;
+        roundScores[defenders] = score.penaltyPoints;
+        
+        this.belowLine[team] += score.contractPoints;
+        if (this.belowLine[team] >= GAME_POINTS) {
+          this.gamesWon[team]++;
+          this.belowLine = this.perSide(0);
+          
+          if (this.gamesWon[team] === 2) {
+            rubberBonus = RUBBER_BONUS[this.gamesWon[defenders]];
+            roundScores[team] += rubberBonus;
+          }
+        }
+      }
+    }
+    
+    return { roundScores, score, dealScore, rubberBonus, vulnerable };
+  }
+
+  /**
+   * Score the deal; `lastTrickWinner` is null for a deal thrown in
+   */
+  completeRound(lastTrickWinner) {
+    const { roundScores, score, dealScore, rubberBonus, vulnerable } = this.scoreRound();
+    
+    for (let team = 0; team < this.sides.length; team++) {
+      this.cumulativeScores[team] += roundScores[team];
+    }
+    this.roundScores = roundScores;
+    
+    // A rubber ends at two games, an IMP match after its last board
+    const gameOver = this.variants.scoring === 'imp'
+      ? this.roundNumber >= this.totalBoards
+      : this.gamesWon.some(games => games >= 2);
+    
+    let gameWinnerTeam = null;
+    if (gameOver) {
+      // Higher score wins; null = tie
+      const [ns, ew] = this.cumulativeScores;
+      gameWinnerTeam = ns === ew ? null : ns > ew ? 0 : 1;
+    }
+    
+    this.currentTrick = [];
+    this.phase = 'roundEnd';
+    
+    return {
+      roundComplete: true,
+      lastTrickWinner,
+      roundScores: [...this.roundScores],
+      cumulativeScores: [...this.cumulativeScores],
+      passedOut: this.contract === null,
+      contract: this.contract ? { ...this.contract } : null,
+      declarer: this.declarer,
+      sideTricks: [...this.sideTricks],
+      made: score ? score.made : null,
+      result: score ? score.result : null,
+      dealScore,
+      rubberBonus,
+      vulnerable,
+      gamesWon: [...this.gamesWon],
+      belowLine: [...this.belowLine],
+      gameOver,
+      gameWinnerTeam,
+    };
+  }
+
+  startNextRound() {
+    this.roundNumber++;
+    this.dealerSeat = (this.dealerSeat + 1) % this.numPlayers;
+    this.deal();
+  }
+
+  /**
+   * Table state shared by players and spectators
+   */
+  getTableState() {
+    const highest = this.getHighestBid();
+    return {
+      phase: this.phase,
+      roundNumber: this.roundNumber,
+      totalBoards: this.totalBoards,
+      dealerSeat: this.dealerSeat,
+      currentPlayer: this.currentPlayer,
+      actingSeat: this.getControllingSeat(this.currentPlayer),
+      calls: this.calls,
+      highestBid: highest ? highest.call : null,
+      canDouble: this.canDouble(this.currentPlayer),
+      canRedouble: this.canRedouble(this.currentPlayer),
+      contract: this.contract,
+      declarer: this.declarer,
+      dummySeat: this.dummySeat,
+      dummyHand: this.getDummyHand(),
+      currentTrick: this.currentTrick,
+      tricksTakenBySeat: this.tricksTakenBySeat,
+      sideTricks: this.sideTricks,
+      lastTrick: this.lastTrick,
+      tricksPlayed: this.tricksPlayed,
+      vulnerable: this.getVulnerability(),
+      gamesWon: this.gamesWon,
+      belowLine: this.belowLine,
+      roundScores: this.roundScores,
+      cumulativeScores: this.cumulativeScores,
+      variants: this.variants,
+      sides: this.sides,
+      tricksPerRound: this.tricksPerRound,
+    };
+  }
+
+  getStateForPlayer(playerIndex) {
+    const state = this.getTableState();
+    return {
+      ...state,
+      hand: this.hands[playerIndex],
+      legalCards: this.phase === 'playing' && state.actingSeat === playerIndex
+        ? this.getLegalCards(this.currentPlayer)
+        : [],
+      illegalCards: this.phase === 'playing' && state.actingSeat === playerIndex
+        ? getIllegalCards(this, this.currentPlayer)
+        : [],
+    };
+  }
+
+  /**
+   * Get state for spectators (no hands visible but dummy's)
+   */
+  getSpectatorState() {
+    return this.getTableState();
+  }
+}
@@ -11,13 +11,48 @@ import {
   determineTrickWinner,
   getCardsOfSuit
 } from '../shared/cards.js';
+import { HmacRandom, createSecret, deriveSeed } from '../shared/random.js';
+import { GAME_ERRORS, getIllegalCards } from '../shared/gameErrors.js';
+import { createDealCommitment } from '../shared/commitment.js';
 
-function getPassDirection(roundNumber) {
-  const directions = ['left', 'right', 'across', 'hold'];
-  return directions[(roundNumber - 1) % 4];
+// Table rule variants; anything not set plays the standard game
+export const HEARTS_VARIANT_DEFAULTS = {
+  jackOfDiamonds: false,     // Omnibus: whoever takes J♦ scores -10
+  passing: 'cycle',          // 'cycle' (left, right, across, hold), 'always' (no hold round) or 'none'
+  heartsLeadAnytime: false,  // Hearts may be led before they are broken
+  firstTrickPoints: false,   // Hearts and Q♠ may be discarded on the first trick
+  moonShot: 'auto',          // 'auto' (whichever is better for the shooter), 'add' (+26 to others) or 'subtract' (-26 to the shooter)
+};
+
+export const HEARTS_PASSING_MODES = ['cycle', 'always', 'none'];
+export const HEARTS_MOON_SHOT_MODES = ['auto', 'add', 'subtract'];
+const JACK_OF_DIAMONDS_POINTS = -10;
+
+/**
+ * Fill in defaults and drop anything that isn't a known variant value
+ */
+export function normalizeHeartsVariants(variants = {}) {
+  const v = variants || {};
+  return {
+    jackOfDiamonds: v.jackOfDiamonds === true,
+    passing: HEARTS_PASSING_MODES.includes(v.passing) ? v.passing : HEARTS_VARIANT_DEFAULTS.passing,
+    heartsLeadAnytime: v.heartsLeadAnytime === true,
+    firstTrickPoints: v.firstTrickPoints === true,
+    moonShot: HEARTS_MOON_SHOT_MODES.includes(v.moonShot) ? v.moonShot : HEARTS_VARIANT_DEFAULTS.moonShot,
+  };
+}
+
+function getPassDirection(roundNumber, passing = 'cycle') {
+  if (passing === 'none') return 'hold';
+  const directions = passing === 'always' ? ['left', 'right', 'across'] : ['left', 'right', 'across', 'hold'];
+  return directions[(roundNumber - 1) % directions.length];
+}
+
+function isJackOfDiamonds(card) {
+  return card.suit === 'diamonds' && card.rank === 'J';
 }
 
-function getReceiverIndex(giverIndex, direction) {
+export function getReceiverIndex(giverIndex, direction) {
   switch (direction) {
     case 'left': return (giverIndex + 1) % 4;
     case 'right': return (giverIndex + 3) % 4;
@@ -27,12 +62,13 @@ function getReceiverIndex(giverIndex, direction) {
 }
 
 export class HeartsGame {
-  constructor(endingScore = 20) {
+  constructor(endingScore = 20, options = {}) {
     this.hands = [[], [], [], []];
     this.roundNumber = 1;
     this.phase = 'dealing';
     this.passDirection = null;
     this.passes = {};
+    this.passedCards = null;  // What each seat passed this round, kept after the exchange
     this.currentTrick = [];
     this.currentPlayer = 0;
     this.heartsBroken = false;
@@ -44,10 +80,23 @@ export class HeartsGame {
     this.lastTrick = null;
     this.tricksPlayed = 0;
     this.endingScore = endingScore;
+    this.variants = normalizeHeartsVariants(options.variants);
+    this.jackOfDiamondsTaker = null;  // Seat that took J♦ this round (Omnibus only)
+    
+    // Seeded dealing (seed is recorded so any round can be re-dealt)
+    this.seed = options.seed ?? createSecret();
+    this.dealSeed = null;
+    this.dealSeeds = [];  // One per round, in order
+    this.dealCommitment = null;  // { deck, salt, hash } for the current deal, see shared/commitment.js
   }
 
   deal() {
-    const deck = shuffleDeck(createDeck());
+    // Each deal gets its own seed so it can be reproduced on its own
+    this.dealSeed = deriveSeed(this.seed, this.dealSeeds.length);
+    this.dealSeeds.push(this.dealSeed);
+    const deck = shuffleDeck(createDeck(), new HmacRandom(this.dealSeed));
+    // Commit to the shuffled deck before any card goes out; revealed when the round ends
+    this.dealCommitment = createDealCommitment(deck);
     this.hands = [[], [], [], []];
     
     for (let i = 0; i < 52; i++) {
@@ -59,13 +108,15 @@ export class HeartsGame {
       this.hands[i] = sortHand(this.hands[i]);
     }
     
-    this.passDirection = getPassDirection(this.roundNumber);
+    this.passDirection = getPassDirection(this.roundNumber, this.variants.passing);
     this.phase = this.passDirection === 'hold' ? 'playing' : 'passing';
     this.passes = {};
+    this.passedCards = null;
     this.currentTrick = [];
     this.heartsBroken = false;
     this.tricksTaken = [[], [], [], []];
     this.roundScores = [0, 0, 0, 0];
+    this.jackOfDiamondsTaker = null;
     this.lastTrick = null;
     this.tricksPlayed = 0;
     
@@ -88,17 +139,17 @@ export class HeartsGame {
 
   submitPass(playerIndex, cards) {
     if (this.phase !== 'passing') {
-      return { success: false, error: 'Not in passing phase' };
+      return { success: false, error: 'Not in passing phase', code: GAME_ERRORS.WRONG_PHASE };
     }
     
     if (cards.length !== 3) {
-      return { success: false, error: 'Must pass exactly 3 cards' };
+      return { success: false, error: 'Must pass exactly 3 cards', code: GAME_ERRORS.WRONG_CARD_COUNT };
     }
     
     // Validate cards are in player's hand
     for (const card of cards) {
       if (!this.hands[playerIndex].some(c => cardEquals(c, card))) {
-        return { success: false, error: 'Card not in hand' };
+        return { success: false, error: 'Card not in hand', code: GAME_ERRORS.CARD_NOT_IN_HAND };
       }
     }
     
@@ -136,6 +187,7 @@ export class HeartsGame {
     this.phase = 'playing';
     this.currentPlayer = this.findTwoOfClubsPlayer();
     this.passes = {};
+    this.passedCards = passedCards;
     
     return { passedCards, receivedCards };
   }
@@ -152,7 +204,7 @@ export class HeartsGame {
     
     if (isLeading) {
       // Can't lead hearts until broken (unless only hearts remain)
-      if (!this.heartsBroken) {
+      if (!this.heartsBroken && !this.variants.heartsLeadAnytime) {
         const nonHearts = hand.filter(c => c.suit !== 'hearts');
         if (nonHearts.length > 0) return nonHearts;
       }
@@ -166,7 +218,7 @@ export class HeartsGame {
     if (sameSuit.length > 0) return sameSuit;
     
     // Can't play on first trick: hearts or Q♠
-    if (this.tricksPlayed === 0) {
+    if (this.tricksPlayed === 0 && !this.variants.firstTrickPoints) {
       const safe = hand.filter(c => 
         c.suit !== 'hearts' && 
         !(c.suit === 'spades' && c.rank === 'Q')
@@ -177,18 +229,35 @@ export class HeartsGame {
     return hand;
   }
 
+  /**
+   * Which rule keeps a card from being played now (a GAME_ERRORS code).
+   * Follows the branches of getLegalCards, so only call it for cards that method leaves out.
+   */
+  getIllegalPlayReason(playerIndex, card) {
+    const hand = this.hands[playerIndex];
+    if (!hand.some(c => cardEquals(c, card))) return GAME_ERRORS.CARD_NOT_IN_HAND;
+    
+    if (this.currentTrick.length === 0) {
+      return this.tricksPlayed === 0 ? GAME_ERRORS.MUST_LEAD_TWO_OF_CLUBS : GAME_ERRORS.HEARTS_NOT_BROKEN;
+    }
+    
+    const ledSuit = this.currentTrick[0].card.suit;
+    if (getCardsOfSuit(hand, ledSuit).length > 0) return GAME_ERRORS.MUST_FOLLOW_SUIT;
+    return GAME_ERRORS.NO_POINTS_ON_FIRST_TRICK;
+  }
+
   playCard(playerIndex, card) {
     if (this.phase !== 'playing') {
-      return { success: false, error: 'Not in playing phase' };
+      return { success: false, error: 'Not in playing phase', code: GAME_ERRORS.WRONG_PHASE };
     }
     
     if (playerIndex !== this.currentPlayer) {
-      return { success: false, error: 'Not your turn' };
+      return { success: false, error: 'Not your turn', code: GAME_ERRORS.NOT_YOUR_TURN };
     }
     
     const legalCards = this.getLegalCards(playerIndex);
     if (!legalCards.some(c => cardEquals(c, card))) {
-      return { success: false, error: 'Illegal card play' };
+      return { success: false, error: 'Illegal card play', code: this.getIllegalPlayReason(playerIndex, card) };
     }
     
     // Remove card from hand
@@ -221,6 +290,10 @@ export class HeartsGame {
     for (const play of this.currentTrick) {
       if (play.card.suit === 'hearts') points += 1;
       if (play.card.suit === 'spades' && play.card.rank === 'Q') points += 13;
+      if (this.variants.jackOfDiamonds && isJackOfDiamonds(play.card)) {
+        points += JACK_OF_DIAMONDS_POINTS;
+        this.jackOfDiamondsTaker = winner;
+      }
     }
     
     this.roundScores[winner] += points;
@@ -246,32 +319,34 @@ export class HeartsGame {
   }
 
   completeRound(lastTrickWinner) {
+    // Shooting the moon counts hearts and Q♠ only, so leave J♦ out until the end
+    const jackTaker = this.jackOfDiamondsTaker;
+    if (jackTaker !== null) {
+      this.roundScores[jackTaker] -= JACK_OF_DIAMONDS_POINTS;
+    }
+    
     // Check for shooting the moon
     const moonShooter = this.roundScores.findIndex(s => s === 26);
     let moonShotType = null;
     
     if (moonShooter !== -1) {
-      const hypotheticalScores = this.cumulativeScores.map((score, i) => 
-        i === moonShooter ? score : score + 26
-      );
-      
-      const shooterHypotheticalScore = hypotheticalScores[moonShooter];
-      const othersMinScore = Math.min(...hypotheticalScores.filter((_, i) => i !== moonShooter));
-      const shooterWouldWin = shooterHypotheticalScore <= othersMinScore;
+      moonShotType = this.getMoonShotType(moonShooter);
       
-      if (shooterWouldWin) {
-        moonShotType = 'gave';
-        for (let i = 0; i < 4; i++) {
+      for (let i = 0; i < 4; i++) {
+        if (moonShotType === 'gave') {
           this.roundScores[i] = i === moonShooter ? 0 : 26;
-        }
-      } else {
-        moonShotType = 'took';
-        for (let i = 0; i < 4; i++) {
+        } else if (moonShotType === 'subtracted') {
+          this.roundScores[i] = i === moonShooter ? -26 : 0;
+        } else {
           this.roundScores[i] = i === moonShooter ? 26 : 0;
         }
       }
     }
     
+    if (jackTaker !== null) {
+      this.roundScores[jackTaker] += JACK_OF_DIAMONDS_POINTS;
+    }
+    
     // Add to cumulative scores
     for (let i = 0; i < 4; i++) {
       this.cumulativeScores[i] += this.roundScores[i];
@@ -305,11 +380,33 @@ export class HeartsGame {
     };
   }
 
+  /**
+   * 'gave' (+26 to everyone else), 'subtracted' (-26 to the shooter) or, in
+   * auto mode, 'took' when giving 26 away would not leave the shooter winning
+   */
+  getMoonShotType(moonShooter) {
+    if (this.variants.moonShot === 'add') return 'gave';
+    if (this.variants.moonShot === 'subtract') return 'subtracted';
+    
+    const hypotheticalScores = this.cumulativeScores.map((score, i) => 
+      i === moonShooter ? score : score + 26
+    );
+    
+    const shooterHypotheticalScore = hypotheticalScores[moonShooter];
+    const othersMinScore = Math.min(...hypotheticalScores.filter((_, i) => i !== moonShooter));
+    return shooterHypotheticalScore <= othersMinScore ? 'gave' : 'took';
+  }
+
   startNextRound() {
     this.roundNumber++;
     this.deal();
   }
 
+  // Independent deep copy for simulations (bots); changing it never touches this game
+  clone() {
+    return Object.assign(Object.create(HeartsGame.prototype), structuredClone(this));
+  }
+
   getStateForPlayer(playerIndex) {
     return {
       phase: this.phase,
@@ -326,6 +423,9 @@ export class HeartsGame {
       legalCards: this.phase === 'playing' && playerIndex === this.currentPlayer
         ? this.getLegalCards(playerIndex)
         : [],
+      illegalCards: this.phase === 'playing' && playerIndex === this.currentPlayer
+        ? getIllegalCards(this, playerIndex)
+        : [],
     };
   }
 
@@ -336,7 +436,8 @@ export class HeartsGame {
       const pointCards = [];
       for (const trick of tricks) {
         for (const { card } of trick) {
-          if (card.suit === 'hearts' || (card.suit === 'spades' && card.rank === 'Q')) {
+          if (card.suit === 'hearts' || (card.suit === 'spades' && card.rank === 'Q') ||
+              (this.variants.jackOfDiamonds && isJackOfDiamonds(card))) {
             pointCards.push(card);
           }
         }
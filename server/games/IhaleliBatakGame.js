@@ -0,0 +1,445 @@
+/**
+ * İhaleli Batak Game Logic
+ * 4 players, everyone for themselves. After the deal the seats bid for the
+ * number of tricks they will take; the highest bidder names trump, leads the
+ * first trick and must make the contract. The dealer moves one seat each
+ * round; the seat after the dealer opens the auction.
+ */
+
+import {
+  RANK_VALUES,
+  SUITS,
+  cardEquals,
+  sortHand,
+  shuffleDeck,
+  createDeck,
+  determineTrickWinnerWithTrump,
+  getCardsOfSuit
+} from '../shared/cards.js';
+import { HmacRandom, createSecret, deriveSeed } from '../shared/random.js';
+import { GAME_ERRORS, getIllegalCards } from '../shared/gameErrors.js';
+
+export const BATAK_NUM_PLAYERS = 4;
+export const BATAK_TRICKS_PER_ROUND = 13;
+
+// Lowest opening bid; a bid of every trick ends the auction at once
+export const BATAK_MIN_BID = 4;
+export const BATAK_MAX_BID = BATAK_TRICKS_PER_ROUND;
+
+// Auction entry for a seat that has dropped out
+export const BATAK_PASS = 'pass';
+
+// Default ending score
+const DEFAULT_ENDING_SCORE = 51;
+
+export class IhaleliBatakGame {
+  constructor(endingScore = DEFAULT_ENDING_SCORE, options = {}) {
+    this.endingScore = endingScore;
+    this.numPlayers = BATAK_NUM_PLAYERS;
+    this.tricksPerRound = BATAK_TRICKS_PER_ROUND;
+    
+    // Seeded dealing (seed is recorded so any round can be re-dealt)
+    this.seed = options.seed ?? createSecret();
+    this.dealSeed = null;
+    this.dealSeeds = [];  // One per round, in order
+    
+    this.initialDealerSeat = options.initialDealerSeat ?? 0;
+    
+    this.reset();
+  }
+
+  reset() {
+    this.hands = this.perSeat([]);
+    this.roundNumber = 1;
+    this.dealerSeat = this.initialDealerSeat;
+    this.phase = 'dealing';
+    this.bids = this.perSeat(null); // null = not yet spoken, number = last bid, 'pass' = out of the auction
+    this.highBid = null;
+    this.declarer = null;
+    this.trumpSuit = null;
+    this.trumpBroken = false;
+    this.currentTrick = [];
+    this.currentPlayer = 0;
+    this.tricksTakenBySeat = this.perSeat(0);
+    this.roundScores = this.perSeat(0);
+    this.cumulativeScores = this.perSeat(0);
+    this.lastTrick = null;
+    this.tricksPlayed = 0;
+  }
+
+  perSeat(value) {
+    return Array.from({ length: this.numPlayers }, () => (Array.isArray(value) ? [] : value));
+  }
+
+  deal() {
+    // Each deal gets its own seed so it can be reproduced on its own
+    this.dealSeed = deriveSeed(this.seed, this.dealSeeds.length);
+    this.dealSeeds.push(this.dealSeed);
+    const deck = shuffleDeck(createDeck(), new HmacRandom(this.dealSeed));
+    this.hands = this.perSeat([]);
+    
+    for (let i = 0; i < deck.length; i++) {
+      this.hands[i % this.numPlayers].push(deck[i]);
+    }
+    
+    // Sort hands
+    for (let i = 0; i < this.numPlayers; i++) {
+      this.hands[i] = sortHand(this.hands[i]);
+    }
+    
+    // Reset round state
+    this.bids = this.perSeat(null);
+    this.highBid = null;
+    this.declarer = null;
+    this.trumpSuit = null;
+    this.trumpBroken = false;
+    this.currentTrick = [];
+    this.tricksTakenBySeat = this.perSeat(0);
+    this.roundScores = this.perSeat(0);
+    this.lastTrick = null;
+    this.tricksPlayed = 0;
+    
+    // Start the auction
+    this.phase = 'bidding';
+    this.currentPlayer = this.getFirstSeat(); // Dealer's left bids first
+    
+    return this.phase;
+  }
+
+  /**
+   * The seat after the dealer: opens the auction
+   */
+  getFirstSeat() {
+    return (this.dealerSeat + 1) % this.numPlayers;
+  }
+
+  /**
+   * Lowest bid the current bidder may make
+   */
+  getMinimumBid() {
+    return this.highBid === null ? BATAK_MIN_BID : this.highBid + 1;
+  }
+
+  /**
+   * A seat may pass unless everyone else has passed without a bid,
+   * in which case it is forced to take the contract at the minimum
+   */
+  canPass(seat) {
+    if (this.highBid !== null) return true;
+    return this.bids.some((bid, other) => other !== seat && bid !== BATAK_PASS);
+  }
+
+  /**
+   * Bid a number of tricks, or 'pass' to drop out of the auction
+   */
+  submitBid(playerIndex, bid) {
+    if (this.phase !== 'bidding') {
+      return { success: false, error: 'Not in bidding phase', code: GAME_ERRORS.WRONG_PHASE };
+    }
+    
+    if (playerIndex !== this.currentPlayer) {
+      return { success: false, error: 'Not your turn', code: GAME_ERRORS.NOT_YOUR_TURN };
+    }
+    
+    if (bid === BATAK_PASS) {
+      if (!this.canPass(playerIndex)) {
+        return { success: false, error: `Cannot pass - everyone else passed, must bid at least ${BATAK_MIN_BID}`, code: GAME_ERRORS.CANNOT_PASS };
+      }
+    } else {
+      const minimum = this.getMinimumBid();
+      if (!Number.isInteger(bid) || bid < minimum || bid > BATAK_MAX_BID) {
+        return { success: false, error: `Invalid bid - must be ${minimum}-${BATAK_MAX_BID} or pass`,
+          code: Number.isInteger(bid) && bid < minimum ? GAME_ERRORS.BID_TOO_LOW : GAME_ERRORS.INVALID_BID,
+        };
+      }
+      this.highBid = bid;
+      this.declarer = playerIndex;
+    }
+    
+    this.bids[playerIndex] = bid;
+    
+    // Auction ends on a bid of every trick, or when only the high bidder is left
+    const remaining = this.bids.filter(b => b !== BATAK_PASS).length;
+    if (this.highBid === BATAK_MAX_BID || (remaining === 1 && this.highBid !== null)) {
+      this.phase = 'declaring';
+      this.currentPlayer = this.declarer;
+      return { success: true, auctionComplete: true, declarer: this.declarer, contract: this.highBid };
+    }
+    
+    // Move to the next seat still in the auction
+    this.currentPlayer = this.getNextBidder(playerIndex);
+    
+    return { success: true, auctionComplete: false };
+  }
+
+  getNextBidder(seat) {
+    let next = (seat + 1) % this.numPlayers;
+    while (this.bids[next] === BATAK_PASS) {
+      next = (next + 1) % this.numPlayers;
+    }
+    return next;
+  }
+
+  /**
+   * The auction winner names trump and leads the first trick
+   */
+  declareTrump(playerIndex, suit) {
+    if (this.phase !== 'declaring') {
+      return { success: false, error: 'Not in trump declaration phase', code: GAME_ERRORS.WRONG_PHASE };
+    }
+    
+    if (playerIndex !== this.declarer) {
+      return { success: false, error: 'Only the declarer names trump', code: GAME_ERRORS.NOT_DECLARER };
+    }
+    
+    if (!SUITS.includes(suit)) {
+      return { success: false, error: 'Invalid trump suit', code: GAME_ERRORS.INVALID_TRUMP_SUIT };
+    }
+    
+    this.trumpSuit = suit;
+    this.phase = 'playing';
+    this.currentPlayer = this.declarer;
+    
+    return { success: true, trumpSuit: suit };
+  }
+
+  /**
+   * Highest card of `suit` in the trick so far, or null
+   */
+  getHighestOfSuit(suit) {
+    const cards = this.currentTrick.map(p => p.card).filter(c => c.suit === suit);
+    if (cards.length === 0) return null;
+    return cards.reduce((best, c) => (RANK_VALUES[c.rank] > RANK_VALUES[best.rank] ? c : best));
+  }
+
+  /**
+   * Cards from `cards` that beat `card` of the same suit, or all of them if none do
+   */
+  preferHigher(cards, card) {
+    if (!card) return cards;
+    const higher = cards.filter(c => RANK_VALUES[c.rank] > RANK_VALUES[card.rank]);
+    return higher.length > 0 ? higher : cards;
+  }
+
+  getLegalCards(playerIndex) {
+    const hand = this.hands[playerIndex];
+    const isLeading = this.currentTrick.length === 0;
+    
+    if (isLeading) {
+      // Can't lead trump until broken (unless only trump in hand)
+      if (!this.trumpBroken) {
+        const nonTrump = hand.filter(c => c.suit !== this.trumpSuit);
+        if (nonTrump.length > 0) return nonTrump;
+      }
+      return hand;
+    }
+    
+    const ledSuit = this.currentTrick[0].card.suit;
+    const sameSuit = getCardsOfSuit(hand, ledSuit);
+    const highestTrump = this.getHighestOfSuit(this.trumpSuit);
+    
+    // Must follow suit, and go over the best card of the suit unless the trick is already trumped
+    if (sameSuit.length > 0) {
+      if (ledSuit !== this.trumpSuit && highestTrump) return sameSuit;
+      return this.preferHigher(sameSuit, this.getHighestOfSuit(ledSuit));
+    }
+    
+    // Void: must trump, going over any trump already played
+    const trumps = getCardsOfSuit(hand, this.trumpSuit);
+    if (trumps.length > 0) {
+      return this.preferHigher(trumps, highestTrump);
+    }
+    
+    return hand;
+  }
+
+  /**
+   * Which rule keeps a card from being played now (a GAME_ERRORS code).
+   * Follows the branches of getLegalCards, so only call it for cards that method leaves out.
+   */
+  getIllegalPlayReason(playerIndex, card) {
+    const hand = this.hands[playerIndex];
+    if (!hand.some(c => cardEquals(c, card))) return GAME_ERRORS.CARD_NOT_IN_HAND;
+    if (this.currentTrick.length === 0) return GAME_ERRORS.TRUMP_NOT_BROKEN;
+    
+    const ledSuit = this.currentTrick[0].card.suit;
+    if (getCardsOfSuit(hand, ledSuit).length > 0) {
+      return card.suit === ledSuit ? GAME_ERRORS.MUST_BEAT : GAME_ERRORS.MUST_FOLLOW_SUIT;
+    }
+    return card.suit === this.trumpSuit ? GAME_ERRORS.MUST_OVERTRUMP : GAME_ERRORS.MUST_TRUMP;
+  }
+
+  playCard(playerIndex, card) {
+    if (this.phase !== 'playing') {
+      return { success: false, error: 'Not in playing phase', code: GAME_ERRORS.WRONG_PHASE };
+    }
+    
+    if (playerIndex !== this.currentPlayer) {
+      return { success: false, error: 'Not your turn', code: GAME_ERRORS.NOT_YOUR_TURN };
+    }
+    
+    const legalCards = this.getLegalCards(playerIndex);
+    if (!legalCards.some(c => cardEquals(c, card))) {
+      return { success: false, error: 'Illegal card play', code: this.getIllegalPlayReason(playerIndex, card) };
+    }
+    
+    // Remove card from hand
+    this.hands[playerIndex] = this.hands[playerIndex].filter(c => !cardEquals(c, card));
+    
+    // Add to current trick
+    this.currentTrick.push({ seat: playerIndex, card });
+    
+    // Check if trump broken
+    if (card.suit === this.trumpSuit) {
+      this.trumpBroken = true;
+    }
+    
+    // Check if trick is complete
+    if (this.currentTrick.length === this.numPlayers) {
+      return this.completeTrick();
+    }
+    
+    // Move to next player
+    this.currentPlayer = (this.currentPlayer + 1) % this.numPlayers;
+    
+    return { success: true, trickComplete: false };
+  }
+
+  completeTrick() {
+    const winner = determineTrickWinnerWithTrump(this.currentTrick, this.trumpSuit);
+    
+    this.tricksTakenBySeat[winner]++;
+    this.lastTrick = [...this.currentTrick];
+    this.tricksPlayed++;
+    
+    // Check if round is complete
+    if (this.tricksPlayed === this.tricksPerRound) {
+      return this.completeRound(winner);
+    }
+    
+    this.currentTrick = [];
+    this.currentPlayer = winner;
+    
+    return {
+      success: true,
+      trickComplete: true,
+      winner,
+      roundComplete: false
+    };
+  }
+
+  /**
+   * The declarer scores their tricks when the contract is made and loses
+   * the bid when set; everyone else scores the tricks they took
+   */
+  scoreRound() {
+    return this.tricksTakenBySeat.map((tricks, seat) => {
+      if (seat !== this.declarer) return tricks;
+      return tricks >= this.highBid ? tricks : -this.highBid;
+    });
+  }
+
+  completeRound(lastTrickWinner) {
+    const roundScores = this.scoreRound();
+    const made = this.tricksTakenBySeat[this.declarer] >= this.highBid;
+    
+    for (let seat = 0; seat < this.numPlayers; seat++) {
+      this.cumulativeScores[seat] += roundScores[seat];
+    }
+    
+    this.roundScores = roundScores;
+    
+    // Check for game end
+    const maxScore = Math.max(...this.cumulativeScores);
+    const gameOver = maxScore >= this.endingScore;
+    
+    let gameWinner = null;
+    if (gameOver) {
+      // Higher score wins; null = tie at the top
+      const leaders = this.cumulativeScores
+        .map((score, seat) => ({ score, seat }))
+        .filter(entry => entry.score === maxScore);
+      gameWinner = leaders.length === 1 ? leaders[0].seat : null;
+    }
+    
+    this.currentTrick = [];
+    this.phase = 'roundEnd';
+    
+    return {
+      success: true,
+      trickComplete: true,
+      winner: lastTrickWinner,
+      roundComplete: true,
+      roundScores: [...this.roundScores],
+      cumulativeScores: [...this.cumulativeScores],
+      tricksTakenBySeat: [...this.tricksTakenBySeat],
+      declarer: this.declarer,
+      contract: this.highBid,
+      trumpSuit: this.trumpSuit,
+      made,
+      gameOver,
+      gameWinner,
+    };
+  }
+
+  startNextRound() {
+    this.roundNumber++;
+    this.dealerSeat = (this.dealerSeat + 1) % this.numPlayers;
+    this.deal();
+  }
+
+  getStateForPlayer(playerIndex) {
+    return {
+      phase: this.phase,
+      roundNumber: this.roundNumber,
+      dealerSeat: this.dealerSeat,
+      hand: this.hands[playerIndex],
+      currentTrick: this.currentTrick,
+      currentPlayer: this.currentPlayer,
+      bids: this.bids,
+      highBid: this.highBid,
+      declarer: this.declarer,
+      trumpSuit: this.trumpSuit,
+      trumpBroken: this.trumpBroken,
+      tricksTakenBySeat: this.tricksTakenBySeat,
+      roundScores: this.roundScores,
+      cumulativeScores: this.cumulativeScores,
+      lastTrick: this.lastTrick,
+      legalCards: this.phase === 'playing' && playerIndex === this.currentPlayer
+        ? this.getLegalCards(playerIndex)
+        : [],
+      illegalCards: this.phase === 'playing' && playerIndex === this.currentPlayer
+        ? getIllegalCards(this, playerIndex)
+        : [],
+      minimumBid: this.getMinimumBid(),
+      canPass: this.phase === 'bidding' ? this.canPass(playerIndex) : true,
+      endingScore: this.endingScore,
+      tricksPerRound: this.tricksPerRound,
+    };
+  }
+
+  /**
+   * Get state for spectators (no hands visible)
+   */
+  getSpectatorState() {
+    return {
+      phase: this.phase,
+      roundNumber: this.roundNumber,
+      dealerSeat: this.dealerSeat,
+      currentTrick: this.currentTrick,
+      currentPlayer: this.currentPlayer,
+      bids: this.bids,
+      highBid: this.highBid,
+      declarer: this.declarer,
+      trumpSuit: this.trumpSuit,
+      trumpBroken: this.trumpBroken,
+      tricksTakenBySeat: this.tricksTakenBySeat,
+      roundScores: this.roundScores,
+      cumulativeScores: this.cumulativeScores,
+      lastTrick: this.lastTrick,
+      tricksPlayed: this.tricksPlayed,
+      endingScore: this.endingScore,
+      tricksPerRound: this.tricksPerRound,
+    };
+  }
+}
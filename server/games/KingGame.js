@@ -4,7 +4,10 @@
  * Implements the Turkish King card game with:
  * - 6 penalty contracts (El Almaz, Kupa Almaz, Erkek Almaz, Kız Almaz, Rıfkı, Son İki)
  * - Trump contracts (any suit can be declared trump)
- * - 20 games per party (12 penalty + 8 trump in dejenere mode)
+ * - 20 games per party (12 penalty + 8 trump in dejenere mode, 12 in the short version)
+ * - Per-table variants (KING_VARIANT_DEFAULTS): natural selection order,
+ *   penalties before trumps, the short internet party, the first-lead holder
+ *   and three-player King (the 2s removed, 16 cards each)
  */
 
 import { 
@@ -13,10 +16,14 @@ import {
   sortHand, 
   shuffleDeck, 
   createDeck,
+  SUITS,
   determineTrickWinner,
   determineTrickWinnerWithTrump,
   getCardsOfSuit
 } from '../shared/cards.js';
+import { HmacRandom, createSecret, deriveSeed } from '../shared/random.js';
+import { GAME_ERRORS, getIllegalCards } from '../shared/gameErrors.js';
+import { createDealCommitment } from '../shared/commitment.js';
 
 // Contract types
 export const CONTRACT_TYPES = {
@@ -34,19 +41,19 @@ export const PENALTY_CONTRACTS = {
   SON_IKI: 'sonIki'     // Avoid last two tricks - 180 points per trick
 };
 
-// Point values for each contract
+// Point values for each contract; maxPoints (everything handed out in one game) by seat count
 export const PENALTY_VALUES = {
-  el: { perTrick: 50, maxPoints: 650 },
-  kupa: { perHeart: 30, maxPoints: 390 },
-  erkek: { perCard: 60, maxPoints: 480 },  // 8 cards (4K + 4J)
-  kiz: { perCard: 100, maxPoints: 400 },   // 4 queens
-  rifki: { fixed: 320, maxPoints: 320 },   // Single card (K♥)
-  sonIki: { perTrick: 180, maxPoints: 360 } // Last 2 tricks
+  el: { perTrick: 50, maxPoints: { 4: 650, 3: 800 } },     // 13 tricks, 16 with three players
+  kupa: { perHeart: 30, maxPoints: { 4: 390, 3: 360 } },   // 13 hearts, 12 without the 2♥
+  erkek: { perCard: 60, maxPoints: { 4: 480, 3: 480 } },   // 8 cards (4K + 4J)
+  kiz: { perCard: 100, maxPoints: { 4: 400, 3: 400 } },    // 4 queens
+  rifki: { fixed: 320, maxPoints: { 4: 320, 3: 320 } },    // Single card (K♥)
+  sonIki: { perTrick: 180, maxPoints: { 4: 360, 3: 360 } } // Last 2 tricks
 };
 
 export const TRUMP_VALUES = {
   perTrick: 50,
-  maxPoints: 650
+  maxPoints: { 4: 650, 3: 800 }
 };
 
 // Contract labels for UI
@@ -66,10 +73,92 @@ export const TRUMP_LABELS = {
   clubs: 'Sinek Koz'
 };
 
+// Party variants, all defaulting to dejenere mode with the selector leading
+export const KING_VARIANT_DEFAULTS = {
+  selectionOrder: 'dejenere',  // 'dejenere' (selector picks any contract left) or 'natural' (6 penalties in order, then 4 trumps, twice)
+  penaltiesFirst: false,       // Dejenere: a player uses all their penalty picks before any trump
+  short: false,                // Dejenere: internet version, 2 penalties + 1 trump per player
+  firstLead: 'selector',       // Who leads the first trick: 'selector', 'twoOfDiamonds' or 'sixOfSpades' holder
+  threePlayer: false,          // Three seats, the four 2s left out so everyone gets 16 cards
+};
+
+export const KING_SELECTION_ORDERS = ['dejenere', 'natural'];
+export const KING_FIRST_LEADS = ['selector', 'twoOfDiamonds', 'sixOfSpades'];
+
+const LEAD_CARDS = {
+  twoOfDiamonds: { suit: 'diamonds', rank: '2' },
+  sixOfSpades: { suit: 'spades', rank: '6' },
+};
+
+// Cards left out of the three-player deck
+const THREE_PLAYER_REMOVED_CARDS = SUITS.map(suit => ({ suit, rank: '2' }));
+
+// Picks per player in dejenere mode (three players share out all 12 penalty games)
+const CONTRACT_QUOTAS = {
+  standard: { penalties: 3, trumps: 2 },
+  threePlayer: { penalties: 4, trumps: 2 },
+  short: { penalties: 2, trumps: 1 },
+};
+
+// How often any one contract (or trump suit) may be played in a party
+const MAX_CONTRACT_USES = 2;
+
+// Natural order: every penalty once, then four trump games, played twice per party
+const NATURAL_ROUND = [...Object.values(PENALTY_CONTRACTS), 'trump', 'trump', 'trump', 'trump'];
+const NATURAL_ROUNDS = 2;
+
+/**
+ * Fill in defaults and drop anything that isn't a known variant value.
+ * The per-player rules (penaltiesFirst, short) only apply to dejenere selection,
+ * and the three-player deck has no 2♦ to lead with.
+ */
+export function normalizeKingVariants(variants = {}) {
+  const v = variants || {};
+  const selectionOrder = KING_SELECTION_ORDERS.includes(v.selectionOrder) ? v.selectionOrder : KING_VARIANT_DEFAULTS.selectionOrder;
+  const dejenere = selectionOrder === 'dejenere';
+  const threePlayer = v.threePlayer === true;
+  const firstLead = KING_FIRST_LEADS.includes(v.firstLead) && !(threePlayer && v.firstLead === 'twoOfDiamonds')
+    ? v.firstLead
+    : KING_VARIANT_DEFAULTS.firstLead;
+  return {
+    selectionOrder,
+    penaltiesFirst: dejenere && v.penaltiesFirst === true,
+    short: dejenere && v.short === true,
+    firstLead,
+    threePlayer,
+  };
+}
+
+/**
+ * Seats per table for a set of variants
+ */
+export function getKingSeatCount(variants = {}) {
+  return variants.threePlayer ? 3 : 4;
+}
+
+// Canonical penalty name for any casing the client sends ('SONIKI' -> 'sonIki')
+function normalizePenaltyName(contractName) {
+  return Object.values(PENALTY_CONTRACTS).find(name => name.toLowerCase() === contractName?.toLowerCase());
+}
+
 export class KingGame {
-  constructor(initialSelectorSeat = 0) {
-    this.hands = [[], [], [], []];
-    this.gameNumber = 1;  // 1-20 within a party
+  constructor(initialSelectorSeat = 0, options = {}) {
+    this.variants = normalizeKingVariants(options.variants);
+    this.numPlayers = getKingSeatCount(this.variants);
+    this.removedCards = this.variants.threePlayer ? THREE_PLAYER_REMOVED_CARDS : [];
+    this.tricksPerGame = (52 - this.removedCards.length) / this.numPlayers;
+    
+    if (this.variants.short) {
+      this.quota = CONTRACT_QUOTAS.short;
+    } else {
+      this.quota = this.variants.threePlayer ? CONTRACT_QUOTAS.threePlayer : CONTRACT_QUOTAS.standard;
+    }
+    this.totalGames = this.variants.selectionOrder === 'natural'
+      ? NATURAL_ROUND.length * NATURAL_ROUNDS
+      : this.numPlayers * (this.quota.penalties + this.quota.trumps);
+    
+    this.hands = this.perSeat([]);
+    this.gameNumber = 1;  // 1-totalGames within a party
     this.phase = 'dealing';
     this.selectorSeat = initialSelectorSeat;  // Who selects the contract this game
     
@@ -80,7 +169,7 @@ export class KingGame {
     this.currentTrick = [];
     this.currentPlayer = 0;
     this.tricksPlayed = 0;
-    this.tricksTaken = [[], [], [], []];  // Tricks won by each player
+    this.tricksTaken = this.perSeat([]);  // Tricks won by each player
     this.lastTrick = null;
     
     // Contract-specific state
@@ -88,19 +177,14 @@ export class KingGame {
     this.trumpBroken = false;   // For trump games
     
     // Scoring
-    this.gameScores = [0, 0, 0, 0];       // Current game scores
-    this.cumulativeScores = [0, 0, 0, 0]; // Party cumulative scores
+    this.gameScores = this.perSeat(0);       // Current game scores
+    this.cumulativeScores = this.perSeat(0); // Party cumulative scores
     
     // Contract usage tracking (dejenere mode)
-    // Each player gets 3 penalty selections and 2 trump selections per party
-    this.contractsUsed = [
-      { penalties: 0, trumps: 0 },
-      { penalties: 0, trumps: 0 },
-      { penalties: 0, trumps: 0 },
-      { penalties: 0, trumps: 0 }
-    ];
-    
-    // Global contract usage - each contract can only be selected 2 times per party
+    // Each player gets this.quota penalty and trump selections per party (3 + 2, or 2 + 1 when short)
+    this.contractsUsed = Array.from({ length: this.numPlayers }, () => ({ penalties: 0, trumps: 0 }));
+    
+    // Global contract usage - each contract can only be selected MAX_CONTRACT_USES times per party
     this.globalContractUsage = {
       el: 0,
       kupa: 0,
@@ -118,23 +202,38 @@ export class KingGame {
     this.contractHistory = [];
     
     // Party scores (accumulated across all games in party)
-    this.partyScores = [0, 0, 0, 0];
+    this.partyScores = this.perSeat(0);
     
     // Timers (managed externally)
     this.turnTimer = null;
     this.selectTimer = null;
+    
+    // Seeded dealing (seed is recorded so any game can be re-dealt)
+    this.seed = options.seed ?? createSecret();
+    this.dealSeed = null;
+    this.dealSeeds = [];  // One per game of the party, in order
+    this.dealCommitment = null;  // { deck, salt, hash } for the current deal, see shared/commitment.js
+  }
+
+  perSeat(value) {
+    return Array.from({ length: this.numPlayers }, () => (Array.isArray(value) ? [] : value));
   }
 
   deal() {
-    const deck = shuffleDeck(createDeck());
-    this.hands = [[], [], [], []];
+    // Each deal gets its own seed so it can be reproduced on its own
+    this.dealSeed = deriveSeed(this.seed, this.dealSeeds.length);
+    this.dealSeeds.push(this.dealSeed);
+    const deck = shuffleDeck(createDeck({ remove: this.removedCards }), new HmacRandom(this.dealSeed));
+    // Commit to the shuffled deck before any card goes out; revealed when the round ends
+    this.dealCommitment = createDealCommitment(deck);
+    this.hands = this.perSeat([]);
     
-    for (let i = 0; i < 52; i++) {
-      this.hands[i % 4].push(deck[i]);
+    for (let i = 0; i < deck.length; i++) {
+      this.hands[i % this.numPlayers].push(deck[i]);
     }
     
     // Sort hands
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.numPlayers; i++) {
       this.hands[i] = sortHand(this.hands[i]);
     }
     
@@ -143,8 +242,8 @@ export class KingGame {
     this.currentTrick = [];
     this.heartsBroken = false;
     this.trumpBroken = false;
-    this.tricksTaken = [[], [], [], []];
-    this.gameScores = [0, 0, 0, 0];
+    this.tricksTaken = this.perSeat([]);
+    this.gameScores = this.perSeat(0);
     this.lastTrick = null;
     this.tricksPlayed = 0;
     
@@ -156,41 +255,54 @@ export class KingGame {
    */
   canSelectContract(playerSeat, contractType, contractName, trumpSuit) {
     if (playerSeat !== this.selectorSeat) {
-      return { valid: false, error: 'Not your turn to select' };
+      return { valid: false, error: 'Not your turn to select', code: GAME_ERRORS.NOT_YOUR_TURN };
     }
     
     if (this.phase !== 'selecting') {
-      return { valid: false, error: 'Not in selection phase' };
+      return { valid: false, error: 'Not in selection phase', code: GAME_ERRORS.WRONG_PHASE };
     }
     
     const usage = this.contractsUsed[playerSeat];
+    const required = this.getNaturalContract();
     
     if (contractType === CONTRACT_TYPES.PENALTY) {
-      if (usage.penalties >= 3) {
-        return { valid: false, error: 'No penalty selections remaining' };
+      if (required === 'trump') {
+        return { valid: false, error: 'Natural order requires a trump game', code: GAME_ERRORS.NATURAL_ORDER };
+      }
+      if (!required && usage.penalties >= this.quota.penalties) {
+        return { valid: false, error: 'No penalty selections remaining', code: GAME_ERRORS.NO_SELECTIONS_LEFT };
       }
-      if (!PENALTY_CONTRACTS[contractName.toUpperCase()] && !Object.values(PENALTY_CONTRACTS).includes(contractName)) {
-        return { valid: false, error: 'Invalid penalty contract' };
+      const normalizedName = normalizePenaltyName(contractName);
+      if (!normalizedName) {
+        return { valid: false, error: 'Invalid penalty contract', code: GAME_ERRORS.INVALID_CONTRACT };
+      }
+      if (required && normalizedName !== required) {
+        return { valid: false, error: `Natural order requires ${CONTRACT_LABELS[required]}`, code: GAME_ERRORS.NATURAL_ORDER };
       }
       // Check global usage for this specific penalty contract
-      const normalizedName = contractName.toLowerCase();
-      if (this.globalContractUsage[normalizedName] >= 2) {
-        return { valid: false, error: 'This contract has been used twice already' };
+      if (this.globalContractUsage[normalizedName] >= MAX_CONTRACT_USES) {
+        return { valid: false, error: 'This contract has been used twice already', code: GAME_ERRORS.CONTRACT_USED_UP };
       }
     } else if (contractType === CONTRACT_TYPES.TRUMP) {
-      if (usage.trumps >= 2) {
-        return { valid: false, error: 'No trump selections remaining' };
+      if (required && required !== 'trump') {
+        return { valid: false, error: `Natural order requires ${CONTRACT_LABELS[required]}`, code: GAME_ERRORS.NATURAL_ORDER };
+      }
+      if (!required && usage.trumps >= this.quota.trumps) {
+        return { valid: false, error: 'No trump selections remaining', code: GAME_ERRORS.NO_SELECTIONS_LEFT };
+      }
+      if (this.mustChoosePenalty(playerSeat)) {
+        return { valid: false, error: 'Penalties must be selected before trumps', code: GAME_ERRORS.PENALTIES_FIRST };
       }
       if (!['spades', 'hearts', 'diamonds', 'clubs'].includes(trumpSuit)) {
-        return { valid: false, error: 'Invalid trump suit' };
+        return { valid: false, error: 'Invalid trump suit', code: GAME_ERRORS.INVALID_TRUMP_SUIT };
       }
       // Check global usage for this specific trump suit
       const trumpKey = `trump_${trumpSuit}`;
-      if (this.globalContractUsage[trumpKey] >= 2) {
-        return { valid: false, error: 'This trump suit has been used twice already' };
+      if (this.globalContractUsage[trumpKey] >= MAX_CONTRACT_USES) {
+        return { valid: false, error: 'This trump suit has been used twice already', code: GAME_ERRORS.CONTRACT_USED_UP };
       }
     } else {
-      return { valid: false, error: 'Invalid contract type' };
+      return { valid: false, error: 'Invalid contract type', code: GAME_ERRORS.INVALID_CONTRACT };
     }
     
     return { valid: true };
@@ -202,11 +314,11 @@ export class KingGame {
   selectContract(playerSeat, contractType, contractName, trumpSuit) {
     const validation = this.canSelectContract(playerSeat, contractType, contractName, trumpSuit);
     if (!validation.valid) {
-      return { success: false, error: validation.error };
+      return { success: false, error: validation.error, code: validation.code };
     }
     
     // Normalize contract name
-    const normalizedName = contractName?.toLowerCase();
+    const normalizedName = normalizePenaltyName(contractName);
     
     if (contractType === CONTRACT_TYPES.PENALTY) {
       this.contract = { type: CONTRACT_TYPES.PENALTY, name: normalizedName };
@@ -229,8 +341,8 @@ export class KingGame {
     
     this.phase = 'playing';
     
-    // Contract selector starts the hand
-    this.currentPlayer = playerSeat;
+    // Contract selector starts the hand, or the lead card's holder
+    this.currentPlayer = this.findFirstLeader();
     
     return { 
       success: true, 
@@ -243,23 +355,27 @@ export class KingGame {
    */
   getAvailableContracts(playerSeat) {
     const usage = this.contractsUsed[playerSeat];
+    const required = this.getNaturalContract();
     const contracts = [];
     
-    // Add penalty contracts if available (player has remaining selections)
-    if (usage.penalties < 3) {
-      for (const [key, name] of Object.entries(PENALTY_CONTRACTS)) {
+    // Add penalty contracts if available (player has remaining selections, or natural order calls for one)
+    if (required ? required !== 'trump' : usage.penalties < this.quota.penalties) {
+      for (const name of Object.values(PENALTY_CONTRACTS)) {
+        if (required && name !== required) continue;
+        
         const globalUsage = this.globalContractUsage[name] || 0;
         contracts.push({
           type: name,
           label: CONTRACT_LABELS[name] || name,
           usageCount: globalUsage,
-          disabled: globalUsage >= 2,
+          disabled: globalUsage >= MAX_CONTRACT_USES,
         });
       }
     }
     
-    // Add trump contracts if available (player has remaining selections)
-    if (usage.trumps < 2) {
+    // Add trump contracts if available (player has remaining selections, or natural order calls for one)
+    if (required ? required === 'trump' : usage.trumps < this.quota.trumps) {
+      const penaltiesPending = this.mustChoosePenalty(playerSeat);
       for (const suit of ['spades', 'hearts', 'clubs', 'diamonds']) {
         const trumpKey = `trump_${suit}`;
         const globalUsage = this.globalContractUsage[trumpKey] || 0;
@@ -268,7 +384,7 @@ export class KingGame {
           trumpSuit: suit,
           label: TRUMP_LABELS[suit] || `${suit} Koz`,
           usageCount: globalUsage,
-          disabled: globalUsage >= 2,
+          disabled: globalUsage >= MAX_CONTRACT_USES || penaltiesPending,
         });
       }
     }
@@ -276,9 +392,32 @@ export class KingGame {
     return contracts;
   }
 
-  findTwoOfDiamondsPlayer() {
-    for (let i = 0; i < 4; i++) {
-      if (this.hands[i].some(c => c.suit === 'diamonds' && c.rank === '2')) {
+  /**
+   * Natural order: the contract this game must be ('trump' lets the selector
+   * pick the suit). Null in dejenere mode, where the selector chooses.
+   */
+  getNaturalContract() {
+    if (this.variants.selectionOrder !== 'natural') return null;
+    return NATURAL_ROUND[(this.gameNumber - 1) % NATURAL_ROUND.length];
+  }
+
+  /**
+   * Penalties-first tables: a player with penalty picks left may not choose a trump
+   */
+  mustChoosePenalty(playerSeat) {
+    return this.variants.penaltiesFirst &&
+      this.contractsUsed[playerSeat].penalties < this.quota.penalties;
+  }
+
+  /**
+   * Who leads the first trick: the selector, or whoever holds the table's lead card
+   */
+  findFirstLeader() {
+    const leadCard = LEAD_CARDS[this.variants.firstLead];
+    if (!leadCard) return this.selectorSeat;
+    
+    for (let i = 0; i < this.numPlayers; i++) {
+      if (this.hands[i].some(c => cardEquals(c, leadCard))) {
         return i;
       }
     }
@@ -409,18 +548,51 @@ export class KingGame {
     return hand;
   }
 
+  /**
+   * Which rule keeps a card from being played now (a GAME_ERRORS code).
+   * Follows the branches of getLegalCards, so only call it for cards that method leaves out.
+   */
+  getIllegalPlayReason(playerIndex, card) {
+    const hand = this.hands[playerIndex];
+    if (!hand.some(c => cardEquals(c, card))) return GAME_ERRORS.CARD_NOT_IN_HAND;
+    
+    const isTrump = this.contract.type === CONTRACT_TYPES.TRUMP;
+    if (this.currentTrick.length === 0) {
+      return isTrump ? GAME_ERRORS.TRUMP_NOT_BROKEN : GAME_ERRORS.HEARTS_NOT_BROKEN;
+    }
+    
+    const ledSuit = this.currentTrick[0].card.suit;
+    if (card.suit !== ledSuit && getCardsOfSuit(hand, ledSuit).length > 0) {
+      return GAME_ERRORS.MUST_FOLLOW_SUIT;
+    }
+    
+    // Penalty games: a card of the led suit held back, or the wrong discard when void
+    switch (this.contract.name) {
+      case 'erkek':
+        return GAME_ERRORS.MUST_PLAY_KING_OR_JACK;
+      case 'kiz':
+        return GAME_ERRORS.MUST_PLAY_QUEEN;
+      case 'rifki':
+        return hand.some(c => c.suit === 'hearts' && c.rank === 'K')
+          ? GAME_ERRORS.MUST_PLAY_KING_OF_HEARTS
+          : GAME_ERRORS.MUST_PLAY_HEART;
+      default:
+        return GAME_ERRORS.MUST_PLAY_HEART;
+    }
+  }
+
   playCard(playerIndex, card) {
     if (this.phase !== 'playing') {
-      return { success: false, error: 'Not in playing phase' };
+      return { success: false, error: 'Not in playing phase', code: GAME_ERRORS.WRONG_PHASE };
     }
     
     if (playerIndex !== this.currentPlayer) {
-      return { success: false, error: 'Not your turn' };
+      return { success: false, error: 'Not your turn', code: GAME_ERRORS.NOT_YOUR_TURN };
     }
     
     const legalCards = this.getLegalCards(playerIndex);
     if (!legalCards.some(c => cardEquals(c, card))) {
-      return { success: false, error: 'Illegal card play' };
+      return { success: false, error: 'Illegal card play', code: this.getIllegalPlayReason(playerIndex, card) };
     }
     
     // Remove card from hand
@@ -438,12 +610,12 @@ export class KingGame {
     }
     
     // Check if trick is complete
-    if (this.currentTrick.length === 4) {
+    if (this.currentTrick.length === this.numPlayers) {
       return this.completeTrick();
     }
     
     // Move to next player (counterclockwise)
-    this.currentPlayer = (this.currentPlayer + 3) % 4;
+    this.currentPlayer = (this.currentPlayer + this.numPlayers - 1) % this.numPlayers;
     
     return { success: true, trickComplete: false };
   }
@@ -464,14 +636,14 @@ export class KingGame {
     this.lastTrick = [...this.currentTrick];
     this.tricksPlayed++;
     
-    // Track winners of tricks 12 and 13 for Son İki scoring
+    // Track winners of the last two tricks for Son İki scoring
     if (this.contract.name === 'sonIki') {
-      if (this.tricksPlayed === 12) {
-        this._trick12Winner = winner;
-        this._trick12Cards = trickCards;
-      } else if (this.tricksPlayed === 13) {
-        this._trick13Winner = winner;
-        this._trick13Cards = trickCards;
+      if (this.tricksPlayed === this.tricksPerGame - 1) {
+        this._secondLastTrickWinner = winner;
+        this._secondLastTrickCards = trickCards;
+      } else if (this.tricksPlayed === this.tricksPerGame) {
+        this._lastTrickWinner = winner;
+        this._lastTrickCards = trickCards;
       }
     }
     
@@ -479,7 +651,7 @@ export class KingGame {
     const earlyEnd = this.checkEarlyGameEnd(trickCards, winner);
     
     // Check if game is complete
-    if (this.tricksPlayed === 13 || earlyEnd) {
+    if (this.tricksPlayed === this.tricksPerGame || earlyEnd) {
       return this.completeGame(winner);
     }
     
@@ -509,8 +681,8 @@ export class KingGame {
     }
     
     // For other contracts, check if any penalty cards remain to be played
-    // by looking at all 4 hands
-    const allRemainingCards = [...this.hands[0], ...this.hands[1], ...this.hands[2], ...this.hands[3]];
+    // by looking at every hand
+    const allRemainingCards = this.hands.flat();
     
     // Kupa Almaz: End when no hearts remain
     if (contractName === 'kupa') {
@@ -544,15 +716,15 @@ export class KingGame {
     this.calculateGameScores();
     
     // Add to cumulative (penalties negative, trump positive)
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.numPlayers; i++) {
       this.cumulativeScores[i] += this.gameScores[i];
     }
     
-    // Check for party end (20 games)
-    const partyOver = this.gameNumber >= 20;
+    // Check for party end (totalGames: 20 games, fewer in the short or three-player dejenere party)
+    const partyOver = this.gameNumber >= this.totalGames;
     
     // Clear all player hands when game ends
-    this.hands = [[], [], [], []];
+    this.hands = this.perSeat([]);
     this.currentTrick = [];
     this.phase = 'gameEnd';
     
@@ -574,7 +746,7 @@ export class KingGame {
     
     if (contractType === CONTRACT_TYPES.TRUMP) {
       // Trump: +50 per trick
-      for (let i = 0; i < 4; i++) {
+      for (let i = 0; i < this.numPlayers; i++) {
         this.gameScores[i] = this.tricksTaken[i].length * TRUMP_VALUES.perTrick;
       }
     } else {
@@ -582,14 +754,14 @@ export class KingGame {
       switch (contractName) {
         case 'el':
           // -50 per trick taken
-          for (let i = 0; i < 4; i++) {
+          for (let i = 0; i < this.numPlayers; i++) {
             this.gameScores[i] = -this.tricksTaken[i].length * PENALTY_VALUES.el.perTrick;
           }
           break;
           
         case 'kupa':
           // -30 per heart captured
-          for (let i = 0; i < 4; i++) {
+          for (let i = 0; i < this.numPlayers; i++) {
             let hearts = 0;
             for (const trick of this.tricksTaken[i]) {
               for (const { card } of trick) {
@@ -602,7 +774,7 @@ export class KingGame {
           
         case 'erkek':
           // -60 per King or Jack captured
-          for (let i = 0; i < 4; i++) {
+          for (let i = 0; i < this.numPlayers; i++) {
             let count = 0;
             for (const trick of this.tricksTaken[i]) {
               for (const { card } of trick) {
@@ -615,7 +787,7 @@ export class KingGame {
           
         case 'kiz':
           // -100 per Queen captured
-          for (let i = 0; i < 4; i++) {
+          for (let i = 0; i < this.numPlayers; i++) {
             let count = 0;
             for (const trick of this.tricksTaken[i]) {
               for (const { card } of trick) {
@@ -628,7 +800,7 @@ export class KingGame {
           
         case 'rifki':
           // -320 for capturing King of Hearts
-          for (let i = 0; i < 4; i++) {
+          for (let i = 0; i < this.numPlayers; i++) {
             let hasRifki = false;
             for (const trick of this.tricksTaken[i]) {
               for (const { card } of trick) {
@@ -640,58 +812,25 @@ export class KingGame {
           break;
           
         case 'sonIki':
-          // -180 for each of the last two tricks
-          for (let i = 0; i < 4; i++) {
-            const lastTwoTricks = this.tricksTaken[i].filter((_, idx, arr) => {
-              // Check if this trick was one of the last two in the game
-              const trickNum = this.getTrickNumber(i, idx);
-              return trickNum >= 12;  // Tricks 12 and 13 (0-indexed 11 and 12)
-            });
-            // Actually need to track which global trick numbers each player won
-            // Simpler: count tricks won in positions 12 and 13
-            this.gameScores[i] = 0;  // Will be set below
-          }
-          // Special handling for Son İki - need to track global trick order
+          // -180 for each of the last two tricks (tricksPerGame - 2 and - 1, 0-indexed),
+          // whether the deal is 52 cards or the three-player 48
           this.calculateSonIkiScores();
           break;
       }
     }
   }
 
-  getTrickNumber(playerIndex, localIndex) {
-    // This is a placeholder - we need to track global trick order
-    // For now, approximate based on position
-    return localIndex;
-  }
-
   calculateSonIkiScores() {
-    // Track who won trick 12 and 13 (last two)
-    // We need to reconstruct from tricksTaken order
-    // Since tricks are added in order, we can count total tricks to find the last two winners
-    
-    // Reset scores
-    for (let i = 0; i < 4; i++) {
+    // Winners of the last two tricks are recorded in completeTrick as they are played
+    for (let i = 0; i < this.numPlayers; i++) {
       this.gameScores[i] = 0;
     }
     
-    // Build ordered list of trick winners
-    const trickWinners = [];
-    const trickCounts = [0, 0, 0, 0];
-    
-    // Reconstruct order by simulating
-    // Actually, we don't have the global order stored directly
-    // Let's use lastTrick tracking - but for Son İki we need to track during play
-    
-    // Simpler approach: store trick winners during play
-    // For now, use the total counts and assume last two are distributed
-    // This is a simplification - proper implementation would track during completeTrick
-    
-    // Actually track winner of tricks 12 and 13 separately in the game
-    if (this._trick12Winner !== undefined) {
-      this.gameScores[this._trick12Winner] -= PENALTY_VALUES.sonIki.perTrick;
+    if (this._secondLastTrickWinner !== undefined) {
+      this.gameScores[this._secondLastTrickWinner] -= PENALTY_VALUES.sonIki.perTrick;
     }
-    if (this._trick13Winner !== undefined) {
-      this.gameScores[this._trick13Winner] -= PENALTY_VALUES.sonIki.perTrick;
+    if (this._lastTrickWinner !== undefined) {
+      this.gameScores[this._lastTrickWinner] -= PENALTY_VALUES.sonIki.perTrick;
     }
   }
 
@@ -699,7 +838,7 @@ export class KingGame {
     // Players with score >= 0 are winners (çıkmış)
     // Players with score < -10 are losers (batmış)
     const winners = [];
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.numPlayers; i++) {
       if (this.cumulativeScores[i] >= 0) {
         winners.push(i);
       }
@@ -709,7 +848,7 @@ export class KingGame {
 
   startNextGame() {
     this.gameNumber++;
-    this.selectorSeat = (this.selectorSeat + 3) % 4;  // Rotate selector counterclockwise
+    this.selectorSeat = (this.selectorSeat + this.numPlayers - 1) % this.numPlayers;  // Rotate selector counterclockwise
     this.deal();
   }
 
@@ -731,14 +870,20 @@ export class KingGame {
       legalCards: this.phase === 'playing' && playerIndex === this.currentPlayer
         ? this.getLegalCards(playerIndex)
         : [],
+      illegalCards: this.phase === 'playing' && playerIndex === this.currentPlayer
+        ? getIllegalCards(this, playerIndex)
+        : [],
       tricksWon: this.tricksTaken.map(t => t.length),
+      variants: this.variants,
+      totalGames: this.totalGames,
+      tricksPerGame: this.tricksPerGame,
     };
   }
 
   // Get penalty cards taken by each player for round-end display
   getPenaltyCardsTaken() {
     if (this.contract.type === CONTRACT_TYPES.TRUMP) {
-      return [[], [], [], []];  // No penalty cards in trump games
+      return this.perSeat([]);  // No penalty cards in trump games
     }
     
     const contractName = this.contract.name;
@@ -759,11 +904,11 @@ export class KingGame {
       
       // For Son İki, specifically add cards from the last two tricks for the winners
       if (contractName === 'sonIki') {
-        if (this._trick12Winner === playerIndex && this._trick12Cards) {
-          penaltyCards.push(...this._trick12Cards);
+        if (this._secondLastTrickWinner === playerIndex && this._secondLastTrickCards) {
+          penaltyCards.push(...this._secondLastTrickCards);
         }
-        if (this._trick13Winner === playerIndex && this._trick13Cards) {
-          penaltyCards.push(...this._trick13Cards);
+        if (this._lastTrickWinner === playerIndex && this._lastTrickCards) {
+          penaltyCards.push(...this._lastTrickCards);
         }
         return penaltyCards;
       }
@@ -0,0 +1,381 @@
+/**
+ * Pişti Game Logic
+ * 2 or 4 players (partners sit across in the four-player game). Four cards
+ * go to each seat and four to the table pile, only the top one face up. A
+ * card of the same rank as the top of the pile, or any jack, captures the
+ * whole pile; capturing a lone card by rank is a pişti. When every hand is
+ * empty the stock deals four more each, until the deck runs out.
+ */
+
+import {
+  cardEquals,
+  sortHand,
+  shuffleDeck,
+  createDeck
+} from '../shared/cards.js';
+import { HmacRandom, createSecret, deriveSeed } from '../shared/random.js';
+import { GAME_ERRORS } from '../shared/gameErrors.js';
+
+export const PISTI_HAND_SIZE = 4;
+export const PISTI_PILE_SIZE = 4;
+
+// Bonus and card points (see scoreRound)
+export const PISTI_POINTS = {
+  PISTI: 10,         // Capturing a lone card by matching its rank
+  DOUBLE_PISTI: 20,  // Capturing a lone jack with a jack
+  MOST_CARDS: 3,     // Side that took the most cards (nobody on a tie)
+};
+
+// Rule variants, all off by default (four players in two partnerships)
+export const PISTI_VARIANT_DEFAULTS = {
+  twoPlayer: false,  // Head to head, 6 deals of 4 cards each
+};
+
+/**
+ * Fill in missing variant flags and drop unknown ones
+ */
+export function normalizePistiVariants(variants = {}) {
+  const normalized = { ...PISTI_VARIANT_DEFAULTS };
+  for (const key of Object.keys(PISTI_VARIANT_DEFAULTS)) {
+    if (variants && variants[key] !== undefined) {
+      normalized[key] = Boolean(variants[key]);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Seats per table for a set of variants
+ */
+export function getPistiSeatCount(variants = {}) {
+  return variants.twoPlayer ? 2 : 4;
+}
+
+/**
+ * Points a captured card is worth on its own: jacks and aces 1,
+ * the 2♣ 2 and the 10♦ 3
+ */
+export function getCardPoints(card) {
+  if (card.rank === 'J' || card.rank === 'A') return 1;
+  if (card.suit === 'clubs' && card.rank === '2') return 2;
+  if (card.suit === 'diamonds' && card.rank === '10') return 3;
+  return 0;
+}
+
+// Default ending score
+const DEFAULT_ENDING_SCORE = 151;
+
+export class PistiGame {
+  constructor(endingScore = DEFAULT_ENDING_SCORE, options = {}) {
+    this.endingScore = endingScore;
+    this.variants = normalizePistiVariants(options.variants);
+    this.numPlayers = getPistiSeatCount(this.variants);
+    
+    // Scoring sides: partnerships (seats 0+2, 1+3) or one seat each head to head
+    this.sides = this.variants.twoPlayer
+      ? [[0], [1]]
+      : [[0, 2], [1, 3]];
+    
+    // Seeded dealing (seed is recorded so any round can be re-dealt)
+    this.seed = options.seed ?? createSecret();
+    this.dealSeed = null;
+    this.dealSeeds = [];  // One per round, in order
+    
+    this.initialDealerSeat = options.initialDealerSeat ?? 0;
+    
+    this.reset();
+  }
+
+  reset() {
+    this.hands = this.perSeat([]);
+    this.stock = [];
+    this.pile = [];
+    this.faceDownCount = 0;
+    this.roundNumber = 1;
+    this.dealerSeat = this.initialDealerSeat;
+    this.phase = 'dealing';
+    this.currentPlayer = 0;
+    this.handNumber = 0;
+    this.capturedBySide = this.perSide([]);
+    this.pistisBySide = this.perSide(0);
+    this.pistiPointsBySide = this.perSide(0);
+    this.lastCapturer = null;
+    this.lastCapture = null;
+    this.roundScores = this.perSide(0);
+    this.cumulativeScores = this.perSide(0);
+  }
+
+  perSeat(value) {
+    return Array.from({ length: this.numPlayers }, () => (Array.isArray(value) ? [] : value));
+  }
+
+  perSide(value) {
+    return this.sides.map(() => (Array.isArray(value) ? [] : value));
+  }
+
+  deal() {
+    // Each deal gets its own seed so it can be reproduced on its own
+    this.dealSeed = deriveSeed(this.seed, this.dealSeeds.length);
+    this.dealSeeds.push(this.dealSeed);
+    this.stock = shuffleDeck(createDeck(), new HmacRandom(this.dealSeed));
+    
+    // Table pile: a jack may not be the face-up card, so it goes under the stock
+    this.pile = this.stock.splice(0, PISTI_PILE_SIZE);
+    while (this.pile[this.pile.length - 1].rank === 'J') {
+      this.stock.push(this.pile.pop());
+      this.pile.push(this.stock.shift());
+    }
+    this.faceDownCount = PISTI_PILE_SIZE - 1;
+    
+    // Reset round state
+    this.handNumber = 0;
+    this.capturedBySide = this.perSide([]);
+    this.pistisBySide = this.perSide(0);
+    this.pistiPointsBySide = this.perSide(0);
+    this.lastCapturer = null;
+    this.lastCapture = null;
+    this.roundScores = this.perSide(0);
+    
+    this.dealHands();
+    
+    this.phase = 'playing';
+    this.currentPlayer = this.getFirstSeat(); // Dealer's left plays first
+    
+    return this.phase;
+  }
+
+  /**
+   * Four more cards to each seat from the stock, starting at the dealer's left
+   */
+  dealHands() {
+    this.hands = this.perSeat([]);
+    for (let i = 0; i < PISTI_HAND_SIZE * this.numPlayers; i++) {
+      const seat = (this.getFirstSeat() + i) % this.numPlayers;
+      this.hands[seat].push(this.stock.shift());
+    }
+    
+    for (let i = 0; i < this.numPlayers; i++) {
+      this.hands[i] = sortHand(this.hands[i]);
+    }
+    
+    this.handNumber++;
+  }
+
+  /**
+   * The seat after the dealer: plays first in every hand
+   */
+  getFirstSeat() {
+    return (this.dealerSeat + 1) % this.numPlayers;
+  }
+
+  /**
+   * Get the side index for a seat (team 0 or 1; the seat itself head to head)
+   */
+  getTeamForSeat(seat) {
+    return this.sides.findIndex(side => side.includes(seat));
+  }
+
+  /**
+   * Face-up card on top of the pile, or null when the pile is empty
+   */
+  getTopCard() {
+    return this.pile.length > 0 ? this.pile[this.pile.length - 1] : null;
+  }
+
+  /**
+   * The pile as players see it: face-down cards as null
+   */
+  getVisiblePile() {
+    return this.pile.map((card, index) => (index < this.faceDownCount ? null : card));
+  }
+
+  /**
+   * Would `card` take the pile? Same rank as the top card, or a jack
+   */
+  captures(card) {
+    const top = this.getTopCard();
+    if (!top) return false;
+    return card.rank === top.rank || card.rank === 'J';
+  }
+
+  /**
+   * Bonus for taking the pile with `card`: a lone card matched by rank is a
+   * pişti, a lone jack taken with a jack a double pişti
+   */
+  getPistiPoints(card) {
+    const top = this.getTopCard();
+    if (this.pile.length !== 1 || card.rank !== top.rank) return 0;
+    return card.rank === 'J' ? PISTI_POINTS.DOUBLE_PISTI : PISTI_POINTS.PISTI;
+  }
+
+  // Every card in hand may be played
+  getLegalCards(playerIndex) {
+    return this.phase === 'playing' ? [...this.hands[playerIndex]] : [];
+  }
+
+  playCard(playerIndex, card) {
+    if (this.phase !== 'playing') {
+      return { success: false, error: 'Not in playing phase', code: GAME_ERRORS.WRONG_PHASE };
+    }
+    
+    if (playerIndex !== this.currentPlayer) {
+      return { success: false, error: 'Not your turn', code: GAME_ERRORS.NOT_YOUR_TURN };
+    }
+    
+    if (!this.hands[playerIndex].some(c => cardEquals(c, card))) {
+      return { success: false, error: 'Card not in hand', code: GAME_ERRORS.CARD_NOT_IN_HAND };
+    }
+    
+    // Remove card from hand
+    this.hands[playerIndex] = this.hands[playerIndex].filter(c => !cardEquals(c, card));
+    
+    let captured = null;
+    let pistiPoints = 0;
+    
+    if (this.captures(card)) {
+      const team = this.getTeamForSeat(playerIndex);
+      pistiPoints = this.getPistiPoints(card);
+      captured = [...this.pile, card];
+      
+      this.capturedBySide[team].push(...captured);
+      if (pistiPoints > 0) {
+        this.pistisBySide[team]++;
+        this.pistiPointsBySide[team] += pistiPoints;
+      }
+      
+      this.pile = [];
+      this.faceDownCount = 0;
+      this.lastCapturer = playerIndex;
+      this.lastCapture = { seat: playerIndex, card, count: captured.length, pistiPoints };
+    } else {
+      this.pile.push(card);
+    }
+    
+    const result = { success: true, captured, pistiPoints, newHand: false, roundComplete: false };
+    
+    // Hands empty: deal again from the stock, or score the round
+    if (this.hands.every(hand => hand.length === 0)) {
+      if (this.stock.length === 0) {
+        return { ...result, ...this.completeRound() };
+      }
+      this.dealHands();
+      result.newHand = true;
+    }
+    
+    this.currentPlayer = (this.currentPlayer + 1) % this.numPlayers;
+    
+    return result;
+  }
+
+  /**
+   * Card points, pişti bonuses and 3 for the most cards, per side
+   */
+  scoreRound() {
+    const counts = this.capturedBySide.map(cards => cards.length);
+    const mostCards = Math.max(...counts);
+    const mostCardsSides = counts.filter(count => count === mostCards).length;
+    
+    return this.capturedBySide.map((cards, team) => {
+      let score = cards.reduce((total, card) => total + getCardPoints(card), 0);
+      score += this.pistiPointsBySide[team];
+      if (counts[team] === mostCards && mostCardsSides === 1) {
+        score += PISTI_POINTS.MOST_CARDS;
+      }
+      return score;
+    });
+  }
+
+  completeRound() {
+    // Whatever is left on the table goes to the last seat that captured
+    let leftoverTo = null;
+    if (this.pile.length > 0 && this.lastCapturer !== null) {
+      leftoverTo = this.lastCapturer;
+      this.capturedBySide[this.getTeamForSeat(leftoverTo)].push(...this.pile);
+      this.pile = [];
+      this.faceDownCount = 0;
+    }
+    
+    const roundScores = this.scoreRound();
+    for (let team = 0; team < this.sides.length; team++) {
+      this.cumulativeScores[team] += roundScores[team];
+    }
+    this.roundScores = roundScores;
+    
+    // Check for game end
+    const maxScore = Math.max(...this.cumulativeScores);
+    const gameOver = maxScore >= this.endingScore;
+    
+    let gameWinnerTeam = null;
+    if (gameOver) {
+      // Higher score wins; null = tie at the top
+      const leaders = this.cumulativeScores
+        .map((score, team) => ({ score, team }))
+        .filter(entry => entry.score === maxScore);
+      gameWinnerTeam = leaders.length === 1 ? leaders[0].team : null;
+    }
+    
+    this.phase = 'roundEnd';
+    
+    return {
+      roundComplete: true,
+      roundScores: [...this.roundScores],
+      cumulativeScores: [...this.cumulativeScores],
+      cardCounts: this.getCapturedCounts(),
+      pistis: [...this.pistisBySide],
+      leftoverTo,
+      gameOver,
+      gameWinnerTeam,
+    };
+  }
+
+  getCapturedCounts() {
+    return this.capturedBySide.map(cards => cards.length);
+  }
+
+  startNextRound() {
+    this.roundNumber++;
+    this.dealerSeat = (this.dealerSeat + 1) % this.numPlayers;
+    this.deal();
+  }
+
+  /**
+   * Table state shared by players and spectators
+   */
+  getTableState() {
+    return {
+      phase: this.phase,
+      roundNumber: this.roundNumber,
+      dealerSeat: this.dealerSeat,
+      currentPlayer: this.currentPlayer,
+      pile: this.getVisiblePile(),
+      stockCount: this.stock.length,
+      handNumber: this.handNumber,
+      handSizes: this.hands.map(hand => hand.length),
+      capturedCounts: this.getCapturedCounts(),
+      pistis: this.pistisBySide,
+      lastCapture: this.lastCapture,
+      roundScores: this.roundScores,
+      cumulativeScores: this.cumulativeScores,
+      variants: this.variants,
+      sides: this.sides,
+      endingScore: this.endingScore,
+    };
+  }
+
+  getStateForPlayer(playerIndex) {
+    return {
+      ...this.getTableState(),
+      hand: this.hands[playerIndex],
+      legalCards: this.phase === 'playing' && playerIndex === this.currentPlayer
+        ? this.getLegalCards(playerIndex)
+        : [],
+    };
+  }
+
+  /**
+   * Get state for spectators (no hands visible)
+   */
+  getSpectatorState() {
+    return this.getTableState();
+  }
+}
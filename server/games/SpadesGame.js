@@ -1,6 +1,12 @@
 /**
  * Spades Game Logic
- * 4-player partnership game with bidding, spades as trump, and bag penalties
+ * 4-player partnership game with bidding, spades as trump, and bag penalties.
+ * Per-table variants (SPADES_VARIANT_DEFAULTS) add Cutthroat (3 players, no
+ * partners), jokers and deuces as high trumps, and 10-for-200 / Boston scoring;
+ * per-table rules (DEFAULT_SPADES_RULES) set the point values.
+ * A blind nil bid adds an exchange phase where the bidder and their partner
+ * swap two cards before the first lead. The dealer moves one seat each round;
+ * the seat after the dealer bids first and leads.
  */
 
 import { 
@@ -10,111 +16,255 @@ import {
   shuffleDeck, 
   createDeck,
   determineTrickWinnerWithTrump,
-  getCardsOfSuit
+  getCardsOfSuit,
+  JOKER_RANKS
 } from '../shared/cards.js';
+import { HmacRandom, createSecret, deriveSeed } from '../shared/random.js';
+import { GAME_ERRORS, getIllegalCards } from '../shared/gameErrors.js';
+import { createDealCommitment } from '../shared/commitment.js';
 
-// Scoring constants
-const SCORING = {
-  BID_SUCCESS_MULTIPLIER: 10,  // Points per bid when team makes their bid
-  BID_FAILURE_MULTIPLIER: -10, // Points per bid when team fails
-  OVERTRICK_VALUE: 1,          // Points per overtrick (bag)
-  BAG_PENALTY_THRESHOLD: 10,   // Bags before penalty
-  BAG_PENALTY_AMOUNT: -100,    // Penalty for every 10 bags
-  NIL_SUCCESS: 50,             // Bonus for successful nil
-  NIL_FAILURE: -50,            // Penalty for failed nil
-  BLIND_NIL_SUCCESS: 100,      // Bonus for successful blind nil
-  BLIND_NIL_FAILURE: -100,     // Penalty for failed blind nil
+// Scoring rules, overridable per table (Table.options.rules, see validateSpadesRules)
+export const DEFAULT_SPADES_RULES = {
+  bidValue: 10,          // Points per bid trick: won when the bid is made, lost when set
+  overtrickValue: 1,     // Points per overtrick (bag)
+  bagLimit: 10,          // Bags that trigger a penalty
+  bagPenalty: 100,       // Points lost every time the bag limit is reached
+  nilValue: 50,          // Won for a successful nil, lost for a failed one
+  blindNilValue: 100,    // Won for a successful blind nil, lost for a failed one
+  blindNilDeficit: 100,  // How far a side must trail before it may bid blind nil
 };
 
+// Allowed range for each rule (inclusive, whole numbers only)
+export const SPADES_RULE_LIMITS = {
+  bidValue: [1, 100],
+  overtrickValue: [0, 10],
+  bagLimit: [1, 50],
+  bagPenalty: [0, 1000],
+  nilValue: [0, 500],
+  blindNilValue: [0, 1000],
+  blindNilDeficit: [0, 1000],
+};
+
+// Variant scoring (see SPADES_VARIANT_DEFAULTS)
+const VARIANT_SCORING = {
+  TEN_FOR_TWO_HUNDRED_BID: 10, // 10-for-200: bids of this size or more score flat
+  TEN_FOR_TWO_HUNDRED: 200,    // 10-for-200: made (or lost, when set)
+  BOSTON: 500,                 // Boston: taking every trick of the round
+};
+
+// Rule variants, all off by default (standard partnership Spades)
+export const SPADES_VARIANT_DEFAULTS = {
+  cutthroat: false,          // 3 players, everyone for themselves, 17 cards each
+  jokers: false,             // Big and little joker rank above the ace of spades
+  deucesHigh: false,         // 2♠ ranks just below the jokers (or above the ace)
+  tenForTwoHundred: false,   // A made bid of 10+ scores 200, a set one loses 200
+  boston: false,             // A side that takes every trick scores 500 instead
+};
+
+// Cards a blind nil bidder and their partner swap before play
+export const BLIND_NIL_EXCHANGE_SIZE = 2;
+
+// Low side-suit twos left out, in order, until the deck divides evenly between the seats
+const REMOVABLE_CARDS = [
+  { suit: 'clubs', rank: '2' },
+  { suit: 'diamonds', rank: '2' },
+  { suit: 'hearts', rank: '2' },
+];
+
+/**
+ * Fill in missing variant flags and drop unknown ones
+ */
+export function normalizeSpadesVariants(variants = {}) {
+  const normalized = { ...SPADES_VARIANT_DEFAULTS };
+  for (const key of Object.keys(SPADES_VARIANT_DEFAULTS)) {
+    if (variants && variants[key] !== undefined) {
+      normalized[key] = Boolean(variants[key]);
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Check a table's scoring rules and fill in the defaults for missing ones.
+ * Returns { success: true, rules } or { success: false, error }.
+ */
+export function validateSpadesRules(rules = {}) {
+  if (rules === null || typeof rules !== 'object' || Array.isArray(rules)) {
+    return { success: false, error: 'Invalid rules - must be an object' };
+  }
+  
+  const validated = { ...DEFAULT_SPADES_RULES };
+  for (const [key, value] of Object.entries(rules)) {
+    const limits = SPADES_RULE_LIMITS[key];
+    if (!limits) {
+      return { success: false, error: `Unknown rule '${key}'` };
+    }
+    
+    const [min, max] = limits;
+    if (!Number.isInteger(value) || value < min || value > max) {
+      return { success: false, error: `Invalid rule '${key}' - must be a whole number from ${min} to ${max}` };
+    }
+    validated[key] = value;
+  }
+  
+  return { success: true, rules: validated };
+}
+
+/**
+ * Seats per table for a set of variants
+ */
+export function getSpadesSeatCount(variants = {}) {
+  return variants.cutthroat ? 3 : 4;
+}
+
 // Default win threshold
 const DEFAULT_WIN_THRESHOLD = 300;
 
 export class SpadesGame {
-  constructor(winThreshold = DEFAULT_WIN_THRESHOLD) {
+  constructor(winThreshold = DEFAULT_WIN_THRESHOLD, options = {}) {
     this.winThreshold = winThreshold;
+    this.variants = normalizeSpadesVariants(options.variants);
+    
+    // Tables validate their rules when created; anything else here is a programming error
+    const ruleCheck = validateSpadesRules(options.rules ?? {});
+    if (!ruleCheck.success) {
+      throw new Error(ruleCheck.error);
+    }
+    this.rules = ruleCheck.rules;
+    this.numPlayers = getSpadesSeatCount(this.variants);
+    
+    // Scoring sides: partnerships (seats 0+2, 1+3) or one seat each in Cutthroat
+    this.sides = this.variants.cutthroat
+      ? [[0], [1], [2]]
+      : [[0, 2], [1, 3]];
+    
+    // Trump ranks above the ace, highest first
+    this.highTrumps = [
+      ...(this.variants.jokers ? JOKER_RANKS : []),
+      ...(this.variants.deucesHigh ? ['2'] : []),
+    ];
+    
+    // Twos dropped so every seat gets the same number of cards
+    const fullDeckSize = 52 + (this.variants.jokers ? JOKER_RANKS.length : 0);
+    this.removedCards = REMOVABLE_CARDS.slice(0, fullDeckSize % this.numPlayers);
+    this.tricksPerRound = (fullDeckSize - this.removedCards.length) / this.numPlayers;
+    
+    // Seeded dealing (seed is recorded so any round can be re-dealt)
+    this.seed = options.seed ?? createSecret();
+    this.dealSeed = null;
+    this.dealSeeds = [];  // One per round, in order
+    this.dealCommitment = null;  // { deck, salt, hash } for the current deal, see shared/commitment.js
+    
+    this.initialDealerSeat = options.initialDealerSeat ?? 0;
+    
     this.reset();
   }
 
   reset() {
-    this.hands = [[], [], [], []];
+    this.hands = this.perSeat([]);
     this.roundNumber = 1;
+    this.dealerSeat = this.initialDealerSeat;
     this.phase = 'dealing';
-    this.bids = [null, null, null, null]; // null = not yet bid, number = bid amount, 'nil' or 'blind_nil'
+    this.bids = this.perSeat(null); // null = not yet bid, number = bid amount, 'nil' or 'blind_nil'
     this.bidsSubmitted = 0;
     this.currentTrick = [];
     this.currentPlayer = 0;
     this.spadesBroken = false;
-    this.tricksTakenBySeat = [0, 0, 0, 0]; // Individual tricks this round
-    this.teamTricks = [0, 0]; // Team tricks this round (team0: seats 0+2, team1: seats 1+3)
-    this.roundScores = [0, 0]; // Per team this round
-    this.cumulativeScores = [0, 0]; // Per team cumulative
-    this.bags = [0, 0]; // Cumulative bags per team
+    this.tricksTakenBySeat = this.perSeat(0); // Individual tricks this round
+    this.teamTricks = this.perSide(0); // Side tricks this round (team0: seats 0+2, team1: seats 1+3; one per seat in Cutthroat)
+    this.roundScores = this.perSide(0); // Per side this round
+    this.cumulativeScores = this.perSide(0); // Per side cumulative
+    this.bags = this.perSide(0); // Cumulative bags per side
     this.turnTimer = null;
     this.lastTrick = null;
     this.tricksPlayed = 0;
-    this.blindNilCards = {}; // Cards to exchange for blind nil (seat -> cards)
+    this.blindNilCards = {}; // Cards each exchanging seat gives its partner (seat -> cards)
+  }
+
+  perSeat(value) {
+    return Array.from({ length: this.numPlayers }, () => (Array.isArray(value) ? [] : value));
+  }
+
+  perSide(value) {
+    return this.sides.map(() => value);
   }
 
   deal() {
-    const deck = shuffleDeck(createDeck());
-    this.hands = [[], [], [], []];
-    
-    for (let i = 0; i < 52; i++) {
-      this.hands[i % 4].push(deck[i]);
+    // Each deal gets its own seed so it can be reproduced on its own
+    this.dealSeed = deriveSeed(this.seed, this.dealSeeds.length);
+    this.dealSeeds.push(this.dealSeed);
+    const deckOptions = { jokers: this.variants.jokers, remove: this.removedCards };
+    const deck = shuffleDeck(createDeck(deckOptions), new HmacRandom(this.dealSeed));
+    // Commit to the shuffled deck before any card goes out; revealed when the round ends
+    this.dealCommitment = createDealCommitment(deck);
+    this.hands = this.perSeat([]);
+    
+    for (let i = 0; i < deck.length; i++) {
+      this.hands[i % this.numPlayers].push(deck[i]);
     }
     
     // Sort hands
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.numPlayers; i++) {
       this.hands[i] = sortHand(this.hands[i]);
     }
     
     // Reset round state
-    this.bids = [null, null, null, null];
+    this.bids = this.perSeat(null);
     this.bidsSubmitted = 0;
     this.currentTrick = [];
     this.spadesBroken = false;
-    this.tricksTakenBySeat = [0, 0, 0, 0];
-    this.teamTricks = [0, 0];
-    this.roundScores = [0, 0];
+    this.tricksTakenBySeat = this.perSeat(0);
+    this.teamTricks = this.perSide(0);
+    this.roundScores = this.perSide(0);
     this.lastTrick = null;
     this.tricksPlayed = 0;
     this.blindNilCards = {};
     
     // Start bidding phase
     this.phase = 'bidding';
-    this.currentPlayer = 0; // First player to bid
+    this.currentPlayer = this.getFirstSeat(); // Dealer's left bids first
     
     return this.phase;
   }
 
   /**
-   * Get the team index for a seat (0 or 1)
+   * Get the side index for a seat (team 0 or 1; the seat itself in Cutthroat)
    */
   getTeamForSeat(seat) {
-    return seat % 2; // seats 0,2 = team 0; seats 1,3 = team 1
+    return this.sides.findIndex(side => side.includes(seat));
   }
 
   /**
-   * Get partner seat for a given seat
+   * Get partner seat for a given seat (null in Cutthroat)
    */
   getPartnerSeat(seat) {
+    if (this.variants.cutthroat) return null;
     return (seat + 2) % 4;
   }
 
   /**
-   * Check if a team can declare blind nil (must be behind by 100+ points)
+   * How far a side trails the best of the other sides
+   */
+  getDeficit(team) {
+    const others = this.cumulativeScores.filter((_, i) => i !== team);
+    return Math.max(...others) - this.cumulativeScores[team];
+  }
+
+  /**
+   * Check if a team can declare blind nil (must be behind by rules.blindNilDeficit points)
    */
   canDeclareBlindNil(seat) {
+    // Blind nil leans on the partner exchange, and Cutthroat has no partners
+    if (this.variants.cutthroat) return false;
+    
     const team = this.getTeamForSeat(seat);
-    const otherTeam = 1 - team;
-    const behindBy = this.cumulativeScores[otherTeam] - this.cumulativeScores[team];
     
-    // Must be behind by at least 100 points
-    if (behindBy < 100) return false;
+    // Must be behind by at least the table's blind nil deficit
+    if (this.getDeficit(team) < this.rules.blindNilDeficit) return false;
     
     // Partner cannot have already bid blind nil this round
     const partnerSeat = this.getPartnerSeat(seat);
-    if (this.bids[partnerSeat] === 'blind_nil') return false;
+    if (partnerSeat !== null && this.bids[partnerSeat] === 'blind_nil') return false;
     
     return true;
   }
@@ -124,41 +274,145 @@ export class SpadesGame {
    */
   submitBid(playerIndex, bid) {
     if (this.phase !== 'bidding') {
-      return { success: false, error: 'Not in bidding phase' };
+      return { success: false, error: 'Not in bidding phase', code: GAME_ERRORS.WRONG_PHASE };
+    }
+    
+    // Bids go round from the dealer's left
+    if (playerIndex !== this.currentPlayer) {
+      return { success: false, error: 'Not your turn', code: GAME_ERRORS.NOT_YOUR_TURN };
     }
     
     if (this.bids[playerIndex] !== null) {
-      return { success: false, error: 'Already submitted bid' };
+      return { success: false, error: 'Already submitted bid', code: GAME_ERRORS.ALREADY_SUBMITTED };
     }
     
     // Validate bid
     if (bid === 'blind_nil') {
       if (!this.canDeclareBlindNil(playerIndex)) {
-        return { success: false, error: 'Cannot declare blind nil - team not behind by 100+ points or partner already bid blind nil' };
+        return { success: false, error: `Cannot declare blind nil - no partners in Cutthroat, team not behind by ${this.rules.blindNilDeficit}+ points or partner already bid blind nil`, code: GAME_ERRORS.BLIND_NIL_NOT_ALLOWED };
       }
     } else if (bid === 'nil') {
       // Nil is always allowed (0 bid)
-    } else if (typeof bid !== 'number' || bid < 0 || bid > 13) {
-      return { success: false, error: 'Invalid bid - must be 0-13, nil, or blind_nil' };
+    } else if (typeof bid !== 'number' || bid < 0 || bid > this.tricksPerRound) {
+      return { success: false, error: `Invalid bid - must be 0-${this.tricksPerRound}, nil, or blind_nil`, code: GAME_ERRORS.INVALID_BID };
     }
     
     this.bids[playerIndex] = bid;
     this.bidsSubmitted++;
     
     // Check if all bids submitted
-    if (this.bidsSubmitted === 4) {
-      this.phase = 'playing';
-      // Dealer's left starts (seat 1 if seat 0 dealt, but we use seat 0 as first bidder/leader)
-      this.currentPlayer = 0;
-      return { success: true, allBidsIn: true };
+    if (this.bidsSubmitted === this.numPlayers) {
+      // Blind nil partnerships swap cards before anyone leads
+      if (this.getExchangeSeats().length > 0) {
+        this.phase = 'exchanging';
+        return { success: true, allBidsIn: true, exchanging: true };
+      }
+      
+      this.startPlay();
+      return { success: true, allBidsIn: true, exchanging: false };
     }
     
     // Move to next bidder
-    this.currentPlayer = (this.currentPlayer + 1) % 4;
+    this.currentPlayer = (this.currentPlayer + 1) % this.numPlayers;
     
     return { success: true, allBidsIn: false };
   }
 
+  startPlay() {
+    this.phase = 'playing';
+    // Dealer's left leads the first trick
+    this.currentPlayer = this.getFirstSeat();
+  }
+
+  /**
+   * The seat after the dealer: bids first and leads the first trick
+   */
+  getFirstSeat() {
+    return (this.dealerSeat + 1) % this.numPlayers;
+  }
+
+  /**
+   * Seats that take part in this round's blind nil exchange: every blind nil
+   * bidder and their partner (none in Cutthroat, where nobody has a partner)
+   */
+  getExchangeSeats() {
+    const seats = [];
+    for (let seat = 0; seat < this.numPlayers; seat++) {
+      if (this.bids[seat] !== 'blind_nil') continue;
+      
+      const partnerSeat = this.getPartnerSeat(seat);
+      if (partnerSeat !== null) {
+        seats.push(seat, partnerSeat);
+      }
+    }
+    return seats.sort((a, b) => a - b);
+  }
+
+  /**
+   * Choose the cards to give a partner in the blind nil exchange
+   */
+  submitBlindNilExchange(playerIndex, cards) {
+    if (this.phase !== 'exchanging') {
+      return { success: false, error: 'Not in blind nil exchange phase', code: GAME_ERRORS.WRONG_PHASE };
+    }
+    
+    if (!this.getExchangeSeats().includes(playerIndex)) {
+      return { success: false, error: 'Not part of a blind nil exchange', code: GAME_ERRORS.NOT_IN_EXCHANGE };
+    }
+    
+    if (this.blindNilCards[playerIndex]) {
+      return { success: false, error: 'Already exchanged cards', code: GAME_ERRORS.ALREADY_SUBMITTED };
+    }
+    
+    if (!Array.isArray(cards) || cards.length !== BLIND_NIL_EXCHANGE_SIZE) {
+      return { success: false, error: `Must pass exactly ${BLIND_NIL_EXCHANGE_SIZE} cards`, code: GAME_ERRORS.WRONG_CARD_COUNT };
+    }
+    
+    // Validate cards are in player's hand and not repeated
+    for (const [i, card] of cards.entries()) {
+      if (!this.hands[playerIndex].some(c => cardEquals(c, card))) {
+        return { success: false, error: 'Card not in hand', code: GAME_ERRORS.CARD_NOT_IN_HAND };
+      }
+      if (cards.slice(0, i).some(c => cardEquals(c, card))) {
+        return { success: false, error: 'Cannot pass the same card twice', code: GAME_ERRORS.DUPLICATE_CARD };
+      }
+    }
+    
+    this.blindNilCards[playerIndex] = cards;
+    
+    // Check if every exchanging seat has chosen
+    const exchangeSeats = this.getExchangeSeats();
+    if (exchangeSeats.every(seat => this.blindNilCards[seat])) {
+      const exchangeInfo = this.executeBlindNilExchange(exchangeSeats);
+      return { success: true, allExchanged: true, exchangeInfo };
+    }
+    
+    return { success: true, allExchanged: false };
+  }
+
+  executeBlindNilExchange(exchangeSeats) {
+    const passedCards = {};
+    const receivedCards = {};
+    
+    for (const seat of exchangeSeats) {
+      passedCards[seat] = this.blindNilCards[seat];
+      receivedCards[seat] = this.blindNilCards[this.getPartnerSeat(seat)];
+    }
+    
+    // Remove passed cards and add the partner's
+    for (const seat of exchangeSeats) {
+      this.hands[seat] = this.hands[seat].filter(
+        c => !passedCards[seat].some(p => cardEquals(c, p))
+      );
+      this.hands[seat].push(...receivedCards[seat]);
+      this.hands[seat] = sortHand(this.hands[seat]);
+    }
+    
+    this.startPlay();
+    
+    return { passedCards, receivedCards };
+  }
+
   /**
    * Get the effective bid number for a player (nil/blind_nil count as 0 for team total)
    */
@@ -171,9 +425,14 @@ export class SpadesGame {
    * Get team bid total
    */
   getTeamBid(team) {
-    const seat1 = team === 0 ? 0 : 1;
-    const seat2 = team === 0 ? 2 : 3;
-    return this.getEffectiveBid(this.bids[seat1]) + this.getEffectiveBid(this.bids[seat2]);
+    return this.sides[team].reduce((total, seat) => total + this.getEffectiveBid(this.bids[seat]), 0);
+  }
+
+  /**
+   * Bid totals for every side
+   */
+  getTeamBids() {
+    return this.sides.map((_, team) => this.getTeamBid(team));
   }
 
   getLegalCards(playerIndex) {
@@ -199,18 +458,27 @@ export class SpadesGame {
     return hand;
   }
 
+  /**
+   * Which rule keeps a card from being played now (a GAME_ERRORS code).
+   * Follows the branches of getLegalCards, so only call it for cards that method leaves out.
+   */
+  getIllegalPlayReason(playerIndex, card) {
+    if (!this.hands[playerIndex].some(c => cardEquals(c, card))) return GAME_ERRORS.CARD_NOT_IN_HAND;
+    return this.currentTrick.length === 0 ? GAME_ERRORS.SPADES_NOT_BROKEN : GAME_ERRORS.MUST_FOLLOW_SUIT;
+  }
+
   playCard(playerIndex, card) {
     if (this.phase !== 'playing') {
-      return { success: false, error: 'Not in playing phase' };
+      return { success: false, error: 'Not in playing phase', code: GAME_ERRORS.WRONG_PHASE };
     }
     
     if (playerIndex !== this.currentPlayer) {
-      return { success: false, error: 'Not your turn' };
+      return { success: false, error: 'Not your turn', code: GAME_ERRORS.NOT_YOUR_TURN };
     }
     
     const legalCards = this.getLegalCards(playerIndex);
     if (!legalCards.some(c => cardEquals(c, card))) {
-      return { success: false, error: 'Illegal card play' };
+      return { success: false, error: 'Illegal card play', code: this.getIllegalPlayReason(playerIndex, card) };
     }
     
     // Remove card from hand
@@ -225,19 +493,19 @@ export class SpadesGame {
     }
     
     // Check if trick is complete
-    if (this.currentTrick.length === 4) {
+    if (this.currentTrick.length === this.numPlayers) {
       return this.completeTrick();
     }
     
     // Move to next player
-    this.currentPlayer = (this.currentPlayer + 1) % 4;
+    this.currentPlayer = (this.currentPlayer + 1) % this.numPlayers;
     
     return { success: true, trickComplete: false };
   }
 
   completeTrick() {
-    // Determine winner with spades as trump
-    const winner = determineTrickWinnerWithTrump(this.currentTrick, 'spades');
+    // Determine winner with spades (and any jokers or high deuce) as trump
+    const winner = determineTrickWinnerWithTrump(this.currentTrick, 'spades', this.highTrumps);
     const winnerTeam = this.getTeamForSeat(winner);
     
     this.tricksTakenBySeat[winner]++;
@@ -246,7 +514,7 @@ export class SpadesGame {
     this.tricksPlayed++;
     
     // Check if round is complete
-    if (this.tricksPlayed === 13) {
+    if (this.tricksPlayed === this.tricksPerRound) {
       return this.completeRound(winner);
     }
     
@@ -262,61 +530,90 @@ export class SpadesGame {
     };
   }
 
-  completeRound(lastTrickWinner) {
-    // Calculate scores for each team
-    const roundScores = [0, 0];
-    const newBags = [0, 0];
-    
-    for (let team = 0; team < 2; team++) {
-      const seat1 = team === 0 ? 0 : 1;
-      const seat2 = team === 0 ? 2 : 3;
-      const teamBid = this.getTeamBid(team);
-      const teamTricks = this.teamTricks[team];
+  /**
+   * Nil and blind nil results for the seats of one side
+   */
+  scoreNilBids(seats) {
+    let score = 0;
+    
+    for (const seat of seats) {
+      const bid = this.bids[seat];
+      const tricksTaken = this.tricksTakenBySeat[seat];
       
-      // Handle nil bids first
-      for (const seat of [seat1, seat2]) {
-        const bid = this.bids[seat];
-        const tricksTaken = this.tricksTakenBySeat[seat];
-        
-        if (bid === 'nil') {
-          if (tricksTaken === 0) {
-            roundScores[team] += SCORING.NIL_SUCCESS;
-          } else {
-            roundScores[team] += SCORING.NIL_FAILURE;
-          }
-        } else if (bid === 'blind_nil') {
-          if (tricksTaken === 0) {
-            roundScores[team] += SCORING.BLIND_NIL_SUCCESS;
-          } else {
-            roundScores[team] += SCORING.BLIND_NIL_FAILURE;
-          }
-        }
+      if (bid === 'nil') {
+        score += tricksTaken === 0 ? this.rules.nilValue : -this.rules.nilValue;
+      } else if (bid === 'blind_nil') {
+        score += tricksTaken === 0 ? this.rules.blindNilValue : -this.rules.blindNilValue;
       }
+    }
+    
+    return score;
+  }
+
+  /**
+   * Score for a side that bid `bid` and took `tricks`, and the bags it picks up.
+   * Boston and 10-for-200 replace the standard bid × 10 when enabled.
+   */
+  scoreContract(bid, tricks) {
+    if (this.variants.boston && bid > 0 && tricks === this.tricksPerRound) {
+      return { score: VARIANT_SCORING.BOSTON, bags: 0 };
+    }
+    
+    const flatBid = this.variants.tenForTwoHundred && bid >= VARIANT_SCORING.TEN_FOR_TWO_HUNDRED_BID;
+    const bidScore = flatBid ? VARIANT_SCORING.TEN_FOR_TWO_HUNDRED : bid * this.rules.bidValue;
+    
+    if (tricks < bid) {
+      // Failed to make the bid
+      return { score: -bidScore, bags: 0 };
+    }
+    
+    // Made the bid; overtricks are bags
+    const overtricks = tricks - bid;
+    return { score: bidScore + overtricks * this.rules.overtrickValue, bags: overtricks };
+  }
+
+  /**
+   * Partnership scoring: nil bids score on their own, the partners' tricks
+   * count together against the team bid
+   */
+  scorePartnerships() {
+    return this.sides.map((seats, team) => {
+      const contract = this.scoreContract(this.getTeamBid(team), this.teamTricks[team]);
+      return { score: this.scoreNilBids(seats) + contract.score, bags: contract.bags };
+    });
+  }
+
+  /**
+   * Cutthroat scoring: every seat plays its own contract. A nil bidder has
+   * no contract, so any tricks they are forced to take become bags.
+   */
+  scoreCutthroat() {
+    return this.sides.map(([seat]) => {
+      const bid = this.bids[seat];
+      const tricks = this.tricksTakenBySeat[seat];
       
-      // Calculate team bid score (excluding nil bidders)
-      if (teamTricks >= teamBid) {
-        // Made the bid
-        roundScores[team] += teamBid * SCORING.BID_SUCCESS_MULTIPLIER;
-        
-        // Calculate overtricks (bags) - only from non-nil bidders
-        const overtricks = teamTricks - teamBid;
-        roundScores[team] += overtricks * SCORING.OVERTRICK_VALUE;
-        newBags[team] = overtricks;
-      } else {
-        // Failed to make the bid
-        roundScores[team] += teamBid * SCORING.BID_FAILURE_MULTIPLIER;
+      if (bid === 'nil' || bid === 'blind_nil') {
+        return { score: this.scoreNilBids([seat]), bags: tricks };
       }
-    }
+      return this.scoreContract(bid, tricks);
+    });
+  }
+
+  completeRound(lastTrickWinner) {
+    // Calculate scores for each side
+    const results = this.variants.cutthroat ? this.scoreCutthroat() : this.scorePartnerships();
+    const roundScores = results.map(r => r.score);
+    const newBags = results.map(r => r.bags);
     
     // Update cumulative scores
-    for (let team = 0; team < 2; team++) {
+    for (let team = 0; team < this.sides.length; team++) {
       this.cumulativeScores[team] += roundScores[team];
       this.bags[team] += newBags[team];
       
-      // Check for bag penalty (every 10 bags)
-      while (this.bags[team] >= SCORING.BAG_PENALTY_THRESHOLD) {
-        this.cumulativeScores[team] += SCORING.BAG_PENALTY_AMOUNT;
-        this.bags[team] -= SCORING.BAG_PENALTY_THRESHOLD;
+      // Check for bag penalty (every rules.bagLimit bags)
+      while (this.bags[team] >= this.rules.bagLimit) {
+        this.cumulativeScores[team] -= this.rules.bagPenalty;
+        this.bags[team] -= this.rules.bagLimit;
       }
     }
     
@@ -328,9 +625,11 @@ export class SpadesGame {
     
     let winnerTeam = null;
     if (gameOver) {
-      // Higher score wins
-      winnerTeam = this.cumulativeScores[0] > this.cumulativeScores[1] ? 0 : 
-                   this.cumulativeScores[1] > this.cumulativeScores[0] ? 1 : null; // null = tie
+      // Higher score wins; null = tie at the top
+      const leaders = this.cumulativeScores
+        .map((score, team) => ({ score, team }))
+        .filter(entry => entry.score === maxScore);
+      winnerTeam = leaders.length === 1 ? leaders[0].team : null;
     }
     
     this.currentTrick = [];
@@ -346,14 +645,17 @@ export class SpadesGame {
       cumulativeScores: [...this.cumulativeScores],
       bags: [...this.bags],
       teamTricks: [...this.teamTricks],
+      tricksTakenBySeat: [...this.tricksTakenBySeat],
       bids: [...this.bids],
       gameOver,
       gameWinnerTeam: winnerTeam,
+      rules: this.rules,
     };
   }
 
   startNextRound() {
     this.roundNumber++;
+    this.dealerSeat = (this.dealerSeat + 1) % this.numPlayers;
     this.deal();
   }
 
@@ -361,6 +663,7 @@ export class SpadesGame {
     return {
       phase: this.phase,
       roundNumber: this.roundNumber,
+      dealerSeat: this.dealerSeat,
       hand: this.hands[playerIndex],
       currentTrick: this.currentTrick,
       currentPlayer: this.currentPlayer,
@@ -376,9 +679,18 @@ export class SpadesGame {
       legalCards: this.phase === 'playing' && playerIndex === this.currentPlayer
         ? this.getLegalCards(playerIndex)
         : [],
+      illegalCards: this.phase === 'playing' && playerIndex === this.currentPlayer
+        ? getIllegalCards(this, playerIndex)
+        : [],
       canDeclareBlindNil: this.phase === 'bidding' && this.bids[playerIndex] === null 
         ? this.canDeclareBlindNil(playerIndex) 
         : false,
+      exchangeSeats: this.phase === 'exchanging' ? this.getExchangeSeats() : [],
+      exchangeSubmitted: Boolean(this.blindNilCards[playerIndex]),
+      variants: this.variants,
+      rules: this.rules,
+      sides: this.sides,
+      tricksPerRound: this.tricksPerRound,
     };
   }
 
@@ -389,6 +701,7 @@ export class SpadesGame {
     return {
       phase: this.phase,
       roundNumber: this.roundNumber,
+      dealerSeat: this.dealerSeat,
       currentTrick: this.currentTrick,
       currentPlayer: this.currentPlayer,
       spadesBroken: this.spadesBroken,
@@ -400,6 +713,11 @@ export class SpadesGame {
       bags: this.bags,
       lastTrick: this.lastTrick,
       tricksPlayed: this.tricksPlayed,
+      exchangeSeats: this.phase === 'exchanging' ? this.getExchangeSeats() : [],
+      variants: this.variants,
+      rules: this.rules,
+      sides: this.sides,
+      tricksPerRound: this.tricksPerRound,
     };
   }
 }
@@ -0,0 +1,110 @@
+/**
+ * Game registry - the one place that knows how to build each engine
+ */
+
+import { HeartsGame } from './HeartsGame.js';
+import { KingGame, getKingSeatCount } from './KingGame.js';
+import { SpadesGame, getSpadesSeatCount } from './SpadesGame.js';
+import { IhaleliBatakGame } from './IhaleliBatakGame.js';
+import { PistiGame, getPistiSeatCount } from './PistiGame.js';
+import { BridgeGame } from './BridgeGame.js';
+
+export const GAME_TYPES = /** @type {const} */ ({
+  HEARTS: 'hearts',
+  KING: 'king',
+  SPADES: 'spades',
+  BATAK: 'batak',
+  PISTI: 'pisti',
+  BRIDGE: 'bridge'
+});
+
+/**
+ * Create an engine for a game type from table options
+ * options: { seed, endingScore, initialSelectorSeat, initialDealerSeat, winThreshold, variants, rules }
+ */
+export function createGame(gameType, options = {}) {
+  const { seed } = options;
+  
+  const seatCheck = validateStartingSeats(gameType, options);
+  if (!seatCheck.success) {
+    throw new RangeError(seatCheck.error);
+  }
+  
+  switch (gameType) {
+    case GAME_TYPES.KING:
+      return new KingGame(options.initialSelectorSeat ?? 0, { seed, variants: options.variants });
+    case GAME_TYPES.SPADES:
+      // The lobby sends the Spades target as endingScore
+      return new SpadesGame(options.winThreshold || options.endingScore || 300, {
+        seed,
+        variants: options.variants,
+        rules: options.rules,
+        initialDealerSeat: options.initialDealerSeat,
+      });
+    case GAME_TYPES.BATAK:
+      return new IhaleliBatakGame(options.endingScore || 51, {
+        seed,
+        initialDealerSeat: options.initialDealerSeat,
+      });
+    case GAME_TYPES.PISTI:
+      return new PistiGame(options.endingScore || 151, {
+        seed,
+        variants: options.variants,
+        initialDealerSeat: options.initialDealerSeat,
+      });
+    case GAME_TYPES.BRIDGE:
+      // Rubbers and IMP matches end on their own, so Bridge has no ending score
+      return new BridgeGame({
+        seed,
+        variants: options.variants,
+        initialDealerSeat: options.initialDealerSeat,
+      });
+    default:
+      return new HeartsGame(options.endingScore || 20, { seed, variants: options.variants });
+  }
+}
+
+/**
+ * Number of seats a table of this game type needs (Cutthroat Spades and three-player King play three,
+ * two-player Pişti two)
+ */
+export function getSeatCount(gameType, options = {}) {
+  if (gameType === GAME_TYPES.SPADES) {
+    return getSpadesSeatCount(options.variants ?? {});
+  }
+  if (gameType === GAME_TYPES.KING) {
+    return getKingSeatCount(options.variants ?? {});
+  }
+  if (gameType === GAME_TYPES.PISTI) {
+    return getPistiSeatCount(options.variants ?? {});
+  }
+  return 4;
+}
+
+/**
+ * Check that the seats a game opens with (King's first selector, everyone else's first dealer)
+ * exist at a table of this game type with these variants
+ */
+export function validateStartingSeats(gameType, options = {}) {
+  const seatCount = getSeatCount(gameType, options);
+  
+  for (const key of ['initialSelectorSeat', 'initialDealerSeat']) {
+    const seat = options[key];
+    if (seat !== undefined && !(Number.isInteger(seat) && seat >= 0 && seat < seatCount)) {
+      return { success: false, error: `${key} must be a seat from 0 to ${seatCount - 1}` };
+    }
+  }
+  
+  return { success: true };
+}
+
+/**
+ * Deal the next round (Hearts/Spades/Batak/Pişti/Bridge) or next game of the party (King)
+ */
+export function advanceGame(game) {
+  if (game instanceof KingGame) {
+    game.startNextGame();
+  } else {
+    game.startNextRound();
+  }
+}
@@ -1,3 +1,4 @@
+// @ts-check
 import express from 'express';
 import cors from 'cors';
 import { createServer } from 'http';
@@ -5,11 +6,25 @@ import { Server } from 'socket.io';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import { readFileSync } from 'fs';
-
-import { HeartsGame } from './games/HeartsGame.js';
-import { KingGame, CONTRACT_TYPES, PENALTY_CONTRACTS, CONTRACT_LABELS, TRUMP_LABELS } from './games/KingGame.js';
-import { SpadesGame } from './games/SpadesGame.js';
+import { randomBytes } from 'crypto';
+
+import { GAME_TYPES, createGame, advanceGame, getSeatCount, validateStartingSeats } from './games/index.js';
+import { ActionLog, ACTION_TYPES, ACTION_SOURCES, replayActionLog } from './games/ActionLog.js';
+import { normalizeHeartsVariants } from './games/HeartsGame.js';
+import { normalizeSpadesVariants, validateSpadesRules } from './games/SpadesGame.js';
+import { CONTRACT_LABELS, TRUMP_LABELS, normalizeKingVariants } from './games/KingGame.js';
+import { BATAK_PASS } from './games/IhaleliBatakGame.js';
+import { normalizePistiVariants } from './games/PistiGame.js';
+import { BRIDGE_PASS, normalizeBridgeVariants } from './games/BridgeGame.js';
 import { RANK_VALUES, cardEquals } from './shared/cards.js';
+import { createSecret } from './shared/random.js';
+import { createBot, chooseBestContract, chooseBestTrump, SpadesBot, BOT_NAMES, BOT_DIFFICULTIES, DEFAULT_BOT_DIFFICULTY } from './bots/index.js';
+import { SnapshotStore } from './persistence.js';
+import { validatePayload, validateTableOptions } from './validation.js';
+import { RateLimiter, RATE_LIMIT_ERRORS, parseRateLimits, getClientAddress } from './rateLimit.js';
+
+/** @typedef {import('../src/types/protocol').ClientToServerEvents} ClientToServerEvents */
+/** @typedef {import('../src/types/protocol').ServerToClientEvents} ServerToClientEvents */
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -20,6 +35,8 @@ const httpServer = createServer(app);
 // CORS: allow all origins (no credentials)
 app.use(cors({ origin: '*', credentials: false }));
 
+// Event names and payloads are checked against src/types/protocol.ts (npm run typecheck)
+/** @type {Server<ClientToServerEvents, ServerToClientEvents>} */
 const io = new Server(httpServer, {
   cors: {
     origin: '*',
@@ -48,20 +65,30 @@ if (process.env.NODE_ENV === 'production') {
 }
 
 // ============================================================================
-// GAME TYPES
+// TABLE MANAGEMENT
 // ============================================================================
 
-export const GAME_TYPES = {
-  HEARTS: 'hearts',
-  KING: 'king',
-  SPADES: 'spades'
+const tables = new Map();
+
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR || join(__dirname, '..', 'snapshots');
+const SNAPSHOT_INTERVAL = 15000;
+const RESTORE_GRACE_PERIOD = 5 * 60 * 1000;  // How long a restored table waits for its players
+const RECONNECT_GRACE_PERIOD = 60000;        // How long a disconnected seat is held for its owner
+const EMPTY_TABLE_TIMEOUT = 60000;           // Shortest time a table with nobody connected is kept
+const DEAL_ACK_TIMEOUT = 10000;              // Longest a deal waits on players who never acknowledge it
+
+// Ending score for tables created without one (King has no target, Spades uses its win threshold)
+const DEFAULT_ENDING_SCORES = {
+  [GAME_TYPES.HEARTS]: 20,
+  [GAME_TYPES.BATAK]: 51,
+  [GAME_TYPES.PISTI]: 151,
 };
 
-// ============================================================================
-// TABLE MANAGEMENT
-// ============================================================================
+function createReconnectToken() {
+  return randomBytes(16).toString('hex');
+}
 
-const tables = new Map();
+const snapshots = new SnapshotStore(SNAPSHOT_DIR);
 
 function generateTableId() {
   let word;
@@ -80,29 +107,66 @@ function generateTableId() {
   return word;
 }
 
+// Rule variants and scoring rules are filled in with their defaults so every
+// table carries a complete set (Spades rules are validated in createTable)
+function normalizeTableOptions(gameType, options) {
+  switch (gameType) {
+    case GAME_TYPES.HEARTS:
+      return { ...options, variants: normalizeHeartsVariants(options.variants) };
+    case GAME_TYPES.KING:
+      return { ...options, variants: normalizeKingVariants(options.variants) };
+    case GAME_TYPES.SPADES:
+      return {
+        ...options,
+        variants: normalizeSpadesVariants(options.variants),
+        rules: validateSpadesRules(options.rules ?? {}).rules,
+      };
+    case GAME_TYPES.PISTI:
+      return { ...options, variants: normalizePistiVariants(options.variants) };
+    case GAME_TYPES.BRIDGE:
+      return { ...options, variants: normalizeBridgeVariants(options.variants) };
+    default:
+      return options;
+  }
+}
+
 class Table {
+  /** @param {import('../src/types/game').GameType} [gameType] */
   constructor(id, gameType = GAME_TYPES.HEARTS, options = {}) {
     this.id = id;
     this.gameType = gameType;
-    this.options = options; // { initialSelectorSeat: number, endingScore: number } for games
-    this.endingScore = options.endingScore || (gameType === GAME_TYPES.HEARTS ? 20 : null);
+    // { initialSelectorSeat: number, endingScore: number, variants: object } for games
+    this.options = normalizeTableOptions(gameType, options);
+    this.seatCount = getSeatCount(gameType, this.options);  // 3 for Cutthroat Spades, 2 for two-player Pişti
+    this.endingScore = options.endingScore || DEFAULT_ENDING_SCORES[gameType] || null;
     this.createdAt = Date.now();
     this.players = [];
     this.spectators = []; // { id: socketId, name: string }
     this.game = null;
+    this.actionLog = null;
     this.cleanupTimer = null;
     this.rematchVotes = {};
     this.turnTimer = null;
+    this.turnTimeoutAt = null;
     this.turnWarningTimer = null;
     this.passTimer = null;
     this.passTimeoutAt = null;
     this.selectTimer = null;
     this.selectTimeoutAt = null;
+    this.bidTimer = null;
+    this.bidTimeoutAt = null;
+    this.botTimer = null;
+    this.botsThinking = new Set();  // Seats whose bot is in the middle of a sliced search
+    this.pendingDealAcks = null;  // Seats yet to acknowledge the current deal
+    this.dealAckTimer = null;
     this.typingPlayers = new Set();
+    this.restoredAt = null;
+    this.restoredTimers = null;
+    this.resumeTimer = null;  // Holds a restored table's clock until the seat to move is back
   }
 
   addPlayer(socketId, name) {
-    if (this.players.length >= 4) {
+    if (this.players.length >= this.seatCount) {
       return { success: false, error: 'Table is full' };
     }
     
@@ -111,11 +175,16 @@ class Table {
     }
     
     const seat = this.getNextSeat();
+    const token = createReconnectToken();
     this.players.push({
       id: socketId,
       name,
       seat,
       connected: true,
+      isBot: false,
+      ready: false,
+      token,
+      graceUntil: null,
     });
     
     if (this.cleanupTimer) {
@@ -123,46 +192,198 @@ class Table {
       this.cleanupTimer = null;
     }
     
-    return { success: true, seat };
+    return { success: true, seat, token };
   }
 
-  // Allow a new player to take over a disconnected player's seat mid-game
+  // Allow a new player to take over a disconnected player's seat mid-game,
+  // once the original player's grace period has run out
   takeOverSeat(socketId, name) {
-    // Find a disconnected player
-    const disconnectedPlayer = this.players.find(p => !p.connected);
+    const disconnectedPlayer = this.players.find(p => this.isSeatUpForTakeover(p));
     if (!disconnectedPlayer) {
-      return { success: false, error: 'No available seats' };
+      const reserved = this.players.some(p => !p.connected);
+      return { success: false, error: reserved ? 'Seat is reserved for a reconnecting player' : 'No available seats' };
     }
     
     const seat = disconnectedPlayer.seat;
+    const token = createReconnectToken();
     
     // Update the player's info
     disconnectedPlayer.id = socketId;
     disconnectedPlayer.name = name;
     disconnectedPlayer.connected = true;
+    disconnectedPlayer.token = token;
+    disconnectedPlayer.graceUntil = null;
+    
+    if (this.cleanupTimer) {
+      clearTimeout(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
+    
+    return { success: true, seat, token, takeover: true };
+  }
+
+  // Give a seat back to whoever holds its reconnect token
+  reclaimSeat(socketId, token) {
+    const player = token ? this.players.find(p => p.token === token) : null;
+    if (!player) {
+      return { success: false, error: 'Invalid or expired reconnect token' };
+    }
+    
+    const previousId = player.connected && player.id !== socketId ? player.id : null;
+    
+    player.id = socketId;
+    player.connected = true;
+    player.graceUntil = null;
     
     if (this.cleanupTimer) {
       clearTimeout(this.cleanupTimer);
       this.cleanupTimer = null;
     }
     
-    return { success: true, seat, takeover: true };
+    return { success: true, seat: player.seat, token, previousId };
+  }
+
+  isSeatUpForTakeover(player) {
+    return !player.connected && (player.graceUntil ?? 0) <= Date.now();
   }
 
   // Check if there's a disconnected seat available for takeover
   hasDisconnectedSeat() {
-    return this.game && this.players.some(p => !p.connected);
+    return this.game && this.players.some(p => this.isSeatUpForTakeover(p));
+  }
+
+  // Seat a bot in an empty seat before the game, or in an abandoned seat mid-game
+  addBot(seat, difficulty = DEFAULT_BOT_DIFFICULTY) {
+    if (this.game) {
+      // Same rule as takeOverSeat: a seat is only abandoned once its grace period is over
+      const abandoned = seat !== undefined
+        ? this.players.find(p => p.seat === seat && this.isSeatUpForTakeover(p))
+        : this.players.find(p => this.isSeatUpForTakeover(p));
+      if (!abandoned) {
+        const reserved = this.players.some(p => !p.connected && (seat === undefined || p.seat === seat));
+        return { success: false, error: reserved ? 'Seat is reserved for a reconnecting player' : 'No abandoned seat to fill' };
+      }
+      
+      abandoned.id = `bot:${this.id}:${abandoned.seat}`;
+      abandoned.connected = true;
+      abandoned.isBot = true;
+      abandoned.token = null;
+      abandoned.graceUntil = null;
+      abandoned.difficulty = difficulty;
+      abandoned.bot = createBot(this.gameType, { difficulty });
+      
+      return { success: true, seat: abandoned.seat, takeover: true };
+    }
+    
+    if (this.players.length >= this.seatCount) {
+      return { success: false, error: 'Table is full' };
+    }
+    
+    const takenSeats = this.players.map(p => p.seat);
+    const botSeat = seat !== undefined ? seat : this.getNextSeat();
+    if (botSeat < 0 || botSeat >= this.seatCount || takenSeats.includes(botSeat)) {
+      return { success: false, error: 'Seat is not available' };
+    }
+    
+    const usedNames = this.players.map(p => p.name);
+    const name = BOT_NAMES.find(n => !usedNames.includes(n)) || `Bot-${botSeat + 1}`;
+    
+    this.players.push({
+      id: `bot:${this.id}:${botSeat}`,
+      name,
+      seat: botSeat,
+      connected: true,
+      isBot: true,
+      ready: true,  // Bots never hold up the start
+      difficulty,
+      bot: createBot(this.gameType, { difficulty }),
+    });
+    
+    return { success: true, seat: botSeat };
+  }
+
+  removeBot(seat) {
+    if (this.game) {
+      return { success: false, error: 'Game already in progress' };
+    }
+    
+    const index = this.players.findIndex(p => p.seat === seat && p.isBot);
+    if (index === -1) {
+      return { success: false, error: 'No bot in that seat' };
+    }
+    
+    this.players.splice(index, 1);
+    return { success: true };
+  }
+
+  // The owner is the longest-seated connected human; ownership passes on if they leave
+  getOwner() {
+    return this.players.find(p => !p.isBot && p.connected) || null;
+  }
+
+  hasConnectedHumans() {
+    return this.players.some(p => !p.isBot && p.connected);
+  }
+
+  // When the last seat held for a disconnected human is given up (0 if none is held)
+  getLatestGraceEnd() {
+    return Math.max(0, ...this.players.filter(p => !p.isBot && !p.connected).map(p => p.graceUntil ?? 0));
+  }
+
+  getPlayerList() {
+    return this.players.map(p => ({
+      name: p.name,
+      seat: p.seat,
+      connected: p.connected,
+      isBot: p.isBot,
+      ready: Boolean(p.ready),
+      ...(p.isBot ? { difficulty: p.difficulty } : {}),
+    }));
+  }
+
+  // Every seat filled and every player ready: the waiting room can deal
+  isEveryoneReady() {
+    return this.players.length === this.seatCount && this.players.every(p => p.ready);
+  }
+
+  // The owner changes the rules before the game; everyone has to confirm ready again
+  updateOptions(options) {
+    if (this.game) {
+      return { success: false, error: 'Game already in progress' };
+    }
+    
+    const normalized = normalizeTableOptions(this.gameType, options);
+    const seatCount = getSeatCount(this.gameType, normalized);
+    if (this.players.some(p => p.seat >= seatCount)) {
+      return { success: false, error: 'Too many players seated for these options' };
+    }
+    
+    const seatCheck = validateStartingSeats(this.gameType, normalized);
+    if (!seatCheck.success) {
+      return seatCheck;
+    }
+    
+    this.options = normalized;
+    this.seatCount = seatCount;
+    this.endingScore = options.endingScore || DEFAULT_ENDING_SCORES[this.gameType] || null;
+    for (const p of this.players) {
+      if (!p.isBot) p.ready = false;
+    }
+    
+    return { success: true };
   }
 
   getNextSeat() {
     const takenSeats = this.players.map(p => p.seat);
-    for (let i = 0; i < 4; i++) {
+    for (let i = 0; i < this.seatCount; i++) {
       if (!takenSeats.includes(i)) return i;
     }
     return -1;
   }
 
-  removePlayer(socketId) {
+  // A player who leaves on purpose gives up the seat at once; a dropped
+  // connection keeps it reserved for the grace period
+  removePlayer(socketId, { leaving = false } = {}) {
     const playerIndex = this.players.findIndex(p => p.id === socketId);
     if (playerIndex === -1) return null;
     
@@ -170,6 +391,10 @@ class Table {
     
     if (this.game) {
       player.connected = false;
+      player.graceUntil = leaving ? Date.now() : Date.now() + RECONNECT_GRACE_PERIOD;
+      if (leaving) {
+        player.token = null;
+      }
     } else {
       this.players.splice(playerIndex, 1);
     }
@@ -186,33 +411,45 @@ class Table {
   }
 
   startGame() {
-    if (this.players.length !== 4) return false;
-    
-    if (this.gameType === GAME_TYPES.KING) {
-      const initialSelector = this.options.initialSelectorSeat ?? 0;
-      this.game = new KingGame(initialSelector);
-    } else if (this.gameType === GAME_TYPES.SPADES) {
-      const winThreshold = this.options.winThreshold || 300;
-      this.game = new SpadesGame(winThreshold);
-    } else {
-      this.game = new HeartsGame(this.endingScore);
-    }
+    if (this.players.length !== this.seatCount) return false;
+    
+    // Every game (including rematches) gets its own secret; it reaches players only in the
+    // action log of the finished game, when it can no longer predict anything
+    const gameOptions = { ...this.options, endingScore: this.endingScore, seed: createSecret() };
+    this.game = createGame(this.gameType, gameOptions);
+    
+    this.actionLog = new ActionLog();
+    this.actionLog.append(ACTION_TYPES.START, { gameType: this.gameType, options: gameOptions });
     
     this.game.deal();
+    this.actionLog.appendDeal(this.game);
     this.rematchVotes = {};
     
     return true;
   }
 
+  // Deal the next round (or next King game) and log it
+  advanceGame() {
+    advanceGame(this.game);
+    this.actionLog.appendDeal(this.game);
+  }
+
+  recordAction(type, data) {
+    this.actionLog?.append(type, data);
+  }
+
   getPublicInfo() {
     return {
       id: this.id,
       gameType: this.gameType,
       playerCount: this.players.length,
+      seatCount: this.seatCount,
       playerNames: this.players.map(p => p.name),
       inGame: this.game !== null,
       spectatorCount: this.spectators.length,
       endingScore: this.endingScore,
+      variants: this.options.variants ?? null,
+      rules: this.options.rules ?? null,
       createdAt: this.createdAt,
     };
   }
@@ -239,18 +476,140 @@ class Table {
   getSpectatorIds() {
     return this.spectators.map(s => s.id);
   }
+
+  // A freshly restored table waits a while for its players before the clock runs without them
+  isInRestoreGrace() {
+    return this.restoredAt !== null && Date.now() - this.restoredAt < RESTORE_GRACE_PERIOD;
+  }
+
+  /**
+   * Everything needed to bring this table back after a restart.
+   * The engine is stored as its action log and rebuilt by replaying it.
+   */
+  toSnapshot() {
+    const now = Date.now();
+    const remaining = (timeoutAt) => (timeoutAt ? Math.max(0, timeoutAt - now) : null);
+    
+    return {
+      id: this.id,
+      gameType: this.gameType,
+      options: this.options,
+      endingScore: this.endingScore,
+      variants: this.options.variants ?? null,
+      createdAt: this.createdAt,
+      players: this.players.map(p => ({
+        name: p.name,
+        seat: p.seat,
+        isBot: p.isBot,
+        difficulty: p.difficulty ?? null,
+        token: p.token ?? null,
+      })),
+      rematchVotes: this.rematchVotes,
+      actionLog: this.actionLog ? this.actionLog.toJSON() : null,
+      // A clock still held since the last restore has not started counting down
+      timers: this.resumeTimer ? this.restoredTimers : {
+        turn: remaining(this.turnTimeoutAt),
+        pass: remaining(this.passTimeoutAt),
+        select: remaining(this.selectTimeoutAt),
+        bid: remaining(this.bidTimeoutAt),
+      },
+      savedAt: now,
+    };
+  }
+
+  static fromSnapshot(snapshot) {
+    const table = new Table(snapshot.id, snapshot.gameType, snapshot.options);
+    table.endingScore = snapshot.endingScore;
+    table.createdAt = snapshot.createdAt;
+    table.rematchVotes = snapshot.rematchVotes || {};
+    
+    // Humans come back disconnected and reclaim their seats with their reconnect token
+    table.players = snapshot.players.map(p => ({
+      id: p.isBot ? `bot:${table.id}:${p.seat}` : `restored:${table.id}:${p.seat}`,
+      name: p.name,
+      seat: p.seat,
+      connected: p.isBot,
+      isBot: p.isBot,
+      token: p.token ?? null,
+      graceUntil: p.isBot ? null : Date.now() + RESTORE_GRACE_PERIOD,
+      ...(p.isBot ? { difficulty: p.difficulty, bot: createBot(table.gameType, { difficulty: p.difficulty ?? undefined }) } : {}),
+    }));
+    
+    if (snapshot.actionLog) {
+      table.actionLog = new ActionLog(snapshot.actionLog);
+      table.game = replayActionLog(snapshot.actionLog);
+    }
+    
+    table.restoredTimers = snapshot.timers;
+    table.restoredAt = Date.now();
+    
+    return table;
+  }
 }
 
 // ============================================================================
 // SOCKET.IO EVENT HANDLERS
 // ============================================================================
 
+// Token buckets per socket and event; RATE_LIMITS (JSON) overrides the limits
+const rateLimiter = new RateLimiter(parseRateLimits(process.env.RATE_LIMITS));
+
+// Reverse proxies in front of the server whose X-Forwarded-For is trusted (0: use the socket's address)
+const TRUST_PROXY_HOPS = Number(process.env.TRUST_PROXY_HOPS) || 0;
+
+// Addresses banned for flooding can't reconnect until the ban runs out
+io.use((socket, next) => {
+  const bannedUntil = rateLimiter.getBanExpiry(getClientAddress(socket.handshake, TRUST_PROXY_HOPS));
+  if (bannedUntil) {
+    next(new Error(`Banned for flooding until ${new Date(bannedUntil).toISOString()}`));
+    return;
+  }
+  next();
+});
+
 io.on('connection', (socket) => {
   console.log(`Client connected: ${socket.id}`);
   
   let currentTableId = null;
   let isSpectating = false;
 
+  // -------------------------------------------------------------------------
+  // RATE LIMITING AND PAYLOAD VALIDATION (run before every handler below)
+  // -------------------------------------------------------------------------
+
+  const clientAddress = getClientAddress(socket.handshake, TRUST_PROXY_HOPS);
+  
+  socket.use(([event], next) => {
+    const limit = rateLimiter.check(socket.id, clientAddress, event);
+    if (limit.allowed) {
+      next();
+      return;
+    }
+    
+    if (limit.banned) {
+      console.warn(`Banned ${clientAddress} (${socket.id}) for flooding '${event}'`);
+    } else if (limit.kicked) {
+      console.warn(`Disconnected ${socket.id} (${clientAddress}) for flooding '${event}'`);
+    } else if (limit.muted) {
+      console.warn(`Muted ${socket.id} for chat flooding`);
+    }
+    socket.emit('error', { message: limit.error, code: limit.code, event, retryAt: limit.retryAt });
+    if (limit.kicked || limit.code === RATE_LIMIT_ERRORS.BANNED) {
+      socket.disconnect(true);
+    }
+  });
+
+  socket.use(([event, payload], next) => {
+    const check = validatePayload(event, payload);
+    if (check.success) {
+      next();
+      return;
+    }
+    
+    console.warn(`Rejected '${event}' from ${socket.id}: ${check.code} ${check.error}`);
+    socket.emit('error', { message: check.error, code: check.code, event, field: check.field });
+  });
+
   // -------------------------------------------------------------------------
   // KEEP-ALIVE EVENT (for mobile app/tab switching)
   // -------------------------------------------------------------------------
@@ -269,7 +628,7 @@ io.on('connection', (socket) => {
     const tableList = [];
     for (const [id, table] of tables) {
       // Show waiting tables (not full, no game)
-      const isWaiting = table.players.length < 4 && !table.game;
+      const isWaiting = table.players.length < table.seatCount && !table.game;
       // Show in-progress tables if requested (for spectating)
       const isInProgress = table.game !== null && includeInProgress;
       // Show in-progress tables with disconnected seats (for takeover)
@@ -293,6 +652,18 @@ io.on('connection', (socket) => {
       return;
     }
     
+    const optionCheck = validateTableOptions(gameType, options);
+    if (!optionCheck.success) {
+      socket.emit('error', { message: optionCheck.error, code: optionCheck.code, event: 'createTable', field: optionCheck.field });
+      return;
+    }
+    
+    const seatCheck = validateStartingSeats(gameType, normalizeTableOptions(gameType, options));
+    if (!seatCheck.success) {
+      socket.emit('error', { message: seatCheck.error });
+      return;
+    }
+    
     const tableId = generateTableId();
     const table = new Table(tableId, gameType, options);
     tables.set(tableId, table);
@@ -307,8 +678,12 @@ io.on('connection', (socket) => {
         tableId,
         gameType: table.gameType,
         seat: result.seat,
-        players: table.players.map(p => ({ name: p.name, seat: p.seat, connected: p.connected })),
+        players: table.getPlayerList(),
+        ownerSeat: table.getOwner()?.seat ?? null,
         endingScore: table.endingScore,
+        seatCount: table.seatCount,
+        options: table.options,
+        reconnectToken: result.token,
       });
       
       broadcastTablesList();
@@ -333,7 +708,8 @@ io.on('connection', (socket) => {
     let result = table.addPlayer(socket.id, playerName.trim());
     
     // If game in progress but there's a disconnected seat, allow takeover
-    if (!result.success && table.hasDisconnectedSeat()) {
+    // (refused while the seat is still reserved for its owner)
+    if (!result.success && table.game && table.players.some(p => !p.connected)) {
       result = table.takeOverSeat(socket.id, playerName.trim());
     }
     
@@ -345,94 +721,97 @@ io.on('connection', (socket) => {
         tableId,
         gameType: table.gameType,
         seat: result.seat,
-        players: table.players.map(p => ({ name: p.name, seat: p.seat, connected: p.connected })),
+        players: table.getPlayerList(),
+        ownerSeat: table.getOwner()?.seat ?? null,
         endingScore: table.endingScore,
+        seatCount: table.seatCount,
+        options: table.options,
+        reconnectToken: result.token,
       });
       
       socket.to(tableId).emit('updatePlayers', {
-        players: table.players.map(p => ({ name: p.name, seat: p.seat, connected: p.connected })),
+        players: table.getPlayerList(),
+        ownerSeat: table.getOwner()?.seat ?? null,
       });
       
       // If this was a takeover, send current game state to the new player
+      // (a fresh seat waits in the waiting room until everyone is ready)
       if (result.takeover && table.game) {
         sendGameStateToPlayer(table, socket.id, result.seat);
       }
       
-      // Start game if 4 players (only for non-takeover joins when game hasn't started)
-      if (table.players.length === 4 && !result.takeover) {
-        table.startGame();
-        
-        if (table.gameType === GAME_TYPES.KING) {
-          // King: start with contract selection
-          const availableContracts = table.game.getAvailableContracts(table.game.selectorSeat);
-          for (const player of table.players) {
-            io.to(player.id).emit('contractSelectionStart', {
-              gameType: GAME_TYPES.KING,
-              hand: table.game.hands[player.seat],
-              selector: table.game.selectorSeat,
-              availableContracts,
-              gameNumber: table.game.gameNumber,
-              partyNumber: 1,
-              contractsUsed: table.game.contractsUsed[player.seat],
-            });
-          }
-          startSelectTimer(table);
-        } else if (table.gameType === GAME_TYPES.SPADES) {
-          // Spades: start with bidding phase
-          for (const player of table.players) {
-            io.to(player.id).emit('biddingStart', {
-              hand: table.game.hands[player.seat],
-              currentBidder: table.game.currentPlayer,
-              roundNumber: table.game.roundNumber,
-            });
-          }
-          startBidTimer(table);
-        } else {
-          // Hearts: start with passing or playing
-          for (const player of table.players) {
-            io.to(player.id).emit('startGame', {
-              gameType: GAME_TYPES.HEARTS,
-              hand: table.game.hands[player.seat],
-              passDirection: table.game.passDirection,
-              phase: table.game.phase,
-              currentPlayer: table.game.currentPlayer,
-            });
-          }
-          
-          if (table.game.phase === 'passing') {
-            startPassTimer(table);
-          } else if (table.game.phase === 'playing') {
-            setTimeout(() => autoPlayTwoOfClubs(table), 500);
-          }
-        }
-      }
-      
       broadcastTablesList();
     } else {
       socket.emit('error', { message: result.error });
     }
   });
 
+  // Take back our own seat after a refresh, a dropped connection or a server restart
+  socket.on('rejoinTable', ({ tableId, token } = {}) => {
+    const table = tables.get(tableId);
+    
+    if (!table) {
+      socket.emit('rejoinFailed', { message: 'Table not found' });
+      return;
+    }
+    
+    const result = table.reclaimSeat(socket.id, token);
+    
+    if (!result.success) {
+      socket.emit('rejoinFailed', { message: result.error });
+      return;
+    }
+    
+    // The same seat may still be open in a stale connection (e.g. a duplicated tab)
+    if (result.previousId) {
+      io.to(result.previousId).emit('tableClosed', { reason: 'Seat reclaimed from another connection' });
+      io.sockets.sockets.get(result.previousId)?.leave(tableId);
+    }
+    
+    socket.join(tableId);
+    currentTableId = tableId;
+    
+    socket.emit('tableJoined', {
+      tableId,
+      gameType: table.gameType,
+      seat: result.seat,
+      players: table.getPlayerList(),
+      ownerSeat: table.getOwner()?.seat ?? null,
+      endingScore: table.endingScore,
+      seatCount: table.seatCount,
+      options: table.options,
+      reconnectToken: result.token,
+    });
+    
+    socket.to(tableId).emit('updatePlayers', {
+      players: table.getPlayerList(),
+      ownerSeat: table.getOwner()?.seat ?? null,
+    });
+    
+    sendGameStateToPlayer(table, socket.id, result.seat);
+    resumeRestoredClock(table);
+    
+    broadcastTablesList();
+  });
+
   socket.on('leaveTable', () => {
     if (!currentTableId) return;
     
     const table = tables.get(currentTableId);
     if (!table) return;
     
-    const player = table.removePlayer(socket.id);
+    const player = table.removePlayer(socket.id, { leaving: true });
     socket.leave(currentTableId);
     
     if (player) {
+      acknowledgeDeal(table, player.seat);
+      
       socket.to(currentTableId).emit('updatePlayers', {
-        players: table.players.map(p => ({ name: p.name, seat: p.seat, connected: p.connected })),
+        players: table.getPlayerList(),
+        ownerSeat: table.getOwner()?.seat ?? null,
       });
       
-      if (table.players.length === 0 || table.players.every(p => !p.connected)) {
-        table.cleanupTimer = setTimeout(() => {
-          tables.delete(currentTableId);
-          broadcastTablesList();
-        }, 60000);
-      }
+      scheduleTableCleanup(table);
     }
     
     currentTableId = null;
@@ -469,7 +848,8 @@ io.on('connection', (socket) => {
     socket.emit('spectateJoined', {
       tableId,
       gameType: table.gameType,
-      players: table.players.map(p => ({ name: p.name, seat: p.seat, connected: p.connected })),
+      seatCount: table.seatCount,
+      players: table.getPlayerList(),
       gameState: spectatorState,
     });
     
@@ -498,262 +878,334 @@ io.on('connection', (socket) => {
   });
 
   // -------------------------------------------------------------------------
-  // HEARTS-SPECIFIC EVENTS
+  // BOT EVENTS
   // -------------------------------------------------------------------------
 
-  socket.on('submitPass', ({ cards }) => {
+  socket.on('addBot', ({ seat, difficulty = DEFAULT_BOT_DIFFICULTY } = {}) => {
     if (!currentTableId) return;
     
     const table = tables.get(currentTableId);
-    if (!table || !table.game || table.gameType !== GAME_TYPES.HEARTS) return;
+    if (!table) return;
     
-    const player = table.getPlayerBySocketId(socket.id);
-    if (!player) return;
+    if (table.getOwner()?.id !== socket.id) {
+      socket.emit('error', { message: 'Only the table owner can add bots' });
+      return;
+    }
+    
+    if (!BOT_DIFFICULTIES.includes(difficulty)) {
+      socket.emit('error', { message: 'Unknown bot difficulty' });
+      return;
+    }
     
-    const result = table.game.submitPass(player.seat, cards);
+    const result = table.addBot(seat, difficulty);
     
     if (!result.success) {
       socket.emit('error', { message: result.error });
       return;
     }
     
-    socket.emit('passSubmitted');
+    io.to(currentTableId).emit('updatePlayers', {
+      players: table.getPlayerList(),
+      ownerSeat: table.getOwner()?.seat ?? null,
+    });
     
-    if (result.allPassed) {
-      clearPassTimer(table);
-      
-      for (const p of table.players) {
-        io.to(p.id).emit('cardsReceived', {
-          hand: table.game.hands[p.seat],
-          phase: table.game.phase,
-          currentPlayer: table.game.currentPlayer,
-          cardsPassed: result.exchangeInfo.passedCards[p.seat],
-          cardsReceived: result.exchangeInfo.receivedCards[p.seat],
-        });
-      }
-      
-      setTimeout(() => autoPlayTwoOfClubs(table), 2500);
+    if (result.takeover) {
+      // The abandoned seat may be the one everybody is waiting on
+      scheduleBotAction(table);
+    } else if (table.isEveryoneReady()) {
+      startTableGame(table);
     }
+    
+    broadcastTablesList();
   });
 
-  // -------------------------------------------------------------------------
-  // KING-SPECIFIC EVENTS
-  // -------------------------------------------------------------------------
-
-  socket.on('selectContract', ({ contractType, contractName, trumpSuit }) => {
+  socket.on('removeBot', ({ seat }) => {
     if (!currentTableId) return;
     
     const table = tables.get(currentTableId);
-    if (!table || !table.game || table.gameType !== GAME_TYPES.KING) return;
-    
-    const player = table.getPlayerBySocketId(socket.id);
-    if (!player) return;
+    if (!table) return;
     
-    clearSelectTimer(table);
+    if (table.getOwner()?.id !== socket.id) {
+      socket.emit('error', { message: 'Only the table owner can remove bots' });
+      return;
+    }
     
-    const result = table.game.selectContract(player.seat, contractType, contractName, trumpSuit);
+    const result = table.removeBot(seat);
     
     if (!result.success) {
       socket.emit('error', { message: result.error });
-      startSelectTimer(table);
       return;
     }
     
-    // Broadcast contract selection to all players
-    io.to(currentTableId).emit('contractSelected', {
-      selectorSeat: player.seat,
-      contract: result.contract,
-      startingPlayer: result.startingPlayer,
-      gameNumber: table.game.gameNumber,
+    io.to(currentTableId).emit('updatePlayers', {
+      players: table.getPlayerList(),
+      ownerSeat: table.getOwner()?.seat ?? null,
     });
     
-    // Update game state for all players
-    for (const p of table.players) {
-      io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
-    }
-    
-    // Start turn timer
-    startTurnTimer(table);
+    broadcastTablesList();
   });
 
   // -------------------------------------------------------------------------
-  // SPADES-SPECIFIC EVENTS
+  // WAITING ROOM EVENTS
   // -------------------------------------------------------------------------
 
-  socket.on('submitBid', ({ bid }) => {
+  // The game starts by itself once every seat is filled and everyone is ready
+  socket.on('setReady', ({ ready }) => {
     if (!currentTableId) return;
     
     const table = tables.get(currentTableId);
-    if (!table || !table.game || table.gameType !== GAME_TYPES.SPADES) return;
+    if (!table || table.game) return;
     
     const player = table.getPlayerBySocketId(socket.id);
     if (!player) return;
     
-    clearBidTimer(table);
+    player.ready = ready;
     
-    const result = table.game.submitBid(player.seat, bid);
+    io.to(currentTableId).emit('updatePlayers', {
+      players: table.getPlayerList(),
+      ownerSeat: table.getOwner()?.seat ?? null,
+    });
     
-    if (!result.success) {
-      socket.emit('error', { message: result.error });
-      startBidTimer(table);
+    if (table.isEveryoneReady()) {
+      startTableGame(table);
+      broadcastTablesList();
+    }
+  });
+
+  // The owner may start without waiting for everyone to be ready, once every seat is filled
+  socket.on('startTableGame', () => {
+    if (!currentTableId) return;
+    
+    const table = tables.get(currentTableId);
+    if (!table) return;
+    
+    if (table.getOwner()?.id !== socket.id) {
+      socket.emit('error', { message: 'Only the table owner can start the game' });
       return;
     }
     
-    // Broadcast bid submission to all players
-    io.to(currentTableId).emit('bidSubmitted', {
-      seat: player.seat,
-      bid: bid,
-      bids: table.game.bids,
-      nextBidder: result.allBidsIn ? null : table.game.currentPlayer,
-    });
+    if (table.game) {
+      socket.emit('error', { message: 'Game already in progress' });
+      return;
+    }
     
-    if (result.allBidsIn) {
-      // All bids in, start playing
-      io.to(currentTableId).emit('spadesGameStart', {
-        currentPlayer: table.game.currentPlayer,
-        legalCards: table.game.getLegalCards(table.game.currentPlayer),
-        bids: table.game.bids,
-        teamBids: [
-          table.game.getTeamBid(0),
-          table.game.getTeamBid(1),
-        ],
-        cumulativeScores: table.game.cumulativeScores,
-      });
-      
-      // Update game state for all players
-      for (const p of table.players) {
-        io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
-      }
-      
-      startTurnTimer(table);
-    } else {
-      // Start bid timer for next bidder
-      startBidTimer(table);
+    if (table.players.length !== table.seatCount) {
+      socket.emit('error', { message: 'Every seat must be filled to start' });
+      return;
     }
+    
+    startTableGame(table);
+    broadcastTablesList();
   });
 
-  // -------------------------------------------------------------------------
-  // COMMON GAME EVENTS
-  // -------------------------------------------------------------------------
-
-  socket.on('playCard', ({ card }) => {
+  socket.on('updateTableOptions', ({ options }) => {
     if (!currentTableId) return;
     
     const table = tables.get(currentTableId);
-    if (!table || !table.game) return;
+    if (!table) return;
     
-    const player = table.getPlayerBySocketId(socket.id);
-    if (!player) return;
+    if (table.getOwner()?.id !== socket.id) {
+      socket.emit('error', { message: 'Only the table owner can change the options' });
+      return;
+    }
     
-    clearTurnTimer(table);
+    const optionCheck = validateTableOptions(table.gameType, options);
+    if (!optionCheck.success) {
+      socket.emit('error', { message: optionCheck.error, code: optionCheck.code, event: 'updateTableOptions', field: optionCheck.field });
+      return;
+    }
     
-    const result = table.game.playCard(player.seat, card);
+    const result = table.updateOptions(options);
     
     if (!result.success) {
       socket.emit('error', { message: result.error });
-      startTurnTimer(table);
       return;
     }
     
-    // Broadcast card played
-    io.to(currentTableId).emit('cardPlayed', {
-      seat: player.seat,
-      card,
-      currentTrick: result.trickComplete ? table.game.lastTrick : table.game.currentTrick,
-      trickComplete: result.trickComplete || false,
-      winner: result.trickComplete ? result.winner : null,
+    io.to(currentTableId).emit('tableOptionsUpdated', {
+      options: table.options,
+      endingScore: table.endingScore,
+      seatCount: table.seatCount,
+    });
+    io.to(currentTableId).emit('updatePlayers', {
+      players: table.getPlayerList(),
+      ownerSeat: table.getOwner()?.seat ?? null,
     });
     
-    // Update spectators with all hands visible
-    updateSpectators(table);
-    
-    if (result.trickComplete) {
-      setTimeout(() => {
-        io.to(currentTableId).emit('trickEnd', {
-          winner: result.winner,
-          points: result.points || 0,
-          lastTrick: table.game.lastTrick,
-        });
-        
-        // Handle game/round completion
-        if (table.gameType === GAME_TYPES.KING && result.gameComplete) {
-          handleKingGameEnd(table, result);
-        } else if (table.gameType === GAME_TYPES.HEARTS && result.roundComplete) {
-          handleHeartsRoundEnd(table, result);
-        } else if (table.gameType === GAME_TYPES.SPADES && result.roundComplete) {
-          handleSpadesRoundEnd(table, result);
-        } else {
-          // Continue playing
-          setTimeout(() => {
-            for (const p of table.players) {
-              io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
-            }
-            startTurnTimer(table);
-          }, 2000);
-        }
-      }, 500);
-    } else {
-      for (const p of table.players) {
-        io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
-      }
-      startTurnTimer(table);
+    broadcastTablesList();
+  });
+
+  // -------------------------------------------------------------------------
+  // ACTION LOG
+  // -------------------------------------------------------------------------
+
+  // The full log (every hand included) is only handed out once the game is over
+  socket.on('getActionLog', () => {
+    if (!currentTableId) return;
+    
+    const table = tables.get(currentTableId);
+    if (!table || !table.actionLog) return;
+    
+    if (!table.actionLog.isComplete()) {
+      socket.emit('error', { message: 'Action log is available after the game ends' });
+      return;
     }
+    
+    socket.emit('actionLog', {
+      tableId: table.id,
+      entries: table.actionLog.toJSON(),
+    });
   });
 
-  socket.on('nextRound', () => {
+  // -------------------------------------------------------------------------
+  // HEARTS-SPECIFIC EVENTS
+  // -------------------------------------------------------------------------
+
+  socket.on('submitPass', ({ cards }) => {
+    if (!currentTableId) return;
+    
+    const table = tables.get(currentTableId);
+    if (!table || !table.game || table.gameType !== GAME_TYPES.HEARTS) return;
+    
+    const player = table.getPlayerBySocketId(socket.id);
+    if (!player) return;
+    
+    const result = applyPass(table, player.seat, cards);
+    
+    if (!result.success) {
+      socket.emit('error', { message: result.error, code: result.code });
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // KING-SPECIFIC EVENTS
+  // -------------------------------------------------------------------------
+
+  socket.on('selectContract', ({ contractType, contractName, trumpSuit }) => {
+    if (!currentTableId) return;
+    
+    const table = tables.get(currentTableId);
+    if (!table || !table.game || table.gameType !== GAME_TYPES.KING) return;
+    
+    const player = table.getPlayerBySocketId(socket.id);
+    if (!player) return;
+    
+    const result = applyContractSelection(table, player.seat, contractType, contractName, trumpSuit);
+    
+    if (!result.success) {
+      socket.emit('error', { message: result.error, code: result.code });
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // SPADES-SPECIFIC EVENTS (İhaleli Batak and Bridge bids come through here too)
+  // -------------------------------------------------------------------------
+
+  socket.on('submitBid', ({ bid }) => {
     if (!currentTableId) return;
     
     const table = tables.get(currentTableId);
     if (!table || !table.game) return;
+    if (![GAME_TYPES.SPADES, GAME_TYPES.BATAK, GAME_TYPES.BRIDGE].includes(table.gameType)) return;
     
-    if (table.gameType === GAME_TYPES.KING) {
-      table.game.startNextGame();
-      
-      const availableContracts = table.game.getAvailableContracts(table.game.selectorSeat);
-      for (const p of table.players) {
-        io.to(p.id).emit('contractSelectionStart', {
-          gameType: GAME_TYPES.KING,
-          hand: table.game.hands[p.seat],
-          selector: table.game.selectorSeat,
-          availableContracts,
-          gameNumber: table.game.gameNumber,
-          partyNumber: 1,
-          contractsUsed: table.game.contractsUsed[p.seat],
-        });
-      }
-      startSelectTimer(table);
-    } else if (table.gameType === GAME_TYPES.SPADES) {
-      table.game.startNextRound();
-      
-      for (const p of table.players) {
-        io.to(p.id).emit('biddingStart', {
-          hand: table.game.hands[p.seat],
-          currentBidder: table.game.currentPlayer,
-          roundNumber: table.game.roundNumber,
-        });
-      }
-      startBidTimer(table);
+    const player = table.getPlayerBySocketId(socket.id);
+    if (!player) return;
+    
+    let result;
+    if (table.gameType === GAME_TYPES.BATAK) {
+      result = applyAuctionBid(table, player.seat, bid);
+    } else if (table.gameType === GAME_TYPES.BRIDGE) {
+      result = applyBridgeCall(table, player.seat, bid);
     } else {
-      table.game.startNextRound();
-      
-      for (const p of table.players) {
-        io.to(p.id).emit('startGame', {
-          gameType: GAME_TYPES.HEARTS,
-          hand: table.game.hands[p.seat],
-          passDirection: table.game.passDirection,
-          phase: table.game.phase,
-          currentPlayer: table.game.currentPlayer,
-        });
-      }
-      
-      if (table.game.phase === 'passing') {
-        startPassTimer(table);
-      } else if (table.game.phase === 'playing') {
-        setTimeout(() => autoPlayTwoOfClubs(table), 500);
-      }
+      result = applyBid(table, player.seat, bid);
+    }
+    
+    if (!result.success) {
+      socket.emit('error', { message: result.error, code: result.code });
     }
   });
 
+  socket.on('submitBlindNilExchange', ({ cards }) => {
+    if (!currentTableId) return;
+    
+    const table = tables.get(currentTableId);
+    if (!table || !table.game || table.gameType !== GAME_TYPES.SPADES) return;
+    
+    const player = table.getPlayerBySocketId(socket.id);
+    if (!player) return;
+    
+    const result = applyBlindNilExchange(table, player.seat, cards);
+    
+    if (!result.success) {
+      socket.emit('error', { message: result.error, code: result.code });
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // İHALELİ BATAK-SPECIFIC EVENTS (bids go through submitBid above)
+  // -------------------------------------------------------------------------
+
+  socket.on('declareTrump', ({ trumpSuit }) => {
+    if (!currentTableId) return;
+    
+    const table = tables.get(currentTableId);
+    if (!table || !table.game || table.gameType !== GAME_TYPES.BATAK) return;
+    
+    const player = table.getPlayerBySocketId(socket.id);
+    if (!player) return;
+    
+    const result = applyTrumpDeclaration(table, player.seat, trumpSuit);
+    
+    if (!result.success) {
+      socket.emit('error', { message: result.error, code: result.code });
+    }
+  });
+
+  // -------------------------------------------------------------------------
+  // COMMON GAME EVENTS
+  // -------------------------------------------------------------------------
+
+  socket.on('playCard', ({ card }) => {
+    if (!currentTableId) return;
+    
+    const table = tables.get(currentTableId);
+    if (!table || !table.game) return;
+    
+    const player = table.getPlayerBySocketId(socket.id);
+    if (!player) return;
+    
+    // Bridge: the declarer plays dummy's cards on dummy's turn
+    const seat = table.gameType === GAME_TYPES.BRIDGE ? table.game.getSeatPlayedBy(player.seat) : player.seat;
+    const result = applyCardPlay(table, seat, card);
+    
+    if (!result.success) {
+      socket.emit('error', { message: result.error, code: result.code });
+    }
+  });
+
+  // The client has the new deal on screen; the round's clock waits for this
+  socket.on('dealAck', () => {
+    if (!currentTableId) return;
+    
+    const table = tables.get(currentTableId);
+    if (!table || !table.game) return;
+    
+    const player = table.getPlayerBySocketId(socket.id);
+    if (!player) return;
+    
+    acknowledgeDeal(table, player.seat);
+  });
+
+  socket.on('nextRound', () => {
+    if (!currentTableId) return;
+    
+    const table = tables.get(currentTableId);
+    if (!table || !table.game) return;
+    
+    table.advanceGame();
+    emitRoundStart(table);
+  });
+
   socket.on('rematch', ({ vote }) => {
     if (!currentTableId) return;
     
@@ -765,63 +1217,18 @@ io.on('connection', (socket) => {
     
     table.rematchVotes[player.seat] = vote;
     
+    // Bots are always up for another game
+    for (const p of table.players) {
+      if (p.isBot) table.rematchVotes[p.seat] = true;
+    }
+    
     io.to(currentTableId).emit('rematchStatus', {
       votes: { ...table.rematchVotes },
     });
     
     const votes = Object.values(table.rematchVotes);
-    if (votes.length === 4 && votes.every(v => v)) {
-      // Reset game
-      if (table.gameType === GAME_TYPES.KING) {
-        table.game = new KingGame();
-      } else if (table.gameType === GAME_TYPES.SPADES) {
-        table.game = new SpadesGame(table.options.winThreshold || 300);
-      } else {
-        table.game = new HeartsGame(table.endingScore);
-      }
-      table.game.deal();
-      table.rematchVotes = {};
-      
-      if (table.gameType === GAME_TYPES.KING) {
-        const availableContracts = table.game.getAvailableContracts(table.game.selectorSeat);
-        for (const p of table.players) {
-          io.to(p.id).emit('contractSelectionStart', {
-            gameType: GAME_TYPES.KING,
-            hand: table.game.hands[p.seat],
-            selector: table.game.selectorSeat,
-            availableContracts,
-            gameNumber: table.game.gameNumber,
-            partyNumber: 1,
-            contractsUsed: table.game.contractsUsed[p.seat],
-          });
-        }
-        startSelectTimer(table);
-      } else if (table.gameType === GAME_TYPES.SPADES) {
-        for (const p of table.players) {
-          io.to(p.id).emit('biddingStart', {
-            hand: table.game.hands[p.seat],
-            currentBidder: table.game.currentPlayer,
-            roundNumber: table.game.roundNumber,
-          });
-        }
-        startBidTimer(table);
-      } else {
-        for (const p of table.players) {
-          io.to(p.id).emit('startGame', {
-            gameType: GAME_TYPES.HEARTS,
-            hand: table.game.hands[p.seat],
-            passDirection: table.game.passDirection,
-            phase: table.game.phase,
-            currentPlayer: table.game.currentPlayer,
-          });
-        }
-        
-        if (table.game.phase === 'passing') {
-          startPassTimer(table);
-        } else if (table.game.phase === 'playing') {
-          setTimeout(() => autoPlayTwoOfClubs(table), 500);
-        }
-      }
+    if (votes.length === table.seatCount && votes.every(v => v)) {
+      startTableGame(table);
     }
   });
 
@@ -886,6 +1293,7 @@ io.on('connection', (socket) => {
 
   socket.on('disconnect', () => {
     console.log(`Client disconnected: ${socket.id}`);
+    rateLimiter.forget(socket.id);
     
     if (currentTableId) {
       const table = tables.get(currentTableId);
@@ -903,7 +1311,8 @@ io.on('connection', (socket) => {
         
         if (player) {
           socket.to(currentTableId).emit('updatePlayers', {
-            players: table.players.map(p => ({ name: p.name, seat: p.seat, connected: p.connected })),
+            players: table.getPlayerList(),
+            ownerSeat: table.getOwner()?.seat ?? null,
           });
           
           if (table.game && !player.connected) {
@@ -911,17 +1320,11 @@ io.on('connection', (socket) => {
               seat: player.seat,
               name: player.name,
             });
+            // Don't hold the deal for someone who is gone
+            acknowledgeDeal(table, player.seat);
           }
           
-          if (table.players.length === 0 || table.players.every(p => !p.connected)) {
-            table.cleanupTimer = setTimeout(() => {
-              clearTurnTimer(table);
-              clearPassTimer(table);
-              clearSelectTimer(table);
-              tables.delete(currentTableId);
-              broadcastTablesList();
-            }, 60000);
-          }
+          scheduleTableCleanup(table);
         }
       }
     }
@@ -958,6 +1361,8 @@ function buildSpectatorState(table) {
     state.selectorSeat = game.selectorSeat;
     state.trumpSuit = game.contract?.trumpSuit;
     state.gameNumber = game.gameNumber;
+    state.totalGames = game.totalGames;
+    state.variants = game.variants;
     state.partyScores = game.partyScores;
     state.lastTrickCards = game.lastTrick;
     state.tricksTaken = game.tricksTaken?.map(t => t.length);
@@ -968,11 +1373,44 @@ function buildSpectatorState(table) {
     state.bids = game.bids;
     state.spadesBroken = game.spadesBroken;
     state.roundNumber = game.roundNumber;
+    state.dealerSeat = game.dealerSeat;
     state.teamTricks = game.teamTricks;
     state.tricksTakenBySeat = game.tricksTakenBySeat;
     state.cumulativeScores = game.cumulativeScores;
     state.roundScores = game.roundScores;
     state.bags = game.bags;
+    state.exchangeSeats = game.phase === 'exchanging' ? game.getExchangeSeats() : [];
+    state.variants = game.variants;
+    state.rules = game.rules;
+    state.sides = game.sides;
+    state.tricksPerRound = game.tricksPerRound;
+  } else if (table.gameType === GAME_TYPES.BATAK) {
+    state.bids = game.bids;
+    state.highBid = game.highBid;
+    state.declarer = game.declarer;
+    state.trumpSuit = game.trumpSuit;
+    state.roundNumber = game.roundNumber;
+    state.dealerSeat = game.dealerSeat;
+    state.tricksTakenBySeat = game.tricksTakenBySeat;
+    state.cumulativeScores = game.cumulativeScores;
+    state.roundScores = game.roundScores;
+    state.endingScore = game.endingScore;
+  } else if (table.gameType === GAME_TYPES.PISTI) {
+    state.roundNumber = game.roundNumber;
+    state.dealerSeat = game.dealerSeat;
+    state.pile = game.getVisiblePile();
+    state.stockCount = game.stock.length;
+    state.handSizes = game.hands.map(hand => hand.length);
+    state.capturedCounts = game.getCapturedCounts();
+    state.pistis = game.pistisBySide;
+    state.lastCapture = game.lastCapture;
+    state.cumulativeScores = game.cumulativeScores;
+    state.roundScores = game.roundScores;
+    state.variants = game.variants;
+    state.sides = game.sides;
+    state.endingScore = game.endingScore;
+  } else if (table.gameType === GAME_TYPES.BRIDGE) {
+    Object.assign(state, game.getSpectatorState());
   }
   
   return state;
@@ -1000,6 +1438,612 @@ function broadcastTablesList() {
   io.emit('tablesList', tableList);
 }
 
+// Tear a table down once nobody is connected and no seat is still held for a returning player
+function scheduleTableCleanup(table) {
+  if (table.hasConnectedHumans()) return;
+  
+  clearTimeout(table.cleanupTimer);
+  const delay = Math.max(EMPTY_TABLE_TIMEOUT, table.getLatestGraceEnd() - Date.now());
+  table.cleanupTimer = setTimeout(() => {
+    table.cleanupTimer = null;
+    if (table.hasConnectedHumans() || !tables.has(table.id)) return;
+    destroyTable(table);
+    broadcastTablesList();
+  }, delay);
+}
+
+function destroyTable(table) {
+  clearTimeout(table.resumeTimer);
+  clearDealAckTimer(table);
+  clearTurnTimer(table);
+  clearPassTimer(table);
+  clearSelectTimer(table);
+  clearBidTimer(table);
+  clearBotTimer(table);
+  tables.delete(table.id);
+  snapshots.delete(table.id);
+}
+
+function startTableGame(table) {
+  table.startGame();
+  emitRoundStart(table);
+}
+
+// Send everyone their hand for a freshly dealt round/game and start the opening timer
+function emitRoundStart(table) {
+  const game = table.game;
+  
+  for (const p of table.players) {
+    emitDealCommitment(table, p.id, p.seat);
+  }
+  
+  if (table.gameType === GAME_TYPES.KING) {
+    // King: start with contract selection
+    const availableContracts = game.getAvailableContracts(game.selectorSeat);
+    for (const p of table.players) {
+      io.to(p.id).emit('contractSelectionStart', {
+        gameType: GAME_TYPES.KING,
+        hand: game.hands[p.seat],
+        selector: game.selectorSeat,
+        availableContracts,
+        gameNumber: game.gameNumber,
+        totalGames: game.totalGames,
+        variants: game.variants,
+        partyNumber: 1,
+        contractsUsed: game.contractsUsed[p.seat],
+      });
+    }
+  } else if (table.gameType === GAME_TYPES.SPADES) {
+    // Spades: start with bidding phase
+    for (const p of table.players) {
+      io.to(p.id).emit('biddingStart', {
+        hand: game.hands[p.seat],
+        currentBidder: game.currentPlayer,
+        roundNumber: game.roundNumber,
+        sides: game.sides,
+        tricksPerRound: game.tricksPerRound,
+        variants: game.variants,
+        rules: game.rules,
+        dealerSeat: game.dealerSeat,
+        canDeclareBlindNil: game.canDeclareBlindNil(p.seat),
+      });
+    }
+  } else if (table.gameType === GAME_TYPES.BATAK) {
+    // İhaleli Batak: start with the auction
+    for (const p of table.players) {
+      io.to(p.id).emit('auctionStart', getAuctionState(table, p.seat));
+    }
+  } else if (table.gameType === GAME_TYPES.PISTI) {
+    // Pişti: no bidding, the dealer's left plays straight away
+    for (const p of table.players) {
+      io.to(p.id).emit('pistiDeal', table.game.getStateForPlayer(p.seat));
+    }
+  } else if (table.gameType === GAME_TYPES.BRIDGE) {
+    // Bridge: start with the auction, the dealer calls first
+    for (const p of table.players) {
+      io.to(p.id).emit('bridgeAuctionStart', table.game.getStateForPlayer(p.seat));
+    }
+  } else {
+    // Hearts: start with passing or playing
+    for (const p of table.players) {
+      io.to(p.id).emit('startGame', {
+        gameType: GAME_TYPES.HEARTS,
+        hand: game.hands[p.seat],
+        passDirection: game.passDirection,
+        phase: game.phase,
+        currentPlayer: game.currentPlayer,
+      });
+    }
+  }
+  
+  awaitDealAcks(table);
+}
+
+// The opening timer (and with it the bots) waits until every connected player
+// has acknowledged the deal, or DEAL_ACK_TIMEOUT for anyone who never does
+function awaitDealAcks(table) {
+  clearDealAckTimer(table);
+  
+  table.pendingDealAcks = new Set(table.players.filter(p => !p.isBot && p.connected).map(p => p.seat));
+  if (table.pendingDealAcks.size === 0) {
+    finishDealAcks(table);
+    return;
+  }
+  
+  table.dealAckTimer = setTimeout(() => finishDealAcks(table), DEAL_ACK_TIMEOUT);
+}
+
+// Also called for a player who leaves, so the deal isn't held for them
+function acknowledgeDeal(table, seat) {
+  if (!table.pendingDealAcks?.delete(seat)) return;
+  
+  if (table.pendingDealAcks.size === 0) {
+    finishDealAcks(table);
+  }
+}
+
+function finishDealAcks(table) {
+  clearDealAckTimer(table);
+  table.pendingDealAcks = null;
+  
+  if (table.game) {
+    startPhaseTimer(table);
+  }
+}
+
+function clearDealAckTimer(table) {
+  if (table.dealAckTimer) {
+    clearTimeout(table.dealAckTimer);
+    table.dealAckTimer = null;
+  }
+}
+
+/**
+ * Publish the hash of the shuffled deck (Hearts/King/Spades) before play, along
+ * with the hand the seat was dealt so the client can check it against the deck
+ * revealed at round end
+ */
+function emitDealCommitment(table, socketId, seat) {
+  const commitment = table.game.dealCommitment;
+  if (!commitment) return;
+  
+  const deal = table.actionLog.entries.findLast(e => e.type === ACTION_TYPES.DEAL);
+  io.to(socketId).emit('dealCommitment', {
+    hash: commitment.hash,
+    hand: deal.hands[seat],
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Game actions - shared by socket handlers, timer fallbacks and bots
+// ----------------------------------------------------------------------------
+
+function applyPass(table, seat, cards, source = ACTION_SOURCES.PLAYER) {
+  const result = table.game.submitPass(seat, cards);
+  if (!result.success) return result;
+  
+  table.recordAction(ACTION_TYPES.PASS, { seat, cards, source });
+  
+  const player = table.getPlayerBySeat(seat);
+  if (player) {
+    io.to(player.id).emit('passSubmitted');
+  }
+  
+  if (result.allPassed) {
+    clearPassTimer(table);
+    
+    for (const p of table.players) {
+      io.to(p.id).emit('cardsReceived', {
+        hand: table.game.hands[p.seat],
+        phase: table.game.phase,
+        currentPlayer: table.game.currentPlayer,
+        cardsPassed: result.exchangeInfo.passedCards[p.seat],
+        cardsReceived: result.exchangeInfo.receivedCards[p.seat],
+      });
+    }
+    
+    setTimeout(() => autoPlayTwoOfClubs(table), 2500);
+  }
+  
+  return result;
+}
+
+function applyContractSelection(table, seat, contractType, contractName, trumpSuit, source = ACTION_SOURCES.PLAYER) {
+  const result = table.game.selectContract(seat, contractType, contractName, trumpSuit);
+  if (!result.success) return result;
+  
+  table.recordAction(ACTION_TYPES.SELECT_CONTRACT, { seat, contractType, contractName, trumpSuit, source });
+  
+  clearSelectTimer(table);
+  
+  // Broadcast contract selection to all players
+  io.to(table.id).emit('contractSelected', {
+    selectorSeat: seat,
+    contract: result.contract,
+    startingPlayer: result.startingPlayer,
+    gameNumber: table.game.gameNumber,
+    ...(source === ACTION_SOURCES.TIMER ? { autoSelected: true } : {}),
+  });
+  
+  for (const p of table.players) {
+    io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
+  }
+  
+  startTurnTimer(table);
+  
+  return result;
+}
+
+function applyBid(table, seat, bid, source = ACTION_SOURCES.PLAYER) {
+  const result = table.game.submitBid(seat, bid);
+  if (!result.success) return result;
+  
+  table.recordAction(ACTION_TYPES.BID, { seat, bid, source });
+  
+  clearBidTimer(table);
+  
+  io.to(table.id).emit('bidSubmitted', {
+    seat,
+    bid,
+    bids: table.game.bids,
+    nextBidder: result.allBidsIn ? null : table.game.currentPlayer,
+  });
+  
+  if (result.exchanging) {
+    // A blind nil bid: the partnership swaps cards before play
+    for (const p of table.players) {
+      io.to(p.id).emit('blindNilExchangeStart', getBlindNilExchangeState(table, p.seat));
+    }
+    startExchangeTimer(table);
+  } else if (result.allBidsIn) {
+    startSpadesPlay(table);
+  } else {
+    startBidTimer(table);
+  }
+  
+  return result;
+}
+
+// All bids in (and any blind nil cards swapped): show the contracts and start the first turn
+function startSpadesPlay(table) {
+  io.to(table.id).emit('spadesGameStart', {
+    currentPlayer: table.game.currentPlayer,
+    legalCards: table.game.getLegalCards(table.game.currentPlayer),
+    bids: table.game.bids,
+    teamBids: table.game.getTeamBids(),
+    cumulativeScores: table.game.cumulativeScores,
+  });
+  
+  for (const p of table.players) {
+    io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
+  }
+  
+  startTurnTimer(table);
+}
+
+function getAuctionState(table, seat) {
+  const game = table.game;
+  return {
+    gameType: GAME_TYPES.BATAK,
+    hand: game.hands[seat],
+    currentBidder: game.phase === 'bidding' ? game.currentPlayer : null,
+    bids: game.bids,
+    highBid: game.highBid,
+    minimumBid: game.getMinimumBid(),
+    canPass: game.canPass(game.currentPlayer),
+    roundNumber: game.roundNumber,
+    dealerSeat: game.dealerSeat,
+    endingScore: game.endingScore,
+  };
+}
+
+function applyAuctionBid(table, seat, bid, source = ACTION_SOURCES.PLAYER) {
+  const result = table.game.submitBid(seat, bid);
+  if (!result.success) return result;
+  
+  table.recordAction(ACTION_TYPES.BID, { seat, bid, source });
+  
+  clearBidTimer(table);
+  
+  io.to(table.id).emit('auctionBid', {
+    seat,
+    bid,
+    bids: table.game.bids,
+    highBid: table.game.highBid,
+    nextBidder: result.auctionComplete ? null : table.game.currentPlayer,
+    minimumBid: table.game.getMinimumBid(),
+    canPass: table.game.canPass(table.game.currentPlayer),
+  });
+  
+  if (result.auctionComplete) {
+    io.to(table.id).emit('trumpDeclarationStart', {
+      declarer: result.declarer,
+      contract: result.contract,
+    });
+    startDeclareTimer(table);
+  } else {
+    startBidTimer(table);
+  }
+  
+  return result;
+}
+
+function applyTrumpDeclaration(table, seat, trumpSuit, source = ACTION_SOURCES.PLAYER) {
+  const result = table.game.declareTrump(seat, trumpSuit);
+  if (!result.success) return result;
+  
+  table.recordAction(ACTION_TYPES.DECLARE_TRUMP, { seat, trumpSuit, source });
+  
+  clearSelectTimer(table);
+  
+  io.to(table.id).emit('trumpDeclared', {
+    declarer: seat,
+    contract: table.game.highBid,
+    trumpSuit,
+    currentPlayer: table.game.currentPlayer,
+    ...(source === ACTION_SOURCES.TIMER ? { autoSelected: true } : {}),
+  });
+  
+  for (const p of table.players) {
+    io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
+  }
+  updateSpectators(table);
+  
+  startTurnTimer(table);
+  
+  return result;
+}
+
+function applyBridgeCall(table, seat, call, source = ACTION_SOURCES.PLAYER) {
+  const game = table.game;
+  const result = game.submitBid(seat, call);
+  if (!result.success) return result;
+  
+  table.recordAction(ACTION_TYPES.BID, { seat, bid: call, source });
+  
+  clearBidTimer(table);
+  
+  const highest = game.getHighestBid();
+  io.to(table.id).emit('bridgeCall', {
+    seat,
+    call,
+    calls: game.calls,
+    highestBid: highest ? highest.call : null,
+    nextBidder: result.auctionComplete ? null : game.currentPlayer,
+    canDouble: !result.auctionComplete && game.canDouble(game.currentPlayer),
+    canRedouble: !result.auctionComplete && game.canRedouble(game.currentPlayer),
+  });
+  
+  if (result.passedOut) {
+    // Nobody bid: the board is thrown in and scores nothing
+    setTimeout(() => handleBridgeRoundEnd(table, result), 1000);
+  } else if (result.auctionComplete) {
+    io.to(table.id).emit('bridgePlayStart', {
+      contract: result.contract,
+      declarer: result.declarer,
+      dummySeat: game.dummySeat,
+      currentPlayer: game.currentPlayer,
+    });
+    
+    for (const p of table.players) {
+      io.to(p.id).emit('updateGame', game.getStateForPlayer(p.seat));
+    }
+    updateSpectators(table);
+    
+    startTurnTimer(table);
+  } else {
+    startBidTimer(table);
+  }
+  
+  return result;
+}
+
+function getBlindNilExchangeState(table, seat) {
+  return {
+    hand: table.game.hands[seat],
+    exchangeSeats: table.game.getExchangeSeats(),
+    exchangeSubmitted: Boolean(table.game.blindNilCards[seat]),
+    bids: table.game.bids,
+    teamBids: table.game.getTeamBids(),
+  };
+}
+
+function applyBlindNilExchange(table, seat, cards, source = ACTION_SOURCES.PLAYER) {
+  const result = table.game.submitBlindNilExchange(seat, cards);
+  if (!result.success) return result;
+  
+  table.recordAction(ACTION_TYPES.EXCHANGE, { seat, cards, source });
+  
+  const player = table.getPlayerBySeat(seat);
+  if (player) {
+    io.to(player.id).emit('passSubmitted');
+  }
+  
+  if (result.allExchanged) {
+    clearPassTimer(table);
+    
+    // Only the exchanging seats' hands changed
+    const { passedCards, receivedCards } = result.exchangeInfo;
+    for (const p of table.players) {
+      if (!passedCards[p.seat]) continue;
+      
+      io.to(p.id).emit('cardsReceived', {
+        hand: table.game.hands[p.seat],
+        phase: table.game.phase,
+        currentPlayer: table.game.currentPlayer,
+        cardsPassed: passedCards[p.seat],
+        cardsReceived: receivedCards[p.seat],
+      });
+    }
+    
+    // Let the exchange animation finish before the first lead
+    setTimeout(() => {
+      if (!table.game || table.game.phase !== 'playing') return;
+      startSpadesPlay(table);
+    }, 2500);
+  }
+  
+  return result;
+}
+
+function applyCardPlay(table, seat, card, source = ACTION_SOURCES.PLAYER) {
+  const result = table.game.playCard(seat, card);
+  if (!result.success) return result;
+  
+  table.recordAction(ACTION_TYPES.PLAY, { seat, card, source });
+  
+  clearTurnTimer(table);
+  
+  if (table.gameType === GAME_TYPES.PISTI) {
+    handlePistiCardPlayed(table, seat, card, result, source);
+    return result;
+  }
+
+  io.to(table.id).emit('cardPlayed', {
+    seat,
+    card,
+    currentTrick: result.trickComplete ? table.game.lastTrick : table.game.currentTrick,
+    trickComplete: result.trickComplete || false,
+    winner: result.trickComplete ? result.winner : null,
+    ...(source === ACTION_SOURCES.TIMER ? { autoPlayed: true } : {}),
+  });
+  
+  // Update spectators with the new trick
+  updateSpectators(table);
+  
+  if (result.trickComplete) {
+    setTimeout(() => {
+      io.to(table.id).emit('trickEnd', {
+        winner: result.winner,
+        points: result.points || 0,
+        lastTrick: table.game.lastTrick,
+      });
+      
+      // Handle game/round completion
+      if (table.gameType === GAME_TYPES.KING && result.gameComplete) {
+        handleKingGameEnd(table, result);
+      } else if (table.gameType === GAME_TYPES.HEARTS && result.roundComplete) {
+        handleHeartsRoundEnd(table, result);
+      } else if (table.gameType === GAME_TYPES.SPADES && result.roundComplete) {
+        handleSpadesRoundEnd(table, result);
+      } else if (table.gameType === GAME_TYPES.BATAK && result.roundComplete) {
+        handleBatakRoundEnd(table, result);
+      } else if (table.gameType === GAME_TYPES.BRIDGE && result.roundComplete) {
+        handleBridgeRoundEnd(table, result);
+      } else {
+        // Continue playing
+        setTimeout(() => {
+          for (const p of table.players) {
+            io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
+          }
+          startTurnTimer(table);
+        }, 2000);
+      }
+    }, 500);
+  } else {
+    for (const p of table.players) {
+      io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
+    }
+    startTurnTimer(table);
+  }
+  
+  return result;
+}
+
+// ----------------------------------------------------------------------------
+// Bots
+// ----------------------------------------------------------------------------
+
+const BOT_THINK_TIME = 1200;
+
+// Give any bot whose move it is a chance to act after a short pause
+function scheduleBotAction(table) {
+  clearBotTimer(table);
+  
+  if (!table.game || !table.players.some(p => p.isBot)) return;
+  
+  table.botTimer = setTimeout(() => {
+    table.botTimer = null;
+    runBotAction(table);
+  }, BOT_THINK_TIME);
+}
+
+function runBotAction(table) {
+  const game = table.game;
+  if (!game) return;
+  
+  if (game.phase === 'passing') {
+    for (const p of table.players) {
+      if (!p.isBot || game.phase !== 'passing' || game.passes[p.seat] !== undefined) continue;
+      
+      if (p.bot.choosePassAsync) {
+        applyWhenDecided(table, p, () => p.bot.choosePassAsync(game, p.seat),
+          () => game.phase === 'passing' && game.passes[p.seat] === undefined,
+          cards => applyPass(table, p.seat, cards, ACTION_SOURCES.BOT));
+      } else {
+        applyPass(table, p.seat, p.bot.choosePass(game, p.seat), ACTION_SOURCES.BOT);
+      }
+    }
+    return;
+  }
+  
+  if (game.phase === 'exchanging') {
+    for (const seat of game.getExchangeSeats()) {
+      const p = table.getPlayerBySeat(seat);
+      if (p?.isBot && game.phase === 'exchanging' && !game.blindNilCards[seat]) {
+        applyBlindNilExchange(table, seat, p.bot.chooseExchange(game, seat), ACTION_SOURCES.BOT);
+      }
+    }
+    return;
+  }
+  
+  const seat = game.phase === 'selecting' ? game.selectorSeat : game.currentPlayer;
+  // Bridge: dummy's cards are played by the declarer's bot
+  const player = table.getPlayerBySeat(game.getControllingSeat ? game.getControllingSeat(seat) : seat);
+  if (!player?.isBot) return;
+  
+  if (game.phase === 'selecting') {
+    const choice = player.bot.chooseContract(game, seat);
+    if (choice) {
+      applyContractSelection(table, seat, choice.contractType, choice.contractName, choice.trumpSuit, ACTION_SOURCES.BOT);
+    }
+  } else if (game.phase === 'bidding') {
+    const bid = player.bot.chooseBid(game, seat);
+    if (table.gameType === GAME_TYPES.BATAK) {
+      applyAuctionBid(table, seat, bid, ACTION_SOURCES.BOT);
+    } else if (table.gameType === GAME_TYPES.BRIDGE) {
+      applyBridgeCall(table, seat, bid, ACTION_SOURCES.BOT);
+    } else {
+      applyBid(table, seat, bid, ACTION_SOURCES.BOT);
+    }
+  } else if (game.phase === 'declaring') {
+    applyTrumpDeclaration(table, seat, player.bot.chooseTrump(game, seat), ACTION_SOURCES.BOT);
+  } else if (game.phase === 'playing') {
+    if (player.bot.chooseCardAsync) {
+      const trick = game.tricksPlayed;
+      applyWhenDecided(table, player, () => player.bot.chooseCardAsync(game, seat),
+        () => game.phase === 'playing' && game.currentPlayer === seat && game.tricksPlayed === trick,
+        card => {
+          if (card) applyCardPlay(table, seat, card, ACTION_SOURCES.BOT);
+        });
+      return;
+    }
+    
+    const card = player.bot.chooseCard(game, seat);
+    if (card) {
+      applyCardPlay(table, seat, card, ACTION_SOURCES.BOT);
+    }
+  }
+}
+
+/**
+ * Run a search bot's sliced search and apply its decision when done. Meanwhile the timer
+ * may have moved for it, a human may have taken the seat back or the table may be gone,
+ * and then the decision is dropped.
+ */
+function applyWhenDecided(table, player, decide, stillWaiting, apply) {
+  // Already searching this decision (the bot timer fired again, e.g. on another seat's pass)
+  if (table.botsThinking.has(player.seat)) return;
+  table.botsThinking.add(player.seat);
+  
+  const game = table.game;
+  decide()
+    .then(choice => {
+      if (tables.get(table.id) !== table || table.game !== game) return;
+      if (table.getPlayerBySeat(player.seat) !== player || !player.isBot || !stillWaiting()) return;
+      apply(choice);
+    })
+    .catch(err => console.error(`Bot at seat ${player.seat} of table ${table.id} failed:`, err))
+    .finally(() => table.botsThinking.delete(player.seat));
+}
+
+function clearBotTimer(table) {
+  if (table.botTimer) {
+    clearTimeout(table.botTimer);
+    table.botTimer = null;
+  }
+}
+
 function handleHeartsRoundEnd(table, result) {
   io.to(table.id).emit('roundEnd', {
     roundScores: result.roundScores,
@@ -1009,10 +2053,13 @@ function handleHeartsRoundEnd(table, result) {
     gameOver: result.gameOver,
     gameWinner: result.gameWinner,
     pointCardsTaken: table.game.getPointCardsTaken(),
+    dealSeed: table.game.dealSeed,
+    dealReveal: table.game.dealCommitment,
   });
   
   if (result.gameOver) {
     table.rematchVotes = {};
+    table.recordAction(ACTION_TYPES.END, { finalScores: result.cumulativeScores });
     io.to(table.id).emit('gameEnd', {
       winner: result.gameWinner,
       finalScores: result.cumulativeScores,
@@ -1021,104 +2068,215 @@ function handleHeartsRoundEnd(table, result) {
     setTimeout(() => {
       if (!table.game || table.game.phase !== 'roundEnd') return;
       
-      table.game.startNextRound();
+      table.advanceGame();
+      emitRoundStart(table);
+    }, 8000);
+  }
+}
+
+function handleKingGameEnd(table, result) {
+  io.to(table.id).emit('kingGameEnd', {
+    gameScores: result.gameScores,
+    cumulativeScores: result.cumulativeScores,
+    partyOver: result.partyOver,
+    winners: result.winners,
+    penaltyCardsTaken: table.game.getPenaltyCardsTaken(),
+    contract: table.game.contract,
+    gameNumber: table.game.gameNumber,
+    dealSeed: table.game.dealSeed,
+    dealReveal: table.game.dealCommitment,
+  });
+  
+  if (result.partyOver) {
+    table.rematchVotes = {};
+    table.recordAction(ACTION_TYPES.END, { finalScores: result.cumulativeScores });
+    io.to(table.id).emit('gameEnd', {
+      gameType: GAME_TYPES.KING,
+      winners: result.winners,
+      finalScores: result.cumulativeScores,
+    });
+  } else {
+    // Auto-advance to next game after delay
+    setTimeout(() => {
+      if (!table.game || table.game.phase !== 'gameEnd') return;
       
-      for (const p of table.players) {
-        io.to(p.id).emit('startGame', {
-          gameType: GAME_TYPES.HEARTS,
-          hand: table.game.hands[p.seat],
-          passDirection: table.game.passDirection,
-          phase: table.game.phase,
-          currentPlayer: table.game.currentPlayer,
-        });
-      }
+      table.advanceGame();
+      emitRoundStart(table);
+    }, 5000);
+  }
+}
+
+function handleSpadesRoundEnd(table, result) {
+  io.to(table.id).emit('spadesRoundEnd', {
+    roundScores: result.roundScores,
+    teamScores: result.cumulativeScores,
+    bags: result.bags,
+    teamTricks: result.teamTricks,
+    bids: result.bids,
+    tricksTaken: result.tricksTakenBySeat,
+    sides: table.game.sides,
+    rules: result.rules,
+    gameOver: result.gameOver,
+    gameWinnerTeam: result.gameWinnerTeam,
+    roundNumber: table.game.roundNumber,
+    dealSeed: table.game.dealSeed,
+    dealReveal: table.game.dealCommitment,
+  });
+  
+  if (result.gameOver) {
+    table.rematchVotes = {};
+    table.recordAction(ACTION_TYPES.END, { finalScores: result.cumulativeScores });
+    io.to(table.id).emit('gameEnd', {
+      gameType: GAME_TYPES.SPADES,
+      winnerTeam: result.gameWinnerTeam,
+      finalScores: result.cumulativeScores,
+    });
+  } else {
+    // Auto-advance to next round after delay
+    setTimeout(() => {
+      if (!table.game || table.game.phase !== 'roundEnd') return;
       
-      if (table.game.phase === 'passing') {
-        startPassTimer(table);
-      } else if (table.game.phase === 'playing') {
-        setTimeout(() => autoPlayTwoOfClubs(table), 500);
-      }
+      table.advanceGame();
+      emitRoundStart(table);
+    }, 8000);
+  }
+}
+
+function handleBatakRoundEnd(table, result) {
+  io.to(table.id).emit('batakRoundEnd', {
+    roundScores: result.roundScores,
+    cumulativeScores: result.cumulativeScores,
+    tricksTaken: result.tricksTakenBySeat,
+    declarer: result.declarer,
+    contract: result.contract,
+    trumpSuit: result.trumpSuit,
+    made: result.made,
+    gameOver: result.gameOver,
+    gameWinner: result.gameWinner,
+    roundNumber: table.game.roundNumber,
+    dealSeed: table.game.dealSeed,
+  });
+  
+  if (result.gameOver) {
+    table.rematchVotes = {};
+    table.recordAction(ACTION_TYPES.END, { finalScores: result.cumulativeScores });
+    io.to(table.id).emit('gameEnd', {
+      gameType: GAME_TYPES.BATAK,
+      winner: result.gameWinner,
+      finalScores: result.cumulativeScores,
+    });
+  } else {
+    setTimeout(() => {
+      if (!table.game || table.game.phase !== 'roundEnd') return;
+      
+      table.advanceGame();
+      emitRoundStart(table);
     }, 8000);
   }
 }
 
-function handleKingGameEnd(table, result) {
-  io.to(table.id).emit('kingGameEnd', {
-    gameScores: result.gameScores,
-    cumulativeScores: result.cumulativeScores,
-    partyOver: result.partyOver,
-    winners: result.winners,
-    penaltyCardsTaken: table.game.getPenaltyCardsTaken(),
-    contract: table.game.contract,
-    gameNumber: table.game.gameNumber,
+// Pişti has no tricks: every card lands on the pile or takes it
+function handlePistiCardPlayed(table, seat, card, result, source) {
+  const game = table.game;
+  
+  io.to(table.id).emit('pistiCardPlayed', {
+    seat,
+    card,
+    captured: result.captured,
+    pistiPoints: result.pistiPoints,
+    pile: game.getVisiblePile(),
+    stockCount: game.stock.length,
+    capturedCounts: game.getCapturedCounts(),
+    pistis: game.pistisBySide,
+    ...(source === ACTION_SOURCES.TIMER ? { autoPlayed: true } : {}),
+  });
+  
+  updateSpectators(table);
+  
+  if (result.roundComplete) {
+    setTimeout(() => handlePistiRoundEnd(table, result), 1500);
+    return;
+  }
+
+  // Leave a capture on screen for a moment; a fresh hand arrives as a new deal
+  setTimeout(() => {
+    if (table.game !== game || game.phase !== 'playing') return;
+    
+    for (const p of table.players) {
+      io.to(p.id).emit(result.newHand ? 'pistiDeal' : 'updateGame', game.getStateForPlayer(p.seat));
+    }
+    startTurnTimer(table);
+  }, result.captured ? 1500 : 500);
+}
+
+function handlePistiRoundEnd(table, result) {
+  io.to(table.id).emit('pistiRoundEnd', {
+    roundScores: result.roundScores,
+    teamScores: result.cumulativeScores,
+    cardCounts: result.cardCounts,
+    pistis: result.pistis,
+    leftoverTo: result.leftoverTo,
+    sides: table.game.sides,
+    gameOver: result.gameOver,
+    gameWinnerTeam: result.gameWinnerTeam,
+    roundNumber: table.game.roundNumber,
+    dealSeed: table.game.dealSeed,
   });
   
-  if (result.partyOver) {
+  if (result.gameOver) {
     table.rematchVotes = {};
+    table.recordAction(ACTION_TYPES.END, { finalScores: result.cumulativeScores });
     io.to(table.id).emit('gameEnd', {
-      gameType: GAME_TYPES.KING,
-      winners: result.winners,
+      gameType: GAME_TYPES.PISTI,
+      winnerTeam: result.gameWinnerTeam,
       finalScores: result.cumulativeScores,
     });
   } else {
-    // Auto-advance to next game after delay
     setTimeout(() => {
-      if (!table.game || table.game.phase !== 'gameEnd') return;
-      
-      table.game.startNextGame();
+      if (!table.game || table.game.phase !== 'roundEnd') return;
       
-      const availableContracts = table.game.getAvailableContracts(table.game.selectorSeat);
-      for (const p of table.players) {
-        io.to(p.id).emit('contractSelectionStart', {
-          gameType: GAME_TYPES.KING,
-          hand: table.game.hands[p.seat],
-          selector: table.game.selectorSeat,
-          availableContracts,
-          gameNumber: table.game.gameNumber,
-          partyNumber: 1,
-          contractsUsed: table.game.contractsUsed[p.seat],
-        });
-      }
-      startSelectTimer(table);
-    }, 5000);
+      table.advanceGame();
+      emitRoundStart(table);
+    }, 8000);
   }
 }
 
-function handleSpadesRoundEnd(table, result) {
-  io.to(table.id).emit('spadesRoundEnd', {
+function handleBridgeRoundEnd(table, result) {
+  io.to(table.id).emit('bridgeRoundEnd', {
     roundScores: result.roundScores,
     teamScores: result.cumulativeScores,
-    bags: result.bags,
-    teamTricks: result.teamTricks,
-    bids: result.bids,
-    tricksTaken: result.tricksTakenBySeat,
+    passedOut: result.passedOut,
+    contract: result.contract,
+    declarer: result.declarer,
+    sideTricks: result.sideTricks,
+    made: result.made,
+    result: result.result,
+    dealScore: result.dealScore,
+    rubberBonus: result.rubberBonus,
+    vulnerable: result.vulnerable,
+    gamesWon: result.gamesWon,
+    belowLine: result.belowLine,
+    sides: table.game.sides,
     gameOver: result.gameOver,
     gameWinnerTeam: result.gameWinnerTeam,
     roundNumber: table.game.roundNumber,
+    dealSeed: table.game.dealSeed,
   });
   
   if (result.gameOver) {
     table.rematchVotes = {};
+    table.recordAction(ACTION_TYPES.END, { finalScores: result.cumulativeScores });
     io.to(table.id).emit('gameEnd', {
-      gameType: GAME_TYPES.SPADES,
+      gameType: GAME_TYPES.BRIDGE,
       winnerTeam: result.gameWinnerTeam,
       finalScores: result.cumulativeScores,
     });
   } else {
-    // Auto-advance to next round after delay
     setTimeout(() => {
       if (!table.game || table.game.phase !== 'roundEnd') return;
       
-      table.game.startNextRound();
-      
-      for (const p of table.players) {
-        io.to(p.id).emit('biddingStart', {
-          hand: table.game.hands[p.seat],
-          currentBidder: table.game.currentPlayer,
-          roundNumber: table.game.roundNumber,
-        });
-      }
-      startBidTimer(table);
+      table.advanceGame();
+      emitRoundStart(table);
     }, 8000);
   }
 }
@@ -1128,30 +2286,16 @@ function autoPlayTwoOfClubs(table) {
   if (table.game.tricksPlayed !== 0 || table.game.currentTrick.length !== 0) return;
   
   const currentPlayer = table.game.currentPlayer;
+  /** @type {import('../src/types/game').Card} */
   const twoOfClubs = { suit: 'clubs', rank: '2', display: '2♣' };
   
-  const result = table.game.playCard(currentPlayer, twoOfClubs);
+  const result = applyCardPlay(table, currentPlayer, twoOfClubs, ACTION_SOURCES.TIMER);
   
   if (result.success) {
     const player = table.getPlayerBySeat(currentPlayer);
     if (player) {
       io.to(player.id).emit('autoPlay', { card: twoOfClubs });
     }
-    
-    io.to(table.id).emit('cardPlayed', {
-      seat: currentPlayer,
-      card: twoOfClubs,
-      currentTrick: table.game.currentTrick,
-      trickComplete: false,
-      winner: null,
-      autoPlayed: true,
-    });
-    
-    for (const p of table.players) {
-      io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
-    }
-    
-    startTurnTimer(table);
   }
 }
 
@@ -1159,6 +2303,8 @@ function autoPlayTwoOfClubs(table) {
 function sendGameStateToPlayer(table, socketId, seat) {
   if (!table.game) return;
   
+  emitDealCommitment(table, socketId, seat);
+  
   if (table.gameType === GAME_TYPES.KING) {
     if (table.game.phase === 'selecting') {
       // Contract selection phase
@@ -1169,6 +2315,8 @@ function sendGameStateToPlayer(table, socketId, seat) {
         selector: table.game.selectorSeat,
         availableContracts,
         gameNumber: table.game.gameNumber,
+        totalGames: table.game.totalGames,
+        variants: table.game.variants,
         partyNumber: table.game.partyNumber || 1,
         contractsUsed: table.game.contractsUsed[seat],
         timeoutAt: table.selectTimeoutAt,
@@ -1176,23 +2324,148 @@ function sendGameStateToPlayer(table, socketId, seat) {
     } else if (table.game.phase === 'playing') {
       // Playing phase - send full game state
       io.to(socketId).emit('contractSelected', {
-        gameType: GAME_TYPES.KING,
-        hand: table.game.hands[seat],
-        contract: table.game.currentContract?.name || table.game.currentContract?.type || null,
-        selector: table.game.selectorSeat,
-        trumpSuit: table.game.trumpSuit,
-        currentPlayer: table.game.currentPlayer,
+        selectorSeat: table.game.selectorSeat,
+        contract: table.game.contract,
+        startingPlayer: table.game.currentPlayer,
         gameNumber: table.game.gameNumber,
-        partyNumber: table.game.partyNumber || 1,
-        contractsUsed: table.game.contractsUsed[seat],
       });
-      // Send current trick/scores state
+      // Send hand, current trick and scores
       io.to(socketId).emit('updateGame', table.game.getStateForPlayer(seat));
       // Send timer if active
       if (table.turnTimeoutAt) {
-        io.to(socketId).emit('turnTimerStart', {
+        io.to(socketId).emit('turnStart', {
+          player: table.game.currentPlayer,
+          timeoutAt: table.turnTimeoutAt,
+        });
+      }
+    }
+  } else if (table.gameType === GAME_TYPES.SPADES) {
+    if (!['bidding', 'exchanging', 'playing'].includes(table.game.phase)) return;
+    
+    io.to(socketId).emit('biddingStart', {
+      hand: table.game.hands[seat],
+      currentBidder: table.game.currentPlayer,
+      roundNumber: table.game.roundNumber,
+      sides: table.game.sides,
+      tricksPerRound: table.game.tricksPerRound,
+      variants: table.game.variants,
+      rules: table.game.rules,
+      dealerSeat: table.game.dealerSeat,
+      canDeclareBlindNil: table.game.bids[seat] === null && table.game.canDeclareBlindNil(seat),
+    });
+    
+    if (table.game.phase === 'bidding') {
+      io.to(socketId).emit('bidsUpdate', {
+        bids: table.game.bids,
+        currentBidder: table.game.currentPlayer,
+        teamBids: table.game.getTeamBids(),
+      });
+      if (table.bidTimeoutAt) {
+        io.to(socketId).emit('bidTimerStart', {
+          player: table.game.currentPlayer,
+          timeoutAt: table.bidTimeoutAt,
+        });
+      }
+    } else if (table.game.phase === 'exchanging') {
+      io.to(socketId).emit('bidsUpdate', {
+        bids: table.game.bids,
+        currentBidder: null,
+        teamBids: table.game.getTeamBids(),
+      });
+      io.to(socketId).emit('blindNilExchangeStart', getBlindNilExchangeState(table, seat));
+      if (table.passTimeoutAt) {
+        io.to(socketId).emit('passTimerStart', {
+          timeoutAt: table.passTimeoutAt,
+        });
+      }
+    } else {
+      io.to(socketId).emit('spadesGameStart', {
+        currentPlayer: table.game.currentPlayer,
+        legalCards: table.game.getLegalCards(seat),
+        bids: table.game.bids,
+        teamBids: table.game.getTeamBids(),
+        cumulativeScores: table.game.cumulativeScores,
+      });
+      io.to(socketId).emit('updateGame', table.game.getStateForPlayer(seat));
+      if (table.turnTimeoutAt) {
+        io.to(socketId).emit('turnStart', {
+          player: table.game.currentPlayer,
+          timeoutAt: table.turnTimeoutAt,
+        });
+      }
+    }
+  } else if (table.gameType === GAME_TYPES.BATAK) {
+    if (!['bidding', 'declaring', 'playing'].includes(table.game.phase)) return;
+    
+    io.to(socketId).emit('auctionStart', getAuctionState(table, seat));
+    
+    if (table.game.phase === 'bidding') {
+      if (table.bidTimeoutAt) {
+        io.to(socketId).emit('bidTimerStart', {
+          player: table.game.currentPlayer,
+          timeoutAt: table.bidTimeoutAt,
+        });
+      }
+    } else if (table.game.phase === 'declaring') {
+      io.to(socketId).emit('trumpDeclarationStart', {
+        declarer: table.game.declarer,
+        contract: table.game.highBid,
+      });
+      if (table.selectTimeoutAt) {
+        io.to(socketId).emit('selectTimerStart', {
+          timeoutAt: table.selectTimeoutAt,
+          selectorSeat: table.game.declarer,
+        });
+      }
+    } else {
+      io.to(socketId).emit('trumpDeclared', {
+        declarer: table.game.declarer,
+        contract: table.game.highBid,
+        trumpSuit: table.game.trumpSuit,
+        currentPlayer: table.game.currentPlayer,
+      });
+      io.to(socketId).emit('updateGame', table.game.getStateForPlayer(seat));
+      if (table.turnTimeoutAt) {
+        io.to(socketId).emit('turnStart', {
+          player: table.game.currentPlayer,
+          timeoutAt: table.turnTimeoutAt,
+        });
+      }
+    }
+  } else if (table.gameType === GAME_TYPES.PISTI) {
+    if (table.game.phase !== 'playing') return;
+    
+    io.to(socketId).emit('pistiDeal', table.game.getStateForPlayer(seat));
+    if (table.turnTimeoutAt) {
+      io.to(socketId).emit('turnStart', {
+        player: table.game.currentPlayer,
+        timeoutAt: table.turnTimeoutAt,
+      });
+    }
+  } else if (table.gameType === GAME_TYPES.BRIDGE) {
+    if (!['bidding', 'playing'].includes(table.game.phase)) return;
+    
+    io.to(socketId).emit('bridgeAuctionStart', table.game.getStateForPlayer(seat));
+    
+    if (table.game.phase === 'bidding') {
+      if (table.bidTimeoutAt) {
+        io.to(socketId).emit('bidTimerStart', {
+          player: table.game.currentPlayer,
+          timeoutAt: table.bidTimeoutAt,
+        });
+      }
+    } else {
+      io.to(socketId).emit('bridgePlayStart', {
+        contract: table.game.contract,
+        declarer: table.game.declarer,
+        dummySeat: table.game.dummySeat,
+        currentPlayer: table.game.currentPlayer,
+      });
+      io.to(socketId).emit('updateGame', table.game.getStateForPlayer(seat));
+      if (table.turnTimeoutAt) {
+        io.to(socketId).emit('turnStart', {
+          player: table.game.currentPlayer,
           timeoutAt: table.turnTimeoutAt,
-          currentPlayer: table.game.currentPlayer,
         });
       }
     }
@@ -1221,28 +2494,29 @@ function sendGameStateToPlayer(table, socketId, seat) {
       });
       io.to(socketId).emit('updateGame', table.game.getStateForPlayer(seat));
       if (table.turnTimeoutAt) {
-        io.to(socketId).emit('turnTimerStart', {
+        io.to(socketId).emit('turnStart', {
+          player: table.game.currentPlayer,
           timeoutAt: table.turnTimeoutAt,
-          currentPlayer: table.game.currentPlayer,
         });
       }
     }
   }
 }
 
-function startTurnTimer(table) {
+function startTurnTimer(table, turnDuration = 30000) {
   clearTurnTimer(table);
   
   if (!table.game || table.game.phase !== 'playing') return;
+  if (holdRestoredClock(table)) return;
   
   const currentPlayer = table.game.currentPlayer;
   const turnStartTime = Date.now();
-  const turnDuration = 30000;
-  const warningTime = 20000;
+  const warningTime = Math.max(0, turnDuration - 10000);
+  table.turnTimeoutAt = turnStartTime + turnDuration;
   
   io.to(table.id).emit('turnStart', {
     player: currentPlayer,
-    timeoutAt: turnStartTime + turnDuration,
+    timeoutAt: table.turnTimeoutAt,
   });
   
   table.turnWarningTimer = setTimeout(() => {
@@ -1264,60 +2538,22 @@ function startTurnTimer(table) {
       RANK_VALUES[a.rank] - RANK_VALUES[b.rank]
     )[0];
     
-    const player = table.getPlayerBySeat(currentPlayer);
+    const player = table.getPlayerBySeat(table.game.getControllingSeat ? table.game.getControllingSeat(currentPlayer) : currentPlayer);
     if (player) {
       io.to(player.id).emit('autoPlay', { card: lowestCard });
     }
     
-    const result = table.game.playCard(currentPlayer, lowestCard);
-    
-    if (result.success) {
-      io.to(table.id).emit('cardPlayed', {
-        seat: currentPlayer,
-        card: lowestCard,
-        currentTrick: result.trickComplete ? table.game.lastTrick : table.game.currentTrick,
-        trickComplete: result.trickComplete || false,
-        winner: result.trickComplete ? result.winner : null,
-        autoPlayed: true,
-      });
-      
-      if (result.trickComplete) {
-        setTimeout(() => {
-          io.to(table.id).emit('trickEnd', {
-            winner: result.winner,
-            points: result.points || 0,
-            lastTrick: table.game.lastTrick,
-          });
-          
-          if (table.gameType === GAME_TYPES.KING && result.gameComplete) {
-            handleKingGameEnd(table, result);
-          } else if (table.gameType === GAME_TYPES.HEARTS && result.roundComplete) {
-            handleHeartsRoundEnd(table, result);
-          } else if (table.gameType === GAME_TYPES.SPADES && result.roundComplete) {
-            handleSpadesRoundEnd(table, result);
-          } else {
-            setTimeout(() => {
-              for (const p of table.players) {
-                io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
-              }
-              startTurnTimer(table);
-            }, 2000);
-          }
-        }, 1500);
-      } else {
-        for (const p of table.players) {
-          io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
-        }
-        startTurnTimer(table);
-      }
-    }
+    applyCardPlay(table, currentPlayer, lowestCard, ACTION_SOURCES.TIMER);
   }, turnDuration);
+  
+  scheduleBotAction(table);
 }
 
 function clearTurnTimer(table) {
   if (table.turnTimer) {
     clearTimeout(table.turnTimer);
     table.turnTimer = null;
+    table.turnTimeoutAt = null;
   }
   if (table.turnWarningTimer) {
     clearTimeout(table.turnWarningTimer);
@@ -1325,10 +2561,11 @@ function clearTurnTimer(table) {
   }
 }
 
-function startPassTimer(table) {
+function startPassTimer(table, passDuration = 30000) {
   clearPassTimer(table);
   
-  const passDuration = 30000;
+  if (holdRestoredClock(table)) return;
+  
   const passStartTime = Date.now();
   table.passTimeoutAt = passStartTime + passDuration;
   
@@ -1339,40 +2576,56 @@ function startPassTimer(table) {
   table.passTimer = setTimeout(() => {
     if (!table.game || table.game.phase !== 'passing') return;
     
-    let exchangeInfo = null;
-    
     for (let seat = 0; seat < 4; seat++) {
       if (table.game.passes[seat] === undefined) {
         const hand = table.game.hands[seat];
         const shuffled = [...hand].sort(() => Math.random() - 0.5);
         const autoCards = shuffled.slice(0, 3);
         
-        const result = table.game.submitPass(seat, autoCards);
-        if (result.exchangeInfo) {
-          exchangeInfo = result.exchangeInfo;
-        }
-        
         const player = table.getPlayerBySeat(seat);
         if (player) {
           io.to(player.id).emit('autoPassSubmitted', { cards: autoCards });
         }
+        
+        applyPass(table, seat, autoCards, ACTION_SOURCES.TIMER);
       }
     }
+  }, passDuration);
+  
+  scheduleBotAction(table);
+}
+
+// Blind nil exchange shares the pass timer; whoever hasn't chosen gives what a bot would
+function startExchangeTimer(table, exchangeDuration = 30000) {
+  clearPassTimer(table);
+  
+  if (holdRestoredClock(table)) return;
+  
+  const exchangeStartTime = Date.now();
+  table.passTimeoutAt = exchangeStartTime + exchangeDuration;
+  
+  io.to(table.id).emit('passTimerStart', {
+    timeoutAt: table.passTimeoutAt,
+  });
+  
+  table.passTimer = setTimeout(() => {
+    if (!table.game || table.game.phase !== 'exchanging') return;
     
-    if (table.game.phase === 'playing') {
-      for (const p of table.players) {
-        io.to(p.id).emit('cardsReceived', {
-          hand: table.game.hands[p.seat],
-          phase: table.game.phase,
-          currentPlayer: table.game.currentPlayer,
-          cardsPassed: exchangeInfo?.passedCards[p.seat],
-          cardsReceived: exchangeInfo?.receivedCards[p.seat],
-        });
+    for (const seat of table.game.getExchangeSeats()) {
+      if (table.game.phase !== 'exchanging' || table.game.blindNilCards[seat]) continue;
+      
+      const autoCards = new SpadesBot().chooseExchange(table.game, seat);
+      
+      const player = table.getPlayerBySeat(seat);
+      if (player) {
+        io.to(player.id).emit('autoPassSubmitted', { cards: autoCards });
       }
       
-      setTimeout(() => autoPlayTwoOfClubs(table), 2500);
+      applyBlindNilExchange(table, seat, autoCards, ACTION_SOURCES.TIMER);
     }
-  }, passDuration);
+  }, exchangeDuration);
+  
+  scheduleBotAction(table);
 }
 
 function clearPassTimer(table) {
@@ -1383,12 +2636,12 @@ function clearPassTimer(table) {
   }
 }
 
-function startSelectTimer(table) {
+function startSelectTimer(table, selectDuration = 45000) {
   clearSelectTimer(table);
   
   if (!table.game || table.game.phase !== 'selecting') return;
+  if (holdRestoredClock(table)) return;
   
-  const selectDuration = 45000;  // 45 seconds for contract selection
   const selectStartTime = Date.now();
   table.selectTimeoutAt = selectStartTime + selectDuration;
   
@@ -1401,40 +2654,15 @@ function startSelectTimer(table) {
     if (!table.game || table.game.phase !== 'selecting') return;
     
     const selectorSeat = table.game.selectorSeat;
-    const usage = table.game.contractsUsed[selectorSeat];
     
-    // Auto-select: prefer penalty if available, otherwise trump
-    let contractType, contractName, trumpSuit;
+    // Auto-select the contract that suits the selector's hand best
+    const best = chooseBestContract(table.game, selectorSeat);
+    if (!best) return;
     
-    if (usage.penalties < 3) {
-      contractType = CONTRACT_TYPES.PENALTY;
-      // Pick a random available penalty
-      const penalties = Object.values(PENALTY_CONTRACTS);
-      contractName = penalties[Math.floor(Math.random() * penalties.length)];
-    } else {
-      contractType = CONTRACT_TYPES.TRUMP;
-      const suits = ['spades', 'hearts', 'diamonds', 'clubs'];
-      trumpSuit = suits[Math.floor(Math.random() * suits.length)];
-    }
-    
-    const result = table.game.selectContract(selectorSeat, contractType, contractName, trumpSuit);
-    
-    if (result.success) {
-      io.to(table.id).emit('contractSelected', {
-        selectorSeat,
-        contract: result.contract,
-        startingPlayer: result.startingPlayer,
-        gameNumber: table.game.gameNumber,
-        autoSelected: true,
-      });
-      
-      for (const p of table.players) {
-        io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
-      }
-      
-      startTurnTimer(table);
-    }
+    applyContractSelection(table, selectorSeat, best.contractType, best.contractName, best.trumpSuit, ACTION_SOURCES.TIMER);
   }, selectDuration);
+  
+  scheduleBotAction(table);
 }
 
 function clearSelectTimer(table) {
@@ -1445,75 +2673,96 @@ function clearSelectTimer(table) {
   }
 }
 
-// Spades bid timer
-function startBidTimer(table) {
+// İhaleli Batak trump declaration timer (shares the King contract selection clock)
+function startDeclareTimer(table, declareDuration = 30000) {
+  clearSelectTimer(table);
+  
+  if (!table.game || table.game.phase !== 'declaring') return;
+  if (holdRestoredClock(table)) return;
+  
+  const declarer = table.game.declarer;
+  table.selectTimeoutAt = Date.now() + declareDuration;
+  
+  io.to(table.id).emit('selectTimerStart', {
+    timeoutAt: table.selectTimeoutAt,
+    selectorSeat: declarer,
+  });
+  
+  table.selectTimer = setTimeout(() => {
+    if (!table.game || table.game.phase !== 'declaring') return;
+    
+    // Auto-declare the suit that suits the declarer's hand best
+    applyTrumpDeclaration(table, declarer, chooseBestTrump(table.game.hands[declarer]).suit, ACTION_SOURCES.TIMER);
+  }, declareDuration);
+  
+  scheduleBotAction(table);
+}
+
+// Spades, İhaleli Batak and Bridge bid timer
+function startBidTimer(table, bidDuration = 30000) {
   clearBidTimer(table);
   
   if (!table.game || table.game.phase !== 'bidding') return;
+  if (holdRestoredClock(table)) return;
   
   const currentBidder = table.game.currentPlayer;
   const bidStartTime = Date.now();
-  const bidDuration = 30000;
+  table.bidTimeoutAt = bidStartTime + bidDuration;
   
   io.to(table.id).emit('bidTimerStart', {
     player: currentBidder,
-    timeoutAt: bidStartTime + bidDuration,
+    timeoutAt: table.bidTimeoutAt,
   });
   
   table.bidTimer = setTimeout(() => {
     if (!table.game || table.game.phase !== 'bidding') return;
     if (table.game.currentPlayer !== currentBidder) return;
+    
+    if (table.gameType === GAME_TYPES.BATAK) {
+      // Drop out of the auction, or take the minimum when everyone else passed
+      const autoBid = table.game.canPass(currentBidder) ? BATAK_PASS : table.game.getMinimumBid();
+      
+      const player = table.getPlayerBySeat(currentBidder);
+      if (player) {
+        io.to(player.id).emit('autoBid', { bid: autoBid });
+      }
+      
+      applyAuctionBid(table, currentBidder, autoBid, ACTION_SOURCES.TIMER);
+      return;
+    }
+    
+    if (table.gameType === GAME_TYPES.BRIDGE) {
+      // A seat that runs out of time passes
+      const player = table.getPlayerBySeat(currentBidder);
+      if (player) {
+        io.to(player.id).emit('autoBid', { bid: BRIDGE_PASS });
+      }
+      
+      applyBridgeCall(table, currentBidder, BRIDGE_PASS, ACTION_SOURCES.TIMER);
+      return;
+    }
+    
     if (table.game.bids[currentBidder] !== null) return;
     
-    // Auto-bid 2 (conservative default)
-    const autoBid = 2;
-    const result = table.game.submitBid(currentBidder, autoBid);
+    // Auto-bid what a bot would bid with this hand
+    const autoBid = new SpadesBot().chooseBid(table.game, currentBidder, { allowNil: false, allowBlindNil: false });
     
     const player = table.getPlayerBySeat(currentBidder);
     if (player) {
       io.to(player.id).emit('autoBid', { bid: autoBid });
     }
     
-    io.to(table.id).emit('bidsUpdate', {
-      bids: table.game.bids,
-      currentBidder: table.game.currentPlayer,
-      teamBids: [
-        table.game.getTeamBid(0),
-        table.game.getTeamBid(1),
-      ],
-    });
-    
-    if (result.allBidsIn) {
-      io.to(table.id).emit('biddingComplete', {
-        bids: table.game.bids,
-        teamBids: [
-          table.game.getTeamBid(0),
-          table.game.getTeamBid(1),
-        ],
-      });
-      
-      for (const p of table.players) {
-        io.to(p.id).emit('updateGame', table.game.getStateForPlayer(p.seat));
-      }
-      
-      startTurnTimer(table);
-    } else {
-      for (const p of table.players) {
-        io.to(p.id).emit('updateGame', {
-          currentPlayer: table.game.currentPlayer,
-          bids: table.game.bids,
-          canDeclareBlindNil: table.game.canDeclareBlindNil(p.seat),
-        });
-      }
-      startBidTimer(table);
-    }
+    applyBid(table, currentBidder, autoBid, ACTION_SOURCES.TIMER);
   }, bidDuration);
+  
+  scheduleBotAction(table);
 }
 
 function clearBidTimer(table) {
   if (table.bidTimer) {
     clearTimeout(table.bidTimer);
     table.bidTimer = null;
+    table.bidTimeoutAt = null;
   }
 }
 
@@ -1525,18 +2774,167 @@ const PORT = process.env.PORT || 3000;
 
 setInterval(() => {
   for (const [tableId, table] of tables) {
-    if (table.players.length === 0 || table.players.every(p => !p.connected)) {
-      clearTurnTimer(table);
-      clearPassTimer(table);
-      clearSelectTimer(table);
-      clearBidTimer(table);
-      tables.delete(tableId);
+    if (!table.hasConnectedHumans() && table.getLatestGraceEnd() <= Date.now()) {
+      destroyTable(table);
       console.log(`Cleaned up empty table: ${tableId}`);
     }
   }
   broadcastTablesList();
 }, 60000);
 
+// ============================================================================
+// SNAPSHOTS
+// ============================================================================
+
+// Only tables with a game in progress are worth keeping; waiting rooms are cheap to recreate
+function saveSnapshots() {
+  for (const table of tables.values()) {
+    if (!table.game) continue;
+    
+    try {
+      snapshots.save(table.toSnapshot());
+    } catch (err) {
+      console.error(`Failed to snapshot table ${table.id}:`, err.message);
+    }
+  }
+}
+
+function restoreSnapshots() {
+  for (const snapshot of snapshots.loadAll()) {
+    try {
+      const table = Table.fromSnapshot(snapshot);
+      tables.set(table.id, table);
+      resumeTable(table);
+      console.log(`Restored table ${table.id} (${table.gameType}, phase ${table.game?.phase})`);
+    } catch (err) {
+      console.error(`Failed to restore table ${snapshot.id}:`, err.message);
+      snapshots.delete(snapshot.id);
+    }
+  }
+}
+
+// Pick a restored game up where it stopped, with the time that was left on the clock
+function resumeTable(table) {
+  const game = table.game;
+  if (!game) return;
+  
+  switch (game.phase) {
+    case 'roundEnd':
+    case 'gameEnd':
+      // Between rounds: carry on unless the whole game is over and waiting for a rematch
+      if (!table.actionLog.isComplete()) {
+        const phase = game.phase;
+        setTimeout(() => {
+          if (!table.game || table.game.phase !== phase) return;
+          
+          table.advanceGame();
+          emitRoundStart(table);
+        }, 5000);
+      }
+      break;
+    default:
+      // Held by holdRestoredClock until the seat to move is reclaimed
+      startPhaseTimer(table, table.restoredTimers || {});
+  }
+}
+
+// Seat a phase waits on, or null while every seat moves at once (passing, blind nil exchange)
+function getActingSeat(game) {
+  switch (game.phase) {
+    case 'selecting':
+      return game.selectorSeat;
+    case 'declaring':
+      return game.declarer;
+    case 'bidding':
+    case 'playing':
+      return game.currentPlayer;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Players of a restored table all come back disconnected, so during the restore grace
+ * a clock is only started once the seat it runs for is reclaimed (or is a bot's); until
+ * then nothing is auto-played. Returns true when the clock is held. resumeRestoredClock
+ * starts it on a rejoin, and on its own when the grace runs out.
+ */
+function holdRestoredClock(table) {
+  if (!table.isInRestoreGrace() || isActingSeatPresent(table)) {
+    // Whatever clock starts now has used up the time saved in the snapshot
+    if (!table.resumeTimer) table.restoredTimers = null;
+    return false;
+  }
+  
+  if (!table.resumeTimer) {
+    table.resumeTimer = setTimeout(() => resumeRestoredClock(table), table.restoredAt + RESTORE_GRACE_PERIOD - Date.now());
+  }
+  return true;
+}
+
+// Is the seat the phase waits on reclaimed or a bot's (while everyone moves at once: is anyone back)?
+function isActingSeatPresent(table) {
+  const seat = getActingSeat(table.game);
+  if (seat === null) return table.hasConnectedHumans();
+  
+  const player = table.getPlayerBySeat(seat);
+  return !player || player.isBot || player.connected;
+}
+
+function resumeRestoredClock(table) {
+  if (!table.resumeTimer || !table.game) return;
+  if (table.isInRestoreGrace() && !isActingSeatPresent(table)) return;
+  
+  clearTimeout(table.resumeTimer);
+  table.resumeTimer = null;
+  startPhaseTimer(table, table.restoredTimers || {});
+}
+
+/**
+ * Start the clock for whatever the game is waiting on. `timers` carries the time
+ * left on each clock for a restored table; a fresh deal gets the full durations.
+ */
+function startPhaseTimer(table, timers = {}) {
+  const game = table.game;
+  if (holdRestoredClock(table)) return;
+  
+  switch (game.phase) {
+    case 'passing':
+      startPassTimer(table, timers.pass ?? undefined);
+      break;
+    case 'exchanging':
+      startExchangeTimer(table, timers.pass ?? undefined);
+      break;
+    case 'selecting':
+      startSelectTimer(table, timers.select ?? undefined);
+      break;
+    case 'bidding':
+      startBidTimer(table, timers.bid ?? undefined);
+      break;
+    case 'declaring':
+      startDeclareTimer(table, timers.select ?? undefined);
+      break;
+    case 'playing':
+      if (table.gameType === GAME_TYPES.HEARTS && game.tricksPlayed === 0 && game.currentTrick.length === 0) {
+        setTimeout(() => autoPlayTwoOfClubs(table), 500);
+      } else {
+        startTurnTimer(table, timers.turn ?? undefined);
+      }
+      break;
+  }
+}
+
+restoreSnapshots();
+setInterval(saveSnapshots, SNAPSHOT_INTERVAL);
+
+for (const signal of ['SIGINT', 'SIGTERM']) {
+  process.on(signal, () => {
+    console.log(`${signal} received, saving table snapshots`);
+    saveSnapshots();
+    process.exit(0);
+  });
+}
+
 httpServer.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
 });
@@ -0,0 +1,54 @@
+/**
+ * Table snapshots on local disk
+ * One JSON file per table, rewritten periodically and on shutdown and read back on boot.
+ */
+
+import { mkdirSync, readdirSync, readFileSync, writeFileSync, renameSync, rmSync } from 'fs';
+import { join } from 'path';
+
+// Bump when the snapshot shape changes; older files are ignored on boot
+export const SNAPSHOT_VERSION = 1;
+
+export class SnapshotStore {
+  constructor(dir) {
+    this.dir = dir;
+    mkdirSync(dir, { recursive: true });
+  }
+
+  pathFor(tableId) {
+    return join(this.dir, `${encodeURIComponent(tableId)}.json`);
+  }
+
+  // Write to a temp file first so a crash mid-write never leaves a torn snapshot
+  save(snapshot) {
+    const file = this.pathFor(snapshot.id);
+    const tmp = `${file}.tmp`;
+    writeFileSync(tmp, JSON.stringify({ version: SNAPSHOT_VERSION, ...snapshot }));
+    renameSync(tmp, file);
+  }
+
+  loadAll() {
+    const snapshots = [];
+
+    for (const file of readdirSync(this.dir)) {
+      if (!file.endsWith('.json')) continue;
+
+      try {
+        const snapshot = JSON.parse(readFileSync(join(this.dir, file), 'utf-8'));
+        if (snapshot.version !== SNAPSHOT_VERSION) {
+          console.warn(`Skipping snapshot ${file}: version ${snapshot.version}`);
+          continue;
+        }
+        snapshots.push(snapshot);
+      } catch (err) {
+        console.error(`Skipping unreadable snapshot ${file}:`, err.message);
+      }
+    }
+
+    return snapshots;
+  }
+
+  delete(tableId) {
+    rmSync(this.pathFor(tableId), { force: true });
+  }
+}
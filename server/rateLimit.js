@@ -0,0 +1,196 @@
+/**
+ * Per-socket rate limiting and flood protection
+ * Every socket gets a token bucket per event. Events over the limit are dropped;
+ * a socket that keeps hitting the chat limit is muted for a while, and a socket
+ * that keeps flooding is disconnected. Only an address that keeps coming back to
+ * flood is banned, since many players can share one address behind a NAT.
+ */
+
+// Bucket per event: up to `capacity` events in a burst, refilled at `perSecond`
+export const DEFAULT_RATE_LIMITS = {
+  chatMessage: { capacity: 5, perSecond: 0.5 },
+  typing: { capacity: 10, perSecond: 2 },
+  listTables: { capacity: 5, perSecond: 1 },
+  createTable: { capacity: 3, perSecond: 0.1 },
+  joinTable: { capacity: 5, perSecond: 0.5 },
+  playCard: { capacity: 5, perSecond: 2 },
+  default: { capacity: 20, perSecond: 10 },  // Every event without its own entry
+};
+
+export const DEFAULT_FLOOD_POLICY = {
+  windowMs: 10_000,          // Dropped events are counted over this window
+  chatMuteAfter: 3,          // Chat messages dropped in one window before a mute
+  chatMuteMs: 60_000,
+  kickAfter: 50,             // Events of any kind dropped in one window before a disconnect
+  banAfter: 3,               // Disconnects of one address within banWindowMs before it is banned
+  banWindowMs: 10 * 60_000,
+  banMs: 10 * 60_000,
+};
+
+// Events a chat mute silences
+const CHAT_EVENTS = ['chatMessage', 'typing'];
+
+// Sent as `code` on the 'error' event when an event is dropped
+export const RATE_LIMIT_ERRORS = {
+  RATE_LIMITED: 'RATE_LIMITED',
+  MUTED: 'MUTED',
+  KICKED: 'KICKED',
+  BANNED: 'BANNED',
+};
+
+const RATE_LIMIT_MESSAGES = {
+  [RATE_LIMIT_ERRORS.RATE_LIMITED]: 'Too many requests - slow down',
+  [RATE_LIMIT_ERRORS.MUTED]: 'Chat muted for flooding',
+  [RATE_LIMIT_ERRORS.KICKED]: 'Disconnected for flooding',
+  [RATE_LIMIT_ERRORS.BANNED]: 'Banned for flooding',
+};
+
+function rejection(code, retryAt, extra = {}) {
+  return { allowed: false, code, error: RATE_LIMIT_MESSAGES[code], retryAt, ...extra };
+}
+
+export class TokenBucket {
+  constructor({ capacity, perSecond }, now = Date.now()) {
+    this.capacity = capacity;
+    this.perSecond = perSecond;
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  take(now = Date.now()) {
+    const elapsed = (now - this.updatedAt) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.perSecond);
+    this.updatedAt = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+/**
+ * Parse limit overrides (the RATE_LIMITS environment variable) on top of the defaults,
+ * e.g. '{"chatMessage":{"capacity":10,"perSecond":1}}'. Throws on anything malformed.
+ */
+export function parseRateLimits(json) {
+  if (!json) return { ...DEFAULT_RATE_LIMITS };
+
+  const overrides = JSON.parse(json);
+  if (overrides === null || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    throw new Error('RATE_LIMITS must be a JSON object of { capacity, perSecond } per event');
+  }
+
+  for (const [event, limit] of Object.entries(overrides)) {
+    if (!(limit?.capacity >= 1) || !(limit?.perSecond > 0)) {
+      throw new Error(`RATE_LIMITS.${event} needs a capacity of at least 1 and a positive perSecond`);
+    }
+  }
+  return { ...DEFAULT_RATE_LIMITS, ...overrides };
+}
+
+/**
+ * The address a connection comes from. Behind reverse proxies (TRUST_PROXY_HOPS of them)
+ * that is the X-Forwarded-For entry the outermost trusted proxy appended; anything
+ * further left was written by the client and can't be trusted.
+ */
+export function getClientAddress(handshake, trustedHops = 0) {
+  if (trustedHops > 0) {
+    const header = handshake.headers['x-forwarded-for'];
+    const forwarded = (Array.isArray(header) ? header.join(',') : header ?? '')
+      .split(',')
+      .map(address => address.trim())
+      .filter(Boolean);
+    if (forwarded.length >= trustedHops) {
+      return forwarded[forwarded.length - trustedHops];
+    }
+  }
+  return handshake.address;
+}
+
+export class RateLimiter {
+  constructor(limits = DEFAULT_RATE_LIMITS, policy = DEFAULT_FLOOD_POLICY) {
+    this.limits = limits;
+    this.policy = policy;
+    this.sockets = new Map();  // socketId -> { buckets, dropped, chatDropped, windowStart, mutedUntil }
+    this.bans = new Map();     // address -> banned until
+    this.kicks = new Map();    // address -> times of its recent flood disconnects
+  }
+
+  getBanExpiry(address, now = Date.now()) {
+    const until = this.bans.get(address);
+    if (until === undefined) return null;
+    if (until <= now) {
+      this.bans.delete(address);
+      return null;
+    }
+    return until;
+  }
+
+  stateFor(socketId, now) {
+    let state = this.sockets.get(socketId);
+    if (!state) {
+      state = { buckets: new Map(), dropped: 0, chatDropped: 0, windowStart: now, mutedUntil: 0 };
+      this.sockets.set(socketId, state);
+    }
+    if (now - state.windowStart >= this.policy.windowMs) {
+      state.dropped = 0;
+      state.chatDropped = 0;
+      state.windowStart = now;
+    }
+    return state;
+  }
+
+  /**
+   * Count one event from a socket. A dropped event comes back with its error code and
+   * when to retry; `muted`, `kicked` and `banned` are set on the event that triggered them.
+   * @returns {{ allowed: boolean, code?: import('../src/types/protocol').RateLimitErrorCode, error?: string, retryAt?: number, muted?: boolean, kicked?: boolean, banned?: boolean }}
+   */
+  check(socketId, address, event, now = Date.now()) {
+    const bannedUntil = this.getBanExpiry(address, now);
+    if (bannedUntil) {
+      return rejection(RATE_LIMIT_ERRORS.BANNED, bannedUntil);
+    }
+
+    const state = this.stateFor(socketId, now);
+    let result;
+    if (CHAT_EVENTS.includes(event) && state.mutedUntil > now) {
+      result = rejection(RATE_LIMIT_ERRORS.MUTED, state.mutedUntil);
+    } else {
+      let bucket = state.buckets.get(event);
+      if (!bucket) {
+        bucket = new TokenBucket(this.limits[event] ?? this.limits.default, now);
+        state.buckets.set(event, bucket);
+      }
+      if (bucket.take(now)) return { allowed: true };
+
+      result = rejection(RATE_LIMIT_ERRORS.RATE_LIMITED, now + Math.ceil((1 - bucket.tokens) / bucket.perSecond * 1000));
+      if (event === 'chatMessage' && ++state.chatDropped >= this.policy.chatMuteAfter) {
+        state.mutedUntil = now + this.policy.chatMuteMs;
+        state.chatDropped = 0;
+        result = rejection(RATE_LIMIT_ERRORS.MUTED, state.mutedUntil, { muted: true });
+      }
+    }
+
+    // Dropped events of any kind, muted chat included, add up to a disconnect,
+    // and repeated disconnects from one address to a ban
+    if (++state.dropped >= this.policy.kickAfter) {
+      state.dropped = 0;
+      const kicks = (this.kicks.get(address) ?? []).filter(at => now - at < this.policy.banWindowMs);
+      kicks.push(now);
+      this.kicks.set(address, kicks);
+
+      if (kicks.length >= this.policy.banAfter) {
+        const until = now + this.policy.banMs;
+        this.bans.set(address, until);
+        this.kicks.delete(address);
+        return rejection(RATE_LIMIT_ERRORS.BANNED, until, { banned: true });
+      }
+      return rejection(RATE_LIMIT_ERRORS.KICKED, now, { kicked: true });
+    }
+    return result;
+  }
+
+  forget(socketId) {
+    this.sockets.delete(socketId);
+  }
+}
@@ -6,14 +6,26 @@ export const SUITS = ['hearts', 'diamonds', 'clubs', 'spades'];
 export const RANKS = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
 export const RANK_VALUES = {
   '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9,
-  '10': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14
+  '10': 10, 'J': 11, 'Q': 12, 'K': 13, 'A': 14,
+  'LJ': 15, 'BJ': 16
 };
 export const SUIT_SYMBOLS = { hearts: '♥', diamonds: '♦', clubs: '♣', spades: '♠' };
 
-export function createDeck() {
+// Jokers (Spades variant) belong to the trump suit so follow-suit rules treat them as trumps
+export const JOKER_RANKS = ['BJ', 'LJ'];
+const JOKER_DISPLAY = { BJ: 'Büyük Joker', LJ: 'Küçük Joker' };
+
+/**
+ * Build a deck. Options (all off by default, giving the standard 52 cards):
+ *   jokers: add the big and little joker to the jokerSuit (default spades)
+ *   remove: [{ suit, rank }] cards to leave out, e.g. low twos to keep the
+ *           deck divisible by the number of players
+ */
+export function createDeck({ jokers = false, jokerSuit = 'spades', remove = [] } = {}) {
   const deck = [];
   for (const suit of SUITS) {
     for (const rank of RANKS) {
+      if (remove.some(c => c.suit === suit && c.rank === rank)) continue;
       deck.push({
         suit,
         rank,
@@ -21,13 +33,22 @@ export function createDeck() {
       });
     }
   }
+  if (jokers) {
+    for (const rank of JOKER_RANKS) {
+      deck.push({ suit: jokerSuit, rank, display: JOKER_DISPLAY[rank] });
+    }
+  }
   return deck;
 }
 
-export function shuffleDeck(deck) {
+/**
+ * Fisher-Yates shuffle. Pass a seeded generator (the engines use HmacRandom) to
+ * make the result reproducible; without one it falls back to Math.random().
+ */
+export function shuffleDeck(deck, rng = null) {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor((rng ? rng.next() : Math.random()) * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -46,8 +67,8 @@ export function sortHand(hand, suitOrder = { clubs: 0, diamonds: 1, spades: 2, h
   });
 }
 
-export function dealCards(numPlayers = 4, cardsPerPlayer = 13) {
-  const deck = shuffleDeck(createDeck());
+export function dealCards(numPlayers = 4, cardsPerPlayer = 13, rng = null) {
+  const deck = shuffleDeck(createDeck(), rng);
   const hands = Array.from({ length: numPlayers }, () => []);
   
   for (let i = 0; i < numPlayers * cardsPerPlayer; i++) {
@@ -91,10 +112,20 @@ export function determineTrickWinner(trick) {
   return winningPlay.seat;
 }
 
+/**
+ * Rank value of a trump card. highTrumps lists trump ranks that outrank the
+ * ace, highest first (Spades variants: ['BJ', 'LJ', '2'] for Joker-Joker-Deuce).
+ */
+export function trumpRankValue(rank, highTrumps = []) {
+  const index = highTrumps.indexOf(rank);
+  return index === -1 ? RANK_VALUES[rank] : 100 - index;
+}
+
 /**
  * Determine trick winner with trump suit (King/Spades style)
+ * highTrumps: trump ranks above the ace, highest first (see trumpRankValue)
  */
-export function determineTrickWinnerWithTrump(trick, trumpSuit) {
+export function determineTrickWinnerWithTrump(trick, trumpSuit, highTrumps = []) {
   const ledSuit = trick[0].card.suit;
   let winningPlay = trick[0];
   let winnerHasTrump = trick[0].card.suit === trumpSuit;
@@ -108,7 +139,7 @@ export function determineTrickWinnerWithTrump(trick, trumpSuit) {
       winnerHasTrump = true;
     } else if (playHasTrump && winnerHasTrump) {
       // Both have trump, higher trump wins
-      if (RANK_VALUES[play.card.rank] > RANK_VALUES[winningPlay.card.rank]) {
+      if (trumpRankValue(play.card.rank, highTrumps) > trumpRankValue(winningPlay.card.rank, highTrumps)) {
         winningPlay = play;
       }
     } else if (!playHasTrump && !winnerHasTrump) {
@@ -0,0 +1,41 @@
+/**
+ * Commit-reveal for deals
+ *
+ * At the start of a round the server publishes SHA-256(salt + ':' + deck) for
+ * the shuffled deck; at the end it reveals the deck and salt so any player
+ * can recompute the hash and check the cards were fixed before play began.
+ * The random salt keeps the hash from giving the deck away in the meantime.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+
+const SUIT_CODES = { hearts: 'H', diamonds: 'D', clubs: 'C', spades: 'S' };
+
+// Fresh 128-bit salt from the OS entropy source, as hex
+export function createSalt() {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Deck in dealing order as a plain string: rank plus suit letter per card,
+ * comma separated (e.g. "10H,QS,BJS"). The client parses the same format.
+ */
+export function serializeDeck(deck) {
+  return deck.map(card => `${card.rank}${SUIT_CODES[card.suit]}`).join(',');
+}
+
+export function hashDeal(deck, salt) {
+  return createHash('sha256').update(`${salt}:${deck}`).digest('hex');
+}
+
+/**
+ * Commitment for a serialized deck: { deck, salt, hash }.
+ * Only the hash goes out before the round ends.
+ */
+export function commitToDeck(deck, salt = createSalt()) {
+  return { deck, salt, hash: hashDeal(deck, salt) };
+}
+
+export function createDealCommitment(cards, salt = createSalt()) {
+  return commitToDeck(serializeDeck(cards), salt);
+}
@@ -0,0 +1,63 @@
+/**
+ * Machine-readable reasons for rejected game actions
+ * Engines return one as `code` next to the English `error`, and the server passes it
+ * on with the 'error' event so clients can explain the rule in their own language.
+ */
+
+import { cardEquals } from './cards.js';
+
+export const GAME_ERRORS = {
+  // Any action
+  WRONG_PHASE: 'WRONG_PHASE',
+  NOT_YOUR_TURN: 'NOT_YOUR_TURN',
+  CARD_NOT_IN_HAND: 'CARD_NOT_IN_HAND',
+
+  // Card play, from the same checks as each engine's getLegalCards
+  MUST_LEAD_TWO_OF_CLUBS: 'MUST_LEAD_TWO_OF_CLUBS',       // Hearts: opening lead
+  HEARTS_NOT_BROKEN: 'HEARTS_NOT_BROKEN',                 // Hearts, King kupa and rıfkı leads
+  SPADES_NOT_BROKEN: 'SPADES_NOT_BROKEN',
+  TRUMP_NOT_BROKEN: 'TRUMP_NOT_BROKEN',                   // King trump games, İhaleli Batak
+  MUST_FOLLOW_SUIT: 'MUST_FOLLOW_SUIT',
+  NO_POINTS_ON_FIRST_TRICK: 'NO_POINTS_ON_FIRST_TRICK',   // Hearts: no hearts or Q♠ when void
+  MUST_BEAT: 'MUST_BEAT',                                 // İhaleli Batak: go over the led suit's best card
+  MUST_TRUMP: 'MUST_TRUMP',                               // İhaleli Batak: void in the led suit
+  MUST_OVERTRUMP: 'MUST_OVERTRUMP',
+  MUST_PLAY_KING_OR_JACK: 'MUST_PLAY_KING_OR_JACK',       // King erkek almaz
+  MUST_PLAY_QUEEN: 'MUST_PLAY_QUEEN',                     // King kız almaz
+  MUST_PLAY_KING_OF_HEARTS: 'MUST_PLAY_KING_OF_HEARTS',   // King rıfkı
+  MUST_PLAY_HEART: 'MUST_PLAY_HEART',                     // King kupa almaz and rıfkı
+
+  // Passing and exchanging cards
+  WRONG_CARD_COUNT: 'WRONG_CARD_COUNT',
+  DUPLICATE_CARD: 'DUPLICATE_CARD',
+  NOT_IN_EXCHANGE: 'NOT_IN_EXCHANGE',
+  ALREADY_SUBMITTED: 'ALREADY_SUBMITTED',
+
+  // Bids and calls
+  INVALID_BID: 'INVALID_BID',
+  BID_TOO_LOW: 'BID_TOO_LOW',
+  CANNOT_PASS: 'CANNOT_PASS',
+  BLIND_NIL_NOT_ALLOWED: 'BLIND_NIL_NOT_ALLOWED',
+  CANNOT_DOUBLE: 'CANNOT_DOUBLE',
+  CANNOT_REDOUBLE: 'CANNOT_REDOUBLE',
+
+  // Contracts and trumps
+  INVALID_CONTRACT: 'INVALID_CONTRACT',
+  CONTRACT_USED_UP: 'CONTRACT_USED_UP',
+  NATURAL_ORDER: 'NATURAL_ORDER',
+  NO_SELECTIONS_LEFT: 'NO_SELECTIONS_LEFT',
+  PENALTIES_FIRST: 'PENALTIES_FIRST',
+  INVALID_TRUMP_SUIT: 'INVALID_TRUMP_SUIT',
+  NOT_DECLARER: 'NOT_DECLARER',
+};
+
+/**
+ * Cards in a seat's hand that can't be played right now, each with the reason.
+ * The game supplies getLegalCards and getIllegalPlayReason, which must agree.
+ */
+export function getIllegalCards(game, seat) {
+  const legalCards = game.getLegalCards(seat);
+  return game.hands[seat]
+    .filter(card => !legalCards.some(c => cardEquals(c, card)))
+    .map(card => ({ card, reason: game.getIllegalPlayReason(seat, card) }));
+}
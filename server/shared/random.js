@@ -0,0 +1,97 @@
+/**
+ * Random sources for deals, bots and simulations
+ *
+ * Every deal is shuffled by an HmacRandom keyed with its own 256-bit deal seed,
+ * so any hand can be re-dealt exactly from its recorded seed. Deal seeds are
+ * derived from the game's secret with HMAC rather than drawn from a chained
+ * generator, so a revealed deal seed says nothing about the next deal, and a
+ * player's own hand is far too little to search the seed space for the rest.
+ *
+ * SeededRandom (mulberry32, 32-bit seeds) is only for bots and simulations,
+ * where speed matters and nothing is hidden from anyone.
+ */
+
+import { createHmac, randomBytes, randomInt } from 'crypto';
+
+// Fresh 32-bit seed from the OS entropy source
+export function createSeed() {
+  return randomInt(0, 2 ** 32);
+}
+
+// Fresh 256-bit secret (hex) from the OS entropy source, one per game
+export function createSecret() {
+  return randomBytes(32).toString('hex');
+}
+
+/**
+ * 256-bit seed (hex) for a game's `index`-th deal, keyed with the game's seed
+ * (a secret at live tables, a plain number in simulations)
+ */
+export function deriveSeed(key, index) {
+  return createHmac('sha256', String(key)).update(String(index)).digest('hex');
+}
+
+/**
+ * Counter-mode HMAC-SHA256 stream: block n is HMAC(seed, n), read 48 bits at a
+ * time. Drives the deck shuffle from the whole deal seed.
+ */
+export class HmacRandom {
+  constructor(seed) {
+    this.seed = String(seed);
+    this.counter = 0;
+    this.block = Buffer.alloc(0);
+    this.offset = 0;
+  }
+
+  /**
+   * Next float in [0, 1), same contract as SeededRandom.next()
+   */
+  next() {
+    if (this.offset + 6 > this.block.length) {
+      this.block = createHmac('sha256', this.seed).update(String(this.counter++)).digest();
+      this.offset = 0;
+    }
+    const bits = this.block.readUIntBE(this.offset, 6);
+    this.offset += 6;
+    return bits / 2 ** 48;
+  }
+
+  /**
+   * Integer in [0, max)
+   */
+  nextInt(max) {
+    return Math.floor(this.next() * max);
+  }
+}
+
+export class SeededRandom {
+  constructor(seed = createSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Next float in [0, 1), drop-in replacement for Math.random()
+   */
+  next() {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Integer in [0, max)
+   */
+  nextInt(max) {
+    return Math.floor(this.next() * max);
+  }
+
+  /**
+   * Derive a new 32-bit seed, used to give each deal its own generator
+   */
+  nextSeed() {
+    return Math.floor(this.next() * 4294967296) >>> 0;
+  }
+}
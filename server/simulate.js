@@ -0,0 +1,801 @@
+/**
+ * Headless bot-vs-bot simulation
+ * Drives HeartsGame, KingGame, SpadesGame, IhaleliBatakGame, PistiGame and BridgeGame in-process (no server, no delays)
+ * over a range of seeds and prints aggregate statistics. Every engine rejection
+ * and broken invariant is reported with its seed so it can be replayed.
+ *
+ * Usage:
+ *   npm run simulate -- --game hearts --games 1000
+ *   npm run simulate -- --game king --games 200 --seed 5000
+ *   npm run simulate -- --game spades --seats bot,random,bot,random --json
+ *   npm run simulate -- --game hearts --games 20 --seats ismcts-hard,heuristic
+ *   npm run simulate -- --game hearts --variants jackOfDiamonds,heartsLeadAnytime,moonShot=subtract
+ *   npm run simulate -- --game spades --variants cutthroat,jokers,deucesHigh
+ *   npm run simulate -- --game king --variants short,firstLead=sixOfSpades
+ *   npm run simulate -- --game batak --games 200 --ending-score 31
+ *   npm run simulate -- --game pisti --variants twoPlayer --seats bot,random
+ *   npm run simulate -- --game bridge --variants scoring=imp
+ *   npm run simulate -- --check
+ *
+ * Options:
+ *   --game <hearts|king|spades|batak|pisti|bridge>
+ *                                 Game to simulate (default: hearts)
+ *   --games <n>                   Number of complete games (default: 100)
+ *   --seed <n>                    First seed; games use seed, seed+1, ... (default: 1)
+ *   --seats <a,b,c,d>             Strategy per seat, a single name applies to every
+ *                                 seat, a shorter list repeats (default: bot)
+ *   --ending-score <n>            Hearts ending score (default: 100), Batak ending score (default: 51)
+ *                                 or Pişti ending score (default: 151)
+ *   --win-threshold <n>           Spades win threshold (default: 300)
+ *   --variants <list>             Hearts, Spades, King, Pişti or Bridge rule variants, e.g. jackOfDiamonds,passing=none,moonShot=add
+ *                                 or cutthroat,jokers,deucesHigh,tenForTwoHundred,boston
+ *                                 or selectionOrder=natural,penaltiesFirst,short,firstLead=twoOfDiamonds,threePlayer
+ *                                 or twoPlayer (Pişti) or scoring=imp (Bridge)
+ *   --json                        Print the statistics as JSON
+ *   --check                       Run every case in CHECK_CASES instead (each game, and the variants
+ *                                 that change the deck or the seat count) and report only breakages
+ *
+ * Strategies: bot, heuristic, random, ismcts-easy, ismcts-medium, ismcts-hard
+ */
+
+import { createGame, advanceGame, getSeatCount, GAME_TYPES } from './games/index.js';
+import { CONTRACT_LABELS, TRUMP_LABELS, PENALTY_VALUES, TRUMP_VALUES } from './games/KingGame.js';
+import { BLIND_NIL_EXCHANGE_SIZE } from './games/SpadesGame.js';
+import { IhaleliBatakGame, BATAK_PASS } from './games/IhaleliBatakGame.js';
+import { getCardPoints } from './games/PistiGame.js';
+import { BridgeGame, BRIDGE_PASS, BRIDGE_STRAINS, BRIDGE_MAX_LEVEL } from './games/BridgeGame.js';
+import { createDeck, SUITS } from './shared/cards.js';
+import { SeededRandom } from './shared/random.js';
+import { HeartsBot, HeartsIsmctsBot, KingBot, SpadesBot, IhaleliBatakBot, PistiBot, BridgeBot } from './bots/index.js';
+import { HEARTS_DIFFICULTY_BUDGETS } from './bots/HeartsIsmctsBot.js';
+
+const MAX_ROUNDS = 500;  // Safety net against a game that never ends
+
+// Pişti: cards and card points in a full deck, all captured by the end of a round
+const DECK_SIZE = createDeck().length;
+const DECK_POINTS = createDeck().reduce((sum, card) => sum + getCardPoints(card), 0);
+
+const DEFAULT_ENDING_SCORES = {
+  [GAME_TYPES.BATAK]: 51,
+  [GAME_TYPES.PISTI]: 151,
+};
+
+// --check: a quick pass over every game, plus the variants that change the deck or the
+// seat count, where rule and bot bugs (such as a game that never ends) tend to hide
+const CHECK_CASES = [
+  { game: GAME_TYPES.HEARTS },
+  { game: GAME_TYPES.HEARTS, variants: 'jackOfDiamonds,passing=always,moonShot=add' },
+  { game: GAME_TYPES.KING },
+  { game: GAME_TYPES.KING, variants: 'threePlayer' },
+  { game: GAME_TYPES.KING, variants: 'selectionOrder=natural,short' },
+  { game: GAME_TYPES.SPADES },
+  { game: GAME_TYPES.SPADES, variants: 'jokers,deucesHigh,tenForTwoHundred,boston' },
+  { game: GAME_TYPES.SPADES, variants: 'cutthroat' },
+  { game: GAME_TYPES.SPADES, variants: 'cutthroat,jokers,deucesHigh' },
+  { game: GAME_TYPES.BATAK },
+  { game: GAME_TYPES.PISTI },
+  { game: GAME_TYPES.PISTI, variants: 'twoPlayer' },
+  { game: GAME_TYPES.BRIDGE },
+  { game: GAME_TYPES.BRIDGE, variants: 'scoring=imp' },
+];
+const CHECK_GAMES = 100;
+
+// Picks uniformly among legal moves; the baseline every strategy should beat
+class RandomStrategy {
+  constructor(rng) {
+    this.rng = rng;
+  }
+
+  pick(items) {
+    return items[this.rng.nextInt(items.length)];
+  }
+
+  pickCards(game, seat, count) {
+    const hand = [...game.hands[seat]];
+    const cards = [];
+    while (cards.length < count) {
+      cards.push(...hand.splice(this.rng.nextInt(hand.length), 1));
+    }
+    return cards;
+  }
+
+  choosePass(game, seat) {
+    return this.pickCards(game, seat, 3);
+  }
+
+  chooseContract(game, seat) {
+    const choice = this.pick(game.getAvailableContracts(seat).filter(c => !c.disabled));
+    if (!choice) return null;
+    return choice.type === 'trump'
+      ? { contractType: 'trump', trumpSuit: choice.trumpSuit }
+      : { contractType: 'penalty', contractName: choice.type };
+  }
+
+  chooseBid(game, seat) {
+    // İhaleli Batak: pass or raise by one, half the time each
+    if (game instanceof IhaleliBatakGame) {
+      const raise = !game.canPass(seat) || this.rng.nextInt(2) === 0;
+      return raise ? game.getMinimumBid() : BATAK_PASS;
+    }
+    // Bridge: pass three times in four, otherwise make the cheapest bid
+    if (game instanceof BridgeGame) {
+      const highest = game.getHighestBid()?.call;
+      const next = !highest ? { level: 1, strain: BRIDGE_STRAINS[0] }
+        : highest.strain !== 'notrump' ? { level: highest.level, strain: BRIDGE_STRAINS[BRIDGE_STRAINS.indexOf(highest.strain) + 1] }
+        : { level: highest.level + 1, strain: BRIDGE_STRAINS[0] };
+      return next.level <= BRIDGE_MAX_LEVEL && this.rng.nextInt(4) === 0 ? next : BRIDGE_PASS;
+    }
+    return 1 + this.rng.nextInt(4);
+  }
+
+  chooseTrump(game, seat) {
+    return this.pick(SUITS);
+  }
+
+  chooseExchange(game, seat) {
+    return this.pickCards(game, seat, BLIND_NIL_EXCHANGE_SIZE);
+  }
+
+  chooseCard(game, seat) {
+    return this.pick(game.getLegalCards(seat));
+  }
+}
+
+/**
+ * Strategy factories: (gameType, rng) => player with the bot interface
+ * (choosePass / chooseContract / chooseBid / chooseExchange / chooseTrump / chooseCard)
+ */
+const HEURISTIC = {
+  [GAME_TYPES.HEARTS]: () => new HeartsBot(),
+  [GAME_TYPES.KING]: () => new KingBot(),
+  [GAME_TYPES.SPADES]: () => new SpadesBot(),
+  [GAME_TYPES.BATAK]: () => new IhaleliBatakBot(),
+  [GAME_TYPES.PISTI]: () => new PistiBot(),
+  [GAME_TYPES.BRIDGE]: () => new BridgeBot(),
+};
+
+function ismcts(difficulty) {
+  return (gameType, rng) => {
+    if (gameType !== GAME_TYPES.HEARTS) {
+      throw new Error(`ismcts-${difficulty} only plays hearts`);
+    }
+    return new HeartsIsmctsBot({ iterations: HEARTS_DIFFICULTY_BUDGETS[difficulty], rng });
+  };
+}
+
+const STRATEGIES = {
+  // Best non-search bot for the game; fast enough for thousands of games
+  bot: gameType => HEURISTIC[gameType](),
+  heuristic: gameType => HEURISTIC[gameType](),
+  random: (gameType, rng) => new RandomStrategy(rng),
+  'ismcts-easy': ismcts('easy'),
+  'ismcts-medium': ismcts('medium'),
+  'ismcts-hard': ismcts('hard'),
+};
+
+// ============================================================================
+// Running games
+// ============================================================================
+
+class SimulationError extends Error {
+  constructor(seed, message) {
+    super(`seed ${seed}: ${message}`);
+    this.seed = seed;
+  }
+}
+
+function expectSuccess(seed, result, action) {
+  if (!result.success) {
+    throw new SimulationError(seed, `${action} rejected: ${result.error}`);
+  }
+  return result;
+}
+
+/**
+ * One player turn in whatever phase the game is in.
+ * Returns the engine result of a completed round/game, otherwise null.
+ */
+function step(game, players, seed) {
+  switch (game.phase) {
+    case 'passing':
+      for (let seat = 0; seat < game.hands.length; seat++) {
+        if (game.passes[seat] === undefined) {
+          expectSuccess(seed, game.submitPass(seat, players[seat].choosePass(game, seat)), `pass by seat ${seat}`);
+        }
+      }
+      return null;
+
+    case 'selecting': {
+      const seat = game.selectorSeat;
+      const choice = players[seat].chooseContract(game, seat);
+      if (!choice) throw new SimulationError(seed, `seat ${seat} had no contract to select`);
+      expectSuccess(seed, game.selectContract(seat, choice.contractType, choice.contractName, choice.trumpSuit), `contract by seat ${seat}`);
+      return null;
+    }
+
+    case 'bidding': {
+      // A Bridge auction of four passes ends the round straight away
+      const seat = game.currentPlayer;
+      const result = expectSuccess(seed, game.submitBid(seat, players[seat].chooseBid(game, seat)), `bid by seat ${seat}`);
+      return result.roundComplete ? result : null;
+    }
+
+    case 'declaring': {
+      const seat = game.declarer;
+      expectSuccess(seed, game.declareTrump(seat, players[seat].chooseTrump(game, seat)), `trump by seat ${seat}`);
+      return null;
+    }
+
+    case 'exchanging':
+      for (const seat of game.getExchangeSeats()) {
+        if (!game.blindNilCards[seat]) {
+          expectSuccess(seed, game.submitBlindNilExchange(seat, players[seat].chooseExchange(game, seat)), `blind nil exchange by seat ${seat}`);
+        }
+      }
+      return null;
+
+    case 'playing': {
+      // Bridge: the declarer's player chooses dummy's cards
+      const seat = game.currentPlayer;
+      const player = players[game.getControllingSeat ? game.getControllingSeat(seat) : seat];
+      const result = expectSuccess(seed, game.playCard(seat, player.chooseCard(game, seat)), `play by seat ${seat}`);
+      return result.roundComplete || result.gameComplete ? result : null;
+    }
+
+    default:
+      throw new SimulationError(seed, `stuck in phase '${game.phase}'`);
+  }
+}
+
+/**
+ * Play one complete game and hand every finished round/game to the collector
+ */
+function runGame(gameType, seed, strategyNames, collector, gameOptions = {}) {
+  const rng = new SeededRandom(seed);
+  const players = strategyNames.map(name => STRATEGIES[name](gameType, new SeededRandom(rng.nextSeed())));
+  const game = createGame(gameType, { ...gameOptions, seed });
+  game.deal();
+
+  for (let rounds = 0; rounds < MAX_ROUNDS; rounds++) {
+    let result = null;
+    while (!result) {
+      result = step(game, players, seed);
+    }
+
+    collector.round(game, result, seed);
+
+    const over = result.gameOver || result.partyOver;
+    if (over) {
+      collector.gameOver(game, result);
+      return;
+    }
+    advanceGame(game);
+  }
+
+  throw new SimulationError(seed, `no winner after ${MAX_ROUNDS} rounds`);
+}
+
+// ============================================================================
+// Statistics
+// ============================================================================
+
+function average(total, count) {
+  return count > 0 ? total / count : 0;
+}
+
+class HeartsStats {
+  constructor() {
+    this.games = 0;
+    this.rounds = 0;
+    this.wins = [0, 0, 0, 0];
+    this.points = [0, 0, 0, 0];
+    this.moonShots = { took: 0, gave: 0, subtracted: 0 };
+  }
+
+  round(game, result, seed) {
+    this.rounds++;
+    result.roundScores.forEach((points, seat) => { this.points[seat] += points; });
+    if (result.moonShotType) this.moonShots[result.moonShotType]++;
+
+    const total = result.roundScores.reduce((a, b) => a + b, 0);
+    const moonTotals = { gave: 78, subtracted: -26 };
+    const expected = (moonTotals[result.moonShotType] ?? 26) + (game.variants.jackOfDiamonds ? -10 : 0);
+    if (total !== expected) {
+      throw new SimulationError(seed, `round ${game.roundNumber} scored ${total} points, expected ${expected}`);
+    }
+  }
+
+  gameOver(game, result) {
+    this.games++;
+    this.wins[result.gameWinner]++;
+  }
+
+  summary() {
+    return {
+      games: this.games,
+      rounds: this.rounds,
+      winRate: this.wins.map(w => average(w, this.games)),
+      pointsPerRound: this.points.map(p => average(p, this.rounds)),
+      moonShotRate: average(this.moonShots.took + this.moonShots.gave + this.moonShots.subtracted, this.rounds),
+      moonShots: this.moonShots,
+    };
+  }
+}
+
+// Sized on the first game: four seats, or three in three-player King
+class KingStats {
+  constructor() {
+    this.games = 0;
+    this.rounds = 0;
+    this.wins = null;
+    this.finalScores = null;
+    this.contracts = {};  // label -> { count, selector, table }
+  }
+
+  round(game, result, seed) {
+    if (!this.wins) {
+      this.wins = Array(game.numPlayers).fill(0);
+      this.finalScores = Array(game.numPlayers).fill(0);
+    }
+    this.rounds++;
+    const { contract } = game;
+    const label = contract.type === 'trump' ? TRUMP_LABELS[contract.trumpSuit] : CONTRACT_LABELS[contract.name];
+    const total = result.gameScores.reduce((a, b) => a + b, 0);
+
+    const entry = this.contracts[label] ??= { count: 0, selector: 0, table: 0 };
+    entry.count++;
+    entry.selector += result.gameScores[game.selectorSeat];
+    entry.table += total;
+
+    // Every point of the contract is handed out before a game ends
+    const values = contract.type === 'trump' ? TRUMP_VALUES : PENALTY_VALUES[contract.name];
+    const expected = (contract.type === 'trump' ? 1 : -1) * values?.maxPoints[game.numPlayers];
+    if (total !== expected) {
+      throw new SimulationError(seed, `game ${game.gameNumber} (${label}) scored ${total}, expected ${expected}`);
+    }
+  }
+
+  gameOver(game, result) {
+    this.games++;
+    result.winners.forEach(seat => { this.wins[seat]++; });
+    result.cumulativeScores.forEach((score, seat) => { this.finalScores[seat] += score; });
+  }
+
+  summary() {
+    const contracts = {};
+    for (const [label, entry] of Object.entries(this.contracts)) {
+      contracts[label] = {
+        count: entry.count,
+        avgSelectorScore: average(entry.selector, entry.count),
+        avgTableScore: average(entry.table, entry.count),
+      };
+    }
+
+    return {
+      games: this.games,
+      rounds: this.rounds,
+      winRate: this.wins.map(w => average(w, this.games)),  // Finished the party at or above zero
+      avgFinalScore: this.finalScores.map(s => average(s, this.games)),
+      contracts,
+    };
+  }
+}
+
+// Sized on the first round: two partnerships, or one side per seat in Cutthroat
+class SpadesStats {
+  constructor() {
+    this.games = 0;
+    this.rounds = 0;
+    this.sides = null;
+    this.ties = 0;
+  }
+
+  round(game, result, seed) {
+    if (!this.sides) {
+      this.sides = game.sides;
+      this.wins = game.sides.map(() => 0);
+      this.sets = game.sides.map(() => 0);
+      this.bags = game.sides.map(() => 0);
+      this.nil = game.sides.map(() => ({ bid: 0, made: 0 }));
+      this.blindNil = game.sides.map(() => ({ bid: 0, made: 0 }));
+    }
+    this.rounds++;
+
+    const tricks = result.teamTricks.reduce((sum, t) => sum + t, 0);
+    if (tricks !== game.tricksPerRound) {
+      throw new SimulationError(seed, `round ${game.roundNumber} has ${result.teamTricks.join('+')} tricks, expected ${game.tricksPerRound}`);
+    }
+
+    for (let team = 0; team < this.sides.length; team++) {
+      const teamBid = game.getTeamBid(team);
+      if (result.teamTricks[team] < teamBid) this.sets[team]++;
+      else this.bags[team] += result.teamTricks[team] - teamBid;
+    }
+
+    result.bids.forEach((bid, seat) => {
+      const tally = bid === 'nil' ? this.nil : bid === 'blind_nil' ? this.blindNil : null;
+      if (!tally) return;
+      const team = game.getTeamForSeat(seat);
+      tally[team].bid++;
+      if (game.tricksTakenBySeat[seat] === 0) tally[team].made++;
+    });
+  }
+
+  gameOver(game, result) {
+    this.games++;
+    if (result.gameWinnerTeam === null) this.ties++;
+    else this.wins[result.gameWinnerTeam]++;
+  }
+
+  summary() {
+    const rate = tally => ({ ...tally, successRate: average(tally.made, tally.bid) });
+    const sides = this.sides ?? [];
+
+    return {
+      games: this.games,
+      rounds: this.rounds,
+      sides,
+      winRate: sides.map((_, team) => average(this.wins[team], this.games)),
+      ties: this.ties,
+      setRate: sides.map((_, team) => average(this.sets[team], this.rounds)),
+      bagsPerRound: sides.map((_, team) => average(this.bags[team], this.rounds)),
+      nil: sides.map((_, team) => rate(this.nil[team])),
+      blindNil: sides.map((_, team) => rate(this.blindNil[team])),
+    };
+  }
+}
+
+class BatakStats {
+  constructor() {
+    this.games = 0;
+    this.rounds = 0;
+    this.ties = 0;
+    this.wins = [0, 0, 0, 0];
+    this.contracts = [0, 0, 0, 0];
+    this.made = [0, 0, 0, 0];
+    this.tricks = [0, 0, 0, 0];
+    this.contractTotal = 0;
+  }
+
+  round(game, result, seed) {
+    this.rounds++;
+
+    const tricks = result.tricksTakenBySeat.reduce((sum, t) => sum + t, 0);
+    if (tricks !== game.tricksPerRound) {
+      throw new SimulationError(seed, `round ${game.roundNumber} has ${result.tricksTakenBySeat.join('+')} tricks, expected ${game.tricksPerRound}`);
+    }
+
+    this.contracts[result.declarer]++;
+    if (result.made) this.made[result.declarer]++;
+    this.contractTotal += result.contract;
+    result.tricksTakenBySeat.forEach((t, seat) => { this.tricks[seat] += t; });
+  }
+
+  gameOver(game, result) {
+    this.games++;
+    if (result.gameWinner === null) this.ties++;
+    else this.wins[result.gameWinner]++;
+  }
+
+  summary() {
+    return {
+      games: this.games,
+      rounds: this.rounds,
+      winRate: this.wins.map(w => average(w, this.games)),
+      ties: this.ties,
+      declarerRate: this.contracts.map(c => average(c, this.rounds)),
+      madeRate: this.made.map((m, seat) => average(m, this.contracts[seat])),
+      tricksPerRound: this.tricks.map(t => average(t, this.rounds)),
+      avgContract: average(this.contractTotal, this.rounds),
+    };
+  }
+}
+
+// Sized on the first round: two partnerships, or one side per seat head to head
+class PistiStats {
+  constructor() {
+    this.games = 0;
+    this.rounds = 0;
+    this.sides = null;
+    this.ties = 0;
+  }
+
+  round(game, result, seed) {
+    if (!this.sides) {
+      this.sides = game.sides;
+      this.wins = game.sides.map(() => 0);
+      this.points = game.sides.map(() => 0);
+      this.pistis = game.sides.map(() => 0);
+    }
+    this.rounds++;
+
+    // Every card of the deck ends up with a side, along with all of its points
+    const cards = result.cardCounts.reduce((sum, count) => sum + count, 0);
+    if (cards !== DECK_SIZE) {
+      throw new SimulationError(seed, `round ${game.roundNumber} handed out ${result.cardCounts.join('+')} cards, expected ${DECK_SIZE}`);
+    }
+    const cardPoints = game.capturedBySide.flat().reduce((sum, card) => sum + getCardPoints(card), 0);
+    if (cardPoints !== DECK_POINTS) {
+      throw new SimulationError(seed, `round ${game.roundNumber} handed out ${cardPoints} card points, expected ${DECK_POINTS}`);
+    }
+
+    result.roundScores.forEach((points, team) => { this.points[team] += points; });
+    result.pistis.forEach((count, team) => { this.pistis[team] += count; });
+  }
+
+  gameOver(game, result) {
+    this.games++;
+    if (result.gameWinnerTeam === null) this.ties++;
+    else this.wins[result.gameWinnerTeam]++;
+  }
+
+  summary() {
+    const sides = this.sides ?? [];
+
+    return {
+      games: this.games,
+      rounds: this.rounds,
+      sides,
+      winRate: sides.map((_, team) => average(this.wins[team], this.games)),
+      ties: this.ties,
+      pointsPerRound: sides.map((_, team) => average(this.points[team], this.rounds)),
+      pistisPerRound: sides.map((_, team) => average(this.pistis[team], this.rounds)),
+    };
+  }
+}
+
+class BridgeStats {
+  constructor() {
+    this.games = 0;
+    this.rounds = 0;
+    this.passedOut = 0;
+    this.ties = 0;
+    this.wins = [0, 0];
+    this.points = [0, 0];
+    this.contracts = [0, 0];
+    this.made = [0, 0];
+    this.levelTotal = 0;
+    this.slams = 0;
+  }
+
+  round(game, result, seed) {
+    this.rounds++;
+    result.roundScores.forEach((points, team) => { this.points[team] += points; });
+
+    if (result.passedOut) {
+      this.passedOut++;
+      return;
+    }
+
+    const tricks = result.sideTricks.reduce((sum, t) => sum + t, 0);
+    if (tricks !== game.tricksPerRound) {
+      throw new SimulationError(seed, `round ${game.roundNumber} has ${result.sideTricks.join('+')} tricks, expected ${game.tricksPerRound}`);
+    }
+
+    const team = game.getTeamForSeat(result.declarer);
+    this.contracts[team]++;
+    if (result.made) this.made[team]++;
+    this.levelTotal += result.contract.level;
+    if (result.contract.level >= 6) this.slams++;
+  }
+
+  gameOver(game, result) {
+    this.games++;
+    if (result.gameWinnerTeam === null) this.ties++;
+    else this.wins[result.gameWinnerTeam]++;
+  }
+
+  summary() {
+    const contracts = this.contracts[0] + this.contracts[1];
+
+    return {
+      games: this.games,
+      rounds: this.rounds,
+      sides: [[0, 2], [1, 3]],
+      winRate: this.wins.map(w => average(w, this.games)),
+      ties: this.ties,
+      pointsPerRound: this.points.map(p => average(p, this.rounds)),
+      declarerRate: this.contracts.map(c => average(c, this.rounds)),
+      madeRate: this.made.map((m, team) => average(m, this.contracts[team])),
+      passedOutRate: average(this.passedOut, this.rounds),
+      avgLevel: average(this.levelTotal, contracts),
+      slamRate: average(this.slams, contracts),
+    };
+  }
+}
+
+const STATS = {
+  [GAME_TYPES.HEARTS]: HeartsStats,
+  [GAME_TYPES.KING]: KingStats,
+  [GAME_TYPES.SPADES]: SpadesStats,
+  [GAME_TYPES.BATAK]: BatakStats,
+  [GAME_TYPES.PISTI]: PistiStats,
+  [GAME_TYPES.BRIDGE]: BridgeStats,
+};
+
+/**
+ * Run count games on seeds firstSeed.. and return the aggregate statistics.
+ * Games that break are recorded under errors and skipped.
+ */
+function simulate({ gameType, games, firstSeed, seats, gameOptions }) {
+  const collector = new STATS[gameType]();
+  const errors = [];
+
+  for (let i = 0; i < games; i++) {
+    const seed = (firstSeed + i) >>> 0;
+    try {
+      runGame(gameType, seed, seats, collector, gameOptions);
+    } catch (err) {
+      if (!(err instanceof SimulationError)) throw err;
+      errors.push({ seed: err.seed, message: err.message });
+    }
+  }
+
+  return { gameType, seats, firstSeed, ...collector.summary(), errors };
+}
+
+// ============================================================================
+// CLI
+// ============================================================================
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+// 'jackOfDiamonds,passing=none' -> { jackOfDiamonds: true, passing: 'none' }
+function parseVariants(list) {
+  if (typeof list !== 'string') return undefined;
+  const variants = {};
+  for (const item of list.split(',')) {
+    const [key, value] = item.split('=');
+    variants[key] = value ?? true;
+  }
+  return variants;
+}
+
+function percent(value) {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function printSummary(stats) {
+  const seatLabel = seat => `Seat ${seat} (${stats.seats[seat]})`;
+
+  console.log(`\n${stats.gameType}: ${stats.games} games, ${stats.rounds} rounds, seeds ${stats.firstSeed}+`);
+
+  if (stats.gameType === GAME_TYPES.HEARTS) {
+    for (let seat = 0; seat < 4; seat++) {
+      console.log(`  ${seatLabel(seat)}: win ${percent(stats.winRate[seat])}, ${stats.pointsPerRound[seat].toFixed(2)} pts/round`);
+    }
+    console.log(`  Moon shots: ${percent(stats.moonShotRate)} of rounds (took ${stats.moonShots.took}, gave ${stats.moonShots.gave}, subtracted ${stats.moonShots.subtracted})`);
+  } else if (stats.gameType === GAME_TYPES.KING) {
+    for (let seat = 0; seat < stats.winRate.length; seat++) {
+      console.log(`  ${seatLabel(seat)}: finished ≥ 0 in ${percent(stats.winRate[seat])}, avg final ${stats.avgFinalScore[seat].toFixed(0)}`);
+    }
+    console.log('  Contracts (count, avg selector score, avg table score):');
+    for (const [label, c] of Object.entries(stats.contracts)) {
+      console.log(`    ${label.padEnd(12)} ${String(c.count).padStart(6)} ${c.avgSelectorScore.toFixed(1).padStart(8)} ${c.avgTableScore.toFixed(1).padStart(8)}`);
+    }
+  } else if (stats.gameType === GAME_TYPES.BATAK) {
+    for (let seat = 0; seat < 4; seat++) {
+      console.log(`  ${seatLabel(seat)}: win ${percent(stats.winRate[seat])}, declarer ${percent(stats.declarerRate[seat])} of rounds, ` +
+        `made ${percent(stats.madeRate[seat])}, ${stats.tricksPerRound[seat].toFixed(2)} tricks/round`);
+    }
+    console.log(`  Average contract: ${stats.avgContract.toFixed(2)}, ties: ${stats.ties}`);
+  } else if (stats.gameType === GAME_TYPES.PISTI) {
+    for (let team = 0; team < stats.sides.length; team++) {
+      const seats = stats.sides[team];
+      console.log(`  Side ${team} (${seats.map(s => stats.seats[s]).join(' + ')}): win ${percent(stats.winRate[team])}, ` +
+        `${stats.pointsPerRound[team].toFixed(2)} pts/round, ${stats.pistisPerRound[team].toFixed(2)} pişti/round`);
+    }
+    console.log(`  Ties: ${stats.ties}`);
+  } else if (stats.gameType === GAME_TYPES.BRIDGE) {
+    for (let team = 0; team < stats.sides.length; team++) {
+      const seats = stats.sides[team];
+      console.log(`  Side ${team} (${seats.map(s => stats.seats[s]).join(' + ')}): win ${percent(stats.winRate[team])}, ` +
+        `${stats.pointsPerRound[team].toFixed(1)} pts/round, declarer ${percent(stats.declarerRate[team])} of rounds, made ${percent(stats.madeRate[team])}`);
+    }
+    console.log(`  Average contract level: ${stats.avgLevel.toFixed(2)}, slams ${percent(stats.slamRate)}, passed out ${percent(stats.passedOutRate)}, ties: ${stats.ties}`);
+  } else {
+    for (let team = 0; team < stats.sides.length; team++) {
+      const seats = stats.sides[team];
+      const nil = stats.nil[team];
+      const blindNil = stats.blindNil[team];
+      console.log(`  Team ${team} (${seats.map(s => stats.seats[s]).join(' + ')}): win ${percent(stats.winRate[team])}, ` +
+        `set ${percent(stats.setRate[team])} of rounds, ${stats.bagsPerRound[team].toFixed(2)} bags/round`);
+      console.log(`    Nil ${nil.made}/${nil.bid} (${percent(nil.successRate)}), blind nil ${blindNil.made}/${blindNil.bid} (${percent(blindNil.successRate)})`);
+    }
+    console.log(`  Ties: ${stats.ties}`);
+  }
+
+  if (stats.errors.length > 0) {
+    console.log(`\n  ${stats.errors.length} game(s) broke:`);
+    for (const err of stats.errors) {
+      console.log(`    ${err.message}`);
+    }
+  }
+}
+
+function getGameOptions(gameType, args, variants) {
+  return {
+    endingScore: Number(args['ending-score']) || DEFAULT_ENDING_SCORES[gameType] || 100,
+    winThreshold: Number(args['win-threshold']) || 300,
+    variants,
+  };
+}
+
+function runChecks(args) {
+  const games = Number(args.games) || CHECK_GAMES;
+  const firstSeed = Number(args.seed) || 1;
+  let broken = 0;
+
+  for (const { game, variants: list } of CHECK_CASES) {
+    const variants = parseVariants(list);
+    const seats = Array(getSeatCount(game, { variants })).fill('bot');
+    const stats = simulate({ gameType: game, games, firstSeed, seats, gameOptions: getGameOptions(game, args, variants) });
+
+    console.log(`  ${stats.errors.length > 0 ? 'BROKE' : 'ok   '} ${game}${list ? ` --variants ${list}` : ''}`);
+    for (const err of stats.errors) {
+      console.log(`        ${err.message}`);
+    }
+    broken += stats.errors.length;
+  }
+
+  process.exit(broken > 0 ? 1 : 0);
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (args.check) {
+    runChecks(args);
+    return;
+  }
+
+  const gameType = args.game || GAME_TYPES.HEARTS;
+  if (!STATS[gameType]) {
+    console.error(`Unknown game '${gameType}' (hearts, king, spades, batak, pisti, bridge)`);
+    process.exit(1);
+  }
+
+  const variants = parseVariants(args.variants);
+  const names = String(args.seats || 'bot').split(',');
+  const seats = Array.from({ length: getSeatCount(gameType, { variants }) }, (_, seat) => names[seat % names.length]);
+  const unknown = seats.find(name => !STRATEGIES[name]);
+  if (unknown) {
+    console.error(`Unknown strategy '${unknown}' (${Object.keys(STRATEGIES).join(', ')})`);
+    process.exit(1);
+  }
+
+  const started = Date.now();
+  const stats = simulate({
+    gameType,
+    games: Number(args.games) || 100,
+    firstSeed: Number(args.seed) || 1,
+    seats,
+    gameOptions: getGameOptions(gameType, args, variants),
+  });
+
+  if (args.json) {
+    console.log(JSON.stringify(stats, null, 2));
+  } else {
+    printSummary(stats);
+    console.log(`\n  ${((Date.now() - started) / 1000).toFixed(1)}s`);
+  }
+
+  process.exit(stats.errors.length > 0 ? 1 : 0);
+}
+
+main();
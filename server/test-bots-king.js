@@ -92,9 +92,11 @@ class KingBot {
         if (this.index === 0) {
           console.log(`Table created: ${data.tableId} (King game)`);
         }
+        this.socket.emit('setReady', { ready: true });
       });
 
       this.socket.on('contractSelectionStart', async (data) => {
+        this.socket.emit('dealAck');
         this.hand = data.hand;
         this.phase = 'selecting';
         this.gameNumber = data.gameNumber;
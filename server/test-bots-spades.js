@@ -11,6 +11,7 @@
  */
 
 import { io } from 'socket.io-client';
+import { estimateTricks, nilRisk } from './bots/SpadesBot.js';
 
 const SERVER_URL = 'http://localhost:3000';
 const BOT_NAMES = ['Bot-Ahmet', 'Bot-Mehmet', 'Bot-Ayşe', 'Bot-Fatma'];
@@ -83,9 +84,11 @@ class SpadesBot {
         if (this.index === 0) {
           console.log(`Table created: ${data.tableId} (Spades game)`);
         }
+        this.socket.emit('setReady', { ready: true });
       });
 
       this.socket.on('biddingStart', async (data) => {
+        this.socket.emit('dealAck');
         this.hand = data.hand;
         this.phase = 'bidding';
         this.bids = [null, null, null, null];
@@ -221,36 +224,20 @@ class SpadesBot {
     
     await delay(BOT_DELAY);
     
-    // Simple bidding strategy based on hand strength
-    // Count spades and high cards
-    let spadesCount = 0;
-    let highCards = 0; // A, K, Q
-    let veryHighCards = 0; // A, K
+    // Same hand evaluation as the in-process Spades bot
+    const estimatedTricks = estimateTricks(this.hand);
+    const risk = nilRisk(this.hand);
+    const partnerBid = this.bids[(this.seat + 2) % 4];
     
-    for (const card of this.hand) {
-      if (card.suit === 'spades') {
-        spadesCount++;
-        if (RANK_VALUES[card.rank] >= 12) highCards++; // Q, K, A
-        if (RANK_VALUES[card.rank] >= 13) veryHighCards++; // K, A
-      } else {
-        if (RANK_VALUES[card.rank] === 14) highCards++; // Aces in other suits
-      }
-    }
-    
-    // Estimate tricks
-    // Spades usually win tricks, plus high cards in other suits
-    let estimatedTricks = Math.floor(spadesCount * 0.7) + Math.floor(highCards * 0.5);
-    
-    // Clamp between 1 and 13
-    let bid = Math.max(1, Math.min(13, estimatedTricks));
+    let bid = Math.max(1, Math.min(13, Math.round(estimatedTricks)));
     
-    // Occasionally bid nil if we have very weak hand (no high cards)
-    if (highCards === 0 && spadesCount <= 2 && Math.random() < 0.3) {
+    // Nil on a weak hand when partner has not bid nil
+    if (risk <= 1 && estimatedTricks < 2 && partnerBid !== 'nil' && partnerBid !== 'blind_nil') {
       bid = 'nil';
     }
     
     if (this.index === 0) {
-      console.log(`[${this.name}] Making bid: ${bid} (spades: ${spadesCount}, high cards: ${highCards})`);
+      console.log(`[${this.name}] Making bid: ${bid} (estimated tricks: ${estimatedTricks.toFixed(1)}, nil risk: ${risk.toFixed(1)})`);
     }
     
     this.socket.emit('submitBid', { bid });
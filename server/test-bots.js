@@ -73,9 +73,11 @@ class Bot {
       this.socket.on('tableJoined', (data) => {
         this.tableId = data.tableId;
         this.seat = data.seat;
+        this.socket.emit('setReady', { ready: true });
       });
 
       this.socket.on('startGame', async (data) => {
+        this.socket.emit('dealAck');
         if (this.index === 0) {
           console.log(`\n🎴 Game started! Phase: ${data.phase}, Pass direction: ${data.passDirection}`);
         }
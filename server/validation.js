@@ -0,0 +1,284 @@
+/**
+ * Inbound socket payload validation
+ * One schema per client event (see ClientToServerEvents in src/types/protocol.ts),
+ * checked before the handler runs so malformed input never reaches the tables or engines.
+ */
+
+import { GAME_TYPES } from './games/index.js';
+import { HEARTS_PASSING_MODES, HEARTS_MOON_SHOT_MODES } from './games/HeartsGame.js';
+import { KING_SELECTION_ORDERS, KING_FIRST_LEADS } from './games/KingGame.js';
+import { SPADES_VARIANT_DEFAULTS, SPADES_RULE_LIMITS } from './games/SpadesGame.js';
+import { PISTI_VARIANT_DEFAULTS } from './games/PistiGame.js';
+import { BRIDGE_SCORING_MODES } from './games/BridgeGame.js';
+import { BOT_DIFFICULTIES } from './bots/index.js';
+import { SUITS, RANKS, JOKER_RANKS } from './shared/cards.js';
+
+// Sent as `code` on the 'error' event when a payload is rejected
+export const VALIDATION_ERRORS = {
+  INVALID_PAYLOAD: 'INVALID_PAYLOAD',   // Not an object
+  MISSING_FIELD: 'MISSING_FIELD',
+  WRONG_TYPE: 'WRONG_TYPE',
+  INVALID_VALUE: 'INVALID_VALUE',       // Right type, but not one of the allowed values
+  OUT_OF_RANGE: 'OUT_OF_RANGE',         // Number outside its limits, or a string or list too long
+};
+
+const MAX_NAME_LENGTH = 20;
+const MAX_ID_LENGTH = 64;
+const MAX_CHAT_LENGTH = 500;
+const MAX_SEATS = 4;
+const MAX_ENDING_SCORE = 1000;
+const MAX_TRICKS = 18;  // Cutthroat Spades with jokers deals 18 tricks a round
+
+// Schema descriptors: { type, optional?, ...constraints }
+const string = (maxLength) => ({ type: 'string', maxLength });
+const integer = (min, max) => ({ type: 'integer', min, max });
+const boolean = () => ({ type: 'boolean' });
+const oneOf = (values) => ({ type: 'enum', values });
+const object = (fields) => ({ type: 'object', fields });
+const closedObject = (fields) => ({ type: 'object', fields, closed: true });  // Rejects fields it doesn't name
+const array = (items, maxLength) => ({ type: 'array', items, maxLength });
+const anyOf = (options) => ({ type: 'anyOf', options });
+const optional = (schema) => ({ ...schema, optional: true });
+
+const card = object({
+  suit: oneOf(SUITS),
+  rank: oneOf([...RANKS, ...JOKER_RANKS]),
+  display: optional(string(8)),
+});
+
+const cards = array(card, 13);
+
+// An optional boolean for every flag in a game's variant defaults
+const flags = (defaults) => Object.fromEntries(Object.keys(defaults).map(key => [key, optional(boolean())]));
+
+// Each game type's variant block, with the values its normalize*Variants accepts
+const VARIANT_SCHEMAS = {
+  [GAME_TYPES.HEARTS]: closedObject({
+    jackOfDiamonds: optional(boolean()),
+    passing: optional(oneOf(HEARTS_PASSING_MODES)),
+    heartsLeadAnytime: optional(boolean()),
+    firstTrickPoints: optional(boolean()),
+    moonShot: optional(oneOf(HEARTS_MOON_SHOT_MODES)),
+  }),
+  [GAME_TYPES.KING]: closedObject({
+    selectionOrder: optional(oneOf(KING_SELECTION_ORDERS)),
+    penaltiesFirst: optional(boolean()),
+    short: optional(boolean()),
+    firstLead: optional(oneOf(KING_FIRST_LEADS)),
+    threePlayer: optional(boolean()),
+  }),
+  [GAME_TYPES.SPADES]: closedObject(flags(SPADES_VARIANT_DEFAULTS)),
+  [GAME_TYPES.BATAK]: closedObject({}),
+  [GAME_TYPES.PISTI]: closedObject(flags(PISTI_VARIANT_DEFAULTS)),
+  [GAME_TYPES.BRIDGE]: closedObject({
+    scoring: optional(oneOf(BRIDGE_SCORING_MODES)),
+  }),
+};
+
+// Only Spades has scoring rules, each within its SPADES_RULE_LIMITS
+const RULE_SCHEMAS = {
+  [GAME_TYPES.SPADES]: closedObject(Object.fromEntries(
+    Object.entries(SPADES_RULE_LIMITS).map(([key, [min, max]]) => [key, optional(integer(min, max))]),
+  )),
+};
+
+// The payload doesn't always say which game it is for (updateTableOptions), so here the
+// variants only have to be some game's block; validateTableOptions checks them against the
+// table's own. The starting seats are checked against the variant's seat count by validateStartingSeats.
+const tableOptions = object({
+  endingScore: optional(integer(1, MAX_ENDING_SCORE)),
+  winThreshold: optional(integer(1, MAX_ENDING_SCORE)),
+  initialSelectorSeat: optional(integer(0, MAX_SEATS - 1)),
+  initialDealerSeat: optional(integer(0, MAX_SEATS - 1)),
+  variants: optional(anyOf(Object.values(VARIANT_SCHEMAS))),
+  rules: optional(anyOf(Object.values(RULE_SCHEMAS))),
+});
+
+// Spades bids, İhaleli Batak bids and Bridge calls all come through submitBid;
+// each game checks the number against its own tricks per round
+const bid = anyOf([
+  integer(0, MAX_TRICKS),
+  oneOf(['nil', 'blind_nil', 'pass', 'double', 'redouble']),
+  object({ level: integer(1, 7), strain: oneOf([...SUITS, 'notrump']) }),
+]);
+
+// null: the event carries no payload, anything sent along is ignored
+export const PAYLOAD_SCHEMAS = {
+  keepAlive: null,
+  listTables: optional(object({
+    gameType: optional(oneOf(Object.values(GAME_TYPES))),
+    includeInProgress: optional(boolean()),
+  })),
+  createTable: object({
+    playerName: string(MAX_NAME_LENGTH),
+    gameType: optional(oneOf(Object.values(GAME_TYPES))),
+    options: optional(tableOptions),
+  }),
+  joinTable: object({
+    tableId: string(MAX_ID_LENGTH),
+    playerName: string(MAX_NAME_LENGTH),
+  }),
+  rejoinTable: optional(object({
+    tableId: optional(string(MAX_ID_LENGTH)),
+    token: optional(string(MAX_ID_LENGTH)),
+  })),
+  leaveTable: null,
+  spectateTable: object({
+    tableId: string(MAX_ID_LENGTH),
+    playerName: optional(string(MAX_NAME_LENGTH)),
+  }),
+  leaveSpectate: null,
+  addBot: optional(object({
+    seat: optional(integer(0, MAX_SEATS - 1)),
+    difficulty: optional(oneOf(BOT_DIFFICULTIES)),
+  })),
+  removeBot: object({ seat: integer(0, MAX_SEATS - 1) }),
+  setReady: object({ ready: boolean() }),
+  startTableGame: null,
+  updateTableOptions: object({ options: tableOptions }),
+  getActionLog: null,
+  submitPass: object({ cards }),
+  selectContract: object({
+    contractType: oneOf(['penalty', 'trump']),
+    contractName: optional(string(MAX_ID_LENGTH)),
+    trumpSuit: optional(oneOf(SUITS)),
+  }),
+  submitBid: object({ bid }),
+  submitBlindNilExchange: object({ cards }),
+  declareTrump: object({ trumpSuit: oneOf(SUITS) }),
+  playCard: object({ card }),
+  dealAck: null,
+  nextRound: null,
+  rematch: object({ vote: boolean() }),
+  getLastTrick: null,
+  chatMessage: object({ text: string(MAX_CHAT_LENGTH) }),
+  typing: object({ isTyping: boolean() }),
+};
+
+function typeOf(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function failure(code, field, error) {
+  return { success: false, code, field, error };
+}
+
+/**
+ * Check a value against a schema descriptor.
+ * Returns { success: true } or { success: false, code, field, error }.
+ * Fields not named in an object schema are ignored, unless the schema is closed.
+ */
+function checkValue(schema, value, field) {
+  const name = field || 'payload';
+
+  if (value === undefined) {
+    if (schema.optional) return { success: true };
+    return field
+      ? failure(VALIDATION_ERRORS.MISSING_FIELD, field, `Missing '${name}'`)
+      : failure(VALIDATION_ERRORS.INVALID_PAYLOAD, null, 'Payload must be an object');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        return failure(VALIDATION_ERRORS.WRONG_TYPE, field, `'${name}' must be a string`);
+      }
+      if (value.length > schema.maxLength) {
+        return failure(VALIDATION_ERRORS.OUT_OF_RANGE, field, `'${name}' must be at most ${schema.maxLength} characters`);
+      }
+      return { success: true };
+
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) {
+        return failure(VALIDATION_ERRORS.WRONG_TYPE, field, `'${name}' must be a whole number`);
+      }
+      if (value < schema.min || value > schema.max) {
+        return failure(VALIDATION_ERRORS.OUT_OF_RANGE, field, `'${name}' must be from ${schema.min} to ${schema.max}`);
+      }
+      return { success: true };
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        return failure(VALIDATION_ERRORS.WRONG_TYPE, field, `'${name}' must be true or false`);
+      }
+      return { success: true };
+
+    case 'enum':
+      if (!schema.values.includes(value)) {
+        const code = schema.values.some(allowed => typeof allowed === typeof value)
+          ? VALIDATION_ERRORS.INVALID_VALUE
+          : VALIDATION_ERRORS.WRONG_TYPE;
+        return failure(code, field, `'${name}' must be one of ${schema.values.join(', ')}`);
+      }
+      return { success: true };
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return failure(VALIDATION_ERRORS.WRONG_TYPE, field, `'${name}' must be a list`);
+      }
+      if (value.length > schema.maxLength) {
+        return failure(VALIDATION_ERRORS.OUT_OF_RANGE, field, `'${name}' must have at most ${schema.maxLength} items`);
+      }
+      for (let i = 0; i < value.length; i++) {
+        const result = checkValue(schema.items, value[i], `${name}[${i}]`);
+        if (!result.success) return result;
+      }
+      return { success: true };
+    }
+
+    case 'object': {
+      if (typeOf(value) !== 'object') {
+        return field
+          ? failure(VALIDATION_ERRORS.WRONG_TYPE, field, `'${name}' must be an object`)
+          : failure(VALIDATION_ERRORS.INVALID_PAYLOAD, null, 'Payload must be an object');
+      }
+      for (const [key, fieldSchema] of Object.entries(schema.fields)) {
+        const result = checkValue(fieldSchema, value[key], field ? `${field}.${key}` : key);
+        if (!result.success) return result;
+      }
+      if (schema.closed) {
+        const unknown = Object.keys(value).find(key => !(key in schema.fields));
+        if (unknown !== undefined) {
+          return failure(VALIDATION_ERRORS.INVALID_VALUE, field ? `${field}.${unknown}` : unknown, `Unknown option '${unknown}' in '${name}'`);
+        }
+      }
+      return { success: true };
+    }
+
+    // The first option of the matching kind decides the error (e.g. a bid of 14 is out of range)
+    case 'anyOf': {
+      let mismatch = null;
+      for (const option of schema.options) {
+        const result = checkValue(option, value, field);
+        if (result.success) return result;
+        if (result.code !== VALIDATION_ERRORS.WRONG_TYPE && !mismatch) mismatch = result;
+      }
+      return mismatch ?? failure(VALIDATION_ERRORS.WRONG_TYPE, field, `'${name}' has the wrong type`);
+    }
+
+    default:
+      throw new Error(`Unknown schema type '${schema.type}'`);
+  }
+}
+
+/**
+ * Validate an inbound event's payload.
+ * Events without a schema entry (or with a null one) carry nothing to check.
+ */
+export function validatePayload(event, payload) {
+  const schema = PAYLOAD_SCHEMAS[event];
+  if (!schema) return { success: true };
+  return checkValue(schema, payload, null);
+}
+
+/**
+ * Check table options against the variant and rule blocks of their game type.
+ * Returns { success: true } or { success: false, code, field, error } like validatePayload.
+ */
+export function validateTableOptions(gameType, options = {}) {
+  const variants = checkValue(optional(VARIANT_SCHEMAS[gameType] ?? closedObject({})), options.variants, 'options.variants');
+  if (!variants.success) return variants;
+  return checkValue(optional(RULE_SCHEMAS[gameType] ?? closedObject({})), options.rules, 'options.rules');
+}
@@ -17,14 +17,15 @@ export function ChatPanel() {
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setMessage(e.target.value);
     
-    // Send typing indicator
-    setTyping(true);
-    
+    // Send typing indicator when typing starts, not on every keystroke (the server rate limits it)
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
+    } else {
+      setTyping(true);
     }
     
     typingTimeoutRef.current = setTimeout(() => {
+      typingTimeoutRef.current = null;
       setTyping(false);
     }, 2000);
   };
@@ -36,6 +37,7 @@ export function ChatPanel() {
       setTyping(false);
       if (typingTimeoutRef.current) {
         clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = null;
       }
     }
   };
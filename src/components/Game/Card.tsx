@@ -8,6 +8,10 @@ const SUIT_SYMBOLS: Record<string, string> = {
   spades: '♠',
 };
 
+// Spades jokers: big joker in red, little joker in black
+const JOKER_SYMBOL = '★';
+const JOKER_LABELS: Record<string, string> = { BJ: 'B', LJ: 'K' };
+
 // Pip positions for number cards (like real French cards)
 // Positions are [row, col] where row/col are 0-4 (5 positions each)
 const PIP_LAYOUTS: Record<number, [number, number][]> = {
@@ -40,8 +44,10 @@ export function Card({ card, faceDown = false, onClick, small = false, micro = f
   }
 
   // Default programmatic card
-  const isRed = card.suit === 'hearts' || card.suit === 'diamonds';
-  const suitSymbol = SUIT_SYMBOLS[card.suit];
+  const isJoker = card.rank in JOKER_LABELS;
+  const isRed = isJoker ? card.rank === 'BJ' : card.suit === 'hearts' || card.suit === 'diamonds';
+  const suitSymbol = isJoker ? JOKER_SYMBOL : SUIT_SYMBOLS[card.suit];
+  const rankLabel = isJoker ? JOKER_LABELS[card.rank] : card.rank;
   
   // Check if this is a number card (2-10)
   const rankNum = parseInt(card.rank);
@@ -52,8 +58,9 @@ export function Card({ card, faceDown = false, onClick, small = false, micro = f
     <div
       className={`${styles.card} ${isRed ? styles.red : styles.black} ${small ? styles.small : ''} ${micro ? styles.micro : ''} ${className}`}
       onClick={onClick}
+      title={isJoker ? card.display : undefined}
     >
-      <span className={styles.rank}>{card.rank}</span>
+      <span className={styles.rank}>{rankLabel}</span>
       <span className={styles.suit}>{suitSymbol}</span>
       
       {/* Pip area for number cards */}
@@ -83,7 +90,7 @@ export function Card({ card, faceDown = false, onClick, small = false, micro = f
       
       {!micro && (
         <div className={styles.bottomCorner}>
-          <span className={styles.rank}>{card.rank}</span>
+          <span className={styles.rank}>{rankLabel}</span>
           <span className={styles.suit}>{suitSymbol}</span>
         </div>
       )}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import type { RevealedDeal } from '../../types/game';
+import { verifyDeal, formatCardCode, type DealVerification as Verification } from '../../utils/dealVerification';
+import styles from './DealVerification.module.css';
+
+interface DealVerificationProps {
+  deal: RevealedDeal;
+  mySeat: number;
+  seatCount: number;
+  getPlayerName: (seat: number) => string;
+  onClose: () => void;
+}
+
+function Check({ ok, label }: { ok: boolean; label: string }) {
+  return (
+    <div className={`${styles.check} ${ok ? styles.ok : styles.failed}`}>
+      <span className={styles.checkMark}>{ok ? '✓' : '✗'}</span>
+      {label}
+    </div>
+  );
+}
+
+// Last revealed deal, re-hashed in the browser so nobody has to trust the server's word
+export function DealVerification({ deal, mySeat, seatCount, getPlayerName, onClose }: DealVerificationProps) {
+  const [result, setResult] = useState<Verification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setResult(null);
+    setError(null);
+    verifyDeal(deal, mySeat, seatCount)
+      .then(verification => { if (!cancelled) setResult(verification); })
+      .catch(() => { if (!cancelled) setError('Bu tarayıcıda SHA-256 hesaplanamıyor (güvenli bağlantı gerekli).'); });
+    return () => { cancelled = true; };
+  }, [deal, mySeat, seatCount]);
+
+  return (
+    <div className={styles.overlay} onClick={onClose}>
+      <div className={styles.panel} onClick={e => e.stopPropagation()}>
+        <h3 className={styles.title}>Dağıtım Doğrulama</h3>
+        <p className={styles.note}>
+          Sunucu, el dağıtılırken karılmış destenin ve gizli bir tuzun SHA-256 özetini yayınladı.
+          El bitince deste ve tuz açıklandı; özet burada yeniden hesaplanır.
+        </p>
+
+        <div className={styles.field}>
+          <span className={styles.label}>Dağıtımda yayınlanan özet</span>
+          <code className={styles.hash}>{deal.commitment.hash}</code>
+        </div>
+        <div className={styles.field}>
+          <span className={styles.label}>Açıklanan tuz</span>
+          <code className={styles.hash}>{deal.reveal.salt}</code>
+        </div>
+        <div className={styles.field}>
+          <span className={styles.label}>Hesaplanan özet</span>
+          <code className={styles.hash}>{result ? result.computedHash : '...'}</code>
+        </div>
+
+        {error && <div className={`${styles.check} ${styles.failed}`}>{error}</div>}
+        {result && (
+          <div className={styles.checks}>
+            <Check ok={result.hashMatches} label={result.hashMatches ? 'Özet eşleşiyor: deste el başında belirlenmiş' : 'Özet eşleşmiyor!'} />
+            <Check ok={result.noDuplicates} label={result.noDuplicates ? 'Destede her kart bir kez var' : 'Destede tekrar eden kart var!'} />
+            <Check ok={result.handMatches} label={result.handMatches ? 'Size dağıtılan el desteyle aynı' : 'Size dağıtılan el desteyle uyuşmuyor!'} />
+          </div>
+        )}
+
+        {result && (
+          <div className={styles.hands}>
+            {result.seatCards.map((cards, seat) => (
+              <div key={seat} className={`${styles.handRow} ${seat === mySeat ? styles.myHand : ''}`}>
+                <span className={styles.handOwner}>{getPlayerName(seat)}</span>
+                <span className={styles.handCards}>{cards.map(formatCardCode).join(' ')}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button className={styles.closeButton} onClick={onClose}>Kapat</button>
+      </div>
+    </div>
+  );
+}
@@ -2,8 +2,13 @@ import { useState, useEffect, useMemo, useRef } from 'react';
 import { useGame } from '../../context/GameContext';
 import { useSocket, playCardFlipSound, playPointCounterSound } from '../../context/SocketContext';
 import { Card } from './Card';
-import type { Card as CardType, TrickCard, KingContract } from '../../types/game';
+import { DealVerification } from './DealVerification';
+import type { Card as CardType, TrickCard, KingContract, BotDifficulty, CreateTableOptions, SpadesRules, PistiCapture, BridgeBid, BridgeCall, BridgeContract, BridgeStrain } from '../../types/game';
 import { APP_VERSION } from '../../constants/version';
+import { describeSpadesRules, BLIND_NIL_EXCHANGE_SIZE } from '../../utils/spadesRules';
+import { GAME_ERROR_MESSAGES, getIllegalPlayReason } from '../../utils/gameErrors';
+import { describeVariants } from '../../utils/tableOptions';
+import { TableOptionsForm } from '../Lobby/TableOptionsForm';
 import styles from './Game.module.css';
 
 const DIRECTION_LABELS: Record<string, string> = {
@@ -41,6 +46,28 @@ const SUIT_LABELS: Record<string, string> = {
   spades: '♠ Maça',
 };
 
+// İhaleli Batak: the highest bid takes every trick
+const BATAK_MAX_BID = 13;
+
+// Pişti: how many of the top pile cards fan out; the rest sit squarely underneath
+const PISTI_FANNED_CARDS = 4;
+
+// Bridge: strains in bidding order, shown the Turkish way (SA = sanzatu, no trumps)
+const BRIDGE_STRAINS: BridgeStrain[] = ['clubs', 'diamonds', 'hearts', 'spades', 'notrump'];
+const BRIDGE_STRAIN_SYMBOLS: Record<BridgeStrain, string> = {
+  clubs: '♣',
+  diamonds: '♦',
+  hearts: '♥',
+  spades: '♠',
+  notrump: 'SA',
+};
+const BRIDGE_LEVELS = [1, 2, 3, 4, 5, 6, 7];
+const BRIDGE_CALL_LABELS: Record<string, string> = {
+  pass: 'Pas',
+  double: 'Kontr',
+  redouble: 'Sürkontr',
+};
+
 // Suit order: spades, hearts, clubs, diamonds
 const SUIT_ORDER: Record<string, number> = {
   spades: 0,
@@ -52,9 +79,67 @@ const SUIT_ORDER: Record<string, number> = {
 // Rank values for sorting (ascending)
 const RANK_ORDER: Record<string, number> = {
   '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9, '10': 10,
-  'J': 11, 'Q': 12, 'K': 13, 'A': 14,
+  'J': 11, 'Q': 12, 'K': 13, 'A': 14, 'LJ': 15, 'BJ': 16,
 };
 
+// Table slot (0 bottom, 1 left, 2 top, 3 right) of a seat as seen from viewSeat;
+// three-player tables leave the top slot empty, two-player tables sit across
+function getSeatSlot(seat: number, viewSeat: number, seatCount: number): number {
+  const relative = (seat - viewSeat + seatCount) % seatCount;
+  if (seatCount === 2) return relative * 2;
+  return seatCount === 3 && relative === 2 ? 3 : relative;
+}
+
+// Pişti table pile (face-down cards as backs, the top few fanned) with the stock beside it
+function renderPistiPile(pile: (CardType | null)[], stockCount: number) {
+  const fanStart = Math.max(0, pile.length - PISTI_FANNED_CARDS);
+  return (
+    <>
+      <div className={styles.pistiPile}>
+        {pile.map((card, index) => {
+          const offset = Math.max(0, index - fanStart) * 14;
+          return (
+            <div
+              key={card ? `${card.suit}-${card.rank}` : `down-${index}`}
+              className={styles.pistiPileCard}
+              style={{ transform: `translate(calc(-50% + ${offset}px), -50%)`, zIndex: index + 1 }}
+            >
+              <Card card={card ?? undefined} faceDown={!card} small />
+            </div>
+          );
+        })}
+      </div>
+      {stockCount > 0 && (
+        <div className={styles.pistiStock}>
+          <Card faceDown micro />
+          <span>Deste: {stockCount}</span>
+        </div>
+      )}
+    </>
+  );
+}
+
+// Bridge call as it reads in the auction: 1♣, 3SA, Pas, Kontr
+function formatBridgeCall(call: BridgeCall): string {
+  return typeof call === 'string' ? BRIDGE_CALL_LABELS[call] : `${call.level}${BRIDGE_STRAIN_SYMBOLS[call.strain]}`;
+}
+
+// Contract with its doubling: 4♠, 3SA X, 6♥ XX
+function formatBridgeContract(contract: BridgeContract): string {
+  return `${contract.level}${BRIDGE_STRAIN_SYMBOLS[contract.strain]}${contract.doubled ? ` ${'X'.repeat(contract.doubled)}` : ''}`;
+}
+
+// A bid may only name a higher level, or a higher strain at the same level
+function outbids(bid: BridgeBid, highest: BridgeBid | null): boolean {
+  if (!highest) return true;
+  const rank = (b: BridgeBid) => (b.level - 1) * BRIDGE_STRAINS.length + BRIDGE_STRAINS.indexOf(b.strain);
+  return rank(bid) > rank(highest);
+}
+
+function isRedStrain(strain: BridgeStrain): boolean {
+  return strain === 'hearts' || strain === 'diamonds';
+}
+
 function sortHand(hand: CardType[]): CardType[] {
   return [...hand].sort((a, b) => {
     // First by suit
@@ -69,13 +154,21 @@ function cardEquals(a: CardType, b: CardType): boolean {
   return a.suit === b.suit && a.rank === b.rank;
 }
 
+const BOT_DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: 'Kolay',
+  medium: 'Orta',
+  hard: 'Zor',
+};
+
 export function Game() {
   const { state, dispatch } = useGame();
-  const { leaveTable, leaveSpectate, submitPass, playCard, rematch, selectContract, submitBid } = useSocket();
+  const { leaveTable, leaveSpectate, submitPass, playCard, rematch, selectContract, submitBid, submitBlindNilExchange, declareTrump, addBot, removeBot, setReady, startTableGame, updateTableOptions } = useSocket();
   const [timerProgress, setTimerProgress] = useState(100);
   const [passTimerProgress, setPassTimerProgress] = useState(100);
-  const [contractTimerProgress, setContractTimerProgress] = useState(100);
   const [biddingTimerProgress, setBiddingTimerProgress] = useState(100);
+  const [botDifficulty, setBotDifficulty] = useState<BotDifficulty>('medium');
+  // Owner's unsaved edits to the table options in the waiting room
+  const [optionsDraft, setOptionsDraft] = useState<CreateTableOptions | null>(null);
   const [animatingSeats, setAnimatingSeats] = useState<Set<number>>(new Set());
   // Track how many cards to show per seat during round end animation
   const [visibleCardCounts, setVisibleCardCounts] = useState<Record<number, number>>({});
@@ -91,15 +184,17 @@ export function Game() {
   // Track dealing animation state locally to trigger CSS animation
   const [isDealing, setIsDealing] = useState(false);
   // King: selected trump suit for trump contract
-  const [selectedTrumpSuit, setSelectedTrumpSuit] = useState<string | null>(null);
+  const [selectedTrumpSuit, setSelectedTrumpSuit] = useState<CardType['suit'] | null>(null);
   // Floating score animation state
   const [floatingScores, setFloatingScores] = useState<Record<number, number | null>>({});
   // Displayed scores (delayed update during animation)
   const [displayedScores, setDisplayedScores] = useState<number[]>([0, 0, 0, 0]);
   // Moon shot animation state (managed locally to prevent premature clearing)
   const [localMoonShooter, setLocalMoonShooter] = useState<number | null>(null);
-  // Spades: selected bid value
+  const [shownPistiKey, setShownPistiKey] = useState<string | null>(null);
+  // Spades and İhaleli Batak: selected bid value
   const [selectedBid, setSelectedBid] = useState<number>(1);
+  const [showDealVerification, setShowDealVerification] = useState(false);
 
   // Calculate player positions relative to current player
   const positions = useMemo(() => {
@@ -107,14 +202,16 @@ export function Game() {
     const result: Record<number, string> = {};
     
     if (state.mySeat !== null) {
-      for (let i = 0; i < 4; i++) {
-        const relativePosition = (i - state.mySeat + 4) % 4;
-        result[i] = pos[relativePosition];
+      for (let i = 0; i < state.seatCount; i++) {
+        result[i] = pos[getSeatSlot(i, state.mySeat, state.seatCount)];
       }
     }
     
     return result;
-  }, [state.mySeat]);
+  }, [state.mySeat, state.seatCount]);
+
+  const seats = useMemo(() => Array.from({ length: state.seatCount }, (_, i) => i), [state.seatCount]);
+  const slotOf = (seat: number) => getSeatSlot(seat, state.mySeat || 0, state.seatCount);
 
   // All timer progress updates combined into one effect for better mobile performance
   // Update only every 500ms instead of 100ms (2x per second is plenty for a progress bar)
@@ -137,13 +234,6 @@ export function Game() {
         setPassTimerProgress(100);
       }
       
-      if (state.contractTimeoutAt) {
-        const remaining = Math.max(0, state.contractTimeoutAt - now);
-        setContractTimerProgress((remaining / 45000) * 100);
-      } else {
-        setContractTimerProgress(100);
-      }
-      
       if (state.biddingTimeoutAt) {
         const remaining = Math.max(0, state.biddingTimeoutAt - now);
         setBiddingTimerProgress((remaining / 30000) * 100);
@@ -155,7 +245,7 @@ export function Game() {
     updateAllTimers();
     const interval = setInterval(updateAllTimers, 500);
     return () => clearInterval(interval);
-  }, [state.turnTimeoutAt, state.passTimeoutAt, state.contractTimeoutAt, state.biddingTimeoutAt]);
+  }, [state.turnTimeoutAt, state.passTimeoutAt, state.biddingTimeoutAt]);
 
   // Dealing animation - when cards are dealt at the start of a round
   useEffect(() => {
@@ -173,6 +263,19 @@ export function Game() {
     }
   }, [state.dealingAnimation, dispatch]);
 
+  // Refused moves: the explanation by the hand fades after a few seconds
+  useEffect(() => {
+    if (!state.actionError) return;
+    
+    const timer = setTimeout(() => dispatch({ type: 'SET_ACTION_ERROR', payload: null }), 3000);
+    return () => clearTimeout(timer);
+  }, [state.actionError, dispatch]);
+
+  // Saved options (ours or a fresh table's) replace any unsaved edits
+  useEffect(() => {
+    setOptionsDraft(null);
+  }, [state.tableOptions]);
+
   // Pending trick animation - start after delay to allow 4th card slide-in
   useEffect(() => {
     if (!state.pendingTrickAnimation) return;
@@ -434,18 +537,25 @@ export function Game() {
   }, [state.phase, state.pointCardsTaken, state.roundScores, state.isSpectating, state.spectatorState?.phase, state.spectatorState?.pointCardsTaken, state.cumulativeScores, state.spectatorState?.cumulativeScores]);
 
   const handleCardClick = (card: CardType) => {
-    if (state.phase === 'passing' && !state.passSubmitted) {
+    if ((state.phase === 'passing' || isExchanging) && !state.passSubmitted) {
       dispatch({ type: 'SELECT_PASS_CARD', payload: card });
     } else if (state.phase === 'playing' && state.isMyTurn) {
       const isLegal = state.legalCards.some(c => cardEquals(c, card));
       if (isLegal) {
         playCard(card);
+      } else {
+        const reason = getIllegalPlayReason(state.illegalCards, card);
+        if (reason) dispatch({ type: 'SET_ACTION_ERROR', payload: reason });
       }
     }
   };
 
   const handleSubmitPass = () => {
-    if (state.selectedPassCards.length === 3) {
+    if (isExchanging) {
+      if (state.selectedPassCards.length === BLIND_NIL_EXCHANGE_SIZE) {
+        submitBlindNilExchange(state.selectedPassCards);
+      }
+    } else if (state.selectedPassCards.length === 3) {
       submitPass(state.selectedPassCards);
     }
   };
@@ -467,6 +577,98 @@ export function Game() {
     return player?.name || 'Bekleniyor...';
   };
 
+  // Spades and Pişti sides: partnerships are shown as teams, single seats by name
+  const spadesSides = state.spadesState?.sides ?? [[0, 2], [1, 3]];
+  const pistiSides = (state.isSpectating ? state.spectatorState?.sides : state.pistiState?.sides) ?? [[0, 2], [1, 3]];
+  const getSideLabel = (side: number[], index: number) =>
+    side.length === 1 ? getPlayerName(side[0]) : `Takım ${index + 1}`;
+
+  // Blind nil exchange: we pick cards for our partner when our side is swapping
+  const isExchanging = state.phase === 'exchanging' && state.mySeat !== null &&
+    !!state.spadesState?.exchangeSeats.includes(state.mySeat);
+  const exchangePartner = isExchanging
+    ? spadesSides.find(side => side.includes(state.mySeat!))?.find(seat => seat !== state.mySeat) ?? null
+    : null;
+  const passCardCount = isExchanging ? BLIND_NIL_EXCHANGE_SIZE : 3;
+
+  // Dealer badge: Spades, İhaleli Batak, Pişti and Bridge move the deal every round
+  const dealerSeat = state.gameType === 'spades'
+    ? state.spadesState?.dealerSeat ?? null
+    : state.gameType === 'pisti'
+      ? state.pistiState?.dealerSeat ?? null
+      : state.gameType === 'bridge'
+        ? state.bridgeState?.dealerSeat ?? null
+        : state.batakState?.dealerSeat ?? null;
+
+  // Bridge auction: one column per seat, the dealer's first call in the dealer's column
+  const renderBridgeAuction = (calls: { seat: number; call: BridgeCall }[], auctionDealer: number) => (
+    <div className={styles.bridgeAuction}>
+      {seats.map(seat => (
+        <div key={`head-${seat}`} className={styles.bridgeAuctionHead}>{getPlayerName(seat)}</div>
+      ))}
+      {Array.from({ length: auctionDealer }, (_, index) => <div key={`skip-${index}`} />)}
+      {calls.map(({ call }, index) => (
+        <div
+          key={index}
+          className={`${styles.bridgeAuctionCall} ${typeof call !== 'string' && isRedStrain(call.strain) ? styles.redSuit : ''}`}
+        >
+          {formatBridgeCall(call)}
+        </div>
+      ))}
+    </div>
+  );
+
+  // Bridge: dummy's cards lie face up by dummy's seat; the declarer plays them
+  const renderDummyHand = (dummyHand: CardType[] | null | undefined, position: string) => {
+    if (!dummyHand || dummyHand.length === 0) return null;
+    const canPlayDummy = !state.isSpectating && state.phase === 'playing' && state.isMyTurn &&
+      state.currentPlayer === state.bridgeState?.dummySeat;
+    return (
+      <div className={`${styles.dummyHand} ${styles[`dummyHand${position[0].toUpperCase()}${position.slice(1)}`]}`}>
+        {sortHand(dummyHand).map(card => {
+          const playable = canPlayDummy && state.legalCards.some(c => cardEquals(c, card));
+          const reason = canPlayDummy && !playable ? getIllegalPlayReason(state.illegalCards, card) : null;
+          return (
+            <div
+              key={`${card.suit}-${card.rank}`}
+              className={`${styles.dummyCard} ${canPlayDummy && !playable ? styles.disabled : ''}`}
+              title={reason ? GAME_ERROR_MESSAGES[reason] : undefined}
+            >
+              <Card
+                card={card}
+                small
+                onClick={playable ? () => playCard(card)
+                  : reason ? () => dispatch({ type: 'SET_ACTION_ERROR', payload: reason })
+                  : undefined}
+              />
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  // Bridge side totals: score, tricks this deal, games won (rubber) and vulnerability
+  const renderBridgeSides = (cumulativeScores: number[] | undefined, sideTricks: number[] | undefined,
+    gamesWon: number[] | undefined, vulnerable: boolean[] | undefined, imp: boolean) => (
+    <div className={styles.spadesInfoDisplay}>
+      {[[0, 2], [1, 3]].map((side, index) => (
+        <div key={index} className={styles.teamInfo}>
+          <div className={styles.teamLabel}>{getSideLabel(side, index)}</div>
+          <div className={styles.teamScore}>{cumulativeScores?.[index] || 0}{imp ? ' IMP' : ''}</div>
+          <div className={styles.teamTricks}>El: {sideTricks?.[index] || 0}</div>
+          <div className={styles.teamBags}>
+            {!imp && <>Oyun: {gamesWon?.[index] || 0}</>}
+            {vulnerable?.[index] && <span className={styles.vulnerableBadge}>Zonlu</span>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+
+  // İhaleli Batak: the bid shown in the auction box never drops below the minimum
+  const batakBid = Math.max(selectedBid, state.batakState?.minimumBid ?? 0);
+
   // Manage moon shot animation locally to prevent premature clearing
   useEffect(() => {
     if (state.moonShooter !== null && state.moonShooter !== localMoonShooter) {
@@ -479,6 +681,25 @@ export function Game() {
     }
   }, [state.moonShooter, localMoonShooter]);
 
+  // Pişti callout: shown for 3 seconds each time a seat makes a pişti
+  const pistiCapture: PistiCapture | null = (state.isSpectating
+    ? state.spectatorState?.lastCapture
+    : state.pistiState?.lastCapture) ?? null;
+  const pistiKey = pistiCapture && pistiCapture.pistiPoints > 0
+    ? `${state.roundNumber}-${pistiCapture.seat}-${pistiCapture.card.suit}-${pistiCapture.card.rank}`
+    : null;
+  useEffect(() => {
+    if (!pistiKey) return;
+    setShownPistiKey(pistiKey);
+    const timer = setTimeout(() => setShownPistiKey(null), 3000);
+    return () => clearTimeout(timer);
+  }, [pistiKey]);
+  const pistiCallout = pistiCapture && pistiKey !== null && shownPistiKey === pistiKey && (
+    <div className={styles.pistiText}>
+      {getPlayerName(pistiCapture.seat)}: {pistiCapture.card.rank === 'J' ? 'Çift Pişti!' : 'Pişti!'} +{pistiCapture.pistiPoints}
+    </div>
+  );
+
   // DEV ONLY: Trigger moon shot animation for testing (Press 'M' key)
   useEffect(() => {
     if (import.meta.env.DEV) {
@@ -572,6 +793,13 @@ export function Game() {
     return player?.connected ?? false;
   };
 
+  const isPlayerBot = (seat: number) => {
+    const player = state.players.find(p => p.seat === seat);
+    return player?.isBot ?? false;
+  };
+
+  const isOwner = state.mySeat !== null && state.ownerSeat === state.mySeat;
+
   const isCardSelected = (card: CardType) => {
     return state.selectedPassCards.some(c => cardEquals(c, card));
   };
@@ -581,6 +809,12 @@ export function Game() {
     return state.legalCards.some(c => cardEquals(c, card));
   };
 
+  // Why a card in hand can't be played on this turn (shown as its tooltip)
+  const getUnplayableReason = (card: CardType) => {
+    if (state.phase !== 'playing' || !state.isMyTurn) return null;
+    return getIllegalPlayReason(state.illegalCards, card);
+  };
+
   // Spectator view - simplified read-only view
   if (state.isSpectating && state.spectatorState) {
     const spectatorState = state.spectatorState;
@@ -612,13 +846,36 @@ export function Game() {
                 </div>
               )}
 
+              {/* Contract and trump for İhaleli Batak */}
+              {state.gameType === 'batak' && spectatorState.trumpSuit && typeof spectatorState.declarer === 'number' && (
+                <div className={styles.spectatorContractDisplay}>
+                  <span className={styles.contractLabel}>
+                    {getPlayerName(spectatorState.declarer)}: {spectatorState.highBid} · {SUIT_LABELS[spectatorState.trumpSuit]}
+                  </span>
+                </div>
+              )}
+
+              {/* Contract for Bridge */}
+              {state.gameType === 'bridge' && spectatorState.contract && typeof spectatorState.declarer === 'number' && (
+                <div className={styles.spectatorContractDisplay}>
+                  <span className={styles.contractLabel}>
+                    {getPlayerName(spectatorState.declarer)}: {formatBridgeContract(spectatorState.contract)}
+                  </span>
+                </div>
+              )}
+
               {/* Game info */}
               <div className={styles.endingScoreCenter}>
                 {state.gameType === 'king' ? (
-                  <>Parti: {spectatorState.gameNumber || 1}/20</>
+                  <>Parti: {spectatorState.gameNumber || 1}/{spectatorState.totalGames || 20}</>
+                ) : state.gameType === 'bridge' ? (
+                  <>{spectatorState.totalBoards ? `Board: ${spectatorState.roundNumber || 1}/${spectatorState.totalBoards}` : 'Robber'}</>
                 ) : (
                   <>Bitiş: {state.endingScore || 20}</>
                 )}
+                {state.gameType === 'spades' && spectatorState.rules && (
+                  <div className={styles.rulesLine}>{describeSpadesRules(spectatorState.rules, true).join(' · ')}</div>
+                )}
               </div>
 
               {/* Leave button */}
@@ -629,8 +886,8 @@ export function Game() {
               </div>
 
               {/* Player areas */}
-              {[0, 1, 2, 3].map(seat => {
-                const position = ['bottom', 'left', 'top', 'right'][seat];
+              {seats.map(seat => {
+                const position = ['bottom', 'left', 'top', 'right'][getSeatSlot(seat, 0, state.seatCount)];
                 const isCurrent = state.currentPlayer === seat || spectatorState.currentPlayer === seat;
                 const player = state.players.find(p => p.seat === seat);
                 const spectatorPointCards = spectatorState.pointCardsTaken?.[seat] || [];
@@ -650,6 +907,9 @@ export function Game() {
                           <span className={`${styles.playerName} ${isCurrent ? styles.currentTurn : ''}`}>
                             {player?.name || `Oyuncu ${seat + 1}`}
                           </span>
+                          {(state.gameType === 'spades' || state.gameType === 'batak' || state.gameType === 'pisti' || state.gameType === 'bridge') && spectatorState.dealerSeat === seat && (
+                            <span className={styles.dealerBadge} title="Dağıtan">D</span>
+                          )}
                           {avatarUrl && (
                             <img 
                               src={avatarUrl} 
@@ -658,9 +918,11 @@ export function Game() {
                               style={{ transform: (position === 'right' || position === 'bottom') ? 'scaleX(-1)' : 'none' }}
                             />
                           )}
-                          <span className={styles.playerScore}>
-                            Puan: {displayedScores[seat]}
-                          </span>
+                          {state.gameType !== 'pisti' && state.gameType !== 'bridge' && (
+                            <span className={styles.playerScore}>
+                              Puan: {displayedScores[seat]}
+                            </span>
+                          )}
                           {/* Floating score animation for spectators */}
                           {floatingScore !== null && floatingScore !== undefined && (
                             <div className={`${styles.floatingScore} ${styles.floatingScoreActive}`}>
@@ -680,10 +942,33 @@ export function Game() {
                         </div>
                       )}
                     </div>
+                    {state.gameType === 'bridge' && spectatorState.dummySeat === seat && renderDummyHand(spectatorState.dummyHand, position)}
                   </div>
                 );
               })}
 
+              {/* Bridge side totals */}
+              {state.gameType === 'bridge' && renderBridgeSides(spectatorState.cumulativeScores, spectatorState.sideTricks,
+                spectatorState.gamesWon, spectatorState.vulnerable, !!spectatorState.totalBoards)}
+
+              {/* Pişti pile, side totals and callout */}
+              {state.gameType === 'pisti' && (
+                <>
+                  {renderPistiPile(spectatorState.pile ?? [], spectatorState.stockCount ?? 0)}
+                  <div className={styles.spadesInfoDisplay}>
+                    {pistiSides.map((side, index) => (
+                      <div key={index} className={styles.teamInfo}>
+                        <div className={styles.teamLabel}>{getSideLabel(side, index)}</div>
+                        <div className={styles.teamScore}>{spectatorState.cumulativeScores?.[index] || 0}</div>
+                        <div className={styles.teamTricks}>Kart: {spectatorState.capturedCounts?.[index] || 0}</div>
+                        <div className={styles.teamBags}>Pişti: {spectatorState.pistis?.[index] || 0}</div>
+                      </div>
+                    ))}
+                  </div>
+                  {pistiCallout}
+                </>
+              )}
+
               {/* Trick area with animations */}
               <div className={styles.trickArea}>
                 {trickToDisplay.map(({ seat, card }, index) => {
@@ -728,6 +1013,18 @@ export function Game() {
                   Kontrat seçiliyor...
                 </div>
               )}
+              
+              {spectatorState.phase === 'exchanging' && (
+                <div className={styles.passDirectionCenter}>
+                  Kör nil kart değişimi...
+                </div>
+              )}
+
+              {state.gameType === 'bridge' && spectatorState.phase === 'bidding' && (
+                <div className={styles.passDirectionCenter}>
+                  {renderBridgeAuction(spectatorState.calls ?? [], spectatorState.dealerSeat ?? 0)}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -735,8 +1032,18 @@ export function Game() {
     );
   }
 
-  // Waiting for players
+  // Waiting room: seats fill up, everyone readies and the owner may change the rules or start
   if (state.phase === 'waiting') {
+    const me = state.players.find(p => p.seat === state.mySeat);
+    const readyCount = state.players.filter(p => p.ready).length;
+    const seatsFilled = state.players.length >= state.seatCount;
+    const savedOptions: CreateTableOptions = { ...state.tableOptions, endingScore: state.tableOptions?.endingScore ?? state.endingScore ?? undefined };
+    const optionLabels = [
+      ...(savedOptions.endingScore ? [`Bitiş: ${savedOptions.endingScore}`] : []),
+      ...(savedOptions.variants ? describeVariants(state.gameType, savedOptions.variants) : []),
+      ...(savedOptions.rules ? describeSpadesRules(savedOptions.rules as SpadesRules, true) : []),
+    ];
+    
     return (
       <div className={styles.game}>
         <div className={styles.header}>
@@ -750,7 +1057,7 @@ export function Game() {
         <div className={styles.waitingRoom}>
           <h2 className={styles.waitingTitle}>Oyuncular Bekleniyor</h2>
           <div className={styles.playersList}>
-            {[0, 1, 2, 3].map(seat => {
+            {seats.map(seat => {
               const player = state.players.find(p => p.seat === seat);
               return (
                 <div key={seat} className={styles.playerSlot}>
@@ -760,12 +1067,74 @@ export function Game() {
                   ) : (
                     <span className={styles.emptySlot}>Boş</span>
                   )}
+                  {player?.isBot && (
+                    <span className={styles.botBadge}>
+                      Bot{player.difficulty && state.gameType === 'hearts' ? ` · ${BOT_DIFFICULTY_LABELS[player.difficulty]}` : ''}
+                    </span>
+                  )}
+                  {player && !player.isBot && (
+                    <span className={`${styles.readyBadge} ${player.ready ? styles.ready : ''}`}>
+                      {player.ready ? 'Hazır' : 'Bekleniyor'}
+                    </span>
+                  )}
+                  {isOwner && !player && (
+                    <button className={styles.botButton} onClick={() => addBot(seat, botDifficulty)}>
+                      Bot Ekle
+                    </button>
+                  )}
+                  {isOwner && player?.isBot && (
+                    <button className={styles.botButton} onClick={() => removeBot(seat)}>
+                      Çıkar
+                    </button>
+                  )}
                 </div>
               );
             })}
           </div>
+          {isOwner && state.gameType === 'hearts' && state.players.length < state.seatCount && (
+            <div className={styles.botDifficulty}>
+              <span>Bot zorluğu:</span>
+              {(Object.keys(BOT_DIFFICULTY_LABELS) as BotDifficulty[]).map(level => (
+                <button
+                  key={level}
+                  className={`${styles.botDifficultyOption} ${botDifficulty === level ? styles.selected : ''}`}
+                  onClick={() => setBotDifficulty(level)}
+                >
+                  {BOT_DIFFICULTY_LABELS[level]}
+                </button>
+              ))}
+            </div>
+          )}
+          {isOwner ? (
+            <div className={styles.waitingOptions}>
+              <TableOptionsForm gameType={state.gameType} options={optionsDraft ?? savedOptions} onChange={setOptionsDraft} />
+              <button
+                className={styles.botButton}
+                onClick={() => optionsDraft && updateTableOptions(optionsDraft)}
+                disabled={!optionsDraft}
+              >
+                Kuralları Kaydet
+              </button>
+            </div>
+          ) : optionLabels.length > 0 && (
+            <p className={styles.waitingMessage}>{optionLabels.join(' • ')}</p>
+          )}
+          <div className={styles.waitingActions}>
+            {me && (
+              <button className={styles.readyButton} onClick={() => setReady(!me.ready)}>
+                {me.ready ? 'Hazır Değilim' : 'Hazırım'}
+              </button>
+            )}
+            {isOwner && (
+              <button className={styles.nextRoundButton} onClick={startTableGame} disabled={!seatsFilled}>
+                Oyunu Başlat
+              </button>
+            )}
+          </div>
           <p className={styles.waitingMessage}>
-            {4 - state.players.length} oyuncu daha bekleniyor...
+            {seatsFilled
+              ? `${readyCount}/${state.seatCount} oyuncu hazır - herkes hazır olunca oyun başlar`
+              : `${state.seatCount - state.players.length} oyuncu daha bekleniyor...`}
           </p>
         </div>
       </div>
@@ -778,18 +1147,38 @@ export function Game() {
       <div className={styles.tableCornerInfo}>
         <span className={styles.tableId}>Masa: {state.tableId}</span>
         <span className={styles.versionInfo}>{APP_VERSION}</span>
+        {state.revealedDeal && (
+          <button className={styles.verifyDealButton} onClick={() => setShowDealVerification(true)}>
+            Son dağıtımı doğrula
+          </button>
+        )}
       </div>
 
+      {showDealVerification && state.revealedDeal && state.mySeat !== null && (
+        <DealVerification
+          deal={state.revealedDeal}
+          mySeat={state.mySeat}
+          seatCount={state.seatCount}
+          getPlayerName={getPlayerName}
+          onClose={() => setShowDealVerification(false)}
+        />
+      )}
+
       <div className={styles.mainArea}>
         <div className={styles.tableArea}>
           <div className={styles.table}>
             {/* Ending score - centered on table */}
             <div className={styles.endingScoreCenter}>
               {state.gameType === 'king' ? (
-                <>Parti: {state.kingState?.gameNumber || 1}/20</>
+                <>Parti: {state.kingState?.gameNumber || 1}/{state.kingState?.totalGames || 20}</>
+              ) : state.gameType === 'bridge' ? (
+                <>{state.bridgeState?.totalBoards ? `Board: ${state.roundNumber}/${state.bridgeState.totalBoards}` : 'Robber'}</>
               ) : (
                 <>Bitiş: {state.endingScore || 20}</>
               )}
+              {state.gameType === 'spades' && state.spadesState?.rules && (
+                <div className={styles.rulesLine}>{describeSpadesRules(state.spadesState.rules, true).join(' · ')}</div>
+              )}
             </div>
 
             {/* Contract selection UI for King */}
@@ -874,15 +1263,15 @@ export function Game() {
                         <input
                           type="range"
                           min="0"
-                          max="13"
+                          max={state.spadesState.tricksPerRound}
                           value={selectedBid}
                           onChange={(e) => setSelectedBid(Number(e.target.value))}
                           className={styles.bidSlider}
                         />
                         <button
                           className={styles.bidAdjustButton}
-                          onClick={() => setSelectedBid(Math.min(13, selectedBid + 1))}
-                          disabled={selectedBid >= 13}
+                          onClick={() => setSelectedBid(Math.min(state.spadesState!.tricksPerRound, selectedBid + 1))}
+                          disabled={selectedBid >= state.spadesState.tricksPerRound}
                         >
                           +
                         </button>
@@ -906,16 +1295,11 @@ export function Game() {
                           className={`${styles.bidSubmitButton} ${styles.blindNilBid}`}
                           onClick={() => submitBid('blind_nil')}
                           disabled={(() => {
+                            // The server decides the score gate; a partner's blind nil can still land after the deal
                             const mySeat = state.mySeat ?? 0;
-                            const myTeam = mySeat % 2;
-                            const partnerSeat = (mySeat + 2) % 4;
-                            const teamScore = state.cumulativeScores[myTeam] || 0;
-                            const opponentTeam = (myTeam + 1) % 2;
-                            const opponentScore = state.cumulativeScores[opponentTeam] || 0;
-                            const partnerBid = state.spadesState?.bids[partnerSeat];
-                            const isBehind = opponentScore - teamScore >= 100;
-                            const partnerHasBlindNil = partnerBid === 'blind_nil';
-                            return !isBehind || partnerHasBlindNil;
+                            const mySide = spadesSides.find(side => side.includes(mySeat)) ?? [mySeat];
+                            const partnerHasBlindNil = mySide.some(seat => seat !== mySeat && state.spadesState?.bids[seat] === 'blind_nil');
+                            return !state.spadesState?.canDeclareBlindNil || partnerHasBlindNil;
                           })()}
                         >
                           Kör Nil
@@ -924,29 +1308,116 @@ export function Game() {
                     </div>
                     {/* Show other players' bids */}
                     <div className={styles.bidsDisplayTeams}>
-                      <div className={styles.bidsTeam}>
-                        <div className={styles.bidsTeamLabelActive}>Takım 1</div>
-                        {[0, 2].map(seat => {
-                          const bid = state.spadesState?.bids[seat];
-                          return (
-                            <div key={seat} className={styles.bidEntry}>
-                              <span className={styles.bidPlayerName}>{getPlayerName(seat)}</span>
-                              <span className={styles.bidValue}>
-                                {bid === null ? '...' : bid === 'nil' ? 'Nil' : bid === 'blind_nil' ? 'Kör Nil' : bid}
-                              </span>
-                            </div>
-                          );
-                        })}
+                      {spadesSides.map((side, index) => (
+                        <div key={index} className={styles.bidsTeam}>
+                          <div className={styles.bidsTeamLabelActive}>{getSideLabel(side, index)}</div>
+                          {side.map(seat => {
+                            const bid = state.spadesState?.bids[seat];
+                            return (
+                              <div key={seat} className={styles.bidEntry}>
+                                <span className={styles.bidPlayerName}>{getPlayerName(seat)}</span>
+                                <span className={styles.bidValue}>
+                                  {bid === null ? '...' : bid === 'nil' ? 'Nil' : bid === 'blind_nil' ? 'Kör Nil' : bid}
+                                </span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ) : (
+                <div className={styles.waitingForContractOverlay}>
+                  <div className={styles.waitingForContractText}>
+                    {getPlayerName(state.spadesState.currentBidder ?? 0)} ihale veriyor...
+                    <div className={styles.bidsDisplayTeams}>
+                      {spadesSides.map((side, index) => (
+                        <div key={index} className={styles.bidsTeam}>
+                          <div className={styles.bidsTeamLabelWaiting}>{getSideLabel(side, index)}</div>
+                          {side.map(seat => {
+                            const bid = state.spadesState?.bids[seat];
+                            return (
+                              <div key={seat} className={styles.bidEntry}>
+                                <span className={styles.bidPlayerName}>{getPlayerName(seat)}</span>
+                                <span className={styles.bidValue}>
+                                  {bid === null ? '...' : bid === 'nil' ? 'Nil' : bid === 'blind_nil' ? 'Kör Nil' : bid}
+                                </span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              )
+            )}
+
+            {/* Auction UI for İhaleli Batak */}
+            {state.phase === 'bidding' && state.gameType === 'batak' && state.batakState && (
+              state.isMyTurn ? (
+                <div className={styles.contractSelectionOverlay}>
+                  <div className={styles.biddingBox}>
+                    <h3>ihale Ver</h3>
+                    <div className={styles.biddingControls}>
+                      <div className={styles.bidSliderRow}>
+                        <button
+                          className={styles.bidAdjustButton}
+                          onClick={() => setSelectedBid(Math.max(state.batakState!.minimumBid, batakBid - 1))}
+                          disabled={batakBid <= state.batakState.minimumBid}
+                        >
+                          −
+                        </button>
+                        <input
+                          type="range"
+                          min={state.batakState.minimumBid}
+                          max={BATAK_MAX_BID}
+                          value={batakBid}
+                          onChange={(e) => setSelectedBid(Number(e.target.value))}
+                          className={styles.bidSlider}
+                        />
+                        <button
+                          className={styles.bidAdjustButton}
+                          onClick={() => setSelectedBid(Math.min(BATAK_MAX_BID, batakBid + 1))}
+                          disabled={batakBid >= BATAK_MAX_BID}
+                        >
+                          +
+                        </button>
+                        <div className={styles.bidTimer}>
+                          <div 
+                            className={`${styles.bidTimerProgress} ${biddingTimerProgress < 30 ? styles.danger : biddingTimerProgress < 60 ? styles.warning : ''}`}
+                            style={{ height: `${biddingTimerProgress}%` }}
+                          />
+                        </div>
                       </div>
+                      <div className={styles.bidValueDisplay}>{batakBid}</div>
+                      <div className={styles.bidButtons}>
+                        <button
+                          className={styles.bidSubmitButton}
+                          onClick={() => submitBid(batakBid)}
+                        >
+                          Tamam
+                        </button>
+                        <button
+                          className={styles.bidSubmitButton}
+                          onClick={() => submitBid('pass')}
+                          disabled={!state.batakState.canPass}
+                        >
+                          Pas
+                        </button>
+                      </div>
+                    </div>
+                    <div className={styles.bidsDisplayTeams}>
                       <div className={styles.bidsTeam}>
-                        <div className={styles.bidsTeamLabelActive}>Takım 2</div>
-                        {[1, 3].map(seat => {
-                          const bid = state.spadesState?.bids[seat];
+                        <div className={styles.bidsTeamLabelActive}>En yüksek: {state.batakState.highBid ?? '-'}</div>
+                        {seats.map(seat => {
+                          const bid = state.batakState?.bids[seat];
                           return (
                             <div key={seat} className={styles.bidEntry}>
                               <span className={styles.bidPlayerName}>{getPlayerName(seat)}</span>
                               <span className={styles.bidValue}>
-                                {bid === null ? '...' : bid === 'nil' ? 'Nil' : bid === 'blind_nil' ? 'Kör Nil' : bid}
+                                {bid === null ? '...' : bid === 'pass' ? 'Pas' : bid}
                               </span>
                             </div>
                           );
@@ -958,61 +1429,170 @@ export function Game() {
               ) : (
                 <div className={styles.waitingForContractOverlay}>
                   <div className={styles.waitingForContractText}>
-                    {getPlayerName(state.spadesState.currentBidder ?? 0)} ihale veriyor...
+                    {getPlayerName(state.batakState.currentBidder ?? 0)} ihale veriyor...
                     <div className={styles.bidsDisplayTeams}>
                       <div className={styles.bidsTeam}>
-                        <div className={styles.bidsTeamLabelWaiting}>Takım 1</div>
-                        {[0, 2].map(seat => {
-                          const bid = state.spadesState?.bids[seat];
+                        <div className={styles.bidsTeamLabelWaiting}>En yüksek: {state.batakState.highBid ?? '-'}</div>
+                        {seats.map(seat => {
+                          const bid = state.batakState?.bids[seat];
                           return (
                             <div key={seat} className={styles.bidEntry}>
                               <span className={styles.bidPlayerName}>{getPlayerName(seat)}</span>
                               <span className={styles.bidValue}>
-                                {bid === null ? '...' : bid === 'nil' ? 'Nil' : bid === 'blind_nil' ? 'Kör Nil' : bid}
+                                {bid === null ? '...' : bid === 'pass' ? 'Pas' : bid}
                               </span>
                             </div>
                           );
                         })}
                       </div>
-                      <div className={styles.bidsTeam}>
-                        <div className={styles.bidsTeamLabelWaiting}>Takım 2</div>
-                        {[1, 3].map(seat => {
-                          const bid = state.spadesState?.bids[seat];
-                          return (
-                            <div key={seat} className={styles.bidEntry}>
-                              <span className={styles.bidPlayerName}>{getPlayerName(seat)}</span>
-                              <span className={styles.bidValue}>
-                                {bid === null ? '...' : bid === 'nil' ? 'Nil' : bid === 'blind_nil' ? 'Kör Nil' : bid}
-                              </span>
-                            </div>
-                          );
-                        })}
+                    </div>
+                  </div>
+                </div>
+              )
+            )}
+
+            {/* Trump declaration for İhaleli Batak */}
+            {state.phase === 'declaring' && state.gameType === 'batak' && state.batakState && (
+              state.isMyTurn ? (
+                <div className={styles.contractSelectionOverlay}>
+                  <div className={styles.contractSelectionBox}>
+                    <h3>ihale: {state.batakState.highBid}</h3>
+                    <div className={styles.trumpSuitSelection}>
+                      <h4>Koz Seç</h4>
+                      <div className={styles.suitButtons}>
+                        {(['spades', 'hearts', 'diamonds', 'clubs'] as const).map(suit => (
+                          <button
+                            key={suit}
+                            className={`${styles.suitButton} ${suit === 'hearts' || suit === 'diamonds' ? styles.redSuit : ''}`}
+                            onClick={() => declareTrump(suit)}
+                          >
+                            {SUIT_LABELS[suit]}
+                          </button>
+                        ))}
                       </div>
                     </div>
                   </div>
                 </div>
+              ) : (
+                <div className={styles.waitingForContractOverlay}>
+                  <div className={styles.waitingForContractText}>
+                    {getPlayerName(state.batakState.declarer ?? 0)} ({state.batakState.highBid}) koz seçiyor...
+                  </div>
+                </div>
               )
             )}
 
+            {/* Contract and trump display for İhaleli Batak */}
+            {state.gameType === 'batak' && state.batakState?.trumpSuit && state.batakState.declarer !== null && (state.phase === 'playing' || state.phase === 'roundEnd') && (
+              <div className={styles.currentContractDisplay}>
+                <span className={styles.contractLabel}>
+                  {getPlayerName(state.batakState.declarer)}: {state.batakState.highBid} · {SUIT_LABELS[state.batakState.trumpSuit]}
+                </span>
+              </div>
+            )}
+
+            {/* Bidding box for Bridge: any higher bid, pass, double or redouble */}
+            {state.phase === 'bidding' && state.gameType === 'bridge' && state.bridgeState && (
+              state.isMyTurn ? (
+                <div className={styles.contractSelectionOverlay}>
+                  <div className={styles.biddingBox}>
+                    <h3>Deklarasyon</h3>
+                    <div className={styles.bridgeBidGrid}>
+                      {BRIDGE_LEVELS.map(level => BRIDGE_STRAINS.map(strain => {
+                        const bid = { level, strain };
+                        return (
+                          <button
+                            key={`${level}-${strain}`}
+                            className={`${styles.suitButton} ${isRedStrain(strain) ? styles.redSuit : ''} ${!outbids(bid, state.bridgeState!.highestBid) ? styles.suitDisabled : ''}`}
+                            onClick={() => submitBid(bid)}
+                            disabled={!outbids(bid, state.bridgeState!.highestBid)}
+                          >
+                            {formatBridgeCall(bid)}
+                          </button>
+                        );
+                      }))}
+                    </div>
+                    <div className={styles.bidSliderRow}>
+                      <div className={styles.bidButtons}>
+                        <button className={`${styles.bidSubmitButton} ${styles.nilBid}`} onClick={() => submitBid('pass')}>
+                          Pas
+                        </button>
+                        <button
+                          className={styles.bidSubmitButton}
+                          onClick={() => submitBid('double')}
+                          disabled={!state.bridgeState.canDouble}
+                        >
+                          Kontr
+                        </button>
+                        <button
+                          className={styles.bidSubmitButton}
+                          onClick={() => submitBid('redouble')}
+                          disabled={!state.bridgeState.canRedouble}
+                        >
+                          Sürkontr
+                        </button>
+                      </div>
+                      <div className={styles.bidTimer}>
+                        <div 
+                          className={`${styles.bidTimerProgress} ${biddingTimerProgress < 30 ? styles.danger : biddingTimerProgress < 60 ? styles.warning : ''}`}
+                          style={{ height: `${biddingTimerProgress}%` }}
+                        />
+                      </div>
+                    </div>
+                    {renderBridgeAuction(state.bridgeState.calls, state.bridgeState.dealerSeat ?? 0)}
+                  </div>
+                </div>
+              ) : (
+                <div className={styles.waitingForContractOverlay}>
+                  <div className={styles.waitingForContractText}>
+                    {getPlayerName(state.bridgeState.currentBidder ?? 0)} deklarasyon yapıyor...
+                    {renderBridgeAuction(state.bridgeState.calls, state.bridgeState.dealerSeat ?? 0)}
+                  </div>
+                </div>
+              )
+            )}
+
+            {/* Contract display for Bridge */}
+            {state.gameType === 'bridge' && state.bridgeState?.contract && state.bridgeState.declarer !== null && (state.phase === 'playing' || state.phase === 'roundEnd') && (
+              <div className={styles.currentContractDisplay}>
+                <span className={styles.contractLabel}>
+                  {getPlayerName(state.bridgeState.declarer)}: {formatBridgeContract(state.bridgeState.contract)}
+                </span>
+              </div>
+            )}
+
+            {/* Bridge side scores and tricks during play */}
+            {state.gameType === 'bridge' && state.bridgeState && (state.phase === 'playing' || state.phase === 'roundEnd') &&
+              renderBridgeSides(state.cumulativeScores, state.bridgeState.sideTricks, state.bridgeState.gamesWon,
+                state.bridgeState.vulnerable, state.bridgeState.variants?.scoring === 'imp')}
+
             {/* Spades team scores and bids display during play */}
             {state.gameType === 'spades' && state.spadesState && (state.phase === 'playing' || state.phase === 'roundEnd') && (
               <div className={styles.spadesInfoDisplay}>
-                <div className={styles.teamInfo}>
-                  <div className={styles.teamLabel}>Takım 1</div>
-                  <div className={styles.teamScore}>{state.cumulativeScores[0] || 0}</div>
-                  <div className={styles.teamTricks}>
-                    El: {state.spadesState.teamTricks[0] || 0}/{state.spadesState.teamBids[0] || 0}
+                {spadesSides.map((side, index) => (
+                  <div key={index} className={styles.teamInfo}>
+                    <div className={styles.teamLabel}>{getSideLabel(side, index)}</div>
+                    <div className={styles.teamScore}>{state.cumulativeScores[index] || 0}</div>
+                    <div className={styles.teamTricks}>
+                      El: {state.spadesState!.teamTricks[index] || 0}/{state.spadesState!.teamBids[index] || 0}
+                    </div>
+                    <div className={styles.teamBags}>Ceza: {state.spadesState!.bags[index] ?? 0}</div>
                   </div>
-                  <div className={styles.teamBags}>Ceza: {state.spadesState.bags[0]}</div>
-                </div>
-                <div className={styles.teamInfo}>
-                  <div className={styles.teamLabel}>Takım 2</div>
-                  <div className={styles.teamScore}>{state.cumulativeScores[1] || 0}</div>
-                  <div className={styles.teamTricks}>
-                    El: {state.spadesState.teamTricks[1] || 0}/{state.spadesState.teamBids[1] || 0}
+                ))}
+              </div>
+            )}
+
+            {/* Pişti side scores, cards taken and piştis during play */}
+            {state.gameType === 'pisti' && state.pistiState && (state.phase === 'playing' || state.phase === 'roundEnd') && (
+              <div className={styles.spadesInfoDisplay}>
+                {pistiSides.map((side, index) => (
+                  <div key={index} className={styles.teamInfo}>
+                    <div className={styles.teamLabel}>{getSideLabel(side, index)}</div>
+                    <div className={styles.teamScore}>{state.cumulativeScores[index] || 0}</div>
+                    <div className={styles.teamTricks}>Kart: {state.pistiState!.capturedCounts[index] || 0}</div>
+                    <div className={styles.teamBags}>Pişti: {state.pistiState!.pistis[index] || 0}</div>
                   </div>
-                  <div className={styles.teamBags}>Ceza: {state.spadesState.bags[1]}</div>
-                </div>
+                ))}
               </div>
             )}
 
@@ -1024,7 +1604,7 @@ export function Game() {
             </div>
 
             {/* Player areas inside table */}
-            {[0, 1, 2, 3].map(seat => {
+            {seats.map(seat => {
               const position = positions[seat];
               const isCurrent = state.currentPlayer === seat;
               const connected = isPlayerConnected(seat);
@@ -1044,6 +1624,15 @@ export function Game() {
                         <span className={`${styles.playerName} ${isCurrent ? styles.currentTurn : ''}`}>
                           {getPlayerName(seat)}
                         </span>
+                        {isPlayerBot(seat) && <span className={styles.botBadge}>Bot</span>}
+                        {dealerSeat === seat && (
+                          <span className={styles.dealerBadge} title="Dağıtan">D</span>
+                        )}
+                        {isOwner && !connected && (
+                          <button className={styles.botButton} onClick={() => addBot(seat, botDifficulty)}>
+                            Bot Ekle
+                          </button>
+                        )}
                         {avatarUrl && (
                           <img 
                             src={avatarUrl} 
@@ -1052,7 +1641,7 @@ export function Game() {
                             style={{ transform: (position === 'right' || position === 'bottom') ? 'scaleX(-1)' : 'none' }}
                           />
                         )}
-                        {state.gameType !== 'spades' && (
+                        {state.gameType !== 'spades' && state.gameType !== 'pisti' && state.gameType !== 'bridge' && (
                           <span className={styles.playerScore}>
                             Puan: {displayedScores[seat]}
                           </span>
@@ -1070,6 +1659,17 @@ export function Game() {
                             </span>
                           );
                         })()}
+                        {/* İhaleli Batak tricks, against the contract for the declarer */}
+                        {state.gameType === 'batak' && state.batakState && (state.phase === 'playing' || state.phase === 'roundEnd') && (() => {
+                          const tricksTaken = state.batakState.tricksTakenBySeat[seat] || 0;
+                          const isDeclarer = state.batakState.declarer === seat;
+                          const wentDown = isDeclarer && state.phase === 'roundEnd' && state.batakState.made === false;
+                          return (
+                            <span className={`${styles.playerBid} ${wentDown ? styles.failedNilBid : ''}`}>
+                              {isDeclarer ? `ihale: ${tricksTaken}/${state.batakState.highBid}` : `El: ${tricksTaken}`}
+                            </span>
+                          );
+                        })()}
                         {/* Moon shot animation */}
                         {localMoonShooter === seat && (
                           <div className={styles.moonShotText}>
@@ -1085,6 +1685,8 @@ export function Game() {
                       </div>
                     </div>
                   </div>
+                  {state.gameType === 'bridge' && seat !== state.mySeat && state.bridgeState?.dummySeat === seat &&
+                    renderDummyHand(state.bridgeState.dummyHand, position)}
                   {state.phase === 'roundEnd' && isAnimating && pointCards.length > 0 && (
                     <div className={`${styles.playerPointCards} ${styles.animating}`}>
                       {pointCards.slice(0, visibleCardCounts[seat] || 0).map((card) => (
@@ -1100,7 +1702,7 @@ export function Game() {
 
             {/* Last trick display - inside table, right of North player */}
             {/* Box always visible during playing phase, cards update only after animation ends */}
-            {state.phase === 'playing' && (
+            {state.phase === 'playing' && state.gameType !== 'pisti' && (
               <div className={styles.lastTrickDisplay}>
                 <span className={styles.lastTrickLabel}>Önceki El</span>
                 <div className={styles.lastTrickGrid}>
@@ -1109,9 +1711,9 @@ export function Game() {
                     <>
                       {/* Top (seat across from me) */}
                       <div className={styles.lastTrickTop}>
-                        {displayedLastTrick.find(t => (t.seat - (state.mySeat || 0) + 4) % 4 === 2) && (
+                        {displayedLastTrick.find(t => slotOf(t.seat) === 2) && (
                           <Card 
-                            card={displayedLastTrick.find(t => (t.seat - (state.mySeat || 0) + 4) % 4 === 2)!.card} 
+                            card={displayedLastTrick.find(t => slotOf(t.seat) === 2)!.card} 
                             micro 
                           />
                         )}
@@ -1119,18 +1721,18 @@ export function Game() {
                       {/* Middle row: left, center, right */}
                       <div className={styles.lastTrickMiddle}>
                         <div className={styles.lastTrickLeft}>
-                          {displayedLastTrick.find(t => (t.seat - (state.mySeat || 0) + 4) % 4 === 1) && (
+                          {displayedLastTrick.find(t => slotOf(t.seat) === 1) && (
                             <Card 
-                              card={displayedLastTrick.find(t => (t.seat - (state.mySeat || 0) + 4) % 4 === 1)!.card} 
+                              card={displayedLastTrick.find(t => slotOf(t.seat) === 1)!.card} 
                               micro 
                             />
                           )}
                         </div>
                         <div className={styles.lastTrickCenter} />
                         <div className={styles.lastTrickRight}>
-                          {displayedLastTrick.find(t => (t.seat - (state.mySeat || 0) + 4) % 4 === 3) && (
+                          {displayedLastTrick.find(t => slotOf(t.seat) === 3) && (
                             <Card 
-                              card={displayedLastTrick.find(t => (t.seat - (state.mySeat || 0) + 4) % 4 === 3)!.card} 
+                              card={displayedLastTrick.find(t => slotOf(t.seat) === 3)!.card} 
                               micro 
                             />
                           )}
@@ -1138,9 +1740,9 @@ export function Game() {
                       </div>
                       {/* Bottom (my seat) */}
                       <div className={styles.lastTrickBottom}>
-                        {displayedLastTrick.find(t => (t.seat - (state.mySeat || 0) + 4) % 4 === 0) && (
+                        {displayedLastTrick.find(t => slotOf(t.seat) === 0) && (
                           <Card 
-                            card={displayedLastTrick.find(t => (t.seat - (state.mySeat || 0) + 4) % 4 === 0)!.card} 
+                            card={displayedLastTrick.find(t => slotOf(t.seat) === 0)!.card} 
                             micro 
                           />
                         )}
@@ -1158,6 +1760,23 @@ export function Game() {
               </div>
             )}
 
+            {/* Blind nil exchange - who is swapping cards */}
+            {state.phase === 'exchanging' && (
+              <div className={styles.passDirectionCenter}>
+                {isExchanging && !state.passSubmitted && exchangePartner !== null
+                  ? `Kör nil: ${getPlayerName(exchangePartner)} için ${BLIND_NIL_EXCHANGE_SIZE} kart seç`
+                  : 'Kör nil kart değişimi...'}
+              </div>
+            )}
+
+            {/* Pişti pile and callout */}
+            {state.gameType === 'pisti' && state.pistiState && (state.phase === 'playing' || state.phase === 'roundEnd') && (
+              <>
+                {renderPistiPile(state.pistiState.pile, state.pistiState.stockCount)}
+                {pistiCallout}
+              </>
+            )}
+
             {/* Trick area - shows current trick or animation */}
             <div className={styles.trickArea}>
               {(() => {
@@ -1166,11 +1785,11 @@ export function Game() {
                 const isAnimating = !!state.trickAnimation;
                 const phase = state.trickAnimation?.phase || 'showing';
                 const winnerRelSeat = isAnimating 
-                  ? ((state.trickAnimation?.winner || 0) - (state.mySeat || 0) + 4) % 4 
+                  ? slotOf(state.trickAnimation?.winner || 0) 
                   : 0;
                 
                 return trickToDisplay.map(({ seat, card }, index) => {
-                  const relSeat = (seat - (state.mySeat || 0) + 4) % 4;
+                  const relSeat = slotOf(seat);
                   // Show slide animation if this is the last played card and we're not in trick animation
                   // Continue showing during pending state (waiting for trick animation to start)
                   const shouldSlideIn = !isAnimating && state.lastPlayedCard && 
@@ -1211,8 +1830,8 @@ export function Game() {
               </div>
             )}
 
-            {/* Pass timer - positioned in northeast corner of table */}
-            {state.phase === 'passing' && !state.passSubmitted && (
+            {/* Pass timer - positioned in northeast corner of table (also times the blind nil exchange) */}
+            {(state.phase === 'passing' || isExchanging) && !state.passSubmitted && (
               <div className={styles.tableTimer}>
                 <div 
                   className={`${styles.tableTimerProgress} ${passTimerProgress < 30 ? styles.danger : passTimerProgress < 60 ? styles.warning : ''}`}
@@ -1225,13 +1844,13 @@ export function Game() {
           {/* Hand */}
           <div className={styles.handArea}>
             {/* Pass OK button - positioned over hand during passing phase */}
-            {state.phase === 'passing' && !state.passSubmitted && (
+            {(state.phase === 'passing' || isExchanging) && !state.passSubmitted && (
               <button 
                 className={styles.passOkButtonOverHand}
                 onClick={handleSubmitPass}
-                disabled={state.selectedPassCards.length !== 3}
+                disabled={state.selectedPassCards.length !== passCardCount}
               >
-                Tamam ({state.selectedPassCards.length}/3)
+                Tamam ({state.selectedPassCards.length}/{passCardCount})
               </button>
             )}
             {/* Rematch UI - positioned in table area aligned with South player during gameEnd phase */}
@@ -1243,15 +1862,21 @@ export function Game() {
                   </button>
                 </div>
                 <span className={styles.rematchVotesSmall}>
-                  {Object.values(state.rematchVotes).filter(v => v).length}/4
+                  {Object.values(state.rematchVotes).filter(v => v).length}/{state.seatCount}
                 </span>
               </div>
             )}
+            {/* Why the last move was refused */}
+            {state.actionError && (
+              <div className={styles.actionError}>{GAME_ERROR_MESSAGES[state.actionError]}</div>
+            )}
             <div className={`${styles.hand} ${isDealing ? styles.dealing : ''}`}>
               {sortHand(displayHand ?? state.hand).map((card) => {
                 const selected = isCardSelected(card);
                 const playable = isCardPlayable(card);
-                const disabled = state.phase === 'playing' && !playable;
+                // Unplayable cards on your turn stay hoverable so their tooltip shows
+                const unplayableReason = getUnplayableReason(card);
+                const disabled = state.phase === 'playing' && !playable && !unplayableReason;
                 
                 // Check if this card is animating during pass phase
                 const isPassing = passingCards.some(c => cardEquals(c, card));
@@ -1264,9 +1889,11 @@ export function Game() {
                       ${styles.cardWrapper} 
                       ${selected ? styles.selected : ''} 
                       ${disabled ? styles.disabled : ''}
+                      ${unplayableReason ? styles.unplayable : ''}
                       ${isPassing ? styles.cardPassing : ''}
                       ${isReceiving ? styles.cardReceiving : ''}
                     `}
+                    title={unplayableReason ? GAME_ERROR_MESSAGES[unplayableReason] : undefined}
                   >
                     <Card
                       card={card}
@@ -1,25 +1,30 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useSocket } from '../../context/SocketContext';
 import { generateDefaultName } from '../../utils/defaultNames';
-import type { TableInfo, GameType } from '../../types/game';
+import type { TableInfo, GameType, CreateTableOptions, BridgeVariants } from '../../types/game';
+import { describeSpadesRules } from '../../utils/spadesRules';
+import { describeVariants, getDefaultTableOptions } from '../../utils/tableOptions';
 import { APP_VERSION } from '../../constants/version';
+import { TableOptionsForm } from './TableOptionsForm';
 import styles from './Lobby.module.css';
 
 const GAME_TYPE_LABELS: Record<GameType, string> = {
   hearts: 'Maça Kızı',
   king: 'King',
   spades: 'Eşli Batak',
+  batak: 'İhaleli Batak',
+  pisti: 'Pişti',
+  bridge: 'Briç',
 };
 
 export function Lobby() {
   const { socket, isConnected, createTable, joinTable, listTables, spectateTable } = useSocket();
   const [playerName, setPlayerName] = useState(() => generateDefaultName());
   const [isGeneratedName, setIsGeneratedName] = useState(true);
-  const [joinTableId, setJoinTableId] = useState('');
   const [tables, setTables] = useState<TableInfo[]>([]);
   const [selectedGameType, setSelectedGameType] = useState<GameType>('hearts');
   const [showScoreModal, setShowScoreModal] = useState(false);
-  const [endingScore, setEndingScore] = useState(50);
+  const [tableOptions, setTableOptions] = useState<CreateTableOptions>(() => getDefaultTableOptions('hearts'));
 
   const refreshTables = useCallback(() => {
     listTables(true); // Include in-progress games
@@ -47,16 +52,17 @@ export function Lobby() {
 
   const handleCreateTable = () => {
     if (playerName.trim()) {
-      if (selectedGameType === 'hearts' || selectedGameType === 'spades') {
-        setShowScoreModal(true);
-      } else {
-        createTable(playerName.trim(), selectedGameType);
-      }
+      setShowScoreModal(true);
     }
   };
 
+  const selectGameType = (gameType: GameType) => {
+    setSelectedGameType(gameType);
+    setTableOptions(getDefaultTableOptions(gameType));
+  };
+
   const handleConfirmCreate = () => {
-    createTable(playerName.trim(), selectedGameType, { endingScore });
+    createTable(playerName.trim(), selectedGameType, tableOptions);
     setShowScoreModal(false);
   };
 
@@ -70,12 +76,6 @@ export function Lobby() {
     spectateTable(tableId, playerName.trim() || 'Spectator');
   };
 
-  const handleJoinByCode = () => {
-    if (playerName.trim() && joinTableId.trim()) {
-      joinTable(joinTableId.trim().toLowerCase(), playerName.trim());
-    }
-  };
-
   return (
     <div className={styles.lobby}>
       <div className={styles.connectionStatus}>
@@ -111,22 +111,40 @@ export function Lobby() {
           <div className={styles.gameTypeButtons}>
             <button
               className={`${styles.gameTypeButton} ${selectedGameType === 'hearts' ? styles.active : ''}`}
-              onClick={() => { setSelectedGameType('hearts'); setEndingScore(50); }}
+              onClick={() => selectGameType('hearts')}
             >
               Maça Kızı
             </button>
             <button
               className={`${styles.gameTypeButton} ${selectedGameType === 'king' ? styles.active : ''}`}
-              onClick={() => setSelectedGameType('king')}
+              onClick={() => selectGameType('king')}
             >
               King
             </button>
             <button
               className={`${styles.gameTypeButton} ${selectedGameType === 'spades' ? styles.active : ''}`}
-              onClick={() => { setSelectedGameType('spades'); setEndingScore(300); }}
+              onClick={() => selectGameType('spades')}
             >
               Eşli Batak
             </button>
+            <button
+              className={`${styles.gameTypeButton} ${selectedGameType === 'batak' ? styles.active : ''}`}
+              onClick={() => selectGameType('batak')}
+            >
+              İhaleli Batak
+            </button>
+            <button
+              className={`${styles.gameTypeButton} ${selectedGameType === 'pisti' ? styles.active : ''}`}
+              onClick={() => selectGameType('pisti')}
+            >
+              Pişti
+            </button>
+            <button
+              className={`${styles.gameTypeButton} ${selectedGameType === 'bridge' ? styles.active : ''}`}
+              onClick={() => selectGameType('bridge')}
+            >
+              Briç
+            </button>
           </div>
         </div>
 
@@ -161,10 +179,22 @@ export function Lobby() {
                       )}
                       {!table.inGame && (
                         <span className={styles.scoreLimit}>
-                          {table.gameType === 'king' ? 'Parti: 1' : `Bitiş: ${table.endingScore || 20}`}
+                          {table.gameType === 'king' ? 'Parti: 1' : table.gameType === 'bridge'
+                            ? ((table.variants as BridgeVariants | null)?.scoring === 'imp' ? 'Board: 8' : 'Robber')
+                            : `Bitiş: ${table.endingScore || 20}`}
                         </span>
                       )}
                     </div>
+                    {table.variants && describeVariants(table.gameType, table.variants).length > 0 && (
+                      <span className={styles.tableVariants}>
+                        {describeVariants(table.gameType, table.variants).join(' • ')}
+                      </span>
+                    )}
+                    {table.rules && describeSpadesRules(table.rules, true).length > 0 && (
+                      <span className={styles.tableVariants}>
+                        {describeSpadesRules(table.rules, true).join(' • ')}
+                      </span>
+                    )}
                     <span className={styles.tablePlayers}>
                       {table.inGame ? (
                         <>
@@ -172,7 +202,7 @@ export function Lobby() {
                           {table.spectatorCount > 0 && ` • ${table.spectatorCount} izleyici`}
                         </>
                       ) : (
-                        <>{table.playerCount}/4 oyuncu • {table.playerNames.join(', ')}</>
+                        <>{table.playerCount}/{table.seatCount ?? 4} oyuncu • {table.playerNames.join(', ')}</>
                       )}
                     </span>
                   </div>
@@ -215,23 +245,14 @@ export function Lobby() {
         </div>
       </div>
 
-      {/* Score selection modal for Hearts/Spades */}
+      {/* Table options modal: ending score for Hearts/Spades/Batak/Pişti, rule variants for King and Bridge */}
       {showScoreModal && (
         <div className={styles.modalOverlay}>
           <div className={styles.modal}>
-            <h3 className={styles.modalTitle}>Bitiş Puanı</h3>
-            <div className={styles.sliderContainer}>
-              <input
-                type="range"
-                min={selectedGameType === 'spades' ? 100 : 10}
-                max={selectedGameType === 'spades' ? 1000 : 100}
-                step={selectedGameType === 'spades' ? 50 : 5}
-                value={endingScore}
-                onChange={(e) => setEndingScore(Number(e.target.value))}
-                className={styles.slider}
-              />
-              <span className={styles.sliderValue}>{endingScore}</span>
-            </div>
+            <h3 className={styles.modalTitle}>
+              {selectedGameType === 'king' ? 'King Kuralları' : selectedGameType === 'bridge' ? 'Briç Kuralları' : 'Bitiş Puanı'}
+            </h3>
+            <TableOptionsForm gameType={selectedGameType} options={tableOptions} onChange={setTableOptions} />
             <div className={styles.modalButtons}>
               <button
                 className={styles.modalCancelButton}
@@ -0,0 +1,246 @@
+import type { GameType, CreateTableOptions, HeartsVariants, SpadesVariants, SpadesRules, KingVariants, PistiVariants, BridgeVariants } from '../../types/game';
+import { DEFAULT_SPADES_RULES, SPADES_RULE_FIELDS } from '../../utils/spadesRules';
+import {
+  ENDING_SCORE_RANGES,
+  DEFAULT_HEARTS_VARIANTS,
+  PASSING_LABELS,
+  MOON_SHOT_LABELS,
+  DEFAULT_SPADES_VARIANTS,
+  SPADES_VARIANT_LABELS,
+  DEFAULT_KING_VARIANTS,
+  SELECTION_ORDER_LABELS,
+  FIRST_LEAD_LABELS,
+  DEFAULT_PISTI_VARIANTS,
+  DEFAULT_BRIDGE_VARIANTS,
+  BRIDGE_SCORING_LABELS,
+} from '../../utils/tableOptions';
+import styles from './Lobby.module.css';
+
+interface TableOptionsFormProps {
+  gameType: GameType;
+  options: CreateTableOptions;
+  onChange: (options: CreateTableOptions) => void;
+}
+
+// Ending score for Hearts/Spades/Batak/Pişti and the rule variants of each game.
+// Used by the lobby's create modal and by the table owner in the waiting room.
+export function TableOptionsForm({ gameType, options, onChange }: TableOptionsFormProps) {
+  const range = ENDING_SCORE_RANGES[gameType];
+  const heartsVariants = { ...DEFAULT_HEARTS_VARIANTS, ...(options.variants as HeartsVariants | undefined) };
+  const spadesVariants = { ...DEFAULT_SPADES_VARIANTS, ...(options.variants as SpadesVariants | undefined) };
+  const spadesRules: SpadesRules = { ...DEFAULT_SPADES_RULES, ...options.rules };
+  const kingVariants = { ...DEFAULT_KING_VARIANTS, ...(options.variants as KingVariants | undefined) };
+  const pistiVariants = { ...DEFAULT_PISTI_VARIANTS, ...(options.variants as PistiVariants | undefined) };
+  const bridgeVariants = { ...DEFAULT_BRIDGE_VARIANTS, ...(options.variants as BridgeVariants | undefined) };
+
+  const updateVariant = <K extends keyof HeartsVariants>(key: K, value: HeartsVariants[K]) => {
+    onChange({ ...options, variants: { ...heartsVariants, [key]: value } });
+  };
+
+  const updateSpadesVariant = (key: keyof SpadesVariants, value: boolean) => {
+    onChange({ ...options, variants: { ...spadesVariants, [key]: value } });
+  };
+
+  const updateKingVariant = <K extends keyof KingVariants>(key: K, value: KingVariants[K]) => {
+    const next = { ...kingVariants, [key]: value };
+    // The three-player deck has no 2♦
+    if (next.threePlayer && next.firstLead === 'twoOfDiamonds') next.firstLead = 'selector';
+    onChange({ ...options, variants: next });
+  };
+
+  // Keep typed values whole and inside the server's limits
+  const updateSpadesRule = (key: keyof SpadesRules, value: number, min: number, max: number) => {
+    const clamped = Math.min(max, Math.max(min, Math.round(value) || 0));
+    onChange({ ...options, rules: { ...spadesRules, [key]: clamped } });
+  };
+
+  return (
+    <>
+      {range && (
+        <div className={styles.sliderContainer}>
+          <input
+            type="range"
+            min={range[0]}
+            max={range[1]}
+            step={range[2]}
+            value={options.endingScore ?? range[0]}
+            onChange={(e) => onChange({ ...options, endingScore: Number(e.target.value) })}
+            className={styles.slider}
+          />
+          <span className={styles.sliderValue}>{options.endingScore ?? range[0]}</span>
+        </div>
+      )}
+      {gameType === 'king' && (
+        <div className={styles.variantsSection}>
+          <label className={styles.variantRow}>
+            <input
+              type="checkbox"
+              checked={kingVariants.threePlayer}
+              onChange={(e) => updateKingVariant('threePlayer', e.target.checked)}
+            />
+            3 kişilik (2'ler çıkarılır, 16 kart)
+          </label>
+          <label className={styles.variantRow}>
+            Seçim
+            <select
+              className={styles.variantSelect}
+              value={kingVariants.selectionOrder}
+              onChange={(e) => updateKingVariant('selectionOrder', e.target.value as KingVariants['selectionOrder'])}
+            >
+              {(Object.keys(SELECTION_ORDER_LABELS) as KingVariants['selectionOrder'][]).map(mode => (
+                <option key={mode} value={mode}>{SELECTION_ORDER_LABELS[mode]}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.variantRow}>
+            <input
+              type="checkbox"
+              checked={kingVariants.penaltiesFirst}
+              disabled={kingVariants.selectionOrder === 'natural'}
+              onChange={(e) => updateKingVariant('penaltiesFirst', e.target.checked)}
+            />
+            Önce cezalar, sonra kozlar
+          </label>
+          <label className={styles.variantRow}>
+            <input
+              type="checkbox"
+              checked={kingVariants.short}
+              disabled={kingVariants.selectionOrder === 'natural'}
+              onChange={(e) => updateKingVariant('short', e.target.checked)}
+            />
+            Kısa parti (12 oyun: 2 ceza + 1 koz)
+          </label>
+          <label className={styles.variantRow}>
+            İlk kartı atan
+            <select
+              className={styles.variantSelect}
+              value={kingVariants.firstLead}
+              onChange={(e) => updateKingVariant('firstLead', e.target.value as KingVariants['firstLead'])}
+            >
+              {(Object.keys(FIRST_LEAD_LABELS) as KingVariants['firstLead'][]).map(mode => (
+                <option
+                  key={mode}
+                  value={mode}
+                  disabled={kingVariants.threePlayer && mode === 'twoOfDiamonds'}
+                >
+                  {FIRST_LEAD_LABELS[mode]}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+      {gameType === 'hearts' && (
+        <div className={styles.variantsSection}>
+          <h4 className={styles.variantsTitle}>Kurallar</h4>
+          <label className={styles.variantRow}>
+            <input
+              type="checkbox"
+              checked={heartsVariants.jackOfDiamonds}
+              onChange={(e) => updateVariant('jackOfDiamonds', e.target.checked)}
+            />
+            Karo vale -10 puan
+          </label>
+          <label className={styles.variantRow}>
+            <input
+              type="checkbox"
+              checked={heartsVariants.heartsLeadAnytime}
+              onChange={(e) => updateVariant('heartsLeadAnytime', e.target.checked)}
+            />
+            Kupa kırılmadan kupa açılabilir
+          </label>
+          <label className={styles.variantRow}>
+            <input
+              type="checkbox"
+              checked={heartsVariants.firstTrickPoints}
+              onChange={(e) => updateVariant('firstTrickPoints', e.target.checked)}
+            />
+            İlk elde ceza kartı atılabilir
+          </label>
+          <label className={styles.variantRow}>
+            Pas
+            <select
+              className={styles.variantSelect}
+              value={heartsVariants.passing}
+              onChange={(e) => updateVariant('passing', e.target.value as HeartsVariants['passing'])}
+            >
+              {(Object.keys(PASSING_LABELS) as HeartsVariants['passing'][]).map(mode => (
+                <option key={mode} value={mode}>{PASSING_LABELS[mode]}</option>
+              ))}
+            </select>
+          </label>
+          <label className={styles.variantRow}>
+            Kafa atma
+            <select
+              className={styles.variantSelect}
+              value={heartsVariants.moonShot}
+              onChange={(e) => updateVariant('moonShot', e.target.value as HeartsVariants['moonShot'])}
+            >
+              {(Object.keys(MOON_SHOT_LABELS) as HeartsVariants['moonShot'][]).map(mode => (
+                <option key={mode} value={mode}>{MOON_SHOT_LABELS[mode]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+      {gameType === 'pisti' && (
+        <div className={styles.variantsSection}>
+          <h4 className={styles.variantsTitle}>Kurallar</h4>
+          <label className={styles.variantRow}>
+            <input
+              type="checkbox"
+              checked={pistiVariants.twoPlayer}
+              onChange={(e) => onChange({ ...options, variants: { twoPlayer: e.target.checked } })}
+            />
+            2 kişilik (eşsiz)
+          </label>
+        </div>
+      )}
+      {gameType === 'bridge' && (
+        <div className={styles.variantsSection}>
+          <label className={styles.variantRow}>
+            Puanlama
+            <select
+              className={styles.variantSelect}
+              value={bridgeVariants.scoring}
+              onChange={(e) => onChange({ ...options, variants: { scoring: e.target.value as BridgeVariants['scoring'] } })}
+            >
+              {(Object.keys(BRIDGE_SCORING_LABELS) as BridgeVariants['scoring'][]).map(mode => (
+                <option key={mode} value={mode}>{BRIDGE_SCORING_LABELS[mode]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+      {gameType === 'spades' && (
+        <div className={styles.variantsSection}>
+          <h4 className={styles.variantsTitle}>Kurallar</h4>
+          {(Object.keys(SPADES_VARIANT_LABELS) as (keyof SpadesVariants)[]).map(key => (
+            <label key={key} className={styles.variantRow}>
+              <input
+                type="checkbox"
+                checked={spadesVariants[key]}
+                onChange={(e) => updateSpadesVariant(key, e.target.checked)}
+              />
+              {SPADES_VARIANT_LABELS[key][0]}
+            </label>
+          ))}
+          <h4 className={styles.variantsTitle}>Puanlama</h4>
+          {SPADES_RULE_FIELDS.map(({ key, label, min, max }) => (
+            <label key={key} className={styles.variantRow}>
+              {label}
+              <input
+                type="number"
+                className={styles.ruleInput}
+                min={min}
+                max={max}
+                value={spadesRules[key]}
+                onChange={(e) => updateSpadesRule(key, Number(e.target.value), min, max)}
+              />
+            </label>
+          ))}
+        </div>
+      )}
+    </>
+  );
+}
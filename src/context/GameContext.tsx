@@ -1,28 +1,104 @@
 import { createContext, useContext, useReducer, type Dispatch, type ReactNode } from 'react';
-import type { GameState, GameAction, Card, KingGameState, SpadesGameState } from '../types/game';
+import type { GameState, GameAction, Card, KingGameState, SpadesGameState, BatakGameState, PistiGameState, BridgeGameState, BridgeTableState } from '../types/game';
+import { BLIND_NIL_EXCHANGE_SIZE } from '../utils/spadesRules';
 
 const initialKingState: KingGameState = {
   currentContractSelector: null,
   availableContracts: [],
   selectedContract: null,
   gameNumber: 0,
+  totalGames: 20,
   partyNumber: 1,
   contractHistory: [],
   partyScores: [0, 0, 0, 0],
 };
 
 const initialSpadesState: SpadesGameState = {
+  dealerSeat: null,
   bids: [null, null, null, null],
   currentBidder: null,
   bidSubmitted: false,
   canDeclareBlindNil: true,
+  exchangeSeats: [],
+  sides: [[0, 2], [1, 3]],
   teamBids: [0, 0],
   teamTricks: [0, 0],
   tricksTakenBySeat: [0, 0, 0, 0],
+  tricksPerRound: 13,
   bags: [0, 0],
   spadesBroken: false,
+  variants: null,
+  rules: null,
 };
 
+const initialBatakState: BatakGameState = {
+  dealerSeat: null,
+  bids: [null, null, null, null],
+  currentBidder: null,
+  highBid: null,
+  minimumBid: 4,
+  canPass: true,
+  declarer: null,
+  trumpSuit: null,
+  tricksTakenBySeat: [0, 0, 0, 0],
+  made: null,
+};
+
+const initialPistiState: PistiGameState = {
+  dealerSeat: null,
+  pile: [],
+  stockCount: 0,
+  handNumber: 0,
+  sides: [[0, 2], [1, 3]],
+  capturedCounts: [0, 0],
+  pistis: [0, 0],
+  lastCapture: null,
+  variants: null,
+};
+
+const initialBridgeState: BridgeGameState = {
+  dealerSeat: null,
+  calls: [],
+  currentBidder: null,
+  highestBid: null,
+  canDouble: false,
+  canRedouble: false,
+  contract: null,
+  declarer: null,
+  dummySeat: null,
+  dummyHand: null,
+  actingSeat: null,
+  sideTricks: [0, 0],
+  vulnerable: [false, false],
+  gamesWon: [0, 0],
+  belowLine: [0, 0],
+  totalBoards: null,
+  variants: null,
+};
+
+// Bridge: the part of a seat's view that lives in bridgeState
+function toBridgeState(payload: Partial<BridgeTableState>, current: BridgeGameState): BridgeGameState {
+  return {
+    dealerSeat: payload.dealerSeat ?? current.dealerSeat,
+    calls: payload.calls ?? current.calls,
+    currentBidder: payload.phase === 'bidding' ? payload.currentPlayer ?? null : null,
+    highestBid: payload.highestBid !== undefined ? payload.highestBid : current.highestBid,
+    canDouble: payload.canDouble ?? current.canDouble,
+    canRedouble: payload.canRedouble ?? current.canRedouble,
+    contract: payload.contract !== undefined ? payload.contract : current.contract,
+    declarer: payload.declarer !== undefined ? payload.declarer : current.declarer,
+    dummySeat: payload.dummySeat !== undefined ? payload.dummySeat : current.dummySeat,
+    dummyHand: payload.dummyHand !== undefined ? payload.dummyHand : current.dummyHand,
+    actingSeat: payload.actingSeat ?? current.actingSeat,
+    sideTricks: payload.sideTricks ?? current.sideTricks,
+    vulnerable: payload.vulnerable ?? current.vulnerable,
+    gamesWon: payload.gamesWon ?? current.gamesWon,
+    belowLine: payload.belowLine ?? current.belowLine,
+    totalBoards: payload.totalBoards !== undefined ? payload.totalBoards : current.totalBoards,
+    variants: payload.variants ?? current.variants,
+  };
+}
+
 const initialState: GameState = {
   connectionStatus: 'connecting',
   tableId: null,
@@ -31,7 +107,10 @@ const initialState: GameState = {
   spectatorState: null,
   gameType: 'hearts',
   endingScore: null,
+  seatCount: 4,
+  tableOptions: null,
   players: [],
+  ownerSeat: null,
   phase: 'waiting',
   roundNumber: 1,
   hand: [],
@@ -39,12 +118,17 @@ const initialState: GameState = {
   currentPlayer: 0,
   isMyTurn: false,
   legalCards: [],
+  illegalCards: [],
+  actionError: null,
   heartsBroken: false,
   passDirection: null,
   passSubmitted: false,
   selectedPassCards: [],
   kingState: null,
   spadesState: null,
+  batakState: null,
+  pistiState: null,
+  bridgeState: null,
   roundScores: [0, 0, 0, 0],
   cumulativeScores: [0, 0, 0, 0],
   pointCardsTaken: [[], [], [], []],
@@ -65,6 +149,8 @@ const initialState: GameState = {
   passTimeoutAt: null,
   contractTimeoutAt: null,
   biddingTimeoutAt: null,
+  dealCommitment: null,
+  revealedDeal: null,
   moonShooter: null,
 };
 
@@ -83,10 +169,18 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         tableId: action.payload.tableId,
         mySeat: action.payload.seat,
         players: action.payload.players,
+        ownerSeat: action.payload.ownerSeat ?? null,
         gameType: action.payload.gameType || 'hearts',
         endingScore: action.payload.endingScore ?? null,
+        seatCount: action.payload.seatCount ?? 4,
+        tableOptions: action.payload.options ?? null,
         kingState: action.payload.gameType === 'king' ? { ...initialKingState } : null,
         spadesState: action.payload.gameType === 'spades' ? { ...initialSpadesState } : null,
+        batakState: action.payload.gameType === 'batak' ? { ...initialBatakState } : null,
+        pistiState: action.payload.gameType === 'pisti' ? { ...initialPistiState } : null,
+        bridgeState: action.payload.gameType === 'bridge' ? { ...initialBridgeState } : null,
+        dealCommitment: null,
+        revealedDeal: null,
         phase: 'waiting',
       };
     
@@ -96,6 +190,9 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         connectionStatus: state.connectionStatus,
         kingState: null,
         spadesState: null,
+        batakState: null,
+        pistiState: null,
+        bridgeState: null,
         turnTimeoutAt: null,
         passTimeoutAt: null,
         contractTimeoutAt: null,
@@ -103,7 +200,15 @@ function gameReducer(state: GameState, action: GameAction): GameState {
       };
     
     case 'UPDATE_PLAYERS':
-      return { ...state, players: action.payload };
+      return { ...state, players: action.payload.players, ownerSeat: action.payload.ownerSeat ?? state.ownerSeat };
+    
+    case 'TABLE_OPTIONS_UPDATED':
+      return {
+        ...state,
+        tableOptions: action.payload.options,
+        endingScore: action.payload.endingScore,
+        seatCount: action.payload.seatCount,
+      };
     
     case 'START_GAME':
       return {
@@ -128,23 +233,16 @@ function gameReducer(state: GameState, action: GameAction): GameState {
     
     case 'UPDATE_GAME': {
       // Don't let updateGame override currentTrick/lastTrick during animation
-      const payload = action.payload as Partial<GameState> & { 
-        gameNumber?: number; 
-        contract?: unknown;
-        teamTricks?: number[];
-        tricksTakenBySeat?: number[];
-        bids?: (number | 'nil' | 'blind_nil' | null)[];
-        spadesBroken?: boolean;
-        bags?: number[];
-      };
+      const payload = action.payload;
       
-      // Update kingState if gameNumber or contract is in payload
+      // Update kingState if gameNumber, totalGames or contract is in payload
       let updatedKingState = state.kingState;
-      if (payload.gameNumber !== undefined || payload.contract !== undefined) {
+      if (state.gameType !== 'bridge' && (payload.gameNumber !== undefined || payload.totalGames !== undefined || payload.contract !== undefined)) {
         const currentKingState = state.kingState || initialKingState;
         updatedKingState = {
           ...currentKingState,
           ...(payload.gameNumber !== undefined ? { gameNumber: payload.gameNumber } : {}),
+          ...(payload.totalGames !== undefined ? { totalGames: payload.totalGames } : {}),
           ...(payload.contract !== undefined ? { selectedContract: payload.contract as KingGameState['selectedContract'] } : {}),
         };
       }
@@ -161,14 +259,50 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         const currentSpadesState = state.spadesState || initialSpadesState;
         updatedSpadesState = {
           ...currentSpadesState,
-          ...(payload.teamTricks !== undefined ? { teamTricks: payload.teamTricks as [number, number] } : {}),
+          ...(payload.teamTricks !== undefined ? { teamTricks: payload.teamTricks as number[] } : {}),
           ...(payload.tricksTakenBySeat !== undefined ? { tricksTakenBySeat: payload.tricksTakenBySeat } : {}),
           ...(payload.bids !== undefined ? { bids: payload.bids } : {}),
           ...(payload.spadesBroken !== undefined ? { spadesBroken: payload.spadesBroken } : {}),
-          ...(payload.bags !== undefined ? { bags: payload.bags as [number, number] } : {}),
+          ...(payload.bags !== undefined ? { bags: payload.bags as number[] } : {}),
+        };
+      }
+      
+      // Update batakState with the tricks and contract of the round being played
+      let updatedBatakState = state.batakState;
+      if (state.gameType === 'batak' && payload.tricksTakenBySeat !== undefined) {
+        const currentBatakState = state.batakState || initialBatakState;
+        updatedBatakState = {
+          ...currentBatakState,
+          tricksTakenBySeat: payload.tricksTakenBySeat,
+          ...(payload.highBid !== undefined ? { highBid: payload.highBid } : {}),
+          ...(payload.declarer !== undefined ? { declarer: payload.declarer } : {}),
+          ...(payload.trumpSuit !== undefined ? { trumpSuit: payload.trumpSuit } : {}),
         };
       }
       
+      // Update pistiState with the table pile and what each side has taken
+      let updatedPistiState = state.pistiState;
+      if (state.gameType === 'pisti' && payload.pile !== undefined) {
+        const currentPistiState = state.pistiState || initialPistiState;
+        updatedPistiState = {
+          ...currentPistiState,
+          pile: payload.pile,
+          ...(payload.stockCount !== undefined ? { stockCount: payload.stockCount } : {}),
+          ...(payload.capturedCounts !== undefined ? { capturedCounts: payload.capturedCounts } : {}),
+          ...(payload.pistis !== undefined ? { pistis: payload.pistis } : {}),
+          ...(payload.lastCapture !== undefined ? { lastCapture: payload.lastCapture } : {}),
+        };
+      }
+      
+      // Update bridgeState with the auction, contract and dummy's cards
+      let updatedBridgeState = state.bridgeState;
+      if (state.gameType === 'bridge' && payload.calls !== undefined) {
+        updatedBridgeState = toBridgeState(payload as Partial<BridgeTableState>, state.bridgeState || initialBridgeState);
+      }
+      
+      // Bridge: the declarer chooses dummy's cards
+      const actingSeat = payload.actingSeat ?? payload.currentPlayer;
+      
       if (state.trickAnimation) {
         // eslint-disable-next-line @typescript-eslint/no-unused-vars
         const { currentTrick: _ct, lastTrick: _lt, teamTricks: _tt, tricksTakenBySeat: _tts, bids: _b, spadesBroken: _sb, bags: _bg, ...safePayload } = payload;
@@ -177,8 +311,11 @@ function gameReducer(state: GameState, action: GameAction): GameState {
           ...safePayload,
           kingState: updatedKingState,
           spadesState: updatedSpadesState,
+          batakState: updatedBatakState,
+          pistiState: updatedPistiState,
+          bridgeState: updatedBridgeState,
           isMyTurn: payload.phase === 'playing' && 
-            payload.currentPlayer === state.mySeat,
+            actingSeat === state.mySeat,
         };
       }
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -188,8 +325,11 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         ...cleanPayload,
         kingState: updatedKingState,
         spadesState: updatedSpadesState,
+        batakState: updatedBatakState,
+        pistiState: updatedPistiState,
+        bridgeState: updatedBridgeState,
         isMyTurn: payload.phase === 'playing' && 
-          payload.currentPlayer === state.mySeat,
+          actingSeat === state.mySeat,
       };
     }
     
@@ -238,13 +378,14 @@ function gameReducer(state: GameState, action: GameAction): GameState {
     case 'SELECT_PASS_CARD': {
       const card = action.payload;
       const isSelected = state.selectedPassCards.some(c => cardEquals(c, card));
+      const limit = state.phase === 'exchanging' ? BLIND_NIL_EXCHANGE_SIZE : 3;
       
       if (isSelected) {
         return {
           ...state,
           selectedPassCards: state.selectedPassCards.filter(c => !cardEquals(c, card)),
         };
-      } else if (state.selectedPassCards.length < 3) {
+      } else if (state.selectedPassCards.length < limit) {
         return {
           ...state,
           selectedPassCards: [...state.selectedPassCards, card],
@@ -264,6 +405,11 @@ function gameReducer(state: GameState, action: GameAction): GameState {
           ? state.hand.filter(c => !cardEquals(c, action.payload.card))
           : state.hand,
         lastPlayedCard: { seat: action.payload.seat, card: action.payload.card },
+        // Bridge: dummy's cards lie face up until played
+        bridgeState: state.bridgeState?.dummyHand && state.bridgeState.dummySeat === action.payload.seat ? {
+          ...state.bridgeState,
+          dummyHand: state.bridgeState.dummyHand.filter(c => !cardEquals(c, action.payload.card)),
+        } : state.bridgeState,
       };
       
       // If trick is complete, mark it but don't start animation yet
@@ -322,13 +468,17 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         cumulativeScores: action.payload.finalScores,
       };
     
-    case 'TURN_START':
+    case 'TURN_START': {
+      // Bridge: on dummy's turn it is the declarer who plays
+      const bridge = state.bridgeState;
+      const actingSeat = bridge && bridge.dummySeat === action.payload.player ? bridge.declarer : action.payload.player;
       return {
         ...state,
         currentPlayer: action.payload.player,
-        isMyTurn: action.payload.player === state.mySeat,
+        isMyTurn: actingSeat === state.mySeat,
         turnTimeoutAt: action.payload.timeoutAt,
       };
+    }
     
     case 'PASS_TIMER_START':
       return {
@@ -363,6 +513,20 @@ function gameReducer(state: GameState, action: GameAction): GameState {
     case 'RESET':
       return { ...initialState, connectionStatus: state.connectionStatus };
     
+    case 'DEAL_COMMITTED':
+      return { ...state, dealCommitment: action.payload };
+    
+    case 'DEAL_REVEALED':
+      // Pair the reveal with the hash published at the deal; kept until the next reveal
+      if (!state.dealCommitment) return state;
+      return {
+        ...state,
+        revealedDeal: { commitment: state.dealCommitment, reveal: action.payload },
+      };
+    
+    case 'SET_ACTION_ERROR':
+      return { ...state, actionError: action.payload };
+    
     // King-specific actions
     case 'CONTRACT_SELECTION_START':
       return {
@@ -374,6 +538,7 @@ function gameReducer(state: GameState, action: GameAction): GameState {
           availableContracts: action.payload.availableContracts,
           selectedContract: null,
           gameNumber: action.payload.gameNumber,
+          ...(action.payload.totalGames !== undefined ? { totalGames: action.payload.totalGames } : {}),
           partyNumber: action.payload.partyNumber,
         },
         isMyTurn: action.payload.selector === state.mySeat,
@@ -410,9 +575,10 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         tableId: action.payload.tableId,
         players: action.payload.players,
         gameType: action.payload.gameType,
+        seatCount: action.payload.seatCount ?? 4,
         isSpectating: true,
         spectatorState: action.payload.gameState,
-        phase: action.payload.gameState.phase,
+        phase: action.payload.gameState?.phase ?? 'waiting',
         mySeat: null, // Spectators don't have a seat
       };
     
@@ -434,8 +600,15 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         spadesState: {
           ...(state.spadesState || initialSpadesState),
           currentBidder: action.payload.currentBidder,
-          bids: [null, null, null, null],
+          bids: Array(state.seatCount).fill(null),
           bidSubmitted: false,
+          exchangeSeats: [],
+          ...(action.payload.sides ? { sides: action.payload.sides } : {}),
+          ...(action.payload.tricksPerRound ? { tricksPerRound: action.payload.tricksPerRound } : {}),
+          ...(action.payload.variants ? { variants: action.payload.variants } : {}),
+          ...(action.payload.rules ? { rules: action.payload.rules } : {}),
+          ...(action.payload.dealerSeat !== undefined ? { dealerSeat: action.payload.dealerSeat } : {}),
+          ...(action.payload.canDeclareBlindNil !== undefined ? { canDeclareBlindNil: action.payload.canDeclareBlindNil } : {}),
         },
         isMyTurn: action.payload.currentBidder === state.mySeat,
       };
@@ -451,6 +624,23 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         isMyTurn: action.payload.nextBidder === state.mySeat,
       };
     
+    case 'BLIND_NIL_EXCHANGE_START':
+      return {
+        ...state,
+        phase: 'exchanging',
+        hand: action.payload.hand,
+        passSubmitted: action.payload.exchangeSubmitted,
+        selectedPassCards: [],
+        isMyTurn: false,
+        spadesState: {
+          ...(state.spadesState || initialSpadesState),
+          exchangeSeats: action.payload.exchangeSeats,
+          bids: action.payload.bids,
+          teamBids: action.payload.teamBids,
+          currentBidder: null,
+        },
+      };
+    
     case 'UPDATE_SPADES_STATE':
       return {
         ...state,
@@ -460,6 +650,185 @@ function gameReducer(state: GameState, action: GameAction): GameState {
         } : null,
       };
     
+    // İhaleli Batak-specific actions
+    case 'AUCTION_START':
+      return {
+        ...state,
+        phase: 'bidding',
+        batakState: {
+          ...initialBatakState,
+          ...action.payload,
+          tricksTakenBySeat: Array(state.seatCount).fill(0),
+        },
+        isMyTurn: action.payload.currentBidder === state.mySeat,
+      };
+    
+    case 'AUCTION_BID':
+      return {
+        ...state,
+        batakState: state.batakState ? {
+          ...state.batakState,
+          bids: action.payload.bids,
+          highBid: action.payload.highBid,
+          currentBidder: action.payload.nextBidder,
+          minimumBid: action.payload.minimumBid,
+          canPass: action.payload.canPass,
+        } : null,
+        isMyTurn: action.payload.nextBidder === state.mySeat,
+      };
+    
+    case 'TRUMP_DECLARATION_START':
+      return {
+        ...state,
+        phase: 'declaring',
+        batakState: state.batakState ? {
+          ...state.batakState,
+          currentBidder: null,
+          declarer: action.payload.declarer,
+          highBid: action.payload.contract,
+        } : null,
+        isMyTurn: action.payload.declarer === state.mySeat,
+      };
+    
+    case 'TRUMP_DECLARED':
+      return {
+        ...state,
+        phase: 'playing',
+        batakState: state.batakState ? {
+          ...state.batakState,
+          declarer: action.payload.declarer,
+          highBid: action.payload.contract,
+          trumpSuit: action.payload.trumpSuit,
+        } : null,
+      };
+    
+    case 'UPDATE_BATAK_STATE':
+      return {
+        ...state,
+        batakState: state.batakState ? {
+          ...state.batakState,
+          ...action.payload,
+        } : null,
+      };
+    
+    // Pişti-specific actions
+    case 'PISTI_DEAL':
+      return {
+        ...state,
+        phase: 'playing',
+        hand: action.payload.hand,
+        legalCards: action.payload.legalCards,
+        currentPlayer: action.payload.currentPlayer,
+        isMyTurn: action.payload.currentPlayer === state.mySeat,
+        roundNumber: action.payload.roundNumber,
+        cumulativeScores: action.payload.cumulativeScores,
+        endingScore: action.payload.endingScore,
+        pistiState: {
+          dealerSeat: action.payload.dealerSeat,
+          pile: action.payload.pile,
+          stockCount: action.payload.stockCount,
+          handNumber: action.payload.handNumber,
+          sides: action.payload.sides,
+          capturedCounts: action.payload.capturedCounts,
+          pistis: action.payload.pistis,
+          lastCapture: action.payload.lastCapture,
+          variants: action.payload.variants,
+        },
+      };
+    
+    case 'PISTI_CARD_PLAYED':
+      return {
+        ...state,
+        hand: state.mySeat === action.payload.seat
+          ? state.hand.filter(c => !cardEquals(c, action.payload.card))
+          : state.hand,
+        lastPlayedCard: { seat: action.payload.seat, card: action.payload.card },
+        // The next turn starts once the server has shown the pile
+        isMyTurn: false,
+        legalCards: [],
+        pistiState: state.pistiState ? {
+          ...state.pistiState,
+          pile: action.payload.pile,
+          stockCount: action.payload.stockCount,
+          capturedCounts: action.payload.capturedCounts,
+          pistis: action.payload.pistis,
+          ...(action.payload.captured ? {
+            lastCapture: {
+              seat: action.payload.seat,
+              card: action.payload.card,
+              count: action.payload.captured.length,
+              pistiPoints: action.payload.pistiPoints,
+            },
+          } : {}),
+        } : null,
+      };
+    
+    case 'UPDATE_PISTI_STATE':
+      return {
+        ...state,
+        pistiState: state.pistiState ? {
+          ...state.pistiState,
+          ...action.payload,
+        } : null,
+      };
+    
+    // Bridge-specific actions
+    case 'BRIDGE_AUCTION_START':
+      return {
+        ...state,
+        phase: action.payload.phase,
+        hand: action.payload.hand,
+        legalCards: action.payload.legalCards,
+        illegalCards: action.payload.illegalCards,
+        currentPlayer: action.payload.currentPlayer,
+        isMyTurn: action.payload.phase === 'bidding'
+          ? action.payload.currentPlayer === state.mySeat
+          : action.payload.actingSeat === state.mySeat,
+        roundNumber: action.payload.roundNumber,
+        currentTrick: action.payload.currentTrick,
+        lastTrick: action.payload.lastTrick,
+        roundScores: action.payload.roundScores,
+        cumulativeScores: action.payload.cumulativeScores,
+        bridgeState: toBridgeState(action.payload, initialBridgeState),
+      };
+    
+    case 'BRIDGE_CALL':
+      return {
+        ...state,
+        bridgeState: state.bridgeState ? {
+          ...state.bridgeState,
+          calls: action.payload.calls,
+          highestBid: action.payload.highestBid,
+          currentBidder: action.payload.nextBidder,
+          canDouble: action.payload.canDouble,
+          canRedouble: action.payload.canRedouble,
+        } : null,
+        isMyTurn: action.payload.nextBidder === state.mySeat,
+      };
+    
+    case 'BRIDGE_PLAY_START':
+      return {
+        ...state,
+        phase: 'playing',
+        currentPlayer: action.payload.currentPlayer,
+        bridgeState: state.bridgeState ? {
+          ...state.bridgeState,
+          currentBidder: null,
+          contract: action.payload.contract,
+          declarer: action.payload.declarer,
+          dummySeat: action.payload.dummySeat,
+        } : null,
+      };
+    
+    case 'UPDATE_BRIDGE_STATE':
+      return {
+        ...state,
+        bridgeState: state.bridgeState ? {
+          ...state.bridgeState,
+          ...action.payload,
+        } : null,
+      };
+    
     default:
       return state;
   }
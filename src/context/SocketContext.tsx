@@ -1,8 +1,10 @@
 import { createContext, useContext, useEffect, useState, useRef, type ReactNode } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { io, type Socket } from 'socket.io-client';
 import { useGame } from './GameContext';
-import type { Card, TrickCard, Player, PassDirection, GamePhase, GameType, KingContract } from '../types/game';
+import type { Card, TrickCard, GameType, KingContract, KingSelectedContract, BotDifficulty, CreateTableOptions, BridgeCall } from '../types/game';
+import type { ServerToClientEvents, ClientToServerEvents } from '../types/protocol';
 import { playAssetSound, preloadSoundAssets } from '../utils/sounds';
+import { isGameErrorCode } from '../utils/gameErrors';
 
 // Preload sound assets on module load
 preloadSoundAssets();
@@ -585,11 +587,16 @@ export function playMoonShotSound() {
 let isFirstRound = true;
 
 interface SocketContextType {
-  socket: Socket | null;
+  socket: GameSocket | null;
   isConnected: boolean;
-  createTable: (playerName: string, gameType?: GameType, options?: { endingScore?: number }) => void;
+  createTable: (playerName: string, gameType?: GameType, options?: CreateTableOptions) => void;
   joinTable: (tableId: string, playerName: string) => void;
   leaveTable: () => void;
+  addBot: (seat?: number, difficulty?: BotDifficulty) => void;
+  removeBot: (seat: number) => void;
+  setReady: (ready: boolean) => void;
+  startTableGame: () => void;
+  updateTableOptions: (options: CreateTableOptions) => void;
   listTables: (includeInProgress?: boolean) => void;
   spectateTable: (tableId: string, playerName?: string) => void;
   leaveSpectate: () => void;
@@ -600,9 +607,44 @@ interface SocketContextType {
   sendChatMessage: (text: string) => void;
   setTyping: (isTyping: boolean) => void;
   // King-specific
-  selectContract: (contractType: string, trumpSuit?: string) => void;
-  // Spades-specific
-  submitBid: (bid: number | 'nil' | 'blind_nil') => void;
+  selectContract: (contractType: string, trumpSuit?: Card['suit']) => void;
+  // Spades-specific (İhaleli Batak and Bridge calls go through submitBid too)
+  submitBid: (bid: number | 'nil' | 'blind_nil' | 'pass' | BridgeCall) => void;
+  submitBlindNilExchange: (cards: Card[]) => void;
+  // İhaleli Batak-specific
+  declareTrump: (trumpSuit: Card['suit']) => void;
+}
+
+type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Reconnect token for the seat we hold, kept per tab so a refresh can take the seat back
+const SESSION_KEY = 'gonul.session';
+
+function loadSession(): { tableId: string; token: string } | null {
+  try {
+    const raw = sessionStorage.getItem(SESSION_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+}
+
+function saveSession(tableId: string, token: string) {
+  sessionStorage.setItem(SESSION_KEY, JSON.stringify({ tableId, token }));
+}
+
+function clearSession() {
+  sessionStorage.removeItem(SESSION_KEY);
+}
+
+// The server announces a King contract as { type: 'penalty' | 'trump', name?, trumpSuit? }
+function toKingContract(contract: KingSelectedContract): KingContract {
+  return {
+    type: contract.type as KingContract['type'],
+    trumpSuit: contract.trumpSuit,
+    name: contract.name,
+    label: contract.name || contract.type,
+  };
 }
 
 // Track if the most recent round end had a moon shot (for sound management)
@@ -611,7 +653,7 @@ let lastRoundHadMoonShot = false;
 const SocketContext = createContext<SocketContextType | null>(null);
 
 export function SocketProvider({ children }: { children: ReactNode }) {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const { state, dispatch } = useGame();
   
@@ -628,7 +670,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       ? (import.meta.env.VITE_SOCKET_URL || window.location.origin)
       : 'http://localhost:3000';
     
-    const newSocket = io(socketUrl, {
+    const newSocket: GameSocket = io(socketUrl, {
       reconnection: true,
       reconnectionDelay: 1000,
       reconnectionDelayMax: 5000,
@@ -642,58 +684,87 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       setIsConnected(true);
       dispatch({ type: 'SET_CONNECTION_STATUS', payload: 'connected' });
       console.log('Socket connected');
+      
+      // After a refresh, a reconnect or a server restart the server no longer knows this socket: take our seat back
+      const session = loadSession();
+      if (session) {
+        newSocket.emit('rejoinTable', session);
+      }
     });
 
-    newSocket.on('disconnect', (reason: string) => {
+    newSocket.on('disconnect', (reason) => {
       setIsConnected(false);
       dispatch({ type: 'SET_CONNECTION_STATUS', payload: 'disconnected' });
       console.log('Socket disconnected:', reason);
     });
 
-    newSocket.on('connect_error', (error: Error) => {
+    newSocket.on('connect_error', (error) => {
       console.error('Socket connection error:', error);
     });
 
-    newSocket.on('reconnect_attempt', () => {
+    newSocket.io.on('reconnect_attempt', () => {
       console.log('Attempting to reconnect...');
     });
 
-    newSocket.on('reconnect', () => {
+    newSocket.io.on('reconnect', () => {
       console.log('Socket reconnected successfully');
       setIsConnected(true);
       dispatch({ type: 'SET_CONNECTION_STATUS', payload: 'connected' });
     });
 
-    newSocket.on('error', (data: { message: string }) => {
-      console.error('Socket error:', data.message);
+    newSocket.on('error', (data) => {
+      // Payloads the server rejected as malformed come with a code and the offending field
+      console.error('Socket error:', data.message, ...(data.code ? [data.code, data.event, data.field] : []));
+      // Refused game moves are explained to the player by the hand
+      if (isGameErrorCode(data.code)) {
+        dispatch({ type: 'SET_ACTION_ERROR', payload: data.code });
+      }
     });
 
     // Table events
-    newSocket.on('tableJoined', (data: { tableId: string; seat: number; players: Player[]; gameType?: GameType }) => {
+    newSocket.on('tableJoined', (data) => {
+      if (data.reconnectToken) {
+        saveSession(data.tableId, data.reconnectToken);
+      }
       dispatch({ type: 'JOIN_TABLE', payload: data });
     });
 
-    newSocket.on('spectateJoined', (data: { tableId: string; players: Player[]; gameType: GameType; gameState: import('../types/game').SpectatorGameState }) => {
+    newSocket.on('rejoinFailed', (data) => {
+      console.log('Rejoin failed:', data.message);
+      clearSession();
+      if (stateRef.current.tableId && !stateRef.current.isSpectating) {
+        dispatch({ type: 'LEAVE_TABLE' });
+      }
+    });
+
+    newSocket.on('spectateJoined', (data) => {
       dispatch({ type: 'SPECTATE_JOIN', payload: data });
     });
 
-    newSocket.on('spectatorUpdate', (data: { gameState?: import('../types/game').SpectatorGameState; spectatorCount?: number }) => {
+    newSocket.on('spectatorUpdate', (data) => {
       if (stateRef.current.isSpectating && data.gameState) {
         dispatch({ type: 'SPECTATE_UPDATE', payload: data });
       }
     });
 
-    newSocket.on('updatePlayers', (data: { players: Player[] }) => {
-      dispatch({ type: 'UPDATE_PLAYERS', payload: data.players });
+    newSocket.on('updatePlayers', (data) => {
+      dispatch({ type: 'UPDATE_PLAYERS', payload: data });
+    });
+
+    newSocket.on('tableOptionsUpdated', (data) => {
+      dispatch({ type: 'TABLE_OPTIONS_UPDATED', payload: data });
     });
 
     newSocket.on('tableClosed', () => {
+      clearSession();
       dispatch({ type: 'LEAVE_TABLE' });
     });
 
     // Game events
-    newSocket.on('startGame', (data: { hand: Card[]; passDirection: PassDirection; phase: GamePhase; currentPlayer: number }) => {
+    // Every deal is acknowledged once it is in the state; the server holds the round's timer until then
+    newSocket.on('startGame', (data) => {
       dispatch({ type: 'START_GAME', payload: data });
+      newSocket.emit('dealAck');
       // Play fanfare only on first round of a fresh game, then dealing sound
       if (isFirstRound) {
         playGameStartSound();
@@ -706,7 +777,12 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       }
     });
 
-    newSocket.on('updateGame', (data: Partial<import('../types/game').GameState>) => {
+    // Deal verification: hash published at the deal, deck and salt revealed at round end
+    newSocket.on('dealCommitment', (data) => {
+      dispatch({ type: 'DEAL_COMMITTED', payload: data });
+    });
+
+    newSocket.on('updateGame', (data) => {
       dispatch({ type: 'UPDATE_GAME', payload: data });
     });
 
@@ -714,16 +790,16 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       dispatch({ type: 'PASS_SUBMITTED' });
     });
 
-    newSocket.on('cardsReceived', (data: { hand: Card[]; phase: GamePhase; currentPlayer: number; cardsPassed?: Card[]; cardsReceived?: Card[] }) => {
+    newSocket.on('cardsReceived', (data) => {
       dispatch({ type: 'CARDS_RECEIVED', payload: data });
     });
 
-    newSocket.on('cardPlayed', (data: { seat: number; card: Card; currentTrick: TrickCard[]; trickComplete?: boolean; winner?: number | null }) => {
+    newSocket.on('cardPlayed', (data) => {
       dispatch({ type: 'CARD_PLAYED', payload: data });
       playCardFlickSound();
     });
 
-    newSocket.on('trickEnd', (data: { winner: number; points: number; lastTrick: TrickCard[] }) => {
+    newSocket.on('trickEnd', (data) => {
       dispatch({ type: 'TRICK_END', payload: data });
       
       // Play trick win sound only for the winner (not in Spades)
@@ -737,8 +813,11 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       }
     });
 
-    newSocket.on('roundEnd', (data: { roundScores: number[]; cumulativeScores: number[]; moonShooter: number | null; gameOver: boolean; gameWinner: number | null; pointCardsTaken: Card[][] }) => {
+    newSocket.on('roundEnd', (data) => {
       dispatch({ type: 'ROUND_END', payload: data });
+      if (data.dealReveal) {
+        dispatch({ type: 'DEAL_REVEALED', payload: data.dealReveal });
+      }
       
       // Track if this round had a moon shot
       lastRoundHadMoonShot = data.moonShooter !== null;
@@ -752,18 +831,26 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       }
     });
 
-    newSocket.on('gameEnd', (data: { winner: number; finalScores: number[] }) => {
+    newSocket.on('gameEnd', (data) => {
       dispatch({ type: 'GAME_END', payload: data });
       // Reset flag so next game gets the fanfare
       isFirstRound = true;
       
-      // Play victory or defeat sound based on whether this player tied for lowest score
-      // BUT: Don't play if the last round had a moon shot (sound already played)
+      // Play victory or defeat sound based on whether this player tied for the best score
+      // (lowest, or highest in İhaleli Batak)
+      // BUT: Don't play if the last round had a moon shot (sound already played),
+      // or in Pişti and Bridge, which score by side and play their sound on the round end
       const currentState = stateRef.current;
-      const lowestScore = Math.min(...data.finalScores);
+      if (currentState.gameType === 'pisti' || currentState.gameType === 'bridge') {
+        lastRoundHadMoonShot = false;
+        return;
+      }
+      const bestScore = currentState.gameType === 'batak'
+        ? Math.max(...data.finalScores)
+        : Math.min(...data.finalScores);
       if (currentState.mySeat !== null && !lastRoundHadMoonShot) {
         const myScore = data.finalScores[currentState.mySeat];
-        if (myScore === lowestScore) {
+        if (myScore === bestScore) {
           playVictorySound();
         } else {
           playDefeatSound();
@@ -773,27 +860,27 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       lastRoundHadMoonShot = false;
     });
 
-    newSocket.on('turnStart', (data: { player: number; timeoutAt: number }) => {
+    newSocket.on('turnStart', (data) => {
       dispatch({ type: 'TURN_START', payload: data });
     });
 
-    newSocket.on('passTimerStart', (data: { timeoutAt: number }) => {
+    newSocket.on('passTimerStart', (data) => {
       dispatch({ type: 'PASS_TIMER_START', payload: data });
     });
 
-    newSocket.on('selectTimerStart', (data: { timeoutAt: number; selectorSeat: number }) => {
+    newSocket.on('selectTimerStart', (data) => {
       dispatch({ type: 'CONTRACT_TIMER_START', payload: { timeoutAt: data.timeoutAt } });
     });
 
-    newSocket.on('bidTimerStart', (data: { player: number; timeoutAt: number }) => {
+    newSocket.on('bidTimerStart', (data) => {
       dispatch({ type: 'BIDDING_TIMER_START', payload: { timeoutAt: data.timeoutAt } });
     });
 
-    newSocket.on('autoPlay', (data: { card: Card }) => {
+    newSocket.on('autoPlay', (data) => {
       console.log('Auto-played card:', data.card);
     });
 
-    newSocket.on('autoPassSubmitted', (data: { cards: Card[] }) => {
+    newSocket.on('autoPassSubmitted', (data) => {
       console.log('Auto-pass submitted:', data.cards);
       dispatch({ type: 'PASS_SUBMITTED' });
     });
@@ -804,18 +891,12 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     });
 
     // Rematch events
-    newSocket.on('rematchStatus', (data: { votes: Record<number, boolean> }) => {
+    newSocket.on('rematchStatus', (data) => {
       dispatch({ type: 'REMATCH_STATUS', payload: data.votes });
     });
 
     // King-specific events
-    newSocket.on('contractSelectionStart', (data: { 
-      selector: number; 
-      availableContracts: KingContract[]; 
-      gameNumber: number; 
-      partyNumber: number;
-      hand: Card[];
-    }) => {
+    newSocket.on('contractSelectionStart', (data) => {
       // First update hand, then start contract selection
       dispatch({ type: 'UPDATE_GAME', payload: { hand: data.hand } });
       dispatch({ 
@@ -824,9 +905,11 @@ export function SocketProvider({ children }: { children: ReactNode }) {
           selector: data.selector,
           availableContracts: data.availableContracts,
           gameNumber: data.gameNumber,
+          totalGames: data.totalGames,
           partyNumber: data.partyNumber,
         }
       });
+      newSocket.emit('dealAck');
       // Play dealing sound on first game
       if (data.gameNumber === 1 && isFirstRound) {
         // Just play dealing sound, game start sound plays after contract is selected
@@ -836,11 +919,8 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       }
     });
 
-    newSocket.on('contractSelected', (data: { 
-      contract: KingContract;
-      gameNumber?: number;
-    }) => {
-      dispatch({ type: 'CONTRACT_SELECTED', payload: data });
+    newSocket.on('contractSelected', (data) => {
+      dispatch({ type: 'CONTRACT_SELECTED', payload: { contract: toKingContract(data.contract) } });
       // Play game start sound only after the very first contract is selected
       if (data.gameNumber === 1 && isFirstRound) {
         playGameStartSound();
@@ -848,44 +928,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       }
     });
 
-    newSocket.on('kingGameStart', (data: { 
-      currentPlayer: number; 
-      legalCards: Card[];
-      contract: KingContract;
-    }) => {
-      dispatch({ 
-        type: 'UPDATE_GAME', 
-        payload: { 
-          phase: 'playing', 
-          currentPlayer: data.currentPlayer,
-          legalCards: data.legalCards,
-        } 
-      });
-      dispatch({ type: 'CONTRACT_SELECTED', payload: { contract: data.contract } });
-    });
-
-    newSocket.on('kingRoundEnd', (data: { 
-      roundScores: number[]; 
-      cumulativeScores: number[]; 
-      gameOver: boolean;
-      partyScores?: number[];
-      pointCardsTaken: Card[][];
-    }) => {
-      dispatch({ type: 'ROUND_END', payload: { ...data, moonShooter: null, gameWinner: null } });
-      if (data.partyScores) {
-        dispatch({ type: 'UPDATE_KING_STATE', payload: { partyScores: data.partyScores } });
-      }
-    });
-
-    newSocket.on('kingGameEnd', (data: {
-      gameScores: number[];
-      cumulativeScores: number[];
-      partyOver: boolean;
-      winners?: number[];
-      penaltyCardsTaken: Card[][];
-      contract: { type: string; name?: string; trumpSuit?: string };
-      gameNumber: number;
-    }) => {
+    newSocket.on('kingGameEnd', (data) => {
       dispatch({ 
         type: 'ROUND_END', 
         payload: { 
@@ -901,68 +944,58 @@ export function SocketProvider({ children }: { children: ReactNode }) {
         type: 'UPDATE_KING_STATE', 
         payload: { 
           gameNumber: data.gameNumber,
-          selectedContract: {
-            type: data.contract.type as KingContract['type'],
-            trumpSuit: data.contract.trumpSuit as KingContract['trumpSuit'],
-            name: data.contract.name,
-            label: data.contract.name || data.contract.type,
-          },
+          selectedContract: toKingContract(data.contract),
         } 
       });
+      if (data.dealReveal) {
+        dispatch({ type: 'DEAL_REVEALED', payload: data.dealReveal });
+      }
     });
 
     // Spades-specific events
-    newSocket.on('biddingStart', (data: {
-      hand: Card[];
-      currentBidder: number;
-      roundNumber: number;
-    }) => {
+    newSocket.on('biddingStart', (data) => {
       dispatch({ type: 'START_GAME', payload: { 
         hand: data.hand, 
         passDirection: 'hold', 
         phase: 'bidding', 
         currentPlayer: data.currentBidder 
       }});
-      dispatch({ type: 'BIDDING_START', payload: { currentBidder: data.currentBidder } });
+      dispatch({ type: 'BIDDING_START', payload: {
+        currentBidder: data.currentBidder,
+        sides: data.sides,
+        tricksPerRound: data.tricksPerRound,
+        variants: data.variants,
+        rules: data.rules,
+        dealerSeat: data.dealerSeat,
+        canDeclareBlindNil: data.canDeclareBlindNil,
+      }});
+      newSocket.emit('dealAck');
       // Play dealing sound on all rounds
       playCardDealingSound();
     });
 
-    newSocket.on('bidSubmitted', (data: {
-      seat: number;
-      bid: number | 'nil' | 'blind_nil';
-      bids: (number | 'nil' | 'blind_nil' | null)[];
-      nextBidder: number | null;
-    }) => {
+    newSocket.on('bidSubmitted', (data) => {
       dispatch({ type: 'BID_SUBMITTED', payload: data });
     });
 
-    newSocket.on('bidsUpdate', (data: {
-      bids: (number | 'nil' | 'blind_nil' | null)[];
-      currentBidder: number | null;
-      teamBids?: number[];
-    }) => {
+    newSocket.on('bidsUpdate', (data) => {
       dispatch({ type: 'BID_SUBMITTED', payload: {
-        seat: data.currentBidder ?? 0,
-        bid: 0,
         bids: data.bids,
         nextBidder: data.currentBidder,
       }});
       // Update team bids if provided
       if (data.teamBids) {
         dispatch({ type: 'UPDATE_SPADES_STATE', payload: {
-          teamBids: data.teamBids as [number, number],
+          teamBids: data.teamBids,
         }});
       }
     });
 
-    newSocket.on('spadesGameStart', (data: {
-      currentPlayer: number;
-      legalCards: Card[];
-      bids: (number | 'nil' | 'blind_nil' | null)[];
-      teamBids: number[];
-      cumulativeScores: number[];
-    }) => {
+    newSocket.on('blindNilExchangeStart', (data) => {
+      dispatch({ type: 'BLIND_NIL_EXCHANGE_START', payload: data });
+    });
+
+    newSocket.on('spadesGameStart', (data) => {
       console.log('spadesGameStart received:', data);
       dispatch({ type: 'UPDATE_GAME', payload: {
         phase: 'playing',
@@ -972,7 +1005,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       }});
       dispatch({ type: 'UPDATE_SPADES_STATE', payload: {
         bids: data.bids,
-        teamBids: data.teamBids as [number, number],
+        teamBids: data.teamBids,
       }});
       // Play game start sound only on first round
       if (isFirstRound) {
@@ -981,37 +1014,198 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       }
     });
 
-    newSocket.on('spadesRoundEnd', (data: {
-      roundScores: number[];
-      teamScores: number[];
-      bags: number[];
-      tricksTaken: number[];
-      bids: (number | 'nil' | 'blind_nil' | null)[];
-      gameOver: boolean;
-      winners?: number[];
-      roundNumber: number;
-    }) => {
+    newSocket.on('spadesRoundEnd', (data) => {
       dispatch({ type: 'ROUND_END', payload: {
         roundScores: data.roundScores,
         cumulativeScores: data.teamScores,
         pointCardsTaken: [[], [], [], []],
         moonShooter: null,
         gameOver: data.gameOver,
-        gameWinner: data.winners?.[0] ?? null,
+        gameWinner: data.gameWinnerTeam,
       }});
       dispatch({ type: 'UPDATE_SPADES_STATE', payload: {
-        bags: data.bags as [number, number],
+        bags: data.bags,
         tricksTakenBySeat: data.tricksTaken,
+        ...(data.rules ? { rules: data.rules } : {}),
       }});
+      if (data.dealReveal) {
+        dispatch({ type: 'DEAL_REVEALED', payload: data.dealReveal });
+      }
       // Reset flag if game over
       if (data.gameOver) {
         isFirstRound = true;
         // Play victory or defeat sound
         const currentState = stateRef.current;
+        if (currentState.mySeat !== null) {
+          const sides = currentState.spadesState?.sides ?? [[0, 2], [1, 3]];
+          const myTeam = sides.findIndex(side => side.includes(currentState.mySeat!));
+          const bestOther = Math.max(...data.teamScores.filter((_, team) => team !== myTeam));
+          if (data.teamScores[myTeam] > bestOther) {
+            playVictorySound();
+          } else {
+            playDefeatSound();
+          }
+        }
+      }
+    });
+
+    // İhaleli Batak-specific events
+    newSocket.on('auctionStart', (data) => {
+      dispatch({ type: 'START_GAME', payload: { 
+        hand: data.hand, 
+        passDirection: 'hold', 
+        phase: 'bidding', 
+        currentPlayer: data.currentBidder ?? 0 
+      }});
+      dispatch({ type: 'AUCTION_START', payload: {
+        currentBidder: data.currentBidder,
+        bids: data.bids,
+        highBid: data.highBid,
+        minimumBid: data.minimumBid,
+        canPass: data.canPass,
+        dealerSeat: data.dealerSeat,
+      }});
+      newSocket.emit('dealAck');
+      playCardDealingSound();
+    });
+
+    newSocket.on('auctionBid', (data) => {
+      dispatch({ type: 'AUCTION_BID', payload: data });
+    });
+
+    newSocket.on('trumpDeclarationStart', (data) => {
+      dispatch({ type: 'TRUMP_DECLARATION_START', payload: data });
+    });
+
+    newSocket.on('trumpDeclared', (data) => {
+      dispatch({ type: 'TRUMP_DECLARED', payload: data });
+      // Play game start sound only on first round
+      if (isFirstRound) {
+        playGameStartSound();
+        isFirstRound = false;
+      }
+    });
+
+    newSocket.on('batakRoundEnd', (data) => {
+      dispatch({ type: 'ROUND_END', payload: {
+        roundScores: data.roundScores,
+        cumulativeScores: data.cumulativeScores,
+        pointCardsTaken: [[], [], [], []],
+        moonShooter: null,
+        gameOver: data.gameOver,
+        gameWinner: data.gameWinner,
+      }});
+      dispatch({ type: 'UPDATE_BATAK_STATE', payload: {
+        tricksTakenBySeat: data.tricksTaken,
+        made: data.made,
+      }});
+    });
+
+    // Pişti-specific events
+
+    newSocket.on('pistiDeal', (data) => {
+      // Every deal of four cards (and a reconnect) brings a fresh hand
+      dispatch({ type: 'START_GAME', payload: {
+        hand: data.hand,
+        passDirection: 'hold',
+        phase: 'playing',
+        currentPlayer: data.currentPlayer,
+      }});
+      dispatch({ type: 'PISTI_DEAL', payload: data });
+      newSocket.emit('dealAck');
+      if (isFirstRound) {
+        playGameStartSound();
+        isFirstRound = false;
+        setTimeout(() => playCardDealingSound(), 500);
+      } else {
+        playCardDealingSound();
+      }
+    });
+
+    newSocket.on('pistiCardPlayed', (data) => {
+      dispatch({ type: 'PISTI_CARD_PLAYED', payload: data });
+      playCardFlickSound();
+    });
+
+    newSocket.on('pistiRoundEnd', (data) => {
+      dispatch({ type: 'ROUND_END', payload: {
+        roundScores: data.roundScores,
+        cumulativeScores: data.teamScores,
+        pointCardsTaken: [[], [], [], []],
+        moonShooter: null,
+        gameOver: data.gameOver,
+        gameWinner: data.gameWinnerTeam,
+      }});
+      dispatch({ type: 'UPDATE_PISTI_STATE', payload: {
+        pile: [],
+        capturedCounts: data.cardCounts,
+        pistis: data.pistis,
+      }});
+      if (data.gameOver) {
+        isFirstRound = true;
+        // Play victory or defeat sound for this player's side
+        const currentState = stateRef.current;
+        if (currentState.mySeat !== null) {
+          const sides = currentState.pistiState?.sides ?? [[0, 2], [1, 3]];
+          const myTeam = sides.findIndex(side => side.includes(currentState.mySeat!));
+          if (data.gameWinnerTeam === myTeam) {
+            playVictorySound();
+          } else {
+            playDefeatSound();
+          }
+        }
+      }
+    });
+
+    // Bridge-specific events
+    newSocket.on('bridgeAuctionStart', (data) => {
+      // A new board, or the whole table again on reconnect
+      dispatch({ type: 'START_GAME', payload: {
+        hand: data.hand,
+        passDirection: 'hold',
+        phase: data.phase,
+        currentPlayer: data.currentPlayer,
+      }});
+      dispatch({ type: 'BRIDGE_AUCTION_START', payload: data });
+      newSocket.emit('dealAck');
+      playCardDealingSound();
+    });
+
+    newSocket.on('bridgeCall', (data) => {
+      dispatch({ type: 'BRIDGE_CALL', payload: data });
+    });
+
+    newSocket.on('bridgePlayStart', (data) => {
+      dispatch({ type: 'BRIDGE_PLAY_START', payload: data });
+      // Play game start sound only on first round
+      if (isFirstRound) {
+        playGameStartSound();
+        isFirstRound = false;
+      }
+    });
+
+    newSocket.on('bridgeRoundEnd', (data) => {
+      dispatch({ type: 'ROUND_END', payload: {
+        roundScores: data.roundScores,
+        cumulativeScores: data.teamScores,
+        pointCardsTaken: [[], [], [], []],
+        moonShooter: null,
+        gameOver: data.gameOver,
+        gameWinner: data.gameWinnerTeam,
+      }});
+      dispatch({ type: 'UPDATE_BRIDGE_STATE', payload: {
+        sideTricks: data.sideTricks,
+        gamesWon: data.gamesWon,
+        belowLine: data.belowLine,
+        dummyHand: null,
+      }});
+      if (data.gameOver) {
+        isFirstRound = true;
+        // Play victory or defeat sound for this player's side
+        const currentState = stateRef.current;
         if (currentState.mySeat !== null) {
           const myTeam = currentState.mySeat % 2;
-          const otherTeam = 1 - myTeam;
-          if (data.teamScores[myTeam] > data.teamScores[otherTeam]) {
+          if (data.gameWinnerTeam === myTeam) {
             playVictorySound();
           } else {
             playDefeatSound();
@@ -1045,7 +1239,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     };
   }, [dispatch]);
 
-  const createTable = (playerName: string, gameType: GameType = 'hearts', options: { endingScore?: number } = {}) => {
+  const createTable = (playerName: string, gameType: GameType = 'hearts', options: CreateTableOptions = {}) => {
     socket?.emit('createTable', { playerName, gameType, options });
   };
 
@@ -1055,11 +1249,32 @@ export function SocketProvider({ children }: { children: ReactNode }) {
 
   const leaveTable = () => {
     socket?.emit('leaveTable');
+    clearSession();
     dispatch({ type: 'LEAVE_TABLE' });
     // Reset flag so next game gets the fanfare
     isFirstRound = true;
   };
 
+  const addBot = (seat?: number, difficulty?: BotDifficulty) => {
+    socket?.emit('addBot', { seat, difficulty });
+  };
+
+  const removeBot = (seat: number) => {
+    socket?.emit('removeBot', { seat });
+  };
+
+  const setReady = (ready: boolean) => {
+    socket?.emit('setReady', { ready });
+  };
+
+  const startTableGame = () => {
+    socket?.emit('startTableGame');
+  };
+
+  const updateTableOptions = (options: CreateTableOptions) => {
+    socket?.emit('updateTableOptions', { options });
+  };
+
   const listTables = (includeInProgress = false) => {
     socket?.emit('listTables', { includeInProgress });
   };
@@ -1098,7 +1313,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
   };
 
   // King-specific
-  const selectContract = (contractType: string, trumpSuit?: string) => {
+  const selectContract = (contractType: string, trumpSuit?: Card['suit']) => {
     // If it's 'trump', send as trump type; otherwise it's a penalty contract name
     if (contractType === 'trump') {
       socket?.emit('selectContract', { contractType: 'trump', trumpSuit });
@@ -1108,10 +1323,19 @@ export function SocketProvider({ children }: { children: ReactNode }) {
   };
 
   // Spades-specific
-  const submitBid = (bid: number | 'nil' | 'blind_nil') => {
+  const submitBid = (bid: number | 'nil' | 'blind_nil' | 'pass' | BridgeCall) => {
     socket?.emit('submitBid', { bid });
   };
 
+  const submitBlindNilExchange = (cards: Card[]) => {
+    socket?.emit('submitBlindNilExchange', { cards });
+  };
+
+  // İhaleli Batak-specific
+  const declareTrump = (trumpSuit: Card['suit']) => {
+    socket?.emit('declareTrump', { trumpSuit });
+  };
+
   return (
     <SocketContext.Provider value={{
       socket,
@@ -1119,6 +1343,11 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       createTable,
       joinTable,
       leaveTable,
+      addBot,
+      removeBot,
+      setReady,
+      startTableGame,
+      updateTableOptions,
       listTables,
       spectateTable,
       leaveSpectate,
@@ -1130,6 +1359,8 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       setTyping,
       selectContract,
       submitBid,
+      submitBlindNilExchange,
+      declareTrump,
     }}>
       {children}
     </SocketContext.Provider>
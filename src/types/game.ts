@@ -1,6 +1,6 @@
 export interface Card {
   suit: 'hearts' | 'diamonds' | 'clubs' | 'spades';
-  rank: '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A';
+  rank: '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K' | 'A' | 'LJ' | 'BJ';
   display: string;
 }
 
@@ -13,8 +13,13 @@ export interface Player {
   name: string;
   seat: number;
   connected: boolean;
+  isBot?: boolean;
+  difficulty?: BotDifficulty;
+  ready?: boolean; // Waiting room; bots are always ready
 }
 
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
 export interface ChatMessage {
   from: string;
   seat: number;
@@ -22,12 +27,27 @@ export interface ChatMessage {
   timestamp: number;
 }
 
-export type GameType = 'hearts' | 'king' | 'spades';
+export type GameType = 'hearts' | 'king' | 'spades' | 'batak' | 'pisti' | 'bridge';
 
-export type GamePhase = 'waiting' | 'passing' | 'bidding' | 'contractSelection' | 'playing' | 'roundEnd' | 'gameEnd';
+export type GamePhase = 'waiting' | 'passing' | 'bidding' | 'exchanging' | 'contractSelection' | 'declaring' | 'playing' | 'roundEnd' | 'gameEnd';
 
 export type PassDirection = 'left' | 'right' | 'across' | 'hold';
 
+// Hearts table rule variants (mirrors HEARTS_VARIANT_DEFAULTS on the server)
+export interface HeartsVariants {
+  jackOfDiamonds: boolean;      // Omnibus: J♦ scores -10
+  passing: 'cycle' | 'always' | 'none';
+  heartsLeadAnytime: boolean;
+  firstTrickPoints: boolean;
+  moonShot: 'auto' | 'add' | 'subtract';
+}
+
+export interface CreateTableOptions {
+  endingScore?: number;
+  variants?: HeartsVariants | SpadesVariants | KingVariants | PistiVariants | BridgeVariants;
+  rules?: Partial<SpadesRules>;
+}
+
 // King-specific types
 export type KingContractType = 
   | 'elAlmaz' 
@@ -47,6 +67,22 @@ export interface KingContract {
   disabled?: boolean; // Whether this contract is available for selection
 }
 
+// Contract as the server announces it (contractSelected, kingGameEnd)
+export interface KingSelectedContract {
+  type: 'penalty' | 'trump';
+  name?: string;
+  trumpSuit?: Card['suit'];
+}
+
+// King table rule variants (mirrors KING_VARIANT_DEFAULTS on the server)
+export interface KingVariants {
+  selectionOrder: 'dejenere' | 'natural';
+  penaltiesFirst: boolean; // all penalty contracts before any trump
+  short: boolean;          // 12-game party: each player picks 2 penalties + 1 trump
+  firstLead: 'selector' | 'twoOfDiamonds' | 'sixOfSpades';
+  threePlayer: boolean;    // 3 seats, the 2s removed (16 cards each)
+}
+
 export interface KingGameState {
   // Contract selection
   currentContractSelector: number | null;
@@ -54,7 +90,8 @@ export interface KingGameState {
   selectedContract: KingContract | null;
   
   // Game progress
-  gameNumber: number; // 1-20 within party
+  gameNumber: number; // 1-totalGames within party
+  totalGames: number; // 20, or 12 in the short version
   partyNumber: number;
   contractHistory: { selector: number; contract: KingContract }[];
   
@@ -65,23 +102,224 @@ export interface KingGameState {
 // Spades-specific types
 export type SpadesBid = number | 'nil' | 'blind_nil' | null;
 
+// Per-table Spades rule variants (all off = standard partnership Spades)
+export interface SpadesVariants {
+  cutthroat: boolean;
+  jokers: boolean;
+  deucesHigh: boolean;
+  tenForTwoHundred: boolean;
+  boston: boolean;
+}
+
+// Per-table Spades scoring rules (point values are magnitudes: won when made, lost when set)
+export interface SpadesRules {
+  bidValue: number;
+  overtrickValue: number;
+  bagLimit: number;
+  bagPenalty: number;
+  nilValue: number;
+  blindNilValue: number;
+  blindNilDeficit: number;
+}
+
 export interface SpadesGameState {
+  // Dealer for this round; the next seat bids first and leads
+  dealerSeat: number | null;
+  
   // Bidding
-  bids: SpadesBid[]; // 4 players, null if not yet bid
+  bids: SpadesBid[]; // One per seat, null if not yet bid
   currentBidder: number | null;
   bidSubmitted: boolean;
   canDeclareBlindNil: boolean;
   
-  // Teams (seats 0+2 vs 1+3)
-  teamBids: [number, number]; // Sum of partner bids
-  teamTricks: [number, number]; // Tricks won this round per team
+  // Blind nil exchange: the bidders and their partners still swapping cards
+  exchangeSeats: number[];
+  
+  // Sides (seats 0+2 vs 1+3, or one seat each in Cutthroat)
+  sides: number[][];
+  teamBids: number[]; // Sum of partner bids
+  teamTricks: number[]; // Tricks won this round per side
   tricksTakenBySeat: number[]; // Individual tricks per seat
+  tricksPerRound: number;
   
   // Scoring
-  bags: [number, number]; // Cumulative bags per team
+  bags: number[]; // Cumulative bags per side
   
   // Trump status
   spadesBroken: boolean;
+  
+  variants: SpadesVariants | null;
+  rules: SpadesRules | null;
+}
+
+// İhaleli Batak-specific types
+export type BatakBid = number | 'pass' | null;
+
+export interface BatakGameState {
+  // Dealer for this round; the next seat opens the auction
+  dealerSeat: number | null;
+  
+  // Auction
+  bids: BatakBid[]; // One per seat: null before speaking, the last bid, or 'pass' once out
+  currentBidder: number | null;
+  highBid: number | null;
+  minimumBid: number; // Lowest bid the current bidder may make
+  canPass: boolean; // False when everyone else passed without a bid
+  
+  // Contract: the high bidder names trump and leads
+  declarer: number | null;
+  trumpSuit: Card['suit'] | null;
+  tricksTakenBySeat: number[];
+  
+  // Whether the declarer made the contract (set at round end)
+  made: boolean | null;
+}
+
+// Pişti table rule variants (mirrors PISTI_VARIANT_DEFAULTS on the server)
+export interface PistiVariants {
+  twoPlayer: boolean; // Head to head instead of two partnerships
+}
+
+// The last time a seat took the pile
+export interface PistiCapture {
+  seat: number;
+  card: Card;
+  count: number; // Cards taken, including the capturing card
+  pistiPoints: number; // 10 for a pişti, 20 for jack on jack, otherwise 0
+}
+
+export interface PistiGameState {
+  // Dealer for this round; the next seat plays first
+  dealerSeat: number | null;
+  
+  // Table pile, bottom card first; the cards dealt face down are null
+  pile: (Card | null)[];
+  stockCount: number; // Cards left to deal
+  handNumber: number; // Deal of four cards within the round
+  
+  // Sides (seats 0+2 vs 1+3, or one seat each head to head)
+  sides: number[][];
+  capturedCounts: number[]; // Cards taken this round per side
+  pistis: number[]; // Piştis this round per side
+  lastCapture: PistiCapture | null;
+  
+  variants: PistiVariants | null;
+}
+
+// Everything a seat needs after a deal (pistiDeal, also sent on reconnect)
+export interface PistiDealState {
+  hand: Card[];
+  legalCards: Card[];
+  currentPlayer: number;
+  roundNumber: number;
+  dealerSeat: number;
+  pile: (Card | null)[];
+  stockCount: number;
+  handNumber: number;
+  sides: number[][];
+  capturedCounts: number[];
+  pistis: number[];
+  lastCapture: PistiCapture | null;
+  cumulativeScores: number[];
+  variants: PistiVariants;
+  endingScore: number;
+}
+
+// Bridge table rule variants (mirrors BRIDGE_VARIANT_DEFAULTS on the server)
+export interface BridgeVariants {
+  scoring: 'rubber' | 'imp'; // Rubber bridge, or a fixed match of boards scored in IMPs
+}
+
+export type BridgeStrain = Card['suit'] | 'notrump';
+
+export interface BridgeBid {
+  level: number; // 1-7, tricks over the book of six
+  strain: BridgeStrain;
+}
+
+export type BridgeCall = BridgeBid | 'pass' | 'double' | 'redouble';
+
+export interface BridgeContract extends BridgeBid {
+  doubled: 0 | 1 | 2; // Undoubled, doubled, redoubled
+}
+
+export interface BridgeGameState {
+  // Dealer for this board; the dealer calls first
+  dealerSeat: number | null;
+  
+  // Auction, every call in order
+  calls: { seat: number; call: BridgeCall }[];
+  currentBidder: number | null;
+  highestBid: BridgeBid | null;
+  canDouble: boolean;
+  canRedouble: boolean;
+  
+  // Contract: the declarer plays dummy's cards once the opening lead is made
+  contract: BridgeContract | null;
+  declarer: number | null;
+  dummySeat: number | null;
+  dummyHand: Card[] | null;
+  actingSeat: number | null; // Seat choosing the next card: the declarer on dummy's turn
+  
+  // Sides are seats 0+2 vs 1+3
+  sideTricks: number[];
+  vulnerable: boolean[];
+  gamesWon: number[]; // Rubber scoring
+  belowLine: number[]; // Rubber scoring: contract points toward the current game
+  totalBoards: number | null; // IMP scoring: boards in the match
+  
+  variants: BridgeVariants | null;
+}
+
+// Everything a seat sees (bridgeAuctionStart and updateGame, also sent on reconnect)
+export interface BridgeTableState {
+  phase: GamePhase;
+  hand: Card[];
+  legalCards: Card[];
+  illegalCards: IllegalCard[];
+  roundNumber: number;
+  totalBoards: number | null;
+  dealerSeat: number;
+  currentPlayer: number;
+  actingSeat: number;
+  calls: { seat: number; call: BridgeCall }[];
+  highestBid: BridgeBid | null;
+  canDouble: boolean;
+  canRedouble: boolean;
+  contract: BridgeContract | null;
+  declarer: number | null;
+  dummySeat: number | null;
+  dummyHand: Card[] | null;
+  currentTrick: TrickCard[];
+  tricksTakenBySeat: number[];
+  sideTricks: number[];
+  lastTrick: TrickCard[] | null;
+  vulnerable: boolean[];
+  gamesWon: number[];
+  belowLine: number[];
+  roundScores: number[];
+  cumulativeScores: number[];
+  variants: BridgeVariants;
+  sides: number[][];
+}
+
+// Hash of the shuffled deck published when a round is dealt (Hearts/King/Spades),
+// with the hand this seat was dealt
+export interface DealCommitment {
+  hash: string;
+  hand: Card[];
+}
+
+// Deck and salt revealed at round end; hash should equal SHA-256(`${salt}:${deck}`)
+export interface DealReveal {
+  hash: string;
+  salt: string;
+  deck: string;
+}
+
+export interface RevealedDeal {
+  commitment: DealCommitment;
+  reveal: DealReveal;
 }
 
 export interface GameState {
@@ -97,9 +335,12 @@ export interface GameState {
   // Game type
   gameType: GameType;
   endingScore: number | null;
+  seatCount: number;
+  tableOptions: CreateTableOptions | null; // Variants and rules the next game starts with
   
   // Players
   players: Player[];
+  ownerSeat: number | null;
   
   // Game state
   phase: GamePhase;
@@ -109,6 +350,8 @@ export interface GameState {
   currentPlayer: number;
   isMyTurn: boolean;
   legalCards: Card[];
+  illegalCards: IllegalCard[];
+  actionError: GameErrorCode | null; // Last refused action, shown briefly by the hand
   heartsBroken: boolean;
   
   // Passing (Hearts only)
@@ -122,6 +365,15 @@ export interface GameState {
   // Spades-specific state
   spadesState: SpadesGameState | null;
   
+  // İhaleli Batak-specific state
+  batakState: BatakGameState | null;
+  
+  // Pişti-specific state
+  pistiState: PistiGameState | null;
+  
+  // Bridge-specific state
+  bridgeState: BridgeGameState | null;
+  
   // Scores
   roundScores: number[];
   cumulativeScores: number[];
@@ -173,20 +425,64 @@ export interface GameState {
   // Contract selection timer (King)
   contractTimeoutAt: number | null;
   
-  // Bidding timer (Spades)
+  // Bidding timer (Spades, İhaleli Batak, Bridge)
   biddingTimeoutAt: number | null;
   
+  // Deal verification: the commitment for the current deal and the last revealed one
+  dealCommitment: DealCommitment | null;
+  revealedDeal: RevealedDeal | null;
+  
   // Moon shooter animation
   moonShooter: number | null;
 }
 
+// Why a game action was refused (GAME_ERRORS in server/shared/gameErrors.js)
+export type GameErrorCode =
+  | 'WRONG_PHASE' | 'NOT_YOUR_TURN' | 'CARD_NOT_IN_HAND'
+  | 'MUST_LEAD_TWO_OF_CLUBS' | 'HEARTS_NOT_BROKEN' | 'SPADES_NOT_BROKEN' | 'TRUMP_NOT_BROKEN'
+  | 'MUST_FOLLOW_SUIT' | 'NO_POINTS_ON_FIRST_TRICK' | 'MUST_BEAT' | 'MUST_TRUMP' | 'MUST_OVERTRUMP'
+  | 'MUST_PLAY_KING_OR_JACK' | 'MUST_PLAY_QUEEN' | 'MUST_PLAY_KING_OF_HEARTS' | 'MUST_PLAY_HEART'
+  | 'WRONG_CARD_COUNT' | 'DUPLICATE_CARD' | 'NOT_IN_EXCHANGE' | 'ALREADY_SUBMITTED'
+  | 'INVALID_BID' | 'BID_TOO_LOW' | 'CANNOT_PASS' | 'BLIND_NIL_NOT_ALLOWED' | 'CANNOT_DOUBLE' | 'CANNOT_REDOUBLE'
+  | 'INVALID_CONTRACT' | 'CONTRACT_USED_UP' | 'NATURAL_ORDER' | 'NO_SELECTIONS_LEFT' | 'PENALTIES_FIRST'
+  | 'INVALID_TRUMP_SUIT' | 'NOT_DECLARER';
+
+// A card in hand that can't be played on this turn, and the rule that stops it
+export interface IllegalCard {
+  card: Card;
+  reason: GameErrorCode;
+}
+
+// updateGame payload: a seat's view of the table, with the per-game fields the reducer folds into each game's state
+export type GameStateUpdate = Partial<GameState> & {
+  gameNumber?: number;
+  totalGames?: number;
+  contract?: unknown;
+  teamTricks?: number[];
+  tricksTakenBySeat?: number[];
+  bids?: SpadesBid[];
+  spadesBroken?: boolean;
+  bags?: number[];
+  highBid?: number | null;
+  declarer?: number | null;
+  trumpSuit?: BatakGameState['trumpSuit'];
+  pile?: PistiGameState['pile'];
+  stockCount?: number;
+  capturedCounts?: number[];
+  pistis?: number[];
+  lastCapture?: PistiGameState['lastCapture'];
+  calls?: BridgeTableState['calls'];
+  actingSeat?: number;
+};
+
 export type GameAction =
   | { type: 'SET_CONNECTION_STATUS'; payload: 'connecting' | 'connected' | 'disconnected' }
-  | { type: 'JOIN_TABLE'; payload: { tableId: string; seat: number; players: Player[]; gameType?: GameType; endingScore?: number } }
+  | { type: 'JOIN_TABLE'; payload: { tableId: string; seat: number; players: Player[]; ownerSeat?: number | null; gameType?: GameType; endingScore?: number | null; seatCount?: number; options?: CreateTableOptions } }
   | { type: 'LEAVE_TABLE' }
-  | { type: 'UPDATE_PLAYERS'; payload: Player[] }
+  | { type: 'UPDATE_PLAYERS'; payload: { players: Player[]; ownerSeat?: number | null } }
+  | { type: 'TABLE_OPTIONS_UPDATED'; payload: { options: CreateTableOptions; endingScore: number | null; seatCount: number } }
   | { type: 'START_GAME'; payload: { hand: Card[]; passDirection: PassDirection; phase: GamePhase; currentPlayer: number; gameType?: GameType } }
-  | { type: 'UPDATE_GAME'; payload: Partial<GameState> }
+  | { type: 'UPDATE_GAME'; payload: GameStateUpdate }
   | { type: 'CARDS_RECEIVED'; payload: { hand: Card[]; phase: GamePhase; currentPlayer: number; cardsPassed?: Card[]; cardsReceived?: Card[] } }
   | { type: 'SET_PASS_ANIMATION'; payload: GameState['passAnimation'] }
   | { type: 'SET_DEALING_ANIMATION'; payload: boolean }
@@ -196,7 +492,7 @@ export type GameAction =
   | { type: 'TRICK_END'; payload: { winner: number; points: number; lastTrick: TrickCard[] } }
   | { type: 'SET_TRICK_ANIMATION'; payload: GameState['trickAnimation'] }
   | { type: 'ROUND_END'; payload: { roundScores: number[]; cumulativeScores: number[]; moonShooter: number | null; gameOver: boolean; gameWinner: number | null; pointCardsTaken: Card[][] } }
-  | { type: 'GAME_END'; payload: { winner: number; finalScores: number[] } }
+  | { type: 'GAME_END'; payload: { winner?: number | null; finalScores: number[] } }
   | { type: 'TURN_START'; payload: { player: number; timeoutAt: number } }
   | { type: 'PASS_TIMER_START'; payload: { timeoutAt: number } }
   | { type: 'CONTRACT_TIMER_START'; payload: { timeoutAt: number } }
@@ -205,28 +501,50 @@ export type GameAction =
   | { type: 'UPDATE_TYPING'; payload: string[] }
   | { type: 'REMATCH_STATUS'; payload: Record<number, boolean> }
   | { type: 'RESET' }
+  | { type: 'DEAL_COMMITTED'; payload: DealCommitment }
+  | { type: 'DEAL_REVEALED'; payload: DealReveal }
+  | { type: 'SET_ACTION_ERROR'; payload: GameErrorCode | null }
   // King-specific actions
-  | { type: 'CONTRACT_SELECTION_START'; payload: { selector: number; availableContracts: KingContract[]; gameNumber: number; partyNumber: number } }
+  | { type: 'CONTRACT_SELECTION_START'; payload: { selector: number; availableContracts: KingContract[]; gameNumber: number; totalGames?: number; partyNumber: number } }
   | { type: 'CONTRACT_SELECTED'; payload: { contract: KingContract } }
   | { type: 'UPDATE_KING_STATE'; payload: Partial<KingGameState> }
   // Spades-specific actions
-  | { type: 'BIDDING_START'; payload: { currentBidder: number } }
+  | { type: 'BIDDING_START'; payload: { currentBidder: number; sides?: number[][]; tricksPerRound?: number; variants?: SpadesVariants; rules?: SpadesRules; dealerSeat?: number; canDeclareBlindNil?: boolean } }
   | { type: 'BID_SUBMITTED'; payload: { bids: SpadesBid[]; nextBidder: number | null } }
+  | { type: 'BLIND_NIL_EXCHANGE_START'; payload: { hand: Card[]; exchangeSeats: number[]; exchangeSubmitted: boolean; bids: SpadesBid[]; teamBids: number[] } }
   | { type: 'UPDATE_SPADES_STATE'; payload: Partial<SpadesGameState> }
+  // İhaleli Batak-specific actions
+  | { type: 'AUCTION_START'; payload: { currentBidder: number | null; bids: BatakBid[]; highBid: number | null; minimumBid: number; canPass: boolean; dealerSeat: number } }
+  | { type: 'AUCTION_BID'; payload: { bids: BatakBid[]; highBid: number | null; nextBidder: number | null; minimumBid: number; canPass: boolean } }
+  | { type: 'TRUMP_DECLARATION_START'; payload: { declarer: number; contract: number } }
+  | { type: 'TRUMP_DECLARED'; payload: { declarer: number; contract: number; trumpSuit: Card['suit'] } }
+  | { type: 'UPDATE_BATAK_STATE'; payload: Partial<BatakGameState> }
+  // Pişti-specific actions
+  | { type: 'PISTI_DEAL'; payload: PistiDealState }
+  | { type: 'PISTI_CARD_PLAYED'; payload: { seat: number; card: Card; captured: Card[] | null; pistiPoints: number; pile: (Card | null)[]; stockCount: number; capturedCounts: number[]; pistis: number[] } }
+  | { type: 'UPDATE_PISTI_STATE'; payload: Partial<PistiGameState> }
+  // Bridge-specific actions
+  | { type: 'BRIDGE_AUCTION_START'; payload: BridgeTableState }
+  | { type: 'BRIDGE_CALL'; payload: { calls: { seat: number; call: BridgeCall }[]; highestBid: BridgeBid | null; nextBidder: number | null; canDouble: boolean; canRedouble: boolean } }
+  | { type: 'BRIDGE_PLAY_START'; payload: { contract: BridgeContract; declarer: number; dummySeat: number; currentPlayer: number } }
+  | { type: 'UPDATE_BRIDGE_STATE'; payload: Partial<BridgeGameState> }
   // Spectating actions
-  | { type: 'SPECTATE_JOIN'; payload: { tableId: string; players: Player[]; gameType: GameType; gameState: SpectatorGameState } }
-  | { type: 'SPECTATE_UPDATE'; payload: { gameState?: SpectatorGameState; spectatorCount?: number } }
+  | { type: 'SPECTATE_JOIN'; payload: { tableId: string; players: Player[]; gameType: GameType; gameState: SpectatorGameState | null; seatCount?: number } }
+  | { type: 'SPECTATE_UPDATE'; payload: { gameState?: SpectatorGameState | null; spectatorCount?: number } }
   | { type: 'LEAVE_SPECTATE' };
 
 export interface TableInfo {
   id: string;
   playerCount: number;
+  seatCount?: number;
   playerNames: string[];
   inGame: boolean;
   gameType: GameType;
   spectatorCount: number;
   hasTakeoverSeat?: boolean;
   endingScore?: number;
+  variants?: HeartsVariants | SpadesVariants | KingVariants | PistiVariants | BridgeVariants | null;
+  rules?: SpadesRules | null;
   createdAt?: number;
 }
 
@@ -252,15 +570,46 @@ export interface SpectatorGameState {
   selectorSeat?: number;
   trumpSuit?: string | null;
   gameNumber?: number;
+  totalGames?: number;
   partyScores?: number[];
   lastTrickCards?: TrickCard[] | null;
   tricksTaken?: number[];
   contractHistory?: { selector: number; contract: KingContract }[];
   
-  // Spades-specific
+  // Spades-specific (dealerSeat and bids are shared with İhaleli Batak)
+  dealerSeat?: number;
   spadesBroken?: boolean;
-  bids?: (number | 'nil' | 'blind_nil' | null)[];
+  bids?: (number | 'nil' | 'blind_nil' | 'pass' | null)[];
   teamScores?: number[];
   bags?: number[];
   teamBids?: number[];
+  exchangeSeats?: number[];
+  variants?: SpadesVariants;
+  rules?: SpadesRules;
+  sides?: number[][];
+  tricksPerRound?: number;
+  
+  // İhaleli Batak-specific
+  highBid?: number | null;
+  declarer?: number | null;
+  endingScore?: number;
+  
+  // Pişti-specific (sides and dealerSeat are shared with Spades)
+  pile?: (Card | null)[];
+  stockCount?: number;
+  handSizes?: number[];
+  capturedCounts?: number[];
+  pistis?: number[];
+  lastCapture?: PistiCapture | null;
+  
+  // Bridge-specific (sides, dealerSeat and declarer are shared with the games above)
+  calls?: { seat: number; call: BridgeCall }[];
+  contract?: BridgeContract | null;
+  dummySeat?: number | null;
+  dummyHand?: Card[] | null;
+  actingSeat?: number;
+  sideTricks?: number[];
+  vulnerable?: boolean[];
+  gamesWon?: number[];
+  totalBoards?: number | null;
 }
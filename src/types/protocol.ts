@@ -0,0 +1,500 @@
+/**
+ * Socket.IO event contract between the client (SocketContext) and server/index.js.
+ *
+ * The client types its socket as Socket<ServerToClientEvents, ClientToServerEvents>
+ * and the server its io instance as Server<ClientToServerEvents, ServerToClientEvents>
+ * (through JSDoc, checked with `npm run typecheck`), so a renamed event or a
+ * payload that no longer matches fails the type check on both sides.
+ */
+
+import type {
+  Card,
+  TrickCard,
+  Player,
+  ChatMessage,
+  GameType,
+  GamePhase,
+  PassDirection,
+  BotDifficulty,
+  CreateTableOptions,
+  TableInfo,
+  SpectatorGameState,
+  GameStateUpdate,
+  KingContract,
+  KingSelectedContract,
+  KingVariants,
+  SpadesBid,
+  SpadesVariants,
+  SpadesRules,
+  BatakBid,
+  PistiDealState,
+  BridgeBid,
+  BridgeCall,
+  BridgeContract,
+  BridgeTableState,
+  DealCommitment,
+  DealReveal,
+  GameErrorCode,
+} from './game';
+
+// ----------------------------------------------------------------------------
+// Lobby, seats and spectators
+// ----------------------------------------------------------------------------
+
+export interface ErrorPayload {
+  message: string;
+  // Set when the server dropped the event: a malformed payload (server/validation.js)
+  // or one over the rate limit (server/rateLimit.js), or when a game refused the action
+  code?: ValidationErrorCode | RateLimitErrorCode | GameErrorCode;
+  event?: string;
+  field?: string | null;
+  retryAt?: number;  // Rate limits: when the event will be accepted again
+}
+
+export type ValidationErrorCode = 'INVALID_PAYLOAD' | 'MISSING_FIELD' | 'WRONG_TYPE' | 'INVALID_VALUE' | 'OUT_OF_RANGE';
+
+export type RateLimitErrorCode = 'RATE_LIMITED' | 'MUTED' | 'KICKED' | 'BANNED';
+
+export interface TableJoinedPayload {
+  tableId: string;
+  gameType: GameType;
+  seat: number;
+  players: Player[];
+  ownerSeat: number | null;
+  endingScore: number | null;
+  seatCount: number;
+  options: CreateTableOptions;  // With every variant and rule filled in
+  reconnectToken: string;
+}
+
+export interface SpectateJoinedPayload {
+  tableId: string;
+  gameType: GameType;
+  seatCount: number;
+  players: Player[];
+  gameState: SpectatorGameState | null;
+}
+
+export interface SpectatorUpdatePayload {
+  gameState?: SpectatorGameState | null;
+  spectatorCount?: number;
+}
+
+export interface UpdatePlayersPayload {
+  players: Player[];
+  ownerSeat: number | null;
+}
+
+// The owner changed the rules in the waiting room (everyone's ready is cleared)
+export interface TableOptionsUpdatedPayload {
+  options: CreateTableOptions;
+  endingScore: number | null;
+  seatCount: number;
+}
+
+// One entry of a finished table's action log (server/games/ActionLog.js)
+export interface ActionLogEntry {
+  seq: number;
+  type: 'start' | 'deal' | 'pass' | 'selectContract' | 'bid' | 'declareTrump' | 'exchange' | 'play' | 'end';
+  at: number;
+  [field: string]: unknown;
+}
+
+// ----------------------------------------------------------------------------
+// Shared trick play
+// ----------------------------------------------------------------------------
+
+export interface CardPlayedPayload {
+  seat: number;
+  card: Card;
+  currentTrick: TrickCard[];
+  trickComplete: boolean;
+  winner: number | null;
+  autoPlayed?: boolean;
+}
+
+export interface TrickEndPayload {
+  winner: number;
+  points: number;
+  lastTrick: TrickCard[];
+}
+
+export interface CardsReceivedPayload {
+  hand: Card[];
+  phase: GamePhase;
+  currentPlayer: number;
+  cardsPassed?: Card[];
+  cardsReceived?: Card[];
+}
+
+// Each game fills in the winner field it scores by
+export interface GameEndPayload {
+  gameType?: GameType;
+  winner?: number | null;
+  winners?: number[];
+  winnerTeam?: number | null;
+  finalScores: number[];
+}
+
+// ----------------------------------------------------------------------------
+// Hearts
+// ----------------------------------------------------------------------------
+
+export interface StartGamePayload {
+  gameType?: GameType;
+  hand: Card[];
+  passDirection: PassDirection;
+  phase: GamePhase;
+  currentPlayer: number;
+}
+
+export interface HeartsRoundEndPayload {
+  roundScores: number[];
+  cumulativeScores: number[];
+  moonShooter: number | null;
+  moonShotType?: 'gave' | 'took' | null;
+  gameOver: boolean;
+  gameWinner: number | null;
+  pointCardsTaken: Card[][];
+  dealSeed?: string;
+  dealReveal?: DealReveal;
+}
+
+// ----------------------------------------------------------------------------
+// King
+// ----------------------------------------------------------------------------
+
+export interface ContractSelectionStartPayload {
+  gameType: GameType;
+  hand: Card[];
+  selector: number;
+  availableContracts: KingContract[];
+  gameNumber: number;
+  totalGames?: number;
+  variants?: KingVariants;
+  partyNumber: number;
+  contractsUsed?: Record<string, number>;
+  timeoutAt?: number | null;
+}
+
+export interface ContractSelectedPayload {
+  selectorSeat: number;
+  contract: KingSelectedContract;
+  startingPlayer?: number;
+  gameNumber: number;
+  autoSelected?: boolean;
+}
+
+export interface KingGameEndPayload {
+  gameScores: number[];
+  cumulativeScores: number[];
+  partyOver: boolean;
+  winners?: number[];
+  penaltyCardsTaken: Card[][];
+  contract: KingSelectedContract;
+  gameNumber: number;
+  dealSeed?: string;
+  dealReveal?: DealReveal;
+}
+
+// ----------------------------------------------------------------------------
+// Spades
+// ----------------------------------------------------------------------------
+
+export interface BiddingStartPayload {
+  hand: Card[];
+  currentBidder: number;
+  roundNumber: number;
+  sides?: number[][];
+  tricksPerRound?: number;
+  variants?: SpadesVariants;
+  rules?: SpadesRules;
+  dealerSeat?: number;
+  canDeclareBlindNil?: boolean;
+}
+
+export interface BidSubmittedPayload {
+  seat: number;
+  bid: Exclude<SpadesBid, null>;
+  bids: SpadesBid[];
+  nextBidder: number | null;
+}
+
+export interface BidsUpdatePayload {
+  bids: SpadesBid[];
+  currentBidder: number | null;
+  teamBids?: number[];
+}
+
+export interface BlindNilExchangeStartPayload {
+  hand: Card[];
+  exchangeSeats: number[];
+  exchangeSubmitted: boolean;
+  bids: SpadesBid[];
+  teamBids: number[];
+}
+
+export interface SpadesGameStartPayload {
+  currentPlayer: number;
+  legalCards: Card[];
+  bids: SpadesBid[];
+  teamBids: number[];
+  cumulativeScores: number[];
+}
+
+export interface SpadesRoundEndPayload {
+  roundScores: number[];
+  teamScores: number[];
+  bags: number[];
+  teamTricks: number[];
+  bids: SpadesBid[];
+  tricksTaken: number[];
+  sides: number[][];
+  rules?: SpadesRules;
+  gameOver: boolean;
+  gameWinnerTeam: number | null;
+  roundNumber: number;
+  dealSeed?: string;
+  dealReveal?: DealReveal;
+}
+
+// ----------------------------------------------------------------------------
+// İhaleli Batak
+// ----------------------------------------------------------------------------
+
+export interface AuctionStartPayload {
+  gameType: GameType;
+  hand: Card[];
+  currentBidder: number | null;
+  bids: BatakBid[];
+  highBid: number | null;
+  minimumBid: number;
+  canPass: boolean;
+  roundNumber: number;
+  dealerSeat: number;
+  endingScore: number;
+}
+
+export interface AuctionBidPayload {
+  seat: number;
+  bid: Exclude<BatakBid, null>;
+  bids: BatakBid[];
+  highBid: number | null;
+  nextBidder: number | null;
+  minimumBid: number;
+  canPass: boolean;
+}
+
+export interface TrumpDeclarationStartPayload {
+  declarer: number;
+  contract: number;
+}
+
+export interface TrumpDeclaredPayload {
+  declarer: number;
+  contract: number;
+  trumpSuit: Card['suit'];
+  currentPlayer: number;
+  autoSelected?: boolean;
+}
+
+export interface BatakRoundEndPayload {
+  roundScores: number[];
+  cumulativeScores: number[];
+  tricksTaken: number[];
+  declarer: number;
+  contract: number;
+  trumpSuit: Card['suit'];
+  made: boolean;
+  gameOver: boolean;
+  gameWinner: number | null;
+  roundNumber: number;
+  dealSeed?: string;
+}
+
+// ----------------------------------------------------------------------------
+// Pişti
+// ----------------------------------------------------------------------------
+
+export interface PistiCardPlayedPayload {
+  seat: number;
+  card: Card;
+  captured: Card[] | null;
+  pistiPoints: number;
+  pile: (Card | null)[];
+  stockCount: number;
+  capturedCounts: number[];
+  pistis: number[];
+  autoPlayed?: boolean;
+}
+
+export interface PistiRoundEndPayload {
+  roundScores: number[];
+  teamScores: number[];
+  cardCounts: number[];
+  pistis: number[];
+  leftoverTo: number | null;
+  sides: number[][];
+  gameOver: boolean;
+  gameWinnerTeam: number | null;
+  roundNumber: number;
+  dealSeed?: string;
+}
+
+// ----------------------------------------------------------------------------
+// Bridge
+// ----------------------------------------------------------------------------
+
+export interface BridgeCallPayload {
+  seat: number;
+  call: BridgeCall;
+  calls: { seat: number; call: BridgeCall }[];
+  highestBid: BridgeBid | null;
+  nextBidder: number | null;
+  canDouble: boolean;
+  canRedouble: boolean;
+}
+
+export interface BridgePlayStartPayload {
+  contract: BridgeContract;
+  declarer: number;
+  dummySeat: number;
+  currentPlayer: number;
+}
+
+export interface BridgeRoundEndPayload {
+  roundScores: number[];
+  teamScores: number[];
+  passedOut: boolean;
+  contract: BridgeContract | null;
+  declarer: number | null;
+  sideTricks: number[];
+  made: boolean | null;
+  result: number | null;
+  dealScore: number;
+  rubberBonus: number;
+  vulnerable: boolean[];
+  gamesWon: number[];
+  belowLine: number[];
+  sides: number[][];
+  gameOver: boolean;
+  gameWinnerTeam: number | null;
+  roundNumber: number;
+  dealSeed?: string;
+}
+
+// ----------------------------------------------------------------------------
+// Event maps
+// ----------------------------------------------------------------------------
+
+export interface ServerToClientEvents {
+  // Lobby and seats
+  tablesList: (tables: TableInfo[]) => void;
+  tableJoined: (data: TableJoinedPayload) => void;
+  rejoinFailed: (data: ErrorPayload) => void;
+  tableClosed: (data: { reason: string }) => void;
+  updatePlayers: (data: UpdatePlayersPayload) => void;
+  tableOptionsUpdated: (data: TableOptionsUpdatedPayload) => void;
+  playerDisconnected: (data: { seat: number; name: string }) => void;
+  spectateJoined: (data: SpectateJoinedPayload) => void;
+  spectatorUpdate: (data: SpectatorUpdatePayload) => void;
+  actionLog: (data: { tableId: string; entries: ActionLogEntry[] }) => void;
+  error: (data: ErrorPayload) => void;
+
+  // Chat
+  chat: (data: ChatMessage) => void;
+  typingUpdate: (data: { players: string[] }) => void;
+
+  // Every game
+  dealCommitment: (data: DealCommitment) => void;
+  updateGame: (data: GameStateUpdate) => void;
+  cardPlayed: (data: CardPlayedPayload) => void;
+  trickEnd: (data: TrickEndPayload) => void;
+  lastTrick: (data: { cards: TrickCard[] | null }) => void;
+  gameEnd: (data: GameEndPayload) => void;
+  rematchStatus: (data: { votes: Record<number, boolean> }) => void;
+
+  // Timers and what they did on a seat's behalf
+  turnStart: (data: { player: number; timeoutAt: number }) => void;
+  timerWarning: (data: { player: number }) => void;
+  passTimerStart: (data: { timeoutAt: number }) => void;
+  selectTimerStart: (data: { timeoutAt: number; selectorSeat: number }) => void;
+  bidTimerStart: (data: { player: number; timeoutAt: number }) => void;
+  autoPlay: (data: { card: Card }) => void;
+  autoPassSubmitted: (data: { cards: Card[] }) => void;
+  autoBid: (data: { bid: Exclude<SpadesBid | BatakBid, null> | BridgeCall }) => void;
+
+  // Hearts (and the Spades blind nil exchange)
+  startGame: (data: StartGamePayload) => void;
+  passSubmitted: () => void;
+  cardsReceived: (data: CardsReceivedPayload) => void;
+  roundEnd: (data: HeartsRoundEndPayload) => void;
+
+  // King
+  contractSelectionStart: (data: ContractSelectionStartPayload) => void;
+  contractSelected: (data: ContractSelectedPayload) => void;
+  kingGameEnd: (data: KingGameEndPayload) => void;
+
+  // Spades
+  biddingStart: (data: BiddingStartPayload) => void;
+  bidSubmitted: (data: BidSubmittedPayload) => void;
+  bidsUpdate: (data: BidsUpdatePayload) => void;
+  blindNilExchangeStart: (data: BlindNilExchangeStartPayload) => void;
+  spadesGameStart: (data: SpadesGameStartPayload) => void;
+  spadesRoundEnd: (data: SpadesRoundEndPayload) => void;
+
+  // İhaleli Batak
+  auctionStart: (data: AuctionStartPayload) => void;
+  auctionBid: (data: AuctionBidPayload) => void;
+  trumpDeclarationStart: (data: TrumpDeclarationStartPayload) => void;
+  trumpDeclared: (data: TrumpDeclaredPayload) => void;
+  batakRoundEnd: (data: BatakRoundEndPayload) => void;
+
+  // Pişti
+  pistiDeal: (data: PistiDealState) => void;
+  pistiCardPlayed: (data: PistiCardPlayedPayload) => void;
+  pistiRoundEnd: (data: PistiRoundEndPayload) => void;
+
+  // Bridge
+  bridgeAuctionStart: (data: BridgeTableState) => void;
+  bridgeCall: (data: BridgeCallPayload) => void;
+  bridgePlayStart: (data: BridgePlayStartPayload) => void;
+  bridgeRoundEnd: (data: BridgeRoundEndPayload) => void;
+}
+
+export interface ClientToServerEvents {
+  keepAlive: () => void;
+
+  // Lobby and seats
+  listTables: (data?: { gameType?: GameType; includeInProgress?: boolean }) => void;
+  createTable: (data: { playerName: string; gameType?: GameType; options?: CreateTableOptions }) => void;
+  joinTable: (data: { tableId: string; playerName: string }) => void;
+  rejoinTable: (data?: { tableId?: string; token?: string }) => void;
+  leaveTable: () => void;
+  spectateTable: (data: { tableId: string; playerName?: string }) => void;
+  leaveSpectate: () => void;
+  addBot: (data?: { seat?: number; difficulty?: BotDifficulty }) => void;
+  removeBot: (data: { seat: number }) => void;
+  getActionLog: () => void;
+
+  // Waiting room: the game starts once everyone is ready, or when the owner starts it
+  setReady: (data: { ready: boolean }) => void;
+  startTableGame: () => void;
+  updateTableOptions: (data: { options: CreateTableOptions }) => void;
+
+  // Game actions (İhaleli Batak and Bridge bids go through submitBid)
+  submitPass: (data: { cards: Card[] }) => void;
+  selectContract: (data: { contractType: 'penalty' | 'trump'; contractName?: string; trumpSuit?: Card['suit'] }) => void;
+  submitBid: (data: { bid: Exclude<SpadesBid | BatakBid, null> | BridgeCall }) => void;
+  submitBlindNilExchange: (data: { cards: Card[] }) => void;
+  declareTrump: (data: { trumpSuit: Card['suit'] }) => void;
+  playCard: (data: { card: Card }) => void;
+  dealAck: () => void;  // The new deal is on screen; the round's timer waits for this
+  nextRound: () => void;
+  rematch: (data: { vote: boolean }) => void;
+  getLastTrick: () => void;
+
+  // Chat
+  chatMessage: (data: { text: string }) => void;
+  typing: (data: { isTyping: boolean }) => void;
+}
@@ -0,0 +1,51 @@
+import type { Card, RevealedDeal } from '../types/game';
+
+// Suit letters in the revealed deck string (SUIT_CODES in server/shared/commitment.js)
+const SUIT_CODES: Record<Card['suit'], string> = { hearts: 'H', diamonds: 'D', clubs: 'C', spades: 'S' };
+const SUIT_SYMBOLS: Record<string, string> = { H: '♥', D: '♦', C: '♣', S: '♠' };
+
+export interface DealVerification {
+  computedHash: string;
+  hashMatches: boolean;      // SHA-256 of the revealed salt and deck is the hash published at the deal
+  noDuplicates: boolean;     // Every card appears once
+  handMatches: boolean;      // The deck deals this seat exactly the hand it received
+  seatCards: string[][];     // Revealed deck split into hands, as card codes
+}
+
+export function cardCode(card: Card): string {
+  return `${card.rank}${SUIT_CODES[card.suit]}`;
+}
+
+// "10H" -> "10♥"
+export function formatCardCode(code: string): string {
+  return `${code.slice(0, -1)}${SUIT_SYMBOLS[code.slice(-1)] ?? ''}`;
+}
+
+async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Recompute the commitment locally and check the revealed deck against the
+ * hand this seat was dealt. The server deals card i of the deck to seat i % seatCount.
+ */
+export async function verifyDeal(deal: RevealedDeal, mySeat: number, seatCount: number): Promise<DealVerification> {
+  const { commitment, reveal } = deal;
+  const computedHash = await sha256Hex(`${reveal.salt}:${reveal.deck}`);
+  const codes = reveal.deck.split(',');
+
+  const seatCards: string[][] = Array.from({ length: seatCount }, () => []);
+  codes.forEach((code, i) => seatCards[i % seatCount].push(code));
+
+  const dealt = commitment.hand.map(cardCode).sort();
+  const fromDeck = [...seatCards[mySeat]].sort();
+
+  return {
+    computedHash,
+    hashMatches: computedHash === commitment.hash,
+    noDuplicates: new Set(codes).size === codes.length,
+    handMatches: dealt.length === fromDeck.length && dealt.every((code, i) => code === fromDeck[i]),
+    seatCards,
+  };
+}
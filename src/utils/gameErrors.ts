@@ -0,0 +1,51 @@
+import type { Card, GameErrorCode, IllegalCard } from '../types/game';
+
+// Turkish explanations for GAME_ERRORS in server/shared/gameErrors.js
+export const GAME_ERROR_MESSAGES: Record<GameErrorCode, string> = {
+  WRONG_PHASE: 'Şu anda bu hamle yapılamaz',
+  NOT_YOUR_TURN: 'Sıra sizde değil',
+  CARD_NOT_IN_HAND: 'Bu kart elinizde yok',
+
+  MUST_LEAD_TWO_OF_CLUBS: 'İlk el sinek 2 ile açılır',
+  HEARTS_NOT_BROKEN: 'Kupa kırılmadan kupa ile açılamaz',
+  SPADES_NOT_BROKEN: 'Maça kırılmadan maça ile açılamaz',
+  TRUMP_NOT_BROKEN: 'Koz kırılmadan koz ile açılamaz',
+  MUST_FOLLOW_SUIT: 'Yerdeki renkten oynamalısınız',
+  NO_POINTS_ON_FIRST_TRICK: 'İlk elde kupa ya da maça kız atılamaz',
+  MUST_BEAT: 'Yerdeki en büyük kartı geçmelisiniz',
+  MUST_TRUMP: 'Yerdeki renk yoksa koz çakmalısınız',
+  MUST_OVERTRUMP: 'Yerdeki kozu geçmelisiniz',
+  MUST_PLAY_KING_OR_JACK: 'Elinizdeki papaz ya da valeyi vermelisiniz',
+  MUST_PLAY_QUEEN: 'Elinizdeki kızı vermelisiniz',
+  MUST_PLAY_KING_OF_HEARTS: 'Kupa papazını (rıfkı) vermelisiniz',
+  MUST_PLAY_HEART: 'Elinizdeki kupayı vermelisiniz',
+
+  WRONG_CARD_COUNT: 'Yanlış sayıda kart seçildi',
+  DUPLICATE_CARD: 'Aynı kart iki kez seçilemez',
+  NOT_IN_EXCHANGE: 'Bu kart değişiminde yer almıyorsunuz',
+  ALREADY_SUBMITTED: 'Seçiminizi zaten gönderdiniz',
+
+  INVALID_BID: 'Geçersiz ihale',
+  BID_TOO_LOW: 'İhale son ihaleden yüksek olmalı',
+  CANNOT_PASS: 'Herkes pas geçti, ihale vermelisiniz',
+  BLIND_NIL_NOT_ALLOWED: 'Şu anda kör nil denilemez',
+  CANNOT_DOUBLE: 'Kontr verilecek bir rakip ihale yok',
+  CANNOT_REDOUBLE: 'Sürkontr için rakibin kontrı gerekir',
+
+  INVALID_CONTRACT: 'Geçersiz oyun seçimi',
+  CONTRACT_USED_UP: 'Bu oyun iki kez oynandı',
+  NATURAL_ORDER: 'Sıradaki oyunu seçmelisiniz',
+  NO_SELECTIONS_LEFT: 'Bu türden seçim hakkınız kalmadı',
+  PENALTIES_FIRST: 'Önce ceza oyunlarını seçmelisiniz',
+  INVALID_TRUMP_SUIT: 'Geçersiz koz',
+  NOT_DECLARER: 'Kozu yalnızca ihaleyi alan seçer',
+};
+
+export function isGameErrorCode(code: string | undefined): code is GameErrorCode {
+  return code !== undefined && code in GAME_ERROR_MESSAGES;
+}
+
+// Why a card can't be played on this turn, or null when it can
+export function getIllegalPlayReason(illegalCards: IllegalCard[], card: Card): GameErrorCode | null {
+  return illegalCards.find(c => c.card.suit === card.suit && c.card.rank === card.rank)?.reason ?? null;
+}
@@ -0,0 +1,38 @@
+import type { SpadesRules } from '../types/game';
+
+// Mirrors DEFAULT_SPADES_RULES and SPADES_RULE_LIMITS in server/games/SpadesGame.js
+export const DEFAULT_SPADES_RULES: SpadesRules = {
+  bidValue: 10,
+  overtrickValue: 1,
+  bagLimit: 10,
+  bagPenalty: 100,
+  nilValue: 50,
+  blindNilValue: 100,
+  blindNilDeficit: 100,
+};
+
+// Cards a blind nil bidder and their partner swap (BLIND_NIL_EXCHANGE_SIZE on the server)
+export const BLIND_NIL_EXCHANGE_SIZE = 2;
+
+export const SPADES_RULE_FIELDS: { key: keyof SpadesRules; label: string; min: number; max: number }[] = [
+  { key: 'bidValue', label: 'İhale başına puan', min: 1, max: 100 },
+  { key: 'overtrickValue', label: 'Fazla el puanı', min: 0, max: 10 },
+  { key: 'bagLimit', label: 'Ceza sınırı (fazla el)', min: 1, max: 50 },
+  { key: 'bagPenalty', label: 'Ceza puanı', min: 0, max: 1000 },
+  { key: 'nilValue', label: 'Nil puanı', min: 0, max: 500 },
+  { key: 'blindNilValue', label: 'Kör nil puanı', min: 0, max: 1000 },
+  { key: 'blindNilDeficit', label: 'Kör nil için geride olma farkı', min: 0, max: 1000 },
+];
+
+// Short labels for every scoring rule, or only the ones that differ from the defaults
+export function describeSpadesRules(rules: SpadesRules, onlyChanged = false): string[] {
+  const changed = (key: keyof SpadesRules) => !onlyChanged || rules[key] !== DEFAULT_SPADES_RULES[key];
+  const labels: string[] = [];
+  if (changed('bidValue')) labels.push(`İhale ×${rules.bidValue}`);
+  if (changed('overtrickValue')) labels.push(`Fazla el +${rules.overtrickValue}`);
+  if (changed('bagLimit') || changed('bagPenalty')) labels.push(`${rules.bagLimit} fazla = -${rules.bagPenalty}`);
+  if (changed('nilValue')) labels.push(`Nil ±${rules.nilValue}`);
+  if (changed('blindNilValue')) labels.push(`Kör nil ±${rules.blindNilValue}`);
+  if (changed('blindNilDeficit')) labels.push(`Kör nil: ${rules.blindNilDeficit} geride`);
+  return labels;
+}
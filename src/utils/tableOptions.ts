@@ -0,0 +1,139 @@
+import type { GameType, CreateTableOptions, HeartsVariants, SpadesVariants, KingVariants, PistiVariants, BridgeVariants } from '../types/game';
+import { DEFAULT_SPADES_RULES } from './spadesRules';
+
+// Ending score slider per game: [min, max, step] (King plays a fixed number of games,
+// Bridge a rubber or a fixed match of boards)
+export const ENDING_SCORE_RANGES: Partial<Record<GameType, [number, number, number]>> = {
+  hearts: [10, 100, 5],
+  spades: [100, 1000, 50],
+  batak: [21, 101, 10],
+  pisti: [51, 251, 50],
+};
+
+export const DEFAULT_HEARTS_VARIANTS: HeartsVariants = {
+  jackOfDiamonds: false,
+  passing: 'cycle',
+  heartsLeadAnytime: false,
+  firstTrickPoints: false,
+  moonShot: 'auto',
+};
+
+export const PASSING_LABELS: Record<HeartsVariants['passing'], string> = {
+  cycle: 'Sırayla (sol, sağ, karşı, pas yok)',
+  always: 'Her el pas',
+  none: 'Pas yok',
+};
+
+export const MOON_SHOT_LABELS: Record<HeartsVariants['moonShot'], string> = {
+  auto: 'Otomatik (kazandıranı seç)',
+  add: 'Diğerlerine +26',
+  subtract: 'Kendine -26',
+};
+
+export const DEFAULT_SPADES_VARIANTS: SpadesVariants = {
+  cutthroat: false,
+  jokers: false,
+  deucesHigh: false,
+  tenForTwoHundred: false,
+  boston: false,
+};
+
+// [checkbox label, short label for the table list]
+export const SPADES_VARIANT_LABELS: Record<keyof SpadesVariants, [string, string]> = {
+  cutthroat: ['Tekli (3 oyuncu, eşsiz)', 'Tekli'],
+  jokers: ['Jokerler en büyük koz', 'Jokerli'],
+  deucesHigh: ['Maça 2 asdan büyük', 'Maça 2 büyük'],
+  tenForTwoHundred: ['10+ ihale 200 puan', '10 = 200'],
+  boston: ['Bütün elleri alan 500 puan', 'Boston'],
+};
+
+export const DEFAULT_KING_VARIANTS: KingVariants = {
+  selectionOrder: 'dejenere',
+  penaltiesFirst: false,
+  short: false,
+  firstLead: 'selector',
+  threePlayer: false,
+};
+
+export const SELECTION_ORDER_LABELS: Record<KingVariants['selectionOrder'], string> = {
+  dejenere: 'Dejenere (seçen istediğini alır)',
+  natural: 'Sıralı (her elde 6 ceza, 4 koz)',
+};
+
+export const FIRST_LEAD_LABELS: Record<KingVariants['firstLead'], string> = {
+  selector: 'Oyunu seçen',
+  twoOfDiamonds: 'Karo 2 kimdeyse',
+  sixOfSpades: 'Maça 6 kimdeyse',
+};
+
+export const DEFAULT_PISTI_VARIANTS: PistiVariants = {
+  twoPlayer: false,
+};
+
+export const DEFAULT_BRIDGE_VARIANTS: BridgeVariants = {
+  scoring: 'rubber',
+};
+
+export const BRIDGE_SCORING_LABELS: Record<BridgeVariants['scoring'], string> = {
+  rubber: 'Robber (2 oyun alan kazanır)',
+  imp: 'IMP (8 board)',
+};
+
+// Short labels for the rules that differ from the standard game
+export function describeVariants(gameType: GameType, variants: HeartsVariants | SpadesVariants | KingVariants | PistiVariants | BridgeVariants): string[] {
+  if (gameType === 'king') {
+    const king = variants as KingVariants;
+    const labels: string[] = [];
+    if (king.threePlayer) labels.push('3 kişilik');
+    if (king.selectionOrder === 'natural') labels.push('Sıralı');
+    if (king.penaltiesFirst) labels.push('Önce cezalar');
+    if (king.short) labels.push('12 oyun');
+    if (king.firstLead === 'twoOfDiamonds') labels.push('Karo 2 başlar');
+    if (king.firstLead === 'sixOfSpades') labels.push('Maça 6 başlar');
+    return labels;
+  }
+  
+  if (gameType === 'spades') {
+    const spades = variants as SpadesVariants;
+    return (Object.keys(SPADES_VARIANT_LABELS) as (keyof SpadesVariants)[])
+      .filter(key => spades[key])
+      .map(key => SPADES_VARIANT_LABELS[key][1]);
+  }
+  
+  if (gameType === 'pisti') {
+    return (variants as PistiVariants).twoPlayer ? ['2 kişilik'] : [];
+  }
+  
+  if (gameType === 'bridge') {
+    return (variants as BridgeVariants).scoring === 'imp' ? ['IMP'] : [];
+  }
+  
+  const hearts = variants as HeartsVariants;
+  const labels: string[] = [];
+  if (hearts.jackOfDiamonds) labels.push('Karo vale -10');
+  if (hearts.passing === 'always') labels.push('Her el pas');
+  if (hearts.passing === 'none') labels.push('Pas yok');
+  if (hearts.heartsLeadAnytime) labels.push('Kupa serbest');
+  if (hearts.firstTrickPoints) labels.push('İlk elde ceza');
+  if (hearts.moonShot === 'add') labels.push('Kafa: +26');
+  if (hearts.moonShot === 'subtract') labels.push('Kafa: -26');
+  return labels;
+}
+
+// What the options form starts from when a game type is picked in the lobby
+export function getDefaultTableOptions(gameType: GameType): CreateTableOptions {
+  switch (gameType) {
+    case 'king':
+      return { variants: DEFAULT_KING_VARIANTS };
+    case 'spades':
+      return { endingScore: 300, variants: DEFAULT_SPADES_VARIANTS, rules: DEFAULT_SPADES_RULES };
+    case 'batak':
+      return { endingScore: 51 };
+    case 'pisti':
+      return { endingScore: 151, variants: DEFAULT_PISTI_VARIANTS };
+    case 'bridge':
+      return { variants: DEFAULT_BRIDGE_VARIANTS };
+    default:
+      return { endingScore: 50, variants: DEFAULT_HEARTS_VARIANTS };
+  }
+}